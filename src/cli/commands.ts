@@ -0,0 +1,190 @@
+/**
+  Copyright 2022 Dynatrace LLC
+
+  Licensed under the Apache License, Version 2.0 (the "License");
+  you may not use this file except in compliance with the License.
+  You may obtain a copy of the License at
+
+      https://www.apache.org/licenses/LICENSE-2.0
+
+  Unless required by applicable law or agreed to in writing, software
+  distributed under the License is distributed on an "AS IS" BASIS,
+  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+  See the License for the specific language governing permissions and
+  limitations under the License.
+ */
+
+/********************************************************************************
+ * COMMANDS OF THE HEADLESS CLI
+ ********************************************************************************/
+
+import { existsSync, mkdtempSync, readFileSync, rmSync } from "fs";
+import * as os from "os";
+import * as path from "path";
+import { Dynatrace } from "../dynatrace-api/dynatrace";
+import {
+  assemblePython,
+  assembleStandard,
+  checkPythonSigningKey,
+  findExtensionFile,
+  getLatestPackage,
+  getPackageFileName,
+  preBuildTasks,
+  readExtensionManifest,
+  readManifestFromPackage,
+  uploadPackage,
+  validateExtension,
+} from "../utils/extensionBuild";
+import { CliConfig, createClient, resolveCliPath } from "./config";
+
+export interface BuildOptions {
+  workspaceRoot: string;
+  forceIncrement: boolean;
+  skipValidation: boolean;
+}
+
+export interface PackageOptions {
+  workspaceRoot: string;
+  packagePath?: string;
+  activate?: boolean;
+}
+
+/**
+ * Gets an API client or fails, for commands that cannot work without an environment.
+ * @param config the CLI configuration
+ * @param workspaceRoot root directory of the extension workspace
+ * @returns API Client
+ */
+function requireClient(config: CliConfig, workspaceRoot: string): Dynatrace {
+  const dt = createClient(config, workspaceRoot);
+  if (!dt) {
+    throw new Error(
+      "No Dynatrace environment configured. Set DT_URL and DT_API_TOKEN or use a config file.",
+    );
+  }
+  return dt;
+}
+
+/**
+ * Resolves the package to work with - either the one given explicitly or the most recent
+ * one from the workspace's "dist" folder.
+ * @param options package command options
+ * @returns absolute path to the package
+ */
+function resolvePackage(options: PackageOptions): string {
+  if (options.packagePath) {
+    const packagePath = resolveCliPath(options.packagePath, process.cwd());
+    if (!existsSync(packagePath)) {
+      throw new Error(`Extension package ${packagePath} does not exist`);
+    }
+    return packagePath;
+  }
+  const distDir = path.join(options.workspaceRoot, "dist");
+  const latestPackage = getLatestPackage(distDir);
+  if (!latestPackage) {
+    throw new Error(`No extension package found in ${distDir}`);
+  }
+  return path.join(distDir, latestPackage);
+}
+
+/**
+ * Builds the extension found in the workspace into a signed package in the "dist" folder.
+ * If an environment is configured, the version is incremented on conflicts and the package
+ * is validated against it, unless validation is skipped.
+ * @param config the CLI configuration
+ * @param options build options
+ * @returns path to the built package
+ */
+export async function build(config: CliConfig, options: BuildOptions): Promise<string> {
+  const extensionFile = findExtensionFile(options.workspaceRoot);
+  if (!extensionFile) {
+    throw new Error(`No extension/extension.yaml found in ${options.workspaceRoot}`);
+  }
+  const manifest = readExtensionManifest(extensionFile);
+  if (!manifest) {
+    throw new Error(`Could not read extension name and version from ${extensionFile}`);
+  }
+  if (!config.developerCertkeyLocation) {
+    throw new Error(
+      "No developer certificate configured. Set DT_CERTKEY_LOCATION or use a config file.",
+    );
+  }
+  const devCertKey = resolveCliPath(config.developerCertkeyLocation, options.workspaceRoot);
+  const isPython = /^python:$/gm.test(manifest.content);
+  if (isPython) {
+    // Fail before the version gets incremented
+    checkPythonSigningKey(devCertKey);
+  }
+  const dt = createClient(config, options.workspaceRoot);
+  const extensionDir = path.resolve(extensionFile, "..");
+  const distDir = path.resolve(options.workspaceRoot, "dist");
+  const workDir = mkdtempSync(path.join(os.tmpdir(), "dt-ext-"));
+
+  try {
+    const version = await preBuildTasks(
+      distDir,
+      extensionFile,
+      manifest.content,
+      manifest.name,
+      manifest.version,
+      options.forceIncrement,
+      dt,
+    );
+    if (version !== manifest.version) {
+      console.log(`Extension version automatically increased to ${version}`);
+    }
+
+    const zipFileName = getPackageFileName(manifest.name, version);
+    if (isPython) {
+      await assemblePython(workDir, extensionDir, devCertKey);
+    } else {
+      assembleStandard(
+        workDir,
+        extensionDir,
+        zipFileName,
+        devCertKey,
+        config.developerCertkeyPassphrase,
+      );
+    }
+
+    await validateExtension(workDir, zipFileName, distDir, options.skipValidation ? undefined : dt);
+    return path.join(distDir, zipFileName);
+  } finally {
+    rmSync(workDir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Validates an extension package against the configured environment without uploading it.
+ * @param config the CLI configuration
+ * @param options package options
+ * @returns path to the validated package
+ */
+export async function validate(config: CliConfig, options: PackageOptions): Promise<string> {
+  const dt = requireClient(config, options.workspaceRoot);
+  const packagePath = resolvePackage(options);
+  await dt.extensionsV2.upload(readFileSync(packagePath), true);
+  return packagePath;
+}
+
+/**
+ * Uploads an extension package to the configured environment and optionally activates it.
+ * If the maximum number of versions is reached, the oldest (or newest) one is removed.
+ * @param config the CLI configuration
+ * @param options package options
+ * @returns name and version of the uploaded extension
+ */
+export async function upload(
+  config: CliConfig,
+  options: PackageOptions,
+): Promise<{ name: string; version: string }> {
+  const dt = requireClient(config, options.workspaceRoot);
+  const packagePath = resolvePackage(options);
+  const extension = readManifestFromPackage(packagePath);
+
+  await uploadPackage(readFileSync(packagePath), extension.name, dt);
+  if (options.activate) {
+    await dt.extensionsV2.putEnvironmentConfiguration(extension.name, extension.version);
+  }
+  return { name: extension.name, version: extension.version };
+}
@@ -0,0 +1,161 @@
+/**
+  Copyright 2022 Dynatrace LLC
+
+  Licensed under the Apache License, Version 2.0 (the "License");
+  you may not use this file except in compliance with the License.
+  You may obtain a copy of the License at
+
+      https://www.apache.org/licenses/LICENSE-2.0
+
+  Unless required by applicable law or agreed to in writing, software
+  distributed under the License is distributed on an "AS IS" BASIS,
+  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+  See the License for the specific language governing permissions and
+  limitations under the License.
+ */
+
+/********************************************************************************
+ * ARGUMENT AND CONFIGURATION HANDLING FOR THE HEADLESS CLI
+ ********************************************************************************/
+
+import { existsSync, readFileSync } from "fs";
+import * as os from "os";
+import * as path from "path";
+import { Dynatrace } from "../dynatrace-api/dynatrace";
+import { configureHttpClients, getEnvironmentNoProxy } from "../dynatrace-api/http_client";
+
+/** Name of the config file looked up in the workspace root if --config is not given */
+const DEFAULT_CONFIG_FILE = ".dt-ext.json";
+/** Flags that never take a value */
+const BOOLEAN_FLAGS = ["activate", "force-increment", "skip-validation", "help"];
+
+export interface CliArgs {
+  command?: string;
+  positional: string[];
+  flags: Record<string, string | boolean>;
+}
+
+export interface CliConfig {
+  url?: string;
+  apiUrl?: string;
+  token?: string;
+  developerCertkeyLocation?: string;
+  developerCertkeyPassphrase?: string;
+  proxy?: string;
+  noProxy?: string[];
+  caBundleLocation?: string;
+}
+
+/**
+ * Parses the raw process arguments into a command, positional arguments and flags.
+ * Flags are given as `--name value` or `--name=value`; boolean flags take no value.
+ * @param argv arguments without the node executable and script path
+ * @returns parsed arguments
+ */
+export function parseArgs(argv: string[]): CliArgs {
+  const positional: string[] = [];
+  const flags: Record<string, string | boolean> = {};
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith("--")) {
+      positional.push(arg);
+      continue;
+    }
+    const separatorIdx = arg.indexOf("=");
+    if (separatorIdx !== -1) {
+      flags[arg.substring(2, separatorIdx)] = arg.substring(separatorIdx + 1);
+      continue;
+    }
+    const name = arg.substring(2);
+    if (BOOLEAN_FLAGS.includes(name)) {
+      flags[name] = true;
+    } else {
+      if (i + 1 >= argv.length) {
+        throw new Error(`Flag --${name} requires a value`);
+      }
+      flags[name] = argv[++i];
+    }
+  }
+
+  const [command, ...rest] = positional;
+  return { command, positional: rest, flags };
+}
+
+/**
+ * Resolves paths the same way a user would expect from a shell: `~` is the home directory
+ * and anything relative is relative to the given base directory.
+ * @param pathToResolve path as given by the user
+ * @param baseDir directory relative paths are resolved against
+ * @returns absolute path
+ */
+export function resolveCliPath(pathToResolve: string, baseDir: string): string {
+  if (pathToResolve === "~" || pathToResolve.startsWith(`~${path.sep}`)) {
+    return path.join(os.homedir(), pathToResolve.substring(1));
+  }
+  return path.resolve(baseDir, pathToResolve);
+}
+
+/**
+ * Loads the CLI configuration. Values are read from the config file (either the one given
+ * via --config or .dt-ext.json in the workspace root) and then overridden by environment
+ * variables: DT_URL, DT_API_URL, DT_API_TOKEN, DT_CERTKEY_LOCATION, DT_CERTKEY_PASSPHRASE,
+ * DT_PROXY (falling back to HTTPS_PROXY and HTTP_PROXY) and DT_CA_BUNDLE. Hosts listed in
+ * NO_PROXY are added to the ones that bypass the proxy.
+ * @param workspaceRoot root directory of the extension workspace
+ * @param configFile optional path to a config file
+ * @returns the merged configuration
+ */
+export function loadConfig(workspaceRoot: string, configFile?: string): CliConfig {
+  let fileConfig: CliConfig = {};
+  const configPath = configFile
+    ? resolveCliPath(configFile, process.cwd())
+    : path.join(workspaceRoot, DEFAULT_CONFIG_FILE);
+
+  if (existsSync(configPath)) {
+    fileConfig = JSON.parse(readFileSync(configPath).toString()) as CliConfig;
+  } else if (configFile) {
+    throw new Error(`Config file ${configPath} does not exist`);
+  }
+
+  return {
+    url: process.env.DT_URL ?? fileConfig.url,
+    apiUrl: process.env.DT_API_URL ?? fileConfig.apiUrl,
+    token: process.env.DT_API_TOKEN ?? fileConfig.token,
+    developerCertkeyLocation:
+      process.env.DT_CERTKEY_LOCATION ?? fileConfig.developerCertkeyLocation,
+    developerCertkeyPassphrase:
+      process.env.DT_CERTKEY_PASSPHRASE ?? fileConfig.developerCertkeyPassphrase,
+    proxy:
+      process.env.DT_PROXY ??
+      fileConfig.proxy ??
+      process.env.HTTPS_PROXY ??
+      process.env.https_proxy ??
+      process.env.HTTP_PROXY ??
+      process.env.http_proxy,
+    noProxy: [...(fileConfig.noProxy ?? []), ...getEnvironmentNoProxy()],
+    caBundleLocation: process.env.DT_CA_BUNDLE ?? fileConfig.caBundleLocation,
+  };
+}
+
+/**
+ * Creates a Dynatrace API Client from the configuration, if it holds environment details.
+ * The proxy and CA bundle of the configuration apply to all requests made by the client.
+ * @param config the CLI configuration
+ * @param workspaceRoot directory a relative CA bundle path is resolved against
+ * @returns API Client or undefined if no environment is configured
+ */
+export function createClient(config: CliConfig, workspaceRoot: string): Dynatrace | undefined {
+  const url = config.apiUrl ?? config.url;
+  if (!url || !config.token) {
+    return undefined;
+  }
+  configureHttpClients({
+    proxy: config.proxy,
+    noProxy: config.noProxy,
+    ca: config.caBundleLocation
+      ? readFileSync(resolveCliPath(config.caBundleLocation, workspaceRoot)).toString()
+      : undefined,
+  });
+  return new Dynatrace(url.replace(/\/$/, ""), config.token);
+}
@@ -0,0 +1,115 @@
+/**
+  Copyright 2022 Dynatrace LLC
+
+  Licensed under the Apache License, Version 2.0 (the "License");
+  you may not use this file except in compliance with the License.
+  You may obtain a copy of the License at
+
+      https://www.apache.org/licenses/LICENSE-2.0
+
+  Unless required by applicable law or agreed to in writing, software
+  distributed under the License is distributed on an "AS IS" BASIS,
+  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+  See the License for the specific language governing permissions and
+  limitations under the License.
+ */
+
+/********************************************************************************
+ * ENTRY POINT OF THE HEADLESS CLI (dt-ext)
+ * Runs the same build, validate and upload workflows as the VS Code commands,
+ * for use in CI pipelines. Must never import anything that requires "vscode".
+ ********************************************************************************/
+
+import { DynatraceAPIError } from "../dynatrace-api/errors";
+import { build, upload, validate } from "./commands";
+import { loadConfig, parseArgs, resolveCliPath } from "./config";
+
+const USAGE = `\
+Usage: dt-ext <command> [options]
+
+Commands:
+  build                 Build and sign the extension in the workspace
+  validate [package]    Validate a package (default: latest in dist) against the environment
+  upload [package]      Upload a package (default: latest in dist) to the environment
+
+Options:
+  --workspace <dir>     Root of the extension workspace (default: current directory)
+  --config <file>       Config file (default: <workspace>/.dt-ext.json)
+  --force-increment     build: always increment the extension version
+  --skip-validation     build: do not validate the package against the environment
+  --activate            upload: activate the uploaded version
+  --help                Show this message
+
+Environment variables override the config file:
+  DT_URL, DT_API_URL, DT_API_TOKEN, DT_CERTKEY_LOCATION, DT_CERTKEY_PASSPHRASE,
+  DT_PROXY (default: HTTPS_PROXY/HTTP_PROXY, honouring NO_PROXY), DT_CA_BUNDLE
+`;
+
+/**
+ * Runs the CLI with the given arguments.
+ * @param argv arguments without the node executable and script path
+ * @returns process exit code
+ */
+async function main(argv: string[]): Promise<number> {
+  const args = parseArgs(argv);
+  if (args.flags.help || !args.command) {
+    console.log(USAGE);
+    return args.command || args.flags.help ? 0 : 1;
+  }
+
+  const workspaceRoot = resolveCliPath(
+    typeof args.flags.workspace === "string" ? args.flags.workspace : ".",
+    process.cwd(),
+  );
+  const config = loadConfig(
+    workspaceRoot,
+    typeof args.flags.config === "string" ? args.flags.config : undefined,
+  );
+  const packageOptions = {
+    workspaceRoot,
+    packagePath: args.positional[0],
+    activate: Boolean(args.flags.activate),
+  };
+
+  switch (args.command) {
+    case "build": {
+      const packagePath = await build(config, {
+        workspaceRoot,
+        forceIncrement: Boolean(args.flags["force-increment"]),
+        skipValidation: Boolean(args.flags["skip-validation"]),
+      });
+      console.log(`Extension built successfully: ${packagePath}`);
+      return 0;
+    }
+    case "validate": {
+      const packagePath = await validate(config, packageOptions);
+      console.log(`Extension package is valid: ${packagePath}`);
+      return 0;
+    }
+    case "upload": {
+      const { name, version } = await upload(config, packageOptions);
+      console.log(
+        `Extension ${name} version ${version} uploaded${
+          packageOptions.activate ? " and activated" : ""
+        } successfully`,
+      );
+      return 0;
+    }
+    default:
+      console.error(`Unknown command: ${args.command}\n`);
+      console.error(USAGE);
+      return 1;
+  }
+}
+
+main(process.argv.slice(2))
+  .then(code => {
+    process.exitCode = code;
+  })
+  .catch((err: unknown) => {
+    console.error((err as Error).message);
+    if (err instanceof DynatraceAPIError) {
+      console.error(JSON.stringify(err.errorParams, null, 2));
+    }
+    process.exitCode = 1;
+  });
@@ -15,6 +15,7 @@
  */
 
 import * as vscode from "vscode";
+import { toDynatraceUnit } from "../codeLens/utils/prometheusParsing";
 import { ExtensionStub } from "../interfaces/extensionMeta";
 import { CachedDataConsumer } from "../utils/dataCaching";
 
@@ -276,6 +277,7 @@ export class PrometheusActionProvider
               String(this.prometheusData[promKey].description),
               -2,
               false,
+              toDynatraceUnit(this.prometheusData[promKey].unit),
             );
           })
           .join("\n"),
@@ -299,6 +301,7 @@ export class PrometheusActionProvider
             String(this.prometheusData[promKey].description),
             -2,
             false,
+            toDynatraceUnit(this.prometheusData[promKey].unit),
           ),
           document,
           range,
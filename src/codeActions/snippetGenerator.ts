@@ -15,6 +15,7 @@
  */
 
 import * as vscode from "vscode";
+import * as yaml from "yaml";
 import {
   AttributeProperty,
   ExtensionStub,
@@ -33,7 +34,13 @@ import {
   getMetricKeysFromEntitiesListCard,
   getRelationships,
 } from "../utils/extensionParsing";
-import { getBlockItemIndexAtLine, getIndent, getParentBlocks } from "../utils/yamlParsing";
+import {
+  addYamlListEntries,
+  getBlockItemIndexAtLine,
+  getIndent,
+  getParentBlocks,
+  getYamlPathAtLine,
+} from "../utils/yamlParsing";
 import {
   buildAttributePropertySnippet,
   buildChartCardSnippet,
@@ -201,7 +208,9 @@ export class SnippetGenerator extends CachedDataConsumer implements vscode.CodeA
   }
 
   /**
-   * Creates a Code Action that inserts a snippet of text on the next line at index 0.
+   * Creates a Code Action that inserts a snippet of text. Snippets of list entries are added to
+   * the end of the list found on the triggering line, with the list's own indentation. Any other
+   * snippet (or any document that can't be parsed) gets inserted on the next line at index 0.
    * @param actionName name of the Code Action
    * @param textToInsert the snippet to insert
    * @param document the document that triggered the action
@@ -214,13 +223,30 @@ export class SnippetGenerator extends CachedDataConsumer implements vscode.CodeA
     document: vscode.TextDocument,
     range: vscode.Range,
   ): vscode.CodeAction {
+    const action = new vscode.CodeAction(actionName, vscode.CodeActionKind.QuickFix);
+    const edit = new vscode.WorkspaceEdit();
+    action.edit = edit;
+
+    try {
+      const listPath = getYamlPathAtLine(document.getText(), range.start.line);
+      const entries: unknown = yaml.parse(textToInsert);
+      if (listPath && Array.isArray(entries)) {
+        addYamlListEntries(document.getText(), listPath, entries).forEach(yamlEdit => {
+          const start = document.positionAt(yamlEdit.offset);
+          const end = document.positionAt(yamlEdit.offset + yamlEdit.length);
+          edit.replace(document.uri, new vscode.Range(start, end), yamlEdit.text);
+        });
+        return action;
+      }
+    } catch {
+      // Fall back to inserting the snippet as text
+    }
+
     if (document.lineCount === range.start.line + 1) {
       textToInsert = "\n" + textToInsert;
     }
     const insertPosition = new vscode.Position(range.start.line + 1, 0);
-    const action = new vscode.CodeAction(actionName, vscode.CodeActionKind.QuickFix);
-    action.edit = new vscode.WorkspaceEdit();
-    action.edit.insert(document.uri, insertPosition, textToInsert);
+    edit.insert(document.uri, insertPosition, textToInsert);
     return action;
   }
 
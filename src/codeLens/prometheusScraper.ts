@@ -15,17 +15,17 @@
  */
 
 import { readFileSync } from "fs";
-import axios from "axios";
+import axios, { AxiosRequestConfig } from "axios";
 import * as vscode from "vscode";
 import { showMessage } from "../utils/code";
 import { CachedData, CachedDataProducer } from "../utils/dataCaching";
-
-export type PromData = Record<string, PromDetails>;
-type PromDetails = {
-  type?: string;
-  dimensions?: string[];
-  description?: string;
-};
+import { PrometheusMockServer } from "./utils/prometheusMock";
+import {
+  isProtobufExposition,
+  parseProtobufExposition,
+  parseTextExposition,
+  PROMETHEUS_ACCEPT_HEADER,
+} from "./utils/prometheusParsing";
 type PromAuth = "No authentication" | "Bearer token" | "Username & password" | "AWS key";
 type ScrapingMethod = "Endpoint" | "File";
 
@@ -49,14 +49,17 @@ export class PrometheusCodeLensProvider
   private promPassword: string | undefined;
   private promAccessKey: string | undefined;
   private promSecretKey: string | undefined;
+  private readonly mockServer: PrometheusMockServer;
   private _onDidChangeCodeLenses: vscode.EventEmitter<void> = new vscode.EventEmitter<void>();
   public readonly onDidChangeCodeLenses: vscode.Event<void> = this._onDidChangeCodeLenses.event;
 
   /**
    * @param cachedDataProvider provider of cacheable data
+   * @param mockServer local Prometheus mock endpoint, suggested as URL while running
    */
-  constructor(cachedData: CachedData) {
+  constructor(cachedData: CachedData, mockServer: PrometheusMockServer) {
     super(cachedData);
+    this.mockServer = mockServer;
     this.codeLenses = [];
     this.regex = /^(prometheus:)/gm;
     vscode.commands.registerCommand(
@@ -175,6 +178,7 @@ export class PrometheusCodeLensProvider
           title: "Scrape data - endpoint URL",
           placeHolder: "Enter your full metrics endpoint URL",
           prompt: "Mandatory",
+          value: this.promUrl ?? this.mockServer.url,
           ignoreFocusOut: true,
         });
         if (!this.promUrl) {
@@ -273,44 +277,46 @@ export class PrometheusCodeLensProvider
     }
     try {
       switch (this.method) {
-        case "Endpoint":
+        case "Endpoint": {
+          if (!this.promUrl) {
+            return false;
+          }
+          const requestConfig: AxiosRequestConfig = {
+            responseType: "arraybuffer",
+            headers: { Accept: PROMETHEUS_ACCEPT_HEADER },
+          };
           switch (this.promAuth) {
             case "No authentication":
-              await axios.get(this.promUrl).then(res => {
-                this.processPrometheusData(res.data as string);
-              });
-              return true;
+              break;
             case "Username & password":
               if (!this.promUsername || !this.promPassword) {
                 return false;
               }
-              await axios
-                .get(this.promUrl, {
-                  auth: { username: this.promUsername, password: this.promPassword },
-                })
-                .then(res => {
-                  this.processPrometheusData(res.data as string);
-                });
-              return true;
+              requestConfig.auth = { username: this.promUsername, password: this.promPassword };
+              break;
             case "Bearer token":
               if (!this.promToken) {
                 return false;
               }
-              await axios
-                .get(this.promUrl, { headers: { Authorization: `Bearer ${this.promToken}` } })
-                .then(res => {
-                  this.processPrometheusData(res.data as string);
-                });
-              return true;
+              requestConfig.headers = {
+                ...requestConfig.headers,
+                Authorization: `Bearer ${this.promToken}`,
+              };
+              break;
             default:
               return false;
           }
+          await axios.get<ArrayBuffer>(this.promUrl, requestConfig).then(res => {
+            this.processPrometheusData(Buffer.from(res.data), res.headers["content-type"]);
+          });
+          return true;
+        }
         case "File":
           if (!this.promFile) {
             return false;
           }
           try {
-            const data = readFileSync(this.promFile, "utf-8");
+            const data = readFileSync(this.promFile);
             this.processPrometheusData(data);
             return true;
           } catch (err) {
@@ -325,60 +331,17 @@ export class PrometheusCodeLensProvider
   }
 
   /**
-   * Processes raw Prometheus data line by line and extracts the details relevant
-   * for Extensions 2.0. The data is cached with a cached data provider for access
-   * in other parts of the VSCode extension.
-   * @param data raw data from a Prometheus Endpoint
+   * Processes raw Prometheus data and extracts the details relevant for Extensions 2.0.
+   * The classic text format, OpenMetrics and the delimited protobuf format are supported.
+   * The data is cached with a cached data provider for access in other parts of the VSCode
+   * extension.
+   * @param data raw data from a Prometheus Endpoint or file
+   * @param contentType content type the data was served with (for endpoints)
    */
-  private processPrometheusData(data: string) {
-    const scrapedMetrics: PromData = {};
-    data
-      .trim()
-      .split("\n")
-      .forEach(line => {
-        // # HELP defines description of a metric
-        if (line.startsWith("# HELP")) {
-          const key = line.split("# HELP ")[1].split(" ")[0];
-          const description = line.split(`${key} `)[1];
-          if (!(key in scrapedMetrics)) {
-            scrapedMetrics[key] = {} as PromDetails;
-          }
-          scrapedMetrics[key].description = description;
-          // # TYPE defines type of a metric
-        } else if (line.startsWith("# TYPE")) {
-          const key = line.split("# TYPE ")[1].split(" ")[0];
-          let type = line.split(`${key} `)[1];
-          if (type === "counter") {
-            type = "count";
-          }
-          if (!(key in scrapedMetrics)) {
-            scrapedMetrics[key] = {} as PromDetails;
-          }
-          scrapedMetrics[key].type = type;
-          // Any other line contains dimensions and the value
-        } else {
-          const [key, dimensionsStr] = line.split(line.includes("{") ? "{" : " ");
-          if (!(key in scrapedMetrics)) {
-            scrapedMetrics[key] = {} as PromDetails;
-          }
-          // make sure lines without dimensions have the correct keys
-          // if line includes dimensions, find them
-          if (dimensionsStr.includes("}")) {
-            const dimensions = dimensionsStr.slice(0, dimensionsStr.length - 1);
-            dimensions.split(",").forEach(dimension => {
-              if (dimension.includes("=")) {
-                if (!("dimensions" in scrapedMetrics[key])) {
-                  scrapedMetrics[key].dimensions = [];
-                }
-                const dKey = dimension.split("=")[0];
-                if (!scrapedMetrics[key].dimensions?.includes(dKey)) {
-                  scrapedMetrics[key].dimensions?.push(dKey);
-                }
-              }
-            });
-          }
-        }
-      });
+  private processPrometheusData(data: Buffer, contentType?: string) {
+    const scrapedMetrics = isProtobufExposition(data, contentType)
+      ? parseProtobufExposition(data)
+      : parseTextExposition(data.toString("utf-8"));
     this.cachedData.setPrometheusData(scrapedMetrics);
   }
 }
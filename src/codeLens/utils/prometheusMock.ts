@@ -0,0 +1,183 @@
+/**
+  Copyright 2022 Dynatrace LLC
+
+  Licensed under the Apache License, Version 2.0 (the "License");
+  you may not use this file except in compliance with the License.
+  You may obtain a copy of the License at
+
+      https://www.apache.org/licenses/LICENSE-2.0
+
+  Unless required by applicable law or agreed to in writing, software
+  distributed under the License is distributed on an "AS IS" BASIS,
+  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+  See the License for the specific language governing permissions and
+  limitations under the License.
+ */
+
+import { readFileSync } from "fs";
+import * as http from "http";
+import { AddressInfo } from "net";
+import { parseSeries } from "./prometheusParsing";
+
+export interface PrometheusMockOptions {
+  file: string;
+  port: number;
+  drift: number;
+}
+
+const COUNTER_SUFFIXES = ["_total", "_count", "_sum", "_bucket"];
+
+/**
+ * Checks whether a sample's value only ever increases, based on the type of its metric family.
+ * @param name metric name of the sample
+ * @param types types of all metric families, by family name
+ * @returns true if the value is monotonically increasing, false otherwise
+ */
+function isMonotonic(name: string, types: Map<string, string>): boolean {
+  if (types.get(name) === "counter") {
+    return true;
+  }
+  const suffix = COUNTER_SUFFIXES.find(s => name.endsWith(s));
+  if (!suffix) {
+    return false;
+  }
+  const familyType = types.get(name.slice(0, -suffix.length));
+  return (
+    familyType === "counter" ||
+    ((familyType === "histogram" || familyType === "summary") && suffix !== "_total")
+  );
+}
+
+/**
+ * Applies synthetic drift to the sample values of a Prometheus exposition. Counters (including
+ * the counts, sums and buckets of histograms and summaries) keep increasing with every scrape,
+ * while all other values fluctuate randomly around their recorded value. Drift is relative to the
+ * recorded value but at least 1, so that values recorded as 0 change too.
+ * @param exposition Prometheus exposition text
+ * @param drift relative drift to apply (e.g. 0.05 for 5%). 0 returns the exposition unchanged.
+ * @param scrapeCount number of scrapes served so far, used for increasing counters
+ * @param random source of random numbers between 0 and 1
+ * @returns exposition text with drifted values
+ */
+export function applyValueDrift(
+  exposition: string,
+  drift: number,
+  scrapeCount: number,
+  random: () => number = Math.random,
+): string {
+  if (drift === 0) {
+    return exposition;
+  }
+  const types = new Map<string, string>();
+
+  return exposition
+    .split("\n")
+    .map(line => {
+      const typeMatch = /^#\s*TYPE\s+(\S+)\s+(\S+)/.exec(line);
+      if (typeMatch) {
+        types.set(typeMatch[1], typeMatch[2]);
+      }
+      if (line.trim() === "" || line.startsWith("#")) {
+        return line;
+      }
+
+      const series = parseSeries(line);
+      // Creation timestamps (OpenMetrics) must not change
+      if (!series || series.name.endsWith("_created")) {
+        return line;
+      }
+      const [valueStr, ...rest] = line.slice(series.end).trim().split(/\s+/);
+      const value = Number(valueStr);
+      if (!Number.isFinite(value)) {
+        return line;
+      }
+
+      const scale = Math.max(Math.abs(value), 1);
+      let newValue = isMonotonic(series.name, types)
+        ? value + drift * scrapeCount * scale
+        : value + drift * (2 * random() - 1) * scale;
+      if (Number.isInteger(value)) {
+        newValue = Math.round(newValue);
+      }
+      return [line.slice(0, series.end), String(newValue), ...rest].join(" ");
+    })
+    .join("\n");
+}
+
+/**
+ * A local HTTP server that serves a recorded Prometheus exposition file on /metrics, as if it
+ * were a real exporter. The file is read on every request so that edits are picked up, and
+ * values can optionally drift between scrapes to simulate live data.
+ */
+export class PrometheusMockServer {
+  private server: http.Server | undefined;
+  private options: PrometheusMockOptions | undefined;
+  private scrapeCount = 0;
+
+  /**
+   * URL of the metrics endpoint if the server is running, undefined otherwise.
+   */
+  public get url(): string | undefined {
+    if (!this.server?.listening) {
+      return undefined;
+    }
+    return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}/metrics`;
+  }
+
+  /**
+   * Starts serving the given file. A server that is already running is stopped first.
+   * @param options file to serve, port to listen on (0 for any free port) and value drift
+   * @returns URL of the metrics endpoint
+   */
+  public async start(options: PrometheusMockOptions): Promise<string> {
+    await this.stop();
+    // Fail early if the file can't be read
+    readFileSync(options.file, "utf-8");
+    this.options = options;
+    this.scrapeCount = 0;
+
+    const server = http.createServer((req, res) => this.handleRequest(req, res));
+    await new Promise<void>((resolve, reject) => {
+      server.once("error", reject);
+      server.listen(options.port, "127.0.0.1", () => {
+        server.off("error", reject);
+        resolve();
+      });
+    });
+    this.server = server;
+    return `http://127.0.0.1:${(server.address() as AddressInfo).port}/metrics`;
+  }
+
+  /**
+   * Stops the server, if running.
+   */
+  public async stop(): Promise<void> {
+    const server = this.server;
+    this.server = undefined;
+    if (server) {
+      await new Promise<void>(resolve => server.close(() => resolve()));
+    }
+  }
+
+  /**
+   * Serves the exposition on /metrics and responds with 404 on any other path.
+   * @param req incoming request
+   * @param res server response
+   */
+  private handleRequest(req: http.IncomingMessage, res: http.ServerResponse) {
+    const options = this.options;
+    if (!options || (req.url ?? "/").split("?")[0] !== "/metrics") {
+      res.writeHead(404).end();
+      return;
+    }
+    try {
+      const exposition = readFileSync(options.file, "utf-8");
+      const body = applyValueDrift(exposition, options.drift, this.scrapeCount++);
+      res.writeHead(200, { "Content-Type": "text/plain; version=0.0.4; charset=utf-8" });
+      res.end(body);
+    } catch (err) {
+      res.writeHead(500, { "Content-Type": "text/plain" });
+      res.end((err as Error).message);
+    }
+  }
+}
@@ -0,0 +1,433 @@
+/**
+  Copyright 2022 Dynatrace LLC
+
+  Licensed under the Apache License, Version 2.0 (the "License");
+  you may not use this file except in compliance with the License.
+  You may obtain a copy of the License at
+
+      https://www.apache.org/licenses/LICENSE-2.0
+
+  Unless required by applicable law or agreed to in writing, software
+  distributed under the License is distributed on an "AS IS" BASIS,
+  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+  See the License for the specific language governing permissions and
+  limitations under the License.
+ */
+
+/********************************************************************************
+ * UTILITIES FOR PARSING PROMETHEUS EXPOSITIONS (TEXT, OPENMETRICS AND PROTOBUF)
+ ********************************************************************************/
+
+export type PromData = Record<string, PromDetails>;
+export type PromDetails = {
+  type?: string;
+  dimensions?: string[];
+  description?: string;
+  unit?: string;
+};
+
+interface MetricFamily {
+  type?: string;
+  help?: string;
+  unit?: string;
+}
+
+interface Sample {
+  name: string;
+  labels: string[];
+}
+
+interface ProtoField {
+  field: number;
+  value: number | Buffer;
+}
+
+/**
+ * Media type of the delimited protobuf exposition format.
+ */
+export const PROTOBUF_MEDIA_TYPE = "application/vnd.google.protobuf";
+
+/**
+ * Accept header for scraping, preferring OpenMetrics, then protobuf, then the classic text format.
+ */
+export const PROMETHEUS_ACCEPT_HEADER =
+  "application/openmetrics-text;version=1.0.0," +
+  `${PROTOBUF_MEDIA_TYPE};proto=io.prometheus.client.MetricFamily;encoding=delimited;q=0.7,` +
+  "text/plain;version=0.0.4;q=0.5,*/*;q=0.1";
+
+// Suffixes of samples belonging to a metric family with a different name
+const SAMPLE_SUFFIXES = ["_total", "_created", "_count", "_sum", "_bucket", "_gcount", "_gsum"];
+// Suffixes of samples which count observations, and therefore have no unit
+const UNITLESS_SUFFIXES = ["_count", "_bucket", "_gcount"];
+// Prometheus base units and their equivalent Dynatrace metric unit
+const UNITS: Record<string, string> = {
+  seconds: "Second",
+  milliseconds: "MilliSecond",
+  microseconds: "MicroSecond",
+  nanoseconds: "NanoSecond",
+  bytes: "Byte",
+  bits: "Bit",
+  ratio: "Ratio",
+  percent: "Percent",
+};
+// Metric types of the protobuf format, by enum value
+const PROTO_TYPES = ["counter", "gauge", "summary", "untyped", "histogram", "gaugehistogram"];
+
+/**
+ * Converts a Prometheus unit to the equivalent Dynatrace metric unit.
+ * @param unit Prometheus unit (e.g. "seconds")
+ * @returns Dynatrace unit, or "Unspecified" if there's no equivalent
+ */
+export function toDynatraceUnit(unit: string | undefined): string {
+  return unit && unit in UNITS ? UNITS[unit] : "Unspecified";
+}
+
+/**
+ * Parses the metric name and label names at the start of a sample line. Label values are
+ * allowed to contain any characters (including braces and commas) as long as they're quoted.
+ * @param line sample line from a text exposition
+ * @returns metric name, label names, and the index where the value starts; or undefined if the
+ * line isn't a valid sample
+ */
+export function parseSeries(
+  line: string,
+): { name: string; labels: string[]; end: number } | undefined {
+  const nameMatch = /^[a-zA-Z_:][a-zA-Z0-9_:]*/.exec(line);
+  if (!nameMatch) {
+    return undefined;
+  }
+  const name = nameMatch[0];
+  const labels: string[] = [];
+  let idx = name.length;
+
+  if (line[idx] === "{") {
+    idx++;
+    for (;;) {
+      while (line[idx] === " " || line[idx] === ",") {
+        idx++;
+      }
+      if (line[idx] === "}") {
+        idx++;
+        break;
+      }
+      const labelMatch = /^([a-zA-Z_][a-zA-Z0-9_]*)\s*=\s*"/.exec(line.slice(idx));
+      if (!labelMatch) {
+        return undefined;
+      }
+      labels.push(labelMatch[1]);
+      idx += labelMatch[0].length;
+      // Skip over the label value, minding escaped characters
+      while (idx < line.length && line[idx] !== '"') {
+        idx += line[idx] === "\\" ? 2 : 1;
+      }
+      if (idx >= line.length) {
+        return undefined;
+      }
+      idx++;
+    }
+  }
+
+  return { name, labels, end: idx };
+}
+
+/**
+ * Finds the metric family a sample belongs to. Samples of counters, histograms and summaries
+ * can have a suffix added to the family name (e.g. "_total", "_bucket").
+ * @param name metric name of the sample
+ * @param families all known metric families
+ * @returns name of the family (if known) and suffix of the sample
+ */
+function resolveFamily(
+  name: string,
+  families: Map<string, MetricFamily>,
+): { family?: string; suffix: string } {
+  if (families.has(name)) {
+    return { family: name, suffix: "" };
+  }
+  for (const suffix of SAMPLE_SUFFIXES) {
+    const familyName = name.slice(0, -suffix.length);
+    if (name.endsWith(suffix) && families.has(familyName)) {
+      return { family: familyName, suffix };
+    }
+  }
+  return { suffix: "" };
+}
+
+/**
+ * Works out the Dynatrace metric type ("count" or "gauge") of a sample.
+ * @param name metric name of the sample
+ * @param familyType type of the sample's metric family (if known)
+ * @param suffix suffix of the sample, relative to the family name
+ * @returns metric type
+ */
+function sampleType(name: string, familyType: string | undefined, suffix: string): string {
+  switch (familyType) {
+    case "counter":
+      return "count";
+    case "gauge":
+    case "gaugehistogram":
+    case "info":
+    case "stateset":
+      return "gauge";
+    case "histogram":
+    case "summary":
+      // Quantiles are exposed without suffix, while counts, sums and buckets accumulate
+      return suffix === "" ? "gauge" : "count";
+    default:
+      return /_(total|count)$/.test(name) ? "count" : "gauge";
+  }
+}
+
+/**
+ * Finds the unit of a sample, either as declared for its family or from the unit suffix of its
+ * name (e.g. "http_request_duration_seconds_sum").
+ * @param name metric name of the sample
+ * @param family the sample's metric family (if known)
+ * @param suffix suffix of the sample, relative to the family name
+ * @returns Prometheus unit, if any
+ */
+function sampleUnit(name: string, family: MetricFamily | undefined, suffix: string) {
+  if (UNITLESS_SUFFIXES.includes(suffix)) {
+    return undefined;
+  }
+  if (family?.unit) {
+    return family.unit;
+  }
+  const baseName = name.replace(/_(total|sum|gsum)$/, "");
+  return Object.keys(UNITS).find(unit => baseName.endsWith(`_${unit}`));
+}
+
+/**
+ * Builds the details of all metrics from parsed families and samples. Metrics are keyed by
+ * sample name, since that's what extensions reference; "_created" samples are skipped as they
+ * only hold timestamps.
+ * @param families metric families, by name
+ * @param samples all samples
+ * @returns scraped metric details
+ */
+function buildPromData(families: Map<string, MetricFamily>, samples: Sample[]): PromData {
+  const promData: PromData = {};
+  samples.forEach(({ name, labels }) => {
+    const { family: familyName, suffix } = resolveFamily(name, families);
+    if (suffix === "_created") {
+      return;
+    }
+    if (!(name in promData)) {
+      const family = familyName ? families.get(familyName) : undefined;
+      promData[name] = { type: sampleType(name, family?.type, suffix) };
+      if (family?.help) {
+        promData[name].description = family.help;
+      }
+      const unit = sampleUnit(name, family, suffix);
+      if (unit) {
+        promData[name].unit = unit;
+      }
+    }
+    labels.forEach(label => {
+      const dimensions = promData[name].dimensions ?? [];
+      if (!dimensions.includes(label)) {
+        promData[name].dimensions = [...dimensions, label];
+      }
+    });
+  });
+  return promData;
+}
+
+/**
+ * Parses an exposition in the classic Prometheus text format or in the OpenMetrics format.
+ * OpenMetrics additions (# UNIT, exemplars, # EOF) are supported.
+ * @param data exposition text
+ * @returns scraped metric details
+ */
+export function parseTextExposition(data: string): PromData {
+  const families = new Map<string, MetricFamily>();
+  const samples: Sample[] = [];
+  const family = (name: string) => {
+    const existing = families.get(name);
+    if (existing) {
+      return existing;
+    }
+    const created: MetricFamily = {};
+    families.set(name, created);
+    return created;
+  };
+
+  for (const rawLine of data.split("\n")) {
+    const line = rawLine.trim();
+    if (line === "# EOF") {
+      break;
+    }
+    const metadata = /^#\s*(HELP|TYPE|UNIT)\s+(\S+)(?:\s+(.*))?$/.exec(line);
+    if (metadata) {
+      const [, kind, name, value = ""] = metadata;
+      if (kind === "HELP") {
+        family(name).help = value;
+      } else if (kind === "TYPE") {
+        family(name).type = value.trim().toLowerCase();
+      } else if (value.trim() !== "") {
+        family(name).unit = value.trim();
+      }
+      continue;
+    }
+    if (line === "" || line.startsWith("#")) {
+      continue;
+    }
+    const series = parseSeries(line);
+    if (series) {
+      samples.push({ name: series.name, labels: series.labels });
+    }
+  }
+
+  return buildPromData(families, samples);
+}
+
+/**
+ * Reads a varint from a buffer.
+ * @param buf buffer to read from
+ * @param pos position to start reading at
+ * @returns the value and the position after it
+ */
+function readVarint(buf: Buffer, pos: number): [number, number] {
+  let value = 0;
+  let shift = 0;
+  let idx = pos;
+  for (;;) {
+    if (idx >= buf.length) {
+      throw new Error("Unexpected end of protobuf data");
+    }
+    const byte = buf[idx++];
+    value += (byte & 0x7f) * 2 ** shift;
+    if (byte < 0x80) {
+      return [value, idx];
+    }
+    shift += 7;
+  }
+}
+
+/**
+ * Decodes the fields of a protobuf message. Length-delimited fields are returned as buffers
+ * (to be decoded further as needed), varints as numbers; fixed-size fields are skipped.
+ * @param buf encoded message
+ * @returns fields of the message
+ */
+function readFields(buf: Buffer): ProtoField[] {
+  const fields: ProtoField[] = [];
+  let pos = 0;
+  while (pos < buf.length) {
+    const [key, afterKey] = readVarint(buf, pos);
+    const field = Math.floor(key / 8);
+    pos = afterKey;
+    switch (key % 8) {
+      case 0: {
+        const [value, afterValue] = readVarint(buf, pos);
+        fields.push({ field, value });
+        pos = afterValue;
+        break;
+      }
+      case 1:
+        pos += 8;
+        break;
+      case 2: {
+        const [length, afterLength] = readVarint(buf, pos);
+        fields.push({ field, value: buf.subarray(afterLength, afterLength + length) });
+        pos = afterLength + length;
+        break;
+      }
+      case 5:
+        pos += 4;
+        break;
+      default:
+        throw new Error(`Unsupported protobuf wire type ${key % 8}`);
+    }
+  }
+  return fields;
+}
+
+/**
+ * Checks whether an exposition is in the delimited protobuf format, either from the content
+ * type it was served with or, for files, from the presence of binary data.
+ * @param data raw exposition
+ * @param contentType content type the exposition was served with (if any)
+ * @returns true if the exposition is protobuf-encoded
+ */
+export function isProtobufExposition(data: Buffer, contentType?: string): boolean {
+  if (contentType) {
+    return contentType.includes(PROTOBUF_MEDIA_TYPE);
+  }
+  // eslint-disable-next-line no-control-regex
+  return /[\x00-\x08\x0e-\x1f]/.test(data.subarray(0, 64).toString("latin1"));
+}
+
+/**
+ * Parses an exposition in the delimited protobuf format (io.prometheus.client.MetricFamily
+ * messages, each prefixed by its length). Samples are named the same as in the text format,
+ * so e.g. a histogram results in "_bucket", "_sum" and "_count" metrics.
+ * @param data exposition data
+ * @returns scraped metric details
+ */
+export function parseProtobufExposition(data: Buffer): PromData {
+  const families = new Map<string, MetricFamily>();
+  const samples: Sample[] = [];
+  const text = (value: number | Buffer) => (typeof value === "number" ? "" : value.toString());
+
+  let pos = 0;
+  while (pos < data.length) {
+    const [length, afterLength] = readVarint(data, pos);
+    const familyFields = readFields(data.subarray(afterLength, afterLength + length));
+    pos = afterLength + length;
+
+    let name = "";
+    const family: MetricFamily = { type: "counter" };
+    const metricLabels: string[][] = [];
+    familyFields.forEach(({ field, value }) => {
+      switch (field) {
+        case 1:
+          name = text(value);
+          break;
+        case 2:
+          family.help = text(value);
+          break;
+        case 3:
+          family.type = PROTO_TYPES[value as number] ?? "untyped";
+          break;
+        case 4:
+          metricLabels.push(
+            readFields(value as Buffer)
+              .filter(metricField => metricField.field === 1)
+              .map(metricField => readFields(metricField.value as Buffer))
+              .map(labelFields => text(labelFields.find(f => f.field === 1)?.value ?? 0)),
+          );
+          break;
+        case 5:
+          family.unit = text(value) || undefined;
+          break;
+        default:
+          break;
+      }
+    });
+    if (!name) {
+      continue;
+    }
+    families.set(name, family);
+
+    metricLabels.forEach(labels => {
+      switch (family.type) {
+        case "histogram":
+        case "gaugehistogram":
+          samples.push({ name: `${name}_bucket`, labels: [...labels, "le"] });
+          samples.push({ name: `${name}_sum`, labels });
+          samples.push({ name: `${name}_count`, labels });
+          break;
+        case "summary":
+          samples.push({ name, labels: [...labels, "quantile"] });
+          samples.push({ name: `${name}_sum`, labels });
+          samples.push({ name: `${name}_count`, labels });
+          break;
+        default:
+          samples.push({ name, labels });
+      }
+    });
+  }
+
+  return buildPromData(families, samples);
+}
@@ -14,30 +14,32 @@
   limitations under the License.
  */
 
-import { ExecOptions } from "child_process";
-import {
-  copyFileSync,
-  existsSync,
-  mkdirSync,
-  readFileSync,
-  rmSync,
-  unlinkSync,
-  writeFileSync,
-} from "fs";
 import * as path from "path";
-import AdmZip = require("adm-zip");
-import { glob } from "glob";
 import * as vscode from "vscode";
 import { Dynatrace } from "../dynatrace-api/dynatrace";
 import { DynatraceAPIError } from "../dynatrace-api/errors";
 import { FastModeStatus } from "../statusBar/fastMode";
-import { loopSafeWait, showMessage } from "../utils/code";
+import { showMessage } from "../utils/code";
 import { checkDtSdkPresent } from "../utils/conditionCheckers";
-import { sign } from "../utils/cryptography";
-import { normalizeExtensionVersion, incrementExtensionVersion } from "../utils/extensionParsing";
-import { getExtensionFilePath, resolveRealPath } from "../utils/fileSystem";
+import { isPassphraseProtected, PassphraseError } from "../utils/cryptography";
+import {
+  assemblePython,
+  assembleStandard,
+  checkPythonSigningKey,
+  getPackageFileName,
+  preBuildTasks,
+  readExtensionManifest,
+  uploadAndActivate,
+  validateExtension,
+} from "../utils/extensionBuild";
+import {
+  deleteSecret,
+  getExtensionFilePath,
+  readSecret,
+  resolveRealPath,
+  writeSecret,
+} from "../utils/fileSystem";
 import { getPythonVenvOpts } from "../utils/otherExtensions";
-import { runCommand } from "../utils/subprocesses";
 
 type FastModeOptions = {
   status: FastModeStatus;
@@ -45,279 +47,32 @@ type FastModeOptions = {
 };
 
 /**
- * Carries out general tasks that should be executed before the build workflow.
- * Ensures the dist folder exists and increments the extension version in case there might
- * be a conflict on the tenant (if dt is provided). We also delete any .DS_Store files that
- * will mess up the extension archive for MAC users.
- * @param distDir path to the "dist" directory within the workspace
- * @param extensionFile path to the extension.yaml file
- * @param extensionContent contents of the extension.yaml file
- * @param extensionName the name of the extension
- * @param currentVersion the current version of the extension
- * @param forceIncrement whether to enforce the increment of currentVersion
- * @param dt optional Dynatrace API Client
- */
-async function preBuildTasks(
-  distDir: string,
-  extensionFile: string,
-  extensionContent: string,
-  extensionName: string,
-  currentVersion: string,
-  forceIncrement: boolean = false,
-  dt?: Dynatrace,
-): Promise<string> {
-  // Create the dist folder if it doesn't exist
-  if (!existsSync(distDir)) {
-    mkdirSync(distDir);
-  }
-
-  const versionRegex = /^version: ("?[0-9.]+"?)/gm;
-  const nextVersion = incrementExtensionVersion(currentVersion);
-
-  // Delete any .DS_Store files found
-  const extensionDir = path.resolve(extensionFile, "..");
-  const dsFiles = glob.sync("**/.DS_Store", { cwd: extensionDir });
-  dsFiles.forEach(file => {
-    try {
-      unlinkSync(path.join(extensionDir, file));
-    } catch {
-      console.log(`Couldn't delete file ${file}`);
-    }
-  });
-
-  if (forceIncrement) {
-    // Always increment the version
-    writeFileSync(extensionFile, extensionContent.replace(versionRegex, `version: ${nextVersion}`));
-    showMessage("info", "Extension version automatically increased.");
-    return nextVersion;
-  } else if (dt) {
-    // Increment the version if there is clash on the tenant
-    const versions = await dt.extensionsV2
-      .listVersions(extensionName)
-      .then(ext => ext.map(e => e.version))
-      .catch(() => [] as string[]);
-    if (versions.includes(currentVersion)) {
-      writeFileSync(
-        extensionFile,
-        extensionContent.replace(versionRegex, `version: ${nextVersion}`),
-      );
-      showMessage("info", "Extension version automatically increased.");
-      return nextVersion;
-    }
-  }
-  return currentVersion;
-}
-
-/**
- * Carries out the archiving and signing parts of the extension build workflow.
- * The intermediary files (inner & outer .zips and signature) are created and stored
- * within the VS Code workspace storage folder to not crowd the user's workspace.
- * @param workspaceStorage path to the VS Code folder for this workspace's storage
- * @param extensionDir path to the "extension" folder within the workspace
- * @param zipFileName the name of the .zip file for this build
- * @param devCertKeyPath the path to the developer's fused credential file
- */
-function assembleStandard(
-  workspaceStorage: string,
-  extensionDir: string,
-  zipFileName: string,
-  devCertKeyPath: string,
-) {
-  // Build the inner .zip archive
-  const innerZip = new AdmZip();
-  innerZip.addLocalFolder(extensionDir);
-  const innerZipPath = path.resolve(workspaceStorage, "extension.zip");
-  innerZip.writeZip(innerZipPath);
-  console.log(`Built the inner archive: ${innerZipPath}`);
-
-  // Sign the inner .zip archive and write the signature file
-  const signature = sign(innerZipPath, devCertKeyPath);
-  const sigatureFilePath = path.resolve(workspaceStorage, "extension.zip.sig");
-  writeFileSync(sigatureFilePath, signature);
-  console.log(`Wrote the signature file: ${sigatureFilePath}`);
-
-  // Build the outer .zip that includes the inner .zip and the signature file
-  const outerZip = new AdmZip();
-  const outerZipPath = path.resolve(workspaceStorage, zipFileName);
-  outerZip.addLocalFile(innerZipPath);
-  outerZip.addLocalFile(sigatureFilePath);
-  outerZip.writeZip(outerZipPath);
-  console.log(`Wrote initial outer zip at: ${outerZipPath}`);
-}
-
-/**
- * Carries out the archiving and signing parts of the extension build workflow.
- * This function is meant for Python extesnions 2.0, therefore all the steps are carried
- * out through `dt-sdk` which must be available on the machine.
- * @param workspaceStorage path to the VS Code folder for this workspace's storage
- * @param extensionDir path to the root folder of the workspace
- * @param certKeyPath the path to the developer's fused private key & certificate
- * @param oc JSON output channel for communicating errors
+ * Gets the passphrase for the developer's signing key. Passphrases are kept in the secret
+ * storage, by key file path, so the user is only prompted the first time a key is used.
+ * @param context VSCode Extension Context
+ * @param certKeyPath path to the developer's credential file
+ * @returns the passphrase, or undefined if the user didn't provide one
  */
-async function assemblePython(
-  workspaceStorage: string,
-  extensionDir: string,
+async function getSigningPassphrase(
+  context: vscode.ExtensionContext,
   certKeyPath: string,
-  envOptions: ExecOptions,
-  oc: vscode.OutputChannel,
-  cancelToken: vscode.CancellationToken,
-) {
-  // Build
-  await runCommand(
-    `dt-sdk build -k "${certKeyPath}" "${extensionDir}" -t "${workspaceStorage}" ${
-      process.platform === "win32"
-        ? "-e linux_x86_64"
-        : process.platform === "linux"
-        ? "-e win_amd64"
-        : "-e linux_x86_64 -e win_amd64"
-    }`,
-    oc,
-    cancelToken,
-    envOptions,
-  );
-}
-
-/**
- * Validates a finalized extension archive against a Dynatrace tenant, if one is connected.
- * Returns true if either the extension passed validation or no API client is connected.
- * Upon success, the final extension archive is moved into the workspace's "dist" folder and
- * removed from the VSCode workspace storage folder (intermediary location).
- * @param workspaceStorage path to the VS Code folder for this workspace's storage
- * @param zipFileName the name of the .zip file for this build
- * @param distDir path to the "dist" folder within the workspace
- * @param oc JSON output channel for communicating errors
- * @param dt optional Dynatrace API Client (needed for real validation)
- * @returns validation status
- */
-async function validateExtension(
-  workspaceStorage: string,
-  zipFileName: string,
-  distDir: string,
-  oc: vscode.OutputChannel,
-  dt?: Dynatrace,
-) {
-  let valid = true;
-  const outerZipPath = path.resolve(workspaceStorage, zipFileName);
-  const finalZipPath = path.resolve(distDir, zipFileName);
-  if (dt) {
-    valid = await dt.extensionsV2
-      .upload(readFileSync(outerZipPath), true)
-      .then(() => true)
-      .catch(async (err: DynatraceAPIError) => {
-        showMessage("error", "Extension validation failed.");
-        oc.replace(JSON.stringify(err.errorParams, null, 2));
-        oc.show();
-        return false;
-      });
+): Promise<string | undefined> {
+  const secretKey = `dynatrace-extensions.signingPassphrase.${certKeyPath}`;
+  const storedPassphrase = await readSecret(context, secretKey);
+  if (storedPassphrase !== undefined) {
+    return storedPassphrase;
   }
-  // Copy .zip archive into dist dir
-  if (valid) {
-    copyFileSync(outerZipPath, finalZipPath);
-  }
-  // Always remove from extension storage
-  rmSync(outerZipPath);
-
-  return valid;
-}
-
-/**
- * An all-in-one upload & activation flow designed to be used for fast mode builds.
- * If the extension limit has been reached on tenant, either the first or the last version is
- * removed automatically, the extension uploaded, and immediately activated.
- * This skips any prompts compared to regular flow and does not preform any validation.
- * @param workspaceStorage path to the VS Code folder for this workspace's storage
- * @param zipFileName the name of the .zip file for this build
- * @param distDir path to the "dist" folder within the workspace
- * @param extensionName name of the extension
- * @param extensionVersion version of the extension
- * @param dt Dynatrace API Client
- * @param status status bar to be updated with build status
- * @param oc JSON output channel for communicating errors
- * @param cancelToken command cancellation token
- */
-async function uploadAndActivate(
-  workspaceStorage: string,
-  zipFileName: string,
-  distDir: string,
-  extensionName: string,
-  extensionVersion: string,
-  dt: Dynatrace,
-  status: FastModeStatus,
-  oc: vscode.OutputChannel,
-  cancelToken: vscode.CancellationToken,
-) {
-  try {
-    // Check upload possible
-    const existingVersions = await dt.extensionsV2.listVersions(extensionName).catch(() => {
-      return [];
-    });
-    if (existingVersions.length >= 10) {
-      // Try delete oldest version
-      await dt.extensionsV2
-        .deleteVersion(extensionName, existingVersions[0].version)
-        .catch(async () => {
-          // Try delete newest version
-          await dt.extensionsV2.deleteVersion(
-            extensionName,
-            existingVersions[existingVersions.length - 1].version,
-          );
-        });
-    }
-
-    const file = readFileSync(path.resolve(workspaceStorage, zipFileName));
-    // Upload to Dynatrace
-    let lastError: DynatraceAPIError | undefined;
-    let uploadStatus: string;
-    do {
-      if (cancelToken.isCancellationRequested) {
-        return;
-      }
-      [uploadStatus, lastError] = await dt.extensionsV2
-        .upload(file)
-        .then(() => ["success", undefined] as [string, undefined])
-        .catch(
-          (err: DynatraceAPIError) => [err.errorParams.message, err] as [string, DynatraceAPIError],
-        );
-      // Previous version deletion may not be complete yet, loop until done.
-      if (uploadStatus.startsWith("Extension versions quantity limit")) {
-        await loopSafeWait(1000);
-      }
-    } while (uploadStatus.startsWith("Extension versions quantity limit"));
-
-    // Activate extension or throw error
-    if (uploadStatus === "success") {
-      await dt.extensionsV2.putEnvironmentConfiguration(extensionName, extensionVersion);
-    } else {
-      if (lastError) {
-        throw lastError;
-      }
-    }
-
-    // Copy .zip archive into dist dir
-    copyFileSync(path.resolve(workspaceStorage, zipFileName), path.resolve(distDir, zipFileName));
-    status.updateStatusBar(true, extensionVersion, true);
-    oc.clear();
-  } catch (err: unknown) {
-    // Mark the status bar as build failing
-    status.updateStatusBar(true, extensionVersion, false);
-    // Provide details in output channel
-    oc.replace(
-      JSON.stringify(
-        {
-          extension: extensionName,
-          version: extensionVersion,
-          errorDetails: (err as DynatraceAPIError).errorParams,
-        },
-        null,
-        2,
-      ),
-    );
-    oc.show();
-  } finally {
-    if (existsSync(path.resolve(workspaceStorage, zipFileName))) {
-      rmSync(path.resolve(workspaceStorage, zipFileName));
-    }
+  const passphrase = await vscode.window.showInputBox({
+    title: "Developer key passphrase",
+    prompt: `The key in ${certKeyPath} is protected. Enter its passphrase to sign the extension.`,
+    password: true,
+    ignoreFocusOut: true,
+  });
+  // Without SecretStorage the user is simply asked again next time
+  if (passphrase !== undefined) {
+    await writeSecret(context, secretKey, passphrase);
   }
+  return passphrase;
 }
 
 /**
@@ -360,17 +115,27 @@ export async function buildExtension(
   }
   const extensionDir = path.resolve(extensionFile, "..");
   // Current name and version
-  const extension = readFileSync(extensionFile).toString();
-  const nameMatch = /^name: "?([:a-zA-Z0-9.\-_]+)"?/gm.exec(extension);
-  if (!nameMatch?.[1]) {
+  const manifest = readExtensionManifest(extensionFile);
+  if (!manifest) {
     return;
   }
-  const extensionName = nameMatch[1];
-  const versionMatch = /^version: "?([0-9.]+)"?/gm.exec(extension);
-  if (!versionMatch?.[1]) {
-    return;
+  const { content: extension, name: extensionName, version: currentVersion } = manifest;
+  // Protected keys need a passphrase before signing
+  let passphrase: string | undefined;
+  if (/^python:$/gm.test(extension)) {
+    try {
+      checkPythonSigningKey(devCertKey);
+    } catch (err: unknown) {
+      showMessage("error", `${(err as Error).message} Build cancelled.`);
+      return;
+    }
+  } else if (isPassphraseProtected(devCertKey)) {
+    passphrase = await getSigningPassphrase(context, devCertKey);
+    if (passphrase === undefined) {
+      showMessage("error", "No passphrase provided for the developer key. Build cancelled.");
+      return;
+    }
   }
-  const currentVersion = normalizeExtensionVersion(versionMatch[1]);
 
   const followUpFlow = await vscode.window.withProgress(
     {
@@ -427,6 +192,9 @@ export async function buildExtension(
         showMessage("error", `Error during pre-build phase: ${(err as Error).message}`);
         return false;
       }
+      if (updatedVersion !== currentVersion) {
+        showMessage("info", "Extension version automatically increased.");
+      }
 
       // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition
       if (cancelToken.isCancellationRequested) {
@@ -435,7 +203,7 @@ export async function buildExtension(
 
       // Package assembly workflow
       progress.report({ message: "Building extension package" });
-      const zipFilename = `${extensionName.replace(":", "_")}-${updatedVersion}.zip`;
+      const zipFilename = getPackageFileName(extensionName, updatedVersion);
       try {
         if (/^python:$/gm.test(extension)) {
           const envOptions = await getPythonVenvOpts();
@@ -444,29 +212,24 @@ export async function buildExtension(
             // Wait for the packaging to finish
             await assemblePython(
               workspaceStorage,
-              path.resolve(extensionDir, ".."),
+              extensionDir,
               devCertKey,
               envOptions,
               oc,
               cancelToken,
             );
-            // Then, remove the lib folder
-            const libDir = path.join(extensionDir, "lib");
-            if (existsSync(libDir)) {
-              try {
-                rmSync(libDir, { recursive: true, force: true });
-              } catch (e) {
-                console.log("Couldn't clean up `lib` directory.", e.message);
-              }
-            }
           } else {
             showMessage("error", "Cannot build Python extension - dt-sdk package not available");
             return false;
           }
         } else {
-          assembleStandard(workspaceStorage, extensionDir, zipFilename, devCertKey);
+          assembleStandard(workspaceStorage, extensionDir, zipFilename, devCertKey, passphrase);
         }
       } catch (err: unknown) {
+        if (err instanceof PassphraseError) {
+          // Don't keep a wrong passphrase, so the user is prompted again on the next build
+          await deleteSecret(context, `dynatrace-extensions.signingPassphrase.${devCertKey}`);
+        }
         showMessage("error", `Error during archiving & signing: ${(err as Error).message}`);
         return false;
       }
@@ -489,10 +252,31 @@ export async function buildExtension(
           extensionName,
           updatedVersion,
           dt,
-          fastMode.status,
-          oc,
           cancelToken,
-        );
+        )
+          .then(activated => {
+            if (activated) {
+              fastMode.status.updateStatusBar(true, updatedVersion, true);
+              oc.clear();
+            }
+          })
+          .catch((err: DynatraceAPIError) => {
+            // Mark the status bar as build failing
+            fastMode.status.updateStatusBar(true, updatedVersion, false);
+            // Provide details in output channel
+            oc.replace(
+              JSON.stringify(
+                {
+                  extension: extensionName,
+                  version: updatedVersion,
+                  errorDetails: err.errorParams,
+                },
+                null,
+                2,
+              ),
+            );
+            oc.show();
+          });
         return false;
       } else {
         progress.report({ message: "Validating extension" });
@@ -500,7 +284,14 @@ export async function buildExtension(
         if (cancelToken.isCancellationRequested) {
           return false;
         }
-        const valid = await validateExtension(workspaceStorage, zipFilename, distDir, oc, dt);
+        const valid = await validateExtension(workspaceStorage, zipFilename, distDir, dt)
+          .then(() => true)
+          .catch((err: DynatraceAPIError) => {
+            showMessage("error", "Extension validation failed.");
+            oc.replace(JSON.stringify(err.errorParams, null, 2));
+            oc.show();
+            return false;
+          });
         return valid;
       }
     },
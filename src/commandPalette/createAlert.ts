@@ -14,164 +14,567 @@
   limitations under the License.
  */
 
-import * as crypto from "crypto";
-import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
+import { existsSync, mkdirSync, readdirSync, readFileSync, writeFileSync } from "fs";
 import path = require("path");
 import * as vscode from "vscode";
+import { Dynatrace } from "../dynatrace-api/dynatrace";
+import { MetricSeriesCollection } from "../dynatrace-api/interfaces/metrics";
 import { ExtensionStub, MetricMetadata } from "../interfaces/extensionMeta";
+import { EnvironmentsTreeDataProvider } from "../treeViews/environmentsTreeView";
+import { backtestAlert } from "../utils/alertBacktesting";
+import {
+  AlertCondition,
+  AlertDefinition,
+  AlertStrategy,
+  buildMetricSelector,
+  DimensionFilter,
+  fromAlertJson,
+  newAlertDefinition,
+  STRATEGY_CONDITIONS,
+  toAlertJson,
+  validateSampleWindow,
+} from "../utils/alerts";
 import { showMessage } from "../utils/code";
 import { CachedData } from "../utils/dataCaching";
-import { getAllMetricKeys, getEntityForMetric } from "../utils/extensionParsing";
+import {
+  getAllMetricKeys,
+  getDimensionsFromMatchingMetrics,
+  getEntityForMetric,
+} from "../utils/extensionParsing";
 import { createUniqueFileName, getExtensionFilePath } from "../utils/fileSystem";
+import { applyYamlEdits, setYamlListEntry } from "../utils/yamlParsing";
+import { REGISTERED_PANELS, WebviewPanelManager } from "../webviews/webviewPanel";
 
-export async function createAlert(cachedData: CachedData) {
-  const extensionFile = getExtensionFilePath();
-  if (!extensionFile) {
-    return;
-  }
-  const extensionText = readFileSync(extensionFile).toString();
-  const extension = cachedData.getCached<ExtensionStub>("parsedExtension");
+type FormField =
+  | "save"
+  | "name"
+  | "metric"
+  | "strategy"
+  | "condition"
+  | "value"
+  | "window"
+  | "missingData"
+  | "filters"
+  | "backtest";
 
-  // TODO: we could ask the user if they want to create a new alert or edit an existing one?
+interface FormItem extends vscode.QuickPickItem {
+  field: FormField;
+}
 
-  // Ask the user to select a metric
-  let metricKeys = getAllMetricKeys(extension);
-  if (metricKeys.length === 0 && extension.metrics) {
-    metricKeys = extension.metrics.map((metric: MetricMetadata) => metric.key);
-  }
+const TITLE = "Extension workspace: Alert editor";
+const VALUE_LABELS: Record<AlertStrategy, string> = {
+  STATIC_THRESHOLD: "Threshold",
+  AUTO_ADAPTIVE_THRESHOLD: "Number of signal fluctuations",
+  SEASONAL_BASELINE: "Tolerance",
+};
 
-  if (metricKeys.length === 0) {
-    showMessage(
-      "warn",
-      "No metrics defined in extension.yaml, please define them before creating alerts",
-    );
-    return;
+/**
+ * Adds a reference to an alert file in the extension.yaml, unless it's already there.
+ * @param extensionFile path to the extension.yaml file
+ * @param fileName name of the alert file (within the alerts directory)
+ */
+function addAlertToExtension(extensionFile: string, fileName: string) {
+  const extensionText = readFileSync(extensionFile).toString();
+  const alertPath = `alerts/${fileName}`;
+  const edits = setYamlListEntry(
+    extensionText,
+    ["alerts"],
+    { path: alertPath },
+    existing => (existing as { path?: string } | null)?.path === alertPath,
+  );
+  // Nothing to do if the alert is already present
+  if (edits.length > 0) {
+    writeFileSync(extensionFile, applyYamlEdits(extensionText, edits));
   }
+}
 
-  const metricToUse = await vscode.window.showQuickPick(metricKeys, {
-    placeHolder: "Choose a metric",
-    title: "Extension workspace: Create Alert",
+/**
+ * Asks the user for a number.
+ * @param prompt what the number is for
+ * @param value current value
+ * @returns the number entered, or undefined if cancelled
+ */
+async function inputNumber(prompt: string, value: number): Promise<number | undefined> {
+  const input = await vscode.window.showInputBox({
+    title: TITLE,
+    prompt,
+    value: String(value),
     ignoreFocusOut: true,
+    validateInput: text => (text.trim() === "" || isNaN(Number(text)) ? "Enter a number" : null),
   });
-  if (!metricToUse) {
-    showMessage("error", "No metric was selected. Operation cancelled.");
-    return;
+  return input === undefined ? undefined : Number(input);
+}
+
+/**
+ * Lets the user add and remove dimension filters of an alert. Filters are removed by selecting
+ * them; new ones are added on dimensions of the alert's metric.
+ * @param filters current dimension filters
+ * @param dimensionKeys dimensions known for the alert's metric
+ * @returns updated dimension filters
+ */
+async function editFilters(
+  filters: DimensionFilter[],
+  dimensionKeys: string[],
+): Promise<DimensionFilter[]> {
+  let updatedFilters = [...filters];
+  for (;;) {
+    const items: (vscode.QuickPickItem & { index: number })[] = [
+      { label: "$(add) Add filter", index: -1 },
+      ...updatedFilters.map((f, index) => ({
+        label: `$(remove) ${f.key} ${f.operator === "EQUALS" ? "=" : "!="} ${f.value}`,
+        description: "Select to remove",
+        index,
+      })),
+    ];
+    const choice = await vscode.window.showQuickPick(items, {
+      title: TITLE,
+      placeHolder: "Dimension filters - press Escape when done",
+      ignoreFocusOut: true,
+    });
+    if (!choice) {
+      return updatedFilters;
+    }
+    if (choice.index >= 0) {
+      updatedFilters = updatedFilters.filter((_, index) => index !== choice.index);
+      continue;
+    }
+
+    const key =
+      dimensionKeys.length > 0
+        ? await vscode.window.showQuickPick(dimensionKeys, {
+            title: TITLE,
+            placeHolder: "Dimension to filter on",
+            ignoreFocusOut: true,
+          })
+        : await vscode.window.showInputBox({
+            title: TITLE,
+            prompt: "Dimension to filter on",
+            ignoreFocusOut: true,
+          });
+    if (!key) {
+      continue;
+    }
+    const operator = await vscode.window.showQuickPick(["EQUALS", "NOT_EQUALS"], {
+      title: TITLE,
+      placeHolder: `Operator for ${key}`,
+      ignoreFocusOut: true,
+    });
+    const value = await vscode.window.showInputBox({
+      title: TITLE,
+      prompt: `Value of ${key}`,
+      ignoreFocusOut: true,
+    });
+    if (operator && value) {
+      updatedFilters.push({ key, value, operator: operator as DimensionFilter["operator"] });
+    }
   }
+}
 
-  // Ask the user to input the alert name
-  const alertName = await vscode.window.showInputBox({
-    placeHolder: `Alert name for ${metricToUse}`,
-    title: "Extension workspace: Create Alert",
+/**
+ * Replays an alert against historical data of its metric and shows when it would have raised
+ * events in a webview panel. Data comes from the last days of the connected Dynatrace
+ * environment or, to work offline, from a recorded file of a metrics query response.
+ * @param alert alert to backtest
+ * @param dt Dynatrace API Client, if connected
+ * @param panelManager manager of webview panels
+ */
+async function backtest(
+  alert: AlertDefinition,
+  dt: Dynatrace | undefined,
+  panelManager: WebviewPanelManager,
+) {
+  const sources = dt ? ["Dynatrace environment", "Recorded data file"] : ["Recorded data file"];
+  const source = await vscode.window.showQuickPick(sources, {
+    title: TITLE,
+    placeHolder: "Where should historical data come from?",
     ignoreFocusOut: true,
   });
-  if (!alertName) {
-    showMessage("error", "No alert name was entered. Operation cancelled.");
+  if (!source) {
     return;
   }
 
-  // Ask the user if the condition is ABOVE or BELOW
-  const alertCondition = await vscode.window.showQuickPick(["ABOVE", "BELOW"], {
-    placeHolder: `Alert condition for ${metricToUse}`,
-    title: "Extension workspace: Create Alert",
-    ignoreFocusOut: true,
-  });
-  if (!alertCondition) {
-    showMessage("error", "No alert condition was selected. Operation cancelled.");
-    return;
+  let data: MetricSeriesCollection[];
+  let timeframe: string;
+  if (dt && source === "Dynatrace environment") {
+    const days = await vscode.window.showQuickPick(["1", "3", "7"], {
+      title: TITLE,
+      placeHolder: "How many days of data should be replayed?",
+      ignoreFocusOut: true,
+    });
+    if (!days) {
+      return;
+    }
+    try {
+      data = await vscode.window.withProgress(
+        { location: vscode.ProgressLocation.Notification, title: "Fetching metric data" },
+        () =>
+          dt.metrics.query(
+            buildMetricSelector(alert.metricKey, alert.filters),
+            "1m",
+            `now-${days}d`,
+          ),
+      );
+    } catch (err) {
+      showMessage("error", `Could not fetch metric data: ${(err as Error).message}`);
+      return;
+    }
+    timeframe = `the last ${days} day(s)`;
+  } else {
+    const files = await vscode.window.showOpenDialog({
+      title: "Recorded metric data",
+      canSelectMany: false,
+      filters: { JSON: ["json"] },
+    });
+    if (!files || files.length === 0) {
+      return;
+    }
+    try {
+      data = JSON.parse(readFileSync(files[0].fsPath).toString()) as MetricSeriesCollection[];
+    } catch (err) {
+      showMessage("error", `Could not read recorded data: ${(err as Error).message}`);
+      return;
+    }
+    timeframe = "the recorded data";
   }
 
-  // Ask the user to input the threshold
-  const threshold = await vscode.window.showInputBox({
-    placeHolder: `Threshold for ${metricToUse} when ${alertCondition}`,
-    title: "Extension workspace: Create Alert",
-    ignoreFocusOut: true,
+  const result = backtestAlert(alert, data);
+  panelManager.render(REGISTERED_PANELS.ALERT_BACKTEST, "Alert backtest", {
+    dataType: "ALERT_BACKTEST",
+    data: result,
   });
 
-  if (!threshold || isNaN(Number(threshold))) {
-    showMessage("error", "No valid threshold was entered. Operation cancelled.");
-    return;
+  const choice = await vscode.window.showInformationMessage(
+    `Alert '${alert.name}' would have raised ${result.eventCount} events over ${timeframe}.`,
+    ...(source === "Dynatrace environment" ? ["Save data for offline use"] : []),
+  );
+  if (choice) {
+    const fileUri = await vscode.window.showSaveDialog({
+      title: "Save recorded metric data",
+      filters: { JSON: ["json"] },
+    });
+    if (fileUri) {
+      writeFileSync(fileUri.fsPath, JSON.stringify(data, null, 2));
+    }
   }
+}
+
+/**
+ * Shows the alert editor form. Every property of the alert is listed with its current value and
+ * can be changed by selecting it, until the user saves the alert or cancels.
+ * @param definition alert to edit
+ * @param metricKeys all metric keys available in the extension
+ * @param extension extension.yaml serialized as object
+ * @param onBacktest callback for backtesting the alert in its current state
+ * @returns the edited alert, or undefined if cancelled
+ */
+async function alertForm(
+  definition: AlertDefinition,
+  metricKeys: string[],
+  extension: ExtensionStub,
+  onBacktest: (alert: AlertDefinition) => Promise<void>,
+): Promise<AlertDefinition | undefined> {
+  const alert = { ...definition };
+  for (;;) {
+    const valueLabel = VALUE_LABELS[alert.strategy];
+    const value = {
+      STATIC_THRESHOLD: alert.threshold,
+      AUTO_ADAPTIVE_THRESHOLD: alert.signalFluctuation,
+      SEASONAL_BASELINE: alert.tolerance,
+    }[alert.strategy];
+    const items: FormItem[] = [
+      { label: "$(save) Save alert", field: "save" },
+      {
+        label: "$(graph) Backtest alert",
+        description: "Replay the alert against historical data",
+        field: "backtest",
+      },
+      { label: "Name", description: alert.name, field: "name" },
+      { label: "Metric", description: alert.metricKey, field: "metric" },
+      { label: "Monitoring strategy", description: alert.strategy, field: "strategy" },
+      { label: "Alert condition", description: alert.alertCondition, field: "condition" },
+      { label: valueLabel, description: String(value), field: "value" },
+      {
+        label: "Sliding window",
+        description:
+          `${alert.violatingSamples} violating samples out of ${alert.samples}, ` +
+          `dealert after ${alert.dealertingSamples}`,
+        field: "window",
+      },
+      {
+        label: "Alert on missing data",
+        description: alert.alertOnMissingData ? "Yes" : "No",
+        field: "missingData",
+      },
+      {
+        label: "Dimension filters",
+        description:
+          alert.filters.length > 0
+            ? alert.filters
+                .map(f => `${f.key}${f.operator === "EQUALS" ? "=" : "!="}${f.value}`)
+                .join(", ")
+            : "None",
+        field: "filters",
+      },
+    ];
+    const choice = await vscode.window.showQuickPick(items, {
+      title: TITLE,
+      placeHolder: "Select a property to change, or save the alert",
+      ignoreFocusOut: true,
+    });
+    if (!choice) {
+      return undefined;
+    }
 
-  let primaryEntityType = getEntityForMetric(metricToUse, extension);
-  if (!primaryEntityType) {
-    primaryEntityType =
-      (await vscode.window.showInputBox({
-        placeHolder: "What entity type should the alert be triggered on?",
-        title: "Extension workspace: Create Alert",
-        ignoreFocusOut: true,
-        validateInput: value => {
-          if (value.startsWith("dt.")) {
-            return "Don't add any prefix to the entity type";
+    switch (choice.field) {
+      case "save":
+        return alert;
+      case "backtest":
+        await onBacktest({ ...alert });
+        break;
+      case "name": {
+        const name = await vscode.window.showInputBox({
+          title: TITLE,
+          prompt: "Alert name",
+          value: alert.name,
+          ignoreFocusOut: true,
+        });
+        alert.name = name ?? alert.name;
+        break;
+      }
+      case "metric": {
+        const metricKey = await vscode.window.showQuickPick(metricKeys, {
+          title: TITLE,
+          placeHolder: "Choose a metric",
+          ignoreFocusOut: true,
+        });
+        if (metricKey && metricKey !== alert.metricKey) {
+          alert.metricKey = metricKey;
+          alert.filters = [];
+        }
+        break;
+      }
+      case "strategy": {
+        const strategy = await vscode.window.showQuickPick(Object.keys(STRATEGY_CONDITIONS), {
+          title: TITLE,
+          placeHolder: "Monitoring strategy",
+          ignoreFocusOut: true,
+        });
+        if (strategy) {
+          alert.strategy = strategy as AlertStrategy;
+          if (!STRATEGY_CONDITIONS[alert.strategy].includes(alert.alertCondition)) {
+            alert.alertCondition = "ABOVE";
           }
-          return null;
-        },
-      })) ?? null;
-  }
-  if (primaryEntityType) {
-    primaryEntityType = `dt.entity.${primaryEntityType}`;
+        }
+        break;
+      }
+      case "condition": {
+        const condition = await vscode.window.showQuickPick(STRATEGY_CONDITIONS[alert.strategy], {
+          title: TITLE,
+          placeHolder: "Alert condition",
+          ignoreFocusOut: true,
+        });
+        alert.alertCondition = (condition as AlertCondition | undefined) ?? alert.alertCondition;
+        break;
+      }
+      case "value": {
+        const newValue = await inputNumber(valueLabel, value);
+        if (newValue !== undefined) {
+          if (alert.strategy === "STATIC_THRESHOLD") {
+            alert.threshold = newValue;
+          } else if (alert.strategy === "AUTO_ADAPTIVE_THRESHOLD") {
+            alert.signalFluctuation = newValue;
+          } else {
+            alert.tolerance = newValue;
+          }
+        }
+        break;
+      }
+      case "window": {
+        const window = await vscode.window.showInputBox({
+          title: TITLE,
+          prompt: "Violating samples / samples in the window / dealerting samples",
+          value: `${alert.violatingSamples}/${alert.samples}/${alert.dealertingSamples}`,
+          ignoreFocusOut: true,
+          validateInput: text => {
+            const [violating, samples, dealerting] = text.split("/").map(Number);
+            return validateSampleWindow(samples, violating, dealerting) ?? null;
+          },
+        });
+        if (window) {
+          [alert.violatingSamples, alert.samples, alert.dealertingSamples] = window
+            .split("/")
+            .map(Number);
+        }
+        break;
+      }
+      case "missingData":
+        alert.alertOnMissingData = !alert.alertOnMissingData;
+        break;
+      case "filters":
+        alert.filters = await editFilters(
+          alert.filters,
+          getDimensionsFromMatchingMetrics(`$eq(${alert.metricKey})`, extension),
+        );
+        break;
+    }
   }
+}
 
-  // Convert threshold to a number
-  const numberThreshold = Number(threshold);
+/**
+ * Lets the user choose between creating a new alert and editing one of the existing ones.
+ * @param alertsDir path to the alerts directory of the extension
+ * @returns name of the alert file to edit, an empty string for a new alert, or undefined if
+ * cancelled
+ */
+async function chooseAlertFile(alertsDir: string): Promise<string | undefined> {
+  const alertFiles = existsSync(alertsDir)
+    ? readdirSync(alertsDir).filter(file => file.endsWith(".json"))
+    : [];
+  if (alertFiles.length === 0) {
+    return "";
+  }
+  const choice = await vscode.window.showQuickPick(
+    [
+      { label: "$(add) Create a new alert", fileName: "" },
+      ...alertFiles.map(fileName => {
+        let name = fileName;
+        try {
+          const alertJson = JSON.parse(
+            readFileSync(path.join(alertsDir, fileName)).toString(),
+          ) as Record<string, unknown>;
+          name = String(alertJson.name ?? fileName);
+        } catch {
+          // Not a valid alert, show it by file name
+        }
+        return { label: name, description: `alerts/${fileName}`, fileName };
+      }),
+    ],
+    {
+      title: TITLE,
+      placeHolder: "Create a new alert or edit an existing one",
+      ignoreFocusOut: true,
+    },
+  );
+  return choice?.fileName;
+}
 
-  // Create directories for alerts if they don't exist
-  const extensionDir = path.resolve(extensionFile, "..");
-  const alertsDir = path.resolve(extensionDir, "alerts");
-  if (!existsSync(alertsDir)) {
-    mkdirSync(alertsDir);
+/**
+ * Workflow for creating a new alert or editing an existing one in the alerts directory of the
+ * extension. Alerts can use static thresholds, auto-adaptive thresholds or seasonal baselines,
+ * and all properties are edited in a single form before saving. New alerts are also added to
+ * the extension.yaml. Alerts can be backtested from the form before saving them.
+ * @param cachedData provider of cacheable data
+ * @param tenantsProvider provider of Dynatrace environments, for backtesting against live data
+ * @param panelManager manager of webview panels, for showing backtest results
+ */
+export async function createAlert(
+  cachedData: CachedData,
+  tenantsProvider: EnvironmentsTreeDataProvider,
+  panelManager: WebviewPanelManager,
+) {
+  const extensionFile = getExtensionFilePath();
+  if (!extensionFile) {
+    return;
   }
+  const extension = cachedData.getCached<ExtensionStub>("parsedExtension");
+  const alertsDir = path.resolve(extensionFile, "..", "alerts");
 
-  const fileName = createUniqueFileName(alertsDir, "alert", alertName);
-
-  const alertTemplate = {
-    id: crypto.randomUUID(),
-    metricSelector: metricToUse,
-    name: alertName,
-    description: "The {metricname} value was {alert_condition} normal behavior. Dimensions: {dims}",
-    enabled: true,
-    monitoringStrategy: {
-      type: "STATIC_THRESHOLD",
-      violatingSamples: 3,
-      samples: 5,
-      dealertingSamples: 5,
-      alertCondition: alertCondition,
-      alertingOnMissingData: false,
-      threshold: numberThreshold,
-    },
-    primaryDimensionKey: primaryEntityType,
-    alertCondition: alertCondition,
-    samples: 5,
-    violatingSamples: 3,
-    dealertingSamples: 5,
-    threshold: numberThreshold,
-    eventType: "CUSTOM_ALERT",
-  };
+  let metricKeys = getAllMetricKeys(extension);
+  if (metricKeys.length === 0 && extension.metrics) {
+    metricKeys = extension.metrics.map((metric: MetricMetadata) => metric.key);
+  }
 
-  const alertFile = path.resolve(alertsDir, fileName);
-  const alertFileContent = JSON.stringify(alertTemplate, null, 2);
-  console.log(`Creating alert file ${alertFile}`);
-  writeFileSync(alertFile, alertFileContent);
+  const existingFile = await chooseAlertFile(alertsDir);
+  if (existingFile === undefined) {
+    return;
+  }
 
-  // Add the alert to the extension.yaml file
-  const alertsMatch = extensionText.search(/^alerts:$/gm);
-  let updatedExtensionText;
-  if (alertsMatch > -1) {
-    if (!extensionText.includes(`path: alerts/${fileName}`)) {
-      const indent = extensionText.slice(alertsMatch).indexOf("-") - 8;
-      const beforeText = extensionText.slice(0, alertsMatch);
-      const afterText = extensionText.slice(alertsMatch + 8);
-      updatedExtensionText = `${beforeText}alerts:\n${" ".repeat(
-        indent,
-      )}- path: alerts/${fileName}\n${afterText}`;
-    } else {
-      // Nothing to do, alert is already present
-      updatedExtensionText = extensionText;
+  let definition: AlertDefinition;
+  let existingJson: Record<string, unknown> = {};
+  if (existingFile) {
+    try {
+      existingJson = JSON.parse(
+        readFileSync(path.join(alertsDir, existingFile)).toString(),
+      ) as Record<string, unknown>;
+    } catch (err) {
+      showMessage("error", `Could not read alert: ${(err as Error).message}`);
+      return;
     }
+    definition = fromAlertJson(existingJson);
   } else {
-    updatedExtensionText = `${extensionText}\nalerts:\n  - path: alerts/${fileName}\n`;
+    if (metricKeys.length === 0) {
+      showMessage(
+        "warn",
+        "No metrics defined in extension.yaml, please define them before creating alerts",
+      );
+      return;
+    }
+
+    // Ask the user to select a metric
+    const metricToUse = await vscode.window.showQuickPick(metricKeys, {
+      placeHolder: "Choose a metric",
+      title: TITLE,
+      ignoreFocusOut: true,
+    });
+    if (!metricToUse) {
+      showMessage("error", "No metric was selected. Operation cancelled.");
+      return;
+    }
+
+    // Ask the user to input the alert name
+    const alertName = await vscode.window.showInputBox({
+      placeHolder: `Alert name for ${metricToUse}`,
+      title: TITLE,
+      ignoreFocusOut: true,
+    });
+    if (!alertName) {
+      showMessage("error", "No alert name was entered. Operation cancelled.");
+      return;
+    }
+    definition = newAlertDefinition(alertName, metricToUse);
+
+    let primaryEntityType = getEntityForMetric(metricToUse, extension);
+    if (!primaryEntityType) {
+      primaryEntityType =
+        (await vscode.window.showInputBox({
+          placeHolder: "What entity type should the alert be triggered on?",
+          title: TITLE,
+          ignoreFocusOut: true,
+          validateInput: value => {
+            if (value.startsWith("dt.")) {
+              return "Don't add any prefix to the entity type";
+            }
+            return null;
+          },
+        })) ?? null;
+    }
+    if (primaryEntityType) {
+      definition.primaryDimensionKey = `dt.entity.${primaryEntityType}`;
+    }
+  }
+
+  const alert = await alertForm(definition, metricKeys, extension, async alertToTest =>
+    backtest(alertToTest, await tenantsProvider.getDynatraceClient(), panelManager),
+  );
+  if (!alert) {
+    showMessage("warn", "Alert was not saved. Operation cancelled.");
+    return;
   }
 
-  writeFileSync(extensionFile, updatedExtensionText);
+  // Create directories for alerts if they don't exist
+  if (!existsSync(alertsDir)) {
+    mkdirSync(alertsDir);
+  }
+  const fileName = existingFile || createUniqueFileName(alertsDir, "alert", alert.name);
+  const alertFile = path.resolve(alertsDir, fileName);
+  console.log(`Writing alert file ${alertFile}`);
+  writeFileSync(alertFile, JSON.stringify(toAlertJson(alert, existingJson), null, 2));
+
+  // Add the alert to the extension.yaml file
+  addAlertToExtension(extensionFile, fileName);
 
-  showMessage("info", `Alert '${alertName}' created on alerts/${fileName}`);
+  showMessage(
+    "info",
+    `Alert '${alert.name}' ${existingFile ? "updated" : "created"} on alerts/${fileName}`,
+  );
 }
@@ -19,31 +19,97 @@ import path = require("path");
 import * as vscode from "vscode";
 import { Dynatrace } from "../dynatrace-api/dynatrace";
 import { ExtensionStub } from "../interfaces/extensionMeta";
-import {
-  MinimalConfiguration,
-  getConfigurationDetailsViaFile,
-} from "../treeViews/commands/environments";
 import { showMessage } from "../utils/code";
+import {
+  ConfigurationFormData,
+  FormField,
+  buildFormFields,
+  getScopeOptions,
+  validateConfiguration,
+} from "../utils/configurationForm";
 import { CachedData } from "../utils/dataCaching";
 import { getDatasourceName } from "../utils/extensionParsing";
 import { createUniqueFileName, getExtensionFilePath } from "../utils/fileSystem";
-import { createGenericConfigObject, createObjectFromSchema } from "../utils/schemaParsing";
+import {
+  createGenericConfigObject,
+  createObjectFromSchema,
+  readGenericSchema,
+} from "../utils/schemaParsing";
+import { PanelMessage, REGISTERED_PANELS, WebviewPanelManager } from "../webviews/webviewPanel";
+
+interface SubmittedConfiguration {
+  scope: string;
+  value: Record<string, unknown>;
+}
+
+/**
+ * Validates a configuration submitted through the form and saves it to a new file. Any errors
+ * are sent back to the form instead.
+ * @param config the submitted configuration
+ * @param fields fields of the form
+ * @param configDir path to the workspace config folder
+ * @param webviewPanelManager manager for the webview panel hosting the form
+ */
+async function saveConfiguration(
+  config: SubmittedConfiguration,
+  fields: FormField[],
+  configDir: string,
+  webviewPanelManager: WebviewPanelManager,
+) {
+  const errors = validateConfiguration(fields, config.value);
+  if (config.scope.trim() === "") {
+    errors.scope = "Scope is required";
+  }
+  if (Object.keys(errors).length > 0) {
+    webviewPanelManager.postMessage(REGISTERED_PANELS.CONFIGURATION_FORM, {
+      messageType: "validationErrors",
+      data: errors,
+    });
+    return;
+  }
+
+  // Name and save the file
+  const fileName = await vscode.window.showInputBox({
+    title: "Configuration file name",
+    value: createUniqueFileName(configDir, "config", "monitoring"),
+    prompt: "Must be unique",
+    validateInput: value => {
+      const configFiles = readdirSync(configDir);
+      if (configFiles.includes(value)) {
+        return "Name must be unique";
+      }
+      return undefined;
+    },
+    ignoreFocusOut: true,
+  });
+  if (!fileName) {
+    showMessage("info", "Operation cancelled.");
+    return;
+  }
+  writeFileSync(
+    path.join(configDir, fileName),
+    JSON.stringify({ value: config.value, scope: config.scope }, undefined, 4),
+  );
+  webviewPanelManager.close(REGISTERED_PANELS.CONFIGURATION_FORM);
+  showMessage("info", `Configuration saved as ${fileName}`);
+}
 
 /**
  * Command implements workflow for creating a Monitoring Configuration file for the extension in
- * this workspace. If the extension is deployed on tenant, a config object is generated from the
- * live schema. Otherwise, a generic schema for that datasource is applied. Except for python
- * where we read the activationSchema.json.
- * The user is prompted for LOCAL vs REMOTE context where applicable but otherwise should use
- * code completions for customizing the generated template.
+ * this workspace. If the extension is deployed on tenant, the form is generated from the live
+ * schema. Otherwise, a generic schema for that datasource is applied. Except for python where we
+ * read the activationSchema.json.
+ * The configuration is filled in through a webview form which offers the ActiveGate groups and
+ * hosts of the connected environment as scopes. Once submitted and valid, it is saved as a
+ * separate file in the config folder.
  * @param dt Dyntrace client
- * @param context vscode Extension Context
  * @param cachedData cached data provider
+ * @param webviewPanelManager manager for the webview panel hosting the form
  */
 export async function createMonitoringConfiguration(
   dt: Dynatrace,
-  context: vscode.ExtensionContext,
   cachedData: CachedData,
+  webviewPanelManager: WebviewPanelManager,
 ) {
   const workspaceRoot = vscode.workspace.workspaceFolders?.[0].uri.fsPath;
   if (!workspaceRoot) {
@@ -59,73 +125,71 @@ export async function createMonitoringConfiguration(
     .getExtensionSchema(extension.name, extension.version)
     .catch(() => ({}));
 
-  // If the extension is deployed, create config template from live schema
-  let initialConfig: { value: Record<string, unknown>; scope: string };
+  // If the extension is deployed, build the form from the live schema
+  let schema: unknown;
+  let initialValue: Record<string, unknown>;
+  const datasourceName = getDatasourceName(extension);
+  const hasActivationContext = ["wmi", "prometheus", "python"].includes(datasourceName);
   if (Object.keys(deployedExtension).length > 0) {
-    initialConfig = { value: createObjectFromSchema(deployedExtension), scope: "" };
+    schema = deployedExtension;
+    initialValue = createObjectFromSchema(deployedExtension);
+  } else if (datasourceName === "python") {
+    // If this is a python extension, build the form from activationSchema.json
+    const activationSchemaFile = path.join(extensionFilePath, "..", "activationSchema.json");
+    schema = JSON.parse(readFileSync(activationSchemaFile).toString()) as unknown;
+    initialValue = createObjectFromSchema(schema, { activationContext: "REMOTE" });
   } else {
-    // If this is a python extension, create template from activationSchema.json
-    const datasourceName = getDatasourceName(extension);
-    let activationContext = "REMOTE";
-    if (["wmi", "prometheus", "python"].includes(datasourceName)) {
-      activationContext = await vscode.window.showQuickPick(["LOCAL", "REMOTE"], {
-        canPickMany: false,
-        ignoreFocusOut: true,
-        title: "Where will this configuration run?",
-      });
-      if (!activationContext) {
-        showMessage("info", "Operation cancelled");
-        return;
-      }
-    }
-    if (datasourceName === "python") {
-      const activationSchemaFile = path.join(extensionFilePath, "..", "activationSchema.json");
-      const activationSchema = JSON.parse(readFileSync(activationSchemaFile).toString()) as unknown;
-      initialConfig = {
-        value: createObjectFromSchema(activationSchema, { activationContext: activationContext }),
-        scope: "",
-      };
-    } else {
-      // Otherwise, create a default config based on datasource
-      initialConfig = {
-        value: createGenericConfigObject(datasourceName, { activationContext: activationContext }),
-        scope: "",
-      };
-    }
+    // Otherwise, build it from the generic schema of the datasource
+    schema = readGenericSchema(datasourceName);
+    initialValue = createGenericConfigObject(
+      datasourceName,
+      hasActivationContext ? { activationContext: "REMOTE" } : undefined,
+    );
   }
 
-  // Present the template to the user and allow for changes
-  const headerContent =
-    `
-// This a simple monitoring configuration template. Make any changes as needed below.
-// Lines starting with '//' will be ignored. This will be saved as a separate file ` +
-    "once you save and close this tab.";
-  const configObject = JSON.parse(
-    await getConfigurationDetailsViaFile(
-      headerContent,
-      JSON.stringify(initialConfig, undefined, 4),
-      context,
-      false,
-    ),
-  ) as MinimalConfiguration;
+  const fields = buildFormFields(schema);
+  if (hasActivationContext && !fields.some(field => field.key === "activationContext")) {
+    fields.unshift({
+      key: "activationContext",
+      displayName: "Activation context",
+      description: "Whether the configuration runs on an ActiveGate or on OneAgent hosts",
+      type: "enum",
+      required: true,
+      options: [
+        { value: "REMOTE", displayName: "REMOTE" },
+        { value: "LOCAL", displayName: "LOCAL" },
+      ],
+    });
+    initialValue = { activationContext: "REMOTE", ...initialValue };
+  }
 
-  // Name and save the file
-  const fileName = await vscode.window.showInputBox({
-    title: "Configuration file name",
-    value: createUniqueFileName(configDir, "config", "monitoring"),
-    prompt: "Must be unique",
-    validateInput: value => {
-      const configFiles = readdirSync(configDir);
-      if (configFiles.includes(value)) {
-        return "Name must be unique";
+  const formData: ConfigurationFormData = {
+    extensionName: extension.name,
+    extensionVersion: extension.version,
+    fields,
+    value: initialValue,
+    scope: "",
+    scopes: await getScopeOptions(dt),
+  };
+
+  webviewPanelManager.render(
+    REGISTERED_PANELS.CONFIGURATION_FORM,
+    "Monitoring configuration",
+    { dataType: "CONFIGURATION_FORM", data: formData },
+    async (message: PanelMessage) => {
+      switch (message.messageType) {
+        case "submitConfiguration":
+          await saveConfiguration(
+            message.data as SubmittedConfiguration,
+            fields,
+            configDir,
+            webviewPanelManager,
+          );
+          break;
+        case "cancel":
+          webviewPanelManager.close(REGISTERED_PANELS.CONFIGURATION_FORM);
+          break;
       }
-      return undefined;
     },
-    ignoreFocusOut: true,
-  });
-  if (!fileName) {
-    showMessage("info", "Operation cancelled.");
-  } else {
-    writeFileSync(path.join(configDir, fileName), JSON.stringify(configObject, undefined, 4));
-  }
+  );
 }
@@ -17,13 +17,20 @@
 import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
 import * as path from "path";
 import * as vscode from "vscode";
+import { DynatraceAPIError } from "../dynatrace-api/errors";
 import { Dashboard } from "../dynatrace-api/interfaces/dashboards";
 import { ExtensionStub } from "../interfaces/extensionMeta";
-import { EnvironmentsTreeDataProvider } from "../treeViews/environmentsTreeView";
+import {
+  DynatraceEnvironment,
+  EnvironmentsTreeDataProvider,
+} from "../treeViews/environmentsTreeView";
 import { showMessage } from "../utils/code";
 import { CachedData } from "../utils/dataCaching";
 import { getEntityMetrics, getMetricDisplayName } from "../utils/extensionParsing";
 import { getExtensionFilePath } from "../utils/fileSystem";
+import { buildPlatformDashboard } from "../utils/platformDashboards";
+import { applyYamlEdits, setYamlListEntry } from "../utils/yamlParsing";
+import { getLinkedDashboardId, linkDashboard } from "./syncDashboards";
 
 /*======================================================*
  * TEMPLATES THAT CREATE VARIOUS PARTS OF THE DASHBOARD *
@@ -477,22 +484,66 @@ function buildDashboard(
   return dashboard;
 }
 
+/**
+ * Uploads a platform dashboard as a document. Only the document the file was uploaded to before
+ * (if it still exists) gets updated; otherwise a new document is created and linked to the file,
+ * so that documents of the same name are never replaced.
+ * @param context VSCode Extension Context
+ * @param environment environment to upload to
+ * @param relativePath path of the dashboard file, relative to the extension directory
+ * @param title title of the dashboard
+ * @param content content of the dashboard file
+ */
+async function uploadPlatformDashboard(
+  context: vscode.ExtensionContext,
+  environment: DynatraceEnvironment,
+  relativePath: string,
+  title: string,
+  content: Buffer,
+) {
+  const documents = environment.dt.documents;
+  if (!documents) {
+    return;
+  }
+  const linkedId = getLinkedDashboardId(context, environment, relativePath);
+  if (linkedId) {
+    try {
+      const existing = await documents.get(linkedId);
+      await documents.updateContent(existing, content);
+      return;
+    } catch (err) {
+      // A document that was deleted in the meantime is simply created again
+      if (!(err instanceof DynatraceAPIError) || err.errorParams.code !== 404) {
+        throw err;
+      }
+    }
+  }
+  const created = await documents.create(title, "dashboard", content);
+  await linkDashboard(context, environment, relativePath, created.id);
+}
+
 /**
  * Workflow for creating an overview dashboard based on the content of the extension.yaml.
  * The extension should have topology defined otherwise the dashboard doesn't have much
  * data to render and is pointless. The extension yaml is adapted to include the newly
- * created dashboard. At the end, the user is prompted to upload the dashboard to Dynatrace
+ * created dashboard. Dashboards can be created in the classic format, the platform (Dashboards
+ * app) format, or both. At the end, the user is prompted to upload the dashboards to Dynatrace;
+ * platform dashboards can only be uploaded if the environment has an OAuth client. Uploaded
+ * platform dashboards are linked to the file, so uploading again updates the same document.
+ * @param context VSCode Extension Context
  * @param tenantsProvider environments details proivder
  * @param cachedData provider for cacheable data
  * @param outputChannel JSON output channel for communicating errors
  * @returns
  */
 export async function createOverviewDashboard(
+  context: vscode.ExtensionContext,
   tenantsProvider: EnvironmentsTreeDataProvider,
   cachedData: CachedData,
   outputChannel: vscode.OutputChannel,
 ) {
   const DASHBOARD_PATH = "dashboards/overview_dashboard.json";
+  const PLATFORM_DASHBOARD_PATH = "dashboards/overview_platform_dashboard.json";
   // Read extension.yaml
   const extensionFile = getExtensionFilePath();
   if (!extensionFile) {
@@ -512,58 +563,100 @@ export async function createOverviewDashboard(
     ignoreFocusOut: true,
   });
 
-  // Create dashboard
-  const dashboardJson = buildDashboard(extension, dashboardTitle);
+  const formats = await vscode.window.showQuickPick(
+    [
+      { label: "Classic dashboard", picked: true, platform: false },
+      {
+        label: "Platform dashboard",
+        description: "Dashboards app, using DQL",
+        picked: true,
+        platform: true,
+      },
+    ],
+    { title: "Dashboard formats to create", canPickMany: true, ignoreFocusOut: true },
+  );
+  if (!formats || formats.length === 0) {
+    return;
+  }
+  const createClassic = formats.some(f => !f.platform);
+  const createPlatform = formats.some(f => f.platform);
+
   // Create directories for dashboard
   const extensionDir = path.resolve(extensionFile, "..");
   const dashboardsDir = path.resolve(extensionDir, "dashboards");
   if (!existsSync(dashboardsDir)) {
     mkdirSync(dashboardsDir);
   }
-  // Write dashboard to file
-  const dashboardFile = path.resolve(dashboardsDir, "overview_dashboard.json");
-  writeFileSync(dashboardFile, dashboardJson);
-  // Edit extension.yaml to include it
-  const dashboardsMatch = extensionText.search(/^dashboards:$/gm);
-  let updatedExtensionText;
-  if (dashboardsMatch > -1) {
-    if (!extensionText.includes(`path: ${DASHBOARD_PATH}`)) {
-      const indent = extensionText.slice(dashboardsMatch).indexOf("-") - 12;
-      const beforeText = extensionText.slice(0, dashboardsMatch);
-      const afterText = extensionText.slice(dashboardsMatch + 12);
-      updatedExtensionText = `${beforeText}dashboards:\n${" ".repeat(
-        indent,
-      )}- path: ${DASHBOARD_PATH}\n${afterText}`;
-    } else {
-      // Nothing to do, dashboard is already present
-      updatedExtensionText = extensionText;
-    }
-  } else {
-    updatedExtensionText = `${extensionText}\ndashboards:\n  - path: ${DASHBOARD_PATH}\n`;
+  // Write dashboards to files and edit extension.yaml to include them
+  let updatedExtensionText = extensionText;
+  const dashboardJson = buildDashboard(extension, dashboardTitle);
+  if (createClassic) {
+    writeFileSync(path.resolve(extensionDir, DASHBOARD_PATH), dashboardJson);
+    updatedExtensionText = applyYamlEdits(
+      updatedExtensionText,
+      setYamlListEntry(
+        updatedExtensionText,
+        ["dashboards"],
+        { path: DASHBOARD_PATH },
+        existing => (existing as { path?: string } | null)?.path === DASHBOARD_PATH,
+      ),
+    );
+  }
+  const platformTitle = dashboardTitle ?? `Extension Overview (${extension.name})`;
+  const platformDashboardJson = buildPlatformDashboard(extension, platformTitle);
+  if (createPlatform) {
+    writeFileSync(path.resolve(extensionDir, PLATFORM_DASHBOARD_PATH), platformDashboardJson);
+    updatedExtensionText = applyYamlEdits(
+      updatedExtensionText,
+      setYamlListEntry(
+        updatedExtensionText,
+        ["documents", "dashboards"],
+        { displayName: platformTitle, path: PLATFORM_DASHBOARD_PATH },
+        existing => (existing as { path?: string } | null)?.path === PLATFORM_DASHBOARD_PATH,
+      ),
+    );
   }
-
   writeFileSync(extensionFile, updatedExtensionText);
 
-  showMessage("info", "Dashboard created successfully");
+  showMessage("info", `${formats.length > 1 ? "Dashboards" : "Dashboard"} created successfully`);
 
-  // If we're connected to the API, prompt for upload.
-  await tenantsProvider.getDynatraceClient().then(async dt => {
-    if (dt) {
-      await vscode.window
-        .showInformationMessage("Would you like to upload it to Dynatrace?", "Yes", "No")
-        .then(choice => {
-          if (choice === "Yes") {
-            dt.dashboards
-              .post(JSON.parse(dashboardJson) as Dashboard)
-              .then(() => {
-                showMessage("info", "Upload successful.");
-              })
-              .catch(err => {
-                outputChannel.replace(JSON.stringify(err, null, 2));
-                outputChannel.show();
-              });
-          }
-        });
-    }
-  });
+  // If we're connected to the API, prompt for upload. Platform dashboards go through the
+  // Document API, which needs the environment to have an OAuth client.
+  const environment = await tenantsProvider.getCurrentEnvironment();
+  const dt = environment?.dt;
+  const documents = createPlatform ? dt?.documents : undefined;
+  if (!environment || !dt || (!createClassic && !documents)) {
+    return;
+  }
+  const choice = await vscode.window.showInformationMessage(
+    "Would you like to upload it to Dynatrace?",
+    "Yes",
+    "No",
+  );
+  if (choice !== "Yes") {
+    return;
+  }
+  const uploads: Promise<unknown>[] = [];
+  if (createClassic) {
+    uploads.push(dt.dashboards.post(JSON.parse(dashboardJson) as Dashboard));
+  }
+  if (documents) {
+    uploads.push(
+      uploadPlatformDashboard(
+        context,
+        environment,
+        PLATFORM_DASHBOARD_PATH,
+        platformTitle,
+        Buffer.from(platformDashboardJson),
+      ),
+    );
+  }
+  await Promise.all(uploads)
+    .then(() => {
+      showMessage("info", "Upload successful.");
+    })
+    .catch(err => {
+      outputChannel.replace(JSON.stringify(err, null, 2));
+      outputChannel.show();
+    });
 }
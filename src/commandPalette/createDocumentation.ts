@@ -14,22 +14,238 @@
   limitations under the License.
  */
 
-import { readFileSync, writeFileSync } from "fs";
+import { execFile } from "child_process";
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
 import * as path from "path";
+import { promisify } from "util";
 import * as vscode from "vscode";
 import {
   AlertDefinition,
   AlertDoc,
+  CardDoc,
+  ChangelogDoc,
   DashboardDoc,
+  DocumentationView,
   DynatraceDashboard,
   EntityDoc,
+  FeatureSetSectionDoc,
   MetricDoc,
   MetricEntityMap,
+  ScreenDoc,
 } from "../interfaces/extensionDocs";
 import { ExtensionStub } from "../interfaces/extensionMeta";
+import { showMessage } from "../utils/code";
 import { CachedData } from "../utils/dataCaching";
 import { getAllMetricsByFeatureSet } from "../utils/extensionParsing";
 import { getExtensionFilePath } from "../utils/fileSystem";
+import { renderTemplate } from "../utils/templating";
+
+const execFileAsync = promisify(execFile);
+const MAX_CHANGELOG_TAGS = 20;
+
+/*=============================================================*
+ * BUILT-IN TEMPLATES (MUSTACHE/HANDLEBARS) FOR DOCUMENTATION   *
+ *=============================================================*/
+
+const MARKDOWN_TEMPLATE = `\
+# {{name}}
+
+**Latest version:** {{version}}
+This extension is built using the Dynatrace Extension 2.0 Framework.
+This means it will benefit of additional assets that can help you browse through the data.
+
+{{#if entities}}
+## Topology
+
+This extension will create the following types of entities:
+{{#each entities}}
+* {{name}} ({{type}})
+{{/each}}
+
+{{/if}}
+{{#if metricGroups}}
+## Metrics
+
+This extension will collect the following metrics:
+{{#each metricGroups}}
+* {{#if metricEntityString}}Split by {{metricEntityString}}{{else}}Not split by any entity{{/if}}:
+{{#each metrics}}
+  * {{name}} (\`{{key}}\`)
+{{#if description}}
+    {{description}}{{#if unit}} (as {{unit}}){{/if}}
+{{/if}}
+{{/each}}
+{{/each}}
+
+{{/if}}
+{{#if alerts}}
+## Alerts
+
+Custom events for alerting are packaged along with the extension. These should be reviewed and \
+ajusted as needed before enabling from the Settings page.
+Alerts:
+{{#each alerts}}
+* {{name}}{{#if entityName}} (applies to {{entityName}}){{/if}}
+  {{description}}
+{{/each}}
+
+{{/if}}
+{{#if dashboards}}
+## Dashboards
+
+This extension is packaged with {{dashboards.length}} dashboards which should serve as a \
+starting point for data analysis.
+You can find these by opening the Dashboards menu and searching for:
+
+{{#each dashboards}}
+* {{name}}
+{{/each}}
+
+{{/if}}
+{{#if screens}}
+## Screens
+
+This extension enhances the following entity screens:
+
+{{#each screens}}
+### {{entityName}}
+
+{{#each cards}}
+* {{displayName}} ({{type}})
+{{/each}}
+
+{{/each}}
+{{/if}}
+# Configuration
+
+{{#if featureSets}}
+## Feature sets
+
+Feature sets can be used to opt in and out of metric data collection.
+This extension groups together metrics within the following feature sets:
+
+{{#each featureSets}}
+### {{name}}
+
+| Metric | Key | Unit |
+| ------ | --- | ---- |
+{{#each metrics}}
+| {{name}} | \`{{key}}\` | {{unit}} |
+{{/each}}
+
+{{/each}}
+{{/if}}
+{{#if variables}}
+## Variables
+
+Variables are used in monitoring configurations for filtering and adding additional dimensions.
+This extension exposes the following variables:
+
+{{#each variables}}
+* \`{{id}}\` ({{type}}) - {{displayName}}
+{{/each}}
+
+{{/if}}
+{{#if changelog}}
+# Changelog
+
+{{#each changelog}}
+## {{tag}} ({{date}})
+
+{{#each changes}}
+* {{this}}
+{{/each}}
+
+{{/each}}
+{{/if}}
+`;
+
+const HTML_TEMPLATE = `\
+<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <title>{{name}} {{version}}</title>
+  <style>
+    body { font-family: sans-serif; max-width: 960px; margin: 2rem auto; color: #242424; }
+    table { border-collapse: collapse; width: 100%; margin-bottom: 1rem; }
+    th, td { border: 1px solid #ccc; padding: 0.3rem 0.6rem; text-align: left; }
+    code { background: #f2f2f2; padding: 0 0.2rem; }
+  </style>
+</head>
+<body>
+  <h1>{{name}}</h1>
+  <p><strong>Latest version:</strong> {{version}}</p>
+{{#if entities}}
+  <h2>Topology</h2>
+  <ul>
+{{#each entities}}
+    <li>{{name}} (<code>{{type}}</code>)</li>
+{{/each}}
+  </ul>
+{{/if}}
+{{#if featureSets}}
+  <h2>Metrics by feature set</h2>
+{{#each featureSets}}
+  <h3>{{name}}</h3>
+  <table>
+    <tr><th>Metric</th><th>Key</th><th>Unit</th><th>Entities</th><th>Description</th></tr>
+{{#each metrics}}
+    <tr><td>{{name}}</td><td><code>{{key}}</code></td><td>{{unit}}</td><td>{{#each entities}}{{this}} {{/each}}</td><td>{{description}}</td></tr>
+{{/each}}
+  </table>
+{{/each}}
+{{/if}}
+{{#if alerts}}
+  <h2>Alerts</h2>
+  <ul>
+{{#each alerts}}
+    <li><strong>{{name}}</strong>{{#if entityName}} (applies to {{entityName}}){{/if}}: {{description}}</li>
+{{/each}}
+  </ul>
+{{/if}}
+{{#if dashboards}}
+  <h2>Dashboards</h2>
+  <ul>
+{{#each dashboards}}
+    <li>{{name}}</li>
+{{/each}}
+  </ul>
+{{/if}}
+{{#if screens}}
+  <h2>Screens</h2>
+{{#each screens}}
+  <h3>{{entityName}}</h3>
+  <ul>
+{{#each cards}}
+    <li>{{displayName}} ({{type}})</li>
+{{/each}}
+  </ul>
+{{/each}}
+{{/if}}
+{{#if variables}}
+  <h2>Variables</h2>
+  <table>
+    <tr><th>Variable</th><th>Type</th><th>Name</th></tr>
+{{#each variables}}
+    <tr><td><code>{{id}}</code></td><td>{{type}}</td><td>{{displayName}}</td></tr>
+{{/each}}
+  </table>
+{{/if}}
+{{#if changelog}}
+  <h2>Changelog</h2>
+{{#each changelog}}
+  <h3>{{tag}} <small>{{date}}</small></h3>
+  <ul>
+{{#each changes}}
+    <li>{{this}}</li>
+{{/each}}
+  </ul>
+{{/each}}
+{{/if}}
+</body>
+</html>
+`;
 
 /**
  * Reads extension.yaml data and extracts relevant details for documenting custom events for
@@ -201,106 +417,188 @@ function mapEntitiesToMetrics(entities: EntityDoc[], metrics: MetricDoc[]): Metr
 }
 
 /**
- * Invokes all other data collection functions and puts together the documentation style content.
- * Writes the content to README.md in the workspace. If README.md exists already it will be
- * overwritten.
+ * Reads through extension.yaml data and extracts relevant details for documenting the unified
+ * analysis screens and their cards.
+ * @param extension extension.yaml content parsed into an object
+ * @param entities topology metadata as produced by {@link extractTopology}
+ * @returns screens processed metadata
+ */
+function extractScreens(extension: ExtensionStub, entities: EntityDoc[]): ScreenDoc[] {
+  if (!extension.screens) {
+    return [];
+  }
+  return extension.screens.map(screen => {
+    const cards: CardDoc[] = [];
+    const addCards = (type: string, list?: { key: string; displayName?: string }[]) => {
+      list?.forEach(card =>
+        cards.push({ key: card.key, displayName: card.displayName ?? card.key, type }),
+      );
+    };
+    addCards("Charts card", screen.chartsCards);
+    addCards("Entities list card", screen.entitiesListCards);
+    addCards("Metric table card", screen.metricTableCards);
+    addCards("Message card", screen.messageCards);
+    addCards("Logs card", screen.logsCards);
+    addCards("Events card", screen.eventsCards);
+
+    return {
+      entityType: screen.entityType,
+      entityName: entities.find(e => e.type === screen.entityType)?.name ?? screen.entityType,
+      cards,
+    };
+  });
+}
+
+/**
+ * Groups the documented metrics by the feature sets they belong to.
+ * @param extension extension.yaml content parsed into an object
+ * @param metrics metrics metadata as produced by {@link extractMetrics}
+ * @returns feature sets with their metrics' metadata
+ */
+function extractFeatureSets(
+  extension: ExtensionStub,
+  metrics: MetricDoc[],
+): FeatureSetSectionDoc[] {
+  return getAllMetricsByFeatureSet(extension)
+    .filter(featureSet => featureSet.metrics.length > 0)
+    .map(featureSet => ({
+      name: featureSet.name,
+      metrics: featureSet.metrics.map(
+        key => metrics.find(m => m.key === key) ?? { key, name: key, entities: [] },
+      ),
+    }));
+}
+
+/**
+ * Builds a changelog from the git tags of the repository holding the extension. Every tag lists
+ * the subjects of the commits made since the tag before it. Repositories without tags (or
+ * workspaces that aren't git repositories) don't have a changelog.
+ * @param repoDir path to a directory within the repository
+ * @returns changelog entries, newest first
+ */
+async function extractChangelog(repoDir: string): Promise<ChangelogDoc[]> {
+  const git = async (...args: string[]) =>
+    execFileAsync("git", args, { cwd: repoDir }).then(({ stdout }) => stdout.trim());
+  try {
+    const tags = (
+      await git("tag", "--sort=-creatordate", "--format=%(refname:short)|%(creatordate:short)")
+    )
+      .split("\n")
+      .filter(line => line.includes("|"))
+      .slice(0, MAX_CHANGELOG_TAGS)
+      .map(line => line.split("|"));
+    return await Promise.all(
+      tags.map(async ([tag, date], i) => {
+        const range = i + 1 < tags.length ? `${tags[i + 1][0]}..${tag}` : tag;
+        const log = await git("log", "--no-merges", "--pretty=format:%s", range);
+        return { tag, date, changes: log.split("\n").filter(line => line !== "") };
+      }),
+    );
+  } catch (err) {
+    console.log(`No changelog available: ${(err as Error).message}`);
+    return [];
+  }
+}
+
+/**
+ * Invokes all other data collection functions and puts together everything that can be
+ * documented about the extension.
  * @param extension extension.yaml content parsed into an object
  * @param extensionDir path to the extension folder
+ * @returns details for rendering documentation templates
  */
-function writeDocumentation(extension: ExtensionStub, extensionDir: string) {
-  // Extract required data
+async function buildDocumentationView(
+  extension: ExtensionStub,
+  extensionDir: string,
+): Promise<DocumentationView> {
   const entities = extractTopology(extension);
   const metrics = extractMetrics(extension);
-  const dashboards = extractDashboards(extension, extensionDir);
-  const alerts = extractAlerts(extension, extensionDir);
-  const featureSets = getAllMetricsByFeatureSet(extension);
-  const metricsMap = mapEntitiesToMetrics(entities, metrics);
-
-  // Translate data to readable content
-  const docPath = path.join(extensionDir, "..", "README.md");
-  let docContent = `# ${extension.name}\n\n`;
-  docContent += `**Latest version:** ${extension.version}\n`;
-  docContent +=
-    "This extension is built using the Dynatrace Extension 2.0 Framework.\nThis means it will " +
-    "benefit of additional assets that can help you browse through the data.\n\n";
-  if (entities.length > 0) {
-    docContent += "## Topology\n\nThis extension will create the following types of entities:\n";
-    entities.forEach(entity => {
-      docContent += `* ${entity.name} (${entity.type})\n`;
-    });
-    docContent += "\n";
-  }
-  if (metrics.length > 0) {
-    docContent += "## Metrics\n\nThis extension will collect the following metrics:\n";
-    metricsMap.forEach(mm => {
-      docContent += `* Split by ${mm.metricEntityString}:\n`;
-      mm.metrics.forEach(m => {
-        docContent += `  * ${m.name} (\`${m.key}\`)\n`;
-        if (m.description && m.unit) {
-          docContent += `    ${m.description} (as ${m.unit})\n`;
-        }
-      });
-    });
-    docContent += "\n";
-  }
-  if (alerts.length > 0) {
-    docContent +=
-      "## Alerts\n\nCustom events for alerting are packaged along with the extension. These " +
-      "should be reviewed and ajusted as needed before enabling from the Settings page.\nAlerts:\n";
-    alerts.forEach(alert => {
-      docContent += `* ${alert.name}`;
-      if (alert.entity) {
-        const eIdx = entities.findIndex(e => e.type === alert.entity);
-        docContent += eIdx === -1 ? "" : ` (applies to ${entities[eIdx].name})\n`;
-      }
-      docContent += `  ${alert.description}\n`;
-    });
-    docContent += "\n";
-  }
-  if (dashboards.length > 0) {
-    docContent +=
-      `## Dashboards\n\nThis extension is packaged with ${dashboards.length} ` +
-      "dashboards which should serve as a starting point for data analysis.";
-    docContent += "\nYou can find these by opening the Dashboards menu and searching for:\n\n";
-    dashboards.forEach(dashboard => {
-      docContent += `* ${dashboard.name}\n`;
-    });
-    docContent += "\n";
+  const metricGroups = mapEntitiesToMetrics(entities, metrics);
+
+  return {
+    name: extension.name,
+    version: extension.version,
+    entities,
+    metricGroups,
+    featureSets: extractFeatureSets(extension, metrics),
+    alerts: extractAlerts(extension, extensionDir).map(alert => ({
+      ...alert,
+      entityName: entities.find(e => e.type === alert.entity)?.name,
+    })),
+    dashboards: extractDashboards(extension, extensionDir),
+    screens: extractScreens(extension, entities),
+    variables: (extension.vars ?? []).map(v => ({
+      id: v.id,
+      type: v.type,
+      displayName: v.displayName,
+    })),
+    changelog: await extractChangelog(extensionDir),
+  };
+}
+
+/**
+ * Reads a user-provided template, if one is configured.
+ * @param setting name of the setting holding the template path
+ * @param workspaceDir path to the workspace root, for resolving relative paths
+ * @returns template text, or undefined if none is configured
+ */
+function readCustomTemplate(setting: string, workspaceDir: string): string | undefined {
+  const templatePath = vscode.workspace
+    .getConfiguration("dynatraceExtensions.documentation", null)
+    .get<string>(setting);
+  if (!templatePath) {
+    return undefined;
   }
-  docContent += "# Configuration\n\n";
-  if (featureSets.length > 0) {
-    docContent += "## Feature sets\n\n";
-    docContent +=
-      "Feature sets can be used to opt in and out of metric data collection.\nThis extension " +
-      "groups together metrics within the following feature sets:\n\n";
-    featureSets.forEach(featureSet => {
-      docContent += `* ${featureSet.name}\n`;
-      featureSet.metrics.forEach(metric => {
-        docContent += `  * ${metric}\n`;
-      });
-    });
-    docContent += "\n";
+  return readFileSync(path.resolve(workspaceDir, templatePath)).toString();
+}
+
+/**
+ * Renders the documentation and writes it to README.md in the workspace. If an HTML output
+ * directory is configured, it is also written to a static HTML page (index.html) there. Both use
+ * built-in templates unless custom ones are configured. Existing files will be overwritten.
+ * @param extension extension.yaml content parsed into an object
+ * @param extensionDir path to the extension folder
+ * @returns paths of the written files
+ */
+async function writeDocumentation(
+  extension: ExtensionStub,
+  extensionDir: string,
+): Promise<string[]> {
+  const workspaceDir = path.join(extensionDir, "..");
+  const view = await buildDocumentationView(extension, extensionDir);
+
+  // Markdown shouldn't get HTML-escaped
+  const docPath = path.join(workspaceDir, "README.md");
+  const markdownTemplate =
+    readCustomTemplate("markdownTemplate", workspaceDir) ?? MARKDOWN_TEMPLATE;
+  writeFileSync(docPath, renderTemplate(markdownTemplate, view, false), {
+    encoding: "utf-8",
+  });
+
+  // HTML output is opt-in, so that an existing documentation site is never overwritten unasked
+  const htmlOutputDirectory = vscode.workspace
+    .getConfiguration("dynatraceExtensions.documentation", null)
+    .get<string>("htmlOutputDirectory");
+  if (!htmlOutputDirectory) {
+    return [docPath];
   }
-  if (extension.vars) {
-    docContent +=
-      "## Variables\n\nVariables are used in monitoring configurations for filtering and adding " +
-      "additional dimensions.\n";
-    docContent += "This extension exposes the following variables:\n\n";
-    extension.vars.forEach(v => {
-      docContent += `* \`${v.id}\` (${v.type}) - ${v.displayName}\n`;
-    });
-    docContent += "\n";
+  const htmlDir = path.resolve(workspaceDir, htmlOutputDirectory);
+  if (!existsSync(htmlDir)) {
+    mkdirSync(htmlDir, { recursive: true });
   }
+  const htmlPath = path.join(htmlDir, "index.html");
+  const htmlTemplate = readCustomTemplate("htmlTemplate", workspaceDir) ?? HTML_TEMPLATE;
+  writeFileSync(htmlPath, renderTemplate(htmlTemplate, view), { encoding: "utf-8" });
 
-  // Write the README.md file
-  writeFileSync(docPath, docContent, { encoding: "utf-8" });
+  return [docPath, htmlPath];
 }
 
 /**
  * Delivers the "Create documentation" command functionality.
- * Reads through the extension.yaml file and any associated alerts/dashboards JSONs and produces
- * content for a README.md file which is written in the workspace at the same level as the extension
- * folder.
+ * Reads through the extension.yaml file, any associated alerts/dashboards JSONs and the git tags
+ * of the repository and produces content for a README.md file which is written in the workspace
+ * at the same level as the extension folder, plus (optionally) a static HTML page for
+ * documentation sites.
  * @param cachedData provider for cacheable data
  * @returns void
  */
@@ -316,8 +614,16 @@ export async function createDocumentation(cachedData: CachedData) {
       const extensionDir = path.dirname(extensionFile);
       const extension = cachedData.getCached<ExtensionStub>("parsedExtension");
 
-      progress.report({ message: "Writing README.md" });
-      writeDocumentation(extension, extensionDir);
+      progress.report({ message: "Writing documentation" });
+      try {
+        const files = await writeDocumentation(extension, extensionDir);
+        showMessage(
+          "info",
+          `Documentation written to ${files.map(f => path.basename(f)).join(", ")}`,
+        );
+      } catch (err) {
+        showMessage("error", `Could not create documentation: ${(err as Error).message}`);
+      }
     },
   );
 }
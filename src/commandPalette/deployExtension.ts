@@ -0,0 +1,238 @@
+/**
+  Copyright 2022 Dynatrace LLC
+
+  Licensed under the Apache License, Version 2.0 (the "License");
+  you may not use this file except in compliance with the License.
+  You may obtain a copy of the License at
+
+      https://www.apache.org/licenses/LICENSE-2.0
+
+  Unless required by applicable law or agreed to in writing, software
+  distributed under the License is distributed on an "AS IS" BASIS,
+  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+  See the License for the specific language governing permissions and
+  limitations under the License.
+ */
+
+import { readFileSync } from "fs";
+import * as path from "path";
+import * as vscode from "vscode";
+import { Dynatrace } from "../dynatrace-api/dynatrace";
+import { DynatraceAPIError } from "../dynatrace-api/errors";
+import { DynatraceEnvironmentData } from "../interfaces/treeViewData";
+import { showMessage } from "../utils/code";
+import {
+  DeploymentState,
+  deployPackage,
+  getLatestPackage,
+  readManifestFromPackage,
+  rollbackDeployment,
+} from "../utils/extensionBuild";
+import { getAllEnvironments, getEnvironmentToken } from "../utils/fileSystem";
+
+interface DeploymentResult {
+  environment: DynatraceEnvironmentData;
+  dt: Dynatrace;
+  state: DeploymentState;
+  status: "deployed" | "failed" | "rolled back" | "rollback failed";
+  error?: unknown;
+}
+
+/**
+ * Extracts the details of an error in a form that can be included in the report.
+ * @param err the error caught
+ * @returns error details
+ */
+function errorDetails(err: unknown): unknown {
+  return err instanceof DynatraceAPIError ? err.errorParams : (err as Error).message;
+}
+
+/**
+ * Writes the per-environment results of a deployment to the output channel.
+ * @param oc JSON output channel
+ * @param extensionName name of the deployed extension
+ * @param extensionVersion version of the deployed extension
+ * @param results results of the deployment
+ */
+function reportResults(
+  oc: vscode.OutputChannel,
+  extensionName: string,
+  extensionVersion: string,
+  results: DeploymentResult[],
+) {
+  oc.replace(
+    JSON.stringify(
+      {
+        extension: extensionName,
+        version: extensionVersion,
+        environments: results.map(r => ({
+          environment: r.environment.name ?? r.environment.id,
+          url: r.environment.url,
+          status: r.status,
+          previousVersion: r.state.previousVersion,
+          uploaded: r.state.uploaded,
+          activated: r.state.activated,
+          errorDetails: r.error,
+        })),
+      },
+      null,
+      2,
+    ),
+  );
+  oc.show();
+}
+
+/**
+ * Reverts the deployment in each of the given environments, updating their results.
+ * @param extensionName name of the deployed extension
+ * @param extensionVersion version of the deployed extension
+ * @param results results of the environments to roll back
+ */
+async function rollback(
+  extensionName: string,
+  extensionVersion: string,
+  results: DeploymentResult[],
+) {
+  await vscode.window.withProgress(
+    { location: vscode.ProgressLocation.Notification, title: "Rolling back deployment" },
+    () =>
+      Promise.all(
+        results.map(result =>
+          rollbackDeployment(extensionName, extensionVersion, result.dt, result.state)
+            .then(() => {
+              result.status = "rolled back";
+            })
+            .catch((err: unknown) => {
+              result.status = "rollback failed";
+              result.error = errorDetails(err);
+            }),
+        ),
+      ),
+  );
+}
+
+/**
+ * Deploys the latest extension 2.0 package from the `dist` folder of the workspace to several
+ * of the registered Dynatrace environments at once. The package is uploaded (and optionally
+ * activated) in all selected environments in parallel and the outcome for each one is
+ * reported in the output channel. If any environment fails, the user can roll back either
+ * just the failed environments or all of them.
+ * @param context VSCode Extension Context
+ * @param oc JSON output channel for reporting results
+ * @returns void
+ */
+export async function deployExtension(context: vscode.ExtensionContext, oc: vscode.OutputChannel) {
+  // Get the most recent entry in dist folder
+  const rootPath = vscode.workspace.workspaceFolders?.[0].uri.fsPath;
+  if (!rootPath) {
+    return;
+  }
+  const distDir = path.join(rootPath, "dist");
+  const extensionZip = getLatestPackage(distDir);
+  if (!extensionZip) {
+    return;
+  }
+  const extension = readManifestFromPackage(path.join(distDir, extensionZip));
+
+  // Prompt for the target environments and whether to activate
+  const environments = getAllEnvironments(context);
+  if (environments.length === 0) {
+    showMessage("error", "No Dynatrace environments registered. Add one first.");
+    return;
+  }
+  const selected = await vscode.window.showQuickPick(
+    environments.map(environment => ({
+      label: environment.name ?? environment.id,
+      description: environment.url,
+      picked: environment.current,
+      environment,
+    })),
+    {
+      canPickMany: true,
+      ignoreFocusOut: true,
+      title: `Deploy ${extension.name} version ${extension.version}`,
+      placeHolder: "Choose the environments to deploy to",
+    },
+  );
+  if (!selected || selected.length === 0) {
+    showMessage("error", "No environments selected. Cancelling operation.");
+    return;
+  }
+  const mode = await vscode.window.showQuickPick(["Upload and activate", "Upload only"], {
+    canPickMany: false,
+    ignoreFocusOut: true,
+    title: `Deploy ${extension.name} version ${extension.version}`,
+    placeHolder: "Should the new version also be activated?",
+  });
+  if (!mode) {
+    showMessage("error", "Operation cancelled.");
+    return;
+  }
+
+  // Deploy to all environments in parallel
+  const file = readFileSync(path.join(distDir, extensionZip));
+  const results = await vscode.window.withProgress(
+    {
+      location: vscode.ProgressLocation.Notification,
+      title: `Deploying extension to ${selected.length} environments`,
+    },
+    progress =>
+      Promise.all(
+        selected.map(async ({ environment }) => {
+          const result: DeploymentResult = {
+            environment,
+            dt: new Dynatrace(environment.apiUrl, await getEnvironmentToken(context, environment)),
+            state: { uploaded: false, activated: false },
+            status: "deployed",
+          };
+          try {
+            await deployPackage(
+              file,
+              extension.name,
+              extension.version,
+              result.dt,
+              mode === "Upload and activate",
+              result.state,
+            );
+          } catch (err) {
+            result.status = "failed";
+            result.error = errorDetails(err);
+          }
+          progress.report({
+            message: `${environment.name ?? environment.id} ${result.status}`,
+            increment: 100 / selected.length,
+          });
+          return result;
+        }),
+      ),
+  );
+  reportResults(oc, extension.name, extension.version, results);
+
+  const failed = results.filter(r => r.status === "failed");
+  if (failed.length === 0) {
+    showMessage("info", `Extension deployed successfully to ${results.length} environments.`);
+    return;
+  }
+
+  // Offer to roll back on failures
+  const choice = await vscode.window.showWarningMessage(
+    `Deployment failed in ${failed.length} of ${results.length} environments. ` +
+      "See the output for details. Would you like to roll back?",
+    "Roll back failed",
+    "Roll back all",
+    "No",
+  );
+  if (choice === "Roll back failed" || choice === "Roll back all") {
+    await rollback(
+      extension.name,
+      extension.version,
+      choice === "Roll back all" ? results : failed,
+    );
+    reportResults(oc, extension.name, extension.version, results);
+    if (results.some(r => r.status === "rollback failed")) {
+      showMessage("error", "Rollback failed in some environments. See the output for details.");
+    } else {
+      showMessage("info", "Deployment rolled back successfully.");
+    }
+  }
+}
@@ -18,10 +18,52 @@ import { readFileSync } from "fs";
 import * as vscode from "vscode";
 import { Dynatrace } from "../dynatrace-api/dynatrace";
 import { DynatraceAPIError } from "../dynatrace-api/errors";
+import {
+  getCertificateDistributions,
+  readCertificateDetails,
+  recordCertificateDistribution,
+} from "../utils/certificates";
 import { showMessage } from "../utils/code";
 import { checkActiveGateInstalled, checkOneAgentInstalled } from "../utils/conditionCheckers";
 import { resolveRealPath, uploadComponentCert } from "../utils/fileSystem";
 
+/**
+ * Offers to write a CA certificate to the locally installed OneAgents/ActiveGates, if any.
+ * @param certPath path to the CA certificate file
+ */
+export async function distributeToLocalComponents(certPath: string) {
+  const agPresent = checkActiveGateInstalled();
+  const oaPresent = checkOneAgentInstalled();
+
+  if (agPresent || oaPresent) {
+    const choice = await vscode.window.showInformationMessage(
+      "Do you want to also distribute this certificate to locally installed OneAgents/ActiveGates?",
+      "Yes",
+      "No",
+    );
+    if (choice === "Yes") {
+      try {
+        if (oaPresent) {
+          uploadComponentCert(certPath, "OneAgent");
+          showMessage("info", "Certificate successfully uploaded to local OneAgent.");
+        }
+        if (agPresent) {
+          uploadComponentCert(certPath, "ActiveGate");
+          showMessage("info", "Certificate successfully uploaded to local ActiveGate.");
+        }
+      } catch (err) {
+        showMessage(
+          "error",
+          (err as Error).name === "EPERM"
+            ? "Writing certificate locally failed due to access permissions. " +
+                "Try again after running VS Code as Administrator."
+            : `Writing certificate locally failed: ${(err as Error).message}`,
+        );
+      }
+    }
+  }
+}
+
 /**
  * Delivers the "Distribute certificate" command functionality.
  * First, it either uploads a new certificate to the Dynatrace credential vault or updates
@@ -29,9 +71,14 @@ import { resolveRealPath, uploadComponentCert } from "../utils/fileSystem";
  * command continues with distributing the credential to any locally installed components.
  * @param context VSCode Extension Context
  * @param dt Dynatrace API Client
+ * @param environmentUrl URL of the environment the client connects to
  * @returns boolean - the success of the command
  */
-export async function distributeCertificate(context: vscode.ExtensionContext, dt: Dynatrace) {
+export async function distributeCertificate(
+  context: vscode.ExtensionContext,
+  dt: Dynatrace,
+  environmentUrl: string,
+) {
   const certSettingValue = vscode.workspace
     .getConfiguration("dynatraceExtensions", null)
     .get<string>("rootOrCaCertificateLocation");
@@ -40,10 +87,13 @@ export async function distributeCertificate(context: vscode.ExtensionContext, dt
   }
   const certPath = resolveRealPath(certSettingValue);
   const certContent = readFileSync(certPath).toString();
+  const { fingerprint } = readCertificateDetails(certContent);
 
   // TODO: This is not enough. What if ID is stale? Needs GET to confirm existence
   // Check certificate exists and prompt for overwrite
-  const caCertId = context.workspaceState.get<string>("caCertId");
+  const caCertId =
+    getCertificateDistributions(context)[environmentUrl]?.credentialId ??
+    context.workspaceState.get<string>("caCertId");
   let update = false;
   if (caCertId) {
     const choice = await vscode.window.showQuickPick(["Yes", "No"], {
@@ -61,6 +111,10 @@ export async function distributeCertificate(context: vscode.ExtensionContext, dt
     await dt.credentialVault
       .putCertificate(caCertId, certContent, oldCert.name, oldCert.description)
       .then(async () => {
+        await recordCertificateDistribution(context, environmentUrl, {
+          credentialId: caCertId,
+          fingerprint,
+        });
         showMessage("info", "Certificate successfully updated in the Credential Vault.");
       })
       .catch(async (err: DynatraceAPIError) => {
@@ -89,6 +143,10 @@ export async function distributeCertificate(context: vscode.ExtensionContext, dt
         .postCertificate(certContent, certName, certDescr ?? "")
         .then(async res => {
           await context.workspaceState.update("caCertId", res.id);
+          await recordCertificateDistribution(context, environmentUrl, {
+            credentialId: res.id,
+            fingerprint,
+          });
           showMessage("info", "Certificate successfully uploaded to Credentials Vault.");
         })
         .catch(async (err: DynatraceAPIError) => {
@@ -98,34 +156,5 @@ export async function distributeCertificate(context: vscode.ExtensionContext, dt
   }
 
   // Continue flow with upload to local components
-  const agPresent = checkActiveGateInstalled();
-  const oaPresent = checkOneAgentInstalled();
-
-  if (agPresent || oaPresent) {
-    const choice = await vscode.window.showInformationMessage(
-      "Do you want to also distribute this certificate to locally installed OneAgents/ActiveGates?",
-      "Yes",
-      "No",
-    );
-    if (choice === "Yes") {
-      try {
-        if (oaPresent) {
-          uploadComponentCert(certPath, "OneAgent");
-          showMessage("info", "Certificate successfully uploaded to local OneAgent.");
-        }
-        if (agPresent) {
-          uploadComponentCert(certPath, "ActiveGate");
-          showMessage("info", "Certificate successfully uploaded to local ActiveGate.");
-        }
-      } catch (err) {
-        showMessage(
-          "error",
-          (err as Error).name === "EPERM"
-            ? "Writing certificate locally failed due to access permissions. " +
-                "Try again after running VS Code as Administrator."
-            : `Writing certificate locally failed: ${(err as Error).message}`,
-        );
-      }
-    }
-  }
+  await distributeToLocalComponents(certPath);
 }
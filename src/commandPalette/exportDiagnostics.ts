@@ -0,0 +1,61 @@
+/**
+  Copyright 2022 Dynatrace LLC
+
+  Licensed under the Apache License, Version 2.0 (the "License");
+  you may not use this file except in compliance with the License.
+  You may obtain a copy of the License at
+
+      https://www.apache.org/licenses/LICENSE-2.0
+
+  Unless required by applicable law or agreed to in writing, software
+  distributed under the License is distributed on an "AS IS" BASIS,
+  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+  See the License for the specific language governing permissions and
+  limitations under the License.
+ */
+
+import { writeFileSync } from "fs";
+import * as path from "path";
+import * as vscode from "vscode";
+import * as yaml from "yaml";
+import { getRuleCatalogue } from "../diagnostics/diagnosticData";
+import { toSarifReport } from "../diagnostics/diagnosticReports";
+import { DiagnosticsProvider } from "../diagnostics/diagnostics";
+import { ExtensionStub } from "../interfaces/extensionMeta";
+import { showMessage } from "../utils/code";
+import { getExtensionFilePath } from "../utils/fileSystem";
+
+/**
+ * Workflow for exporting the current extension diagnostics as a SARIF 2.1 report, which can be
+ * uploaded to code scanning tools (e.g. GitHub code scanning) to surface problems on pull
+ * requests. The manifest of the current workspace is diagnosed again before exporting so the
+ * report is up to date; findings for any other manifests are exported as currently logged.
+ * @param diagnosticsProvider the provider of extension diagnostics
+ */
+export async function exportDiagnostics(diagnosticsProvider: DiagnosticsProvider) {
+  const workspaceRoot = vscode.workspace.workspaceFolders?.[0].uri.fsPath;
+  if (!workspaceRoot) {
+    return;
+  }
+  const extensionFile = getExtensionFilePath();
+  if (extensionFile) {
+    const document = await vscode.workspace.openTextDocument(vscode.Uri.file(extensionFile));
+    await diagnosticsProvider.provideDiagnostics(
+      document,
+      yaml.parse(document.getText()) as ExtensionStub,
+    );
+  }
+
+  const reportUri = await vscode.window.showSaveDialog({
+    title: "Export diagnostics as SARIF",
+    defaultUri: vscode.Uri.file(path.join(workspaceRoot, "extension-diagnostics.sarif")),
+    filters: { SARIF: ["sarif", "json"] },
+  });
+  if (!reportUri) {
+    return;
+  }
+
+  const diagnostics = diagnosticsProvider.getAllDiagnostics();
+  writeFileSync(reportUri.fsPath, toSarifReport(diagnostics, getRuleCatalogue(), workspaceRoot));
+  showMessage("info", `Exported ${diagnostics.length} findings to ${reportUri.fsPath}`);
+}
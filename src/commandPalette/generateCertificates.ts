@@ -73,9 +73,13 @@ function getCertAttributes(type: "ca" | "dev"): pki.CertificateField[] {
  * as Developer. The resulting files are stored in the workspace shared storage.
  * The logic ends with a link to "Upload certificate" command.
  * @param context VSCode Extension Context
+ * @param offerUpload whether to offer uploading the CA certificate to Dynatrace afterwards
  * @returns boolean - success of the command
  */
-export async function generateCerts(context: vscode.ExtensionContext): Promise<boolean> {
+export async function generateCerts(
+  context: vscode.ExtensionContext,
+  offerUpload: boolean = true,
+): Promise<boolean> {
   const storagePath = context.storageUri?.fsPath;
   if (!storagePath) {
     return false;
@@ -248,6 +252,9 @@ export async function generateCerts(context: vscode.ExtensionContext): Promise<b
         console.log("Could not update setting rootOrCaCertificateLocation");
       });
 
+    if (!offerUpload) {
+      return true;
+    }
     // Link command - Upload Certificates
     const choice = await vscode.window.showInformationMessage(
       "Settings updated. Would you like to upload the CA certificate to Dynatrace?",
@@ -0,0 +1,158 @@
+/**
+  Copyright 2022 Dynatrace LLC
+
+  Licensed under the Apache License, Version 2.0 (the "License");
+  you may not use this file except in compliance with the License.
+  You may obtain a copy of the License at
+
+      https://www.apache.org/licenses/LICENSE-2.0
+
+  Unless required by applicable law or agreed to in writing, software
+  distributed under the License is distributed on an "AS IS" BASIS,
+  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+  See the License for the specific language governing permissions and
+  limitations under the License.
+ */
+
+import { existsSync, writeFileSync } from "fs";
+import * as path from "path";
+import { glob } from "glob";
+import * as vscode from "vscode";
+import * as yaml from "yaml";
+import {
+  ExtensionDiagnosticDto,
+  getRuleCatalogue,
+  toDiagnosticDto,
+} from "../diagnostics/diagnosticData";
+import { toJUnitReport, toSarifReport } from "../diagnostics/diagnosticReports";
+import { DiagnosticsProvider } from "../diagnostics/diagnostics";
+import { ExtensionStub } from "../interfaces/extensionMeta";
+import { showMessage } from "../utils/code";
+import { getAllWorkspaces } from "../utils/fileSystem";
+
+/**
+ * Finds all extension manifests within a folder. Supports both a single extension in the root
+ * of the folder and repositories holding many extensions in sub-folders.
+ * @param folder path to the folder
+ * @returns paths to all extension.yaml files found
+ */
+function findManifests(folder: string): string[] {
+  if (!existsSync(folder)) {
+    return [];
+  }
+  return glob.sync("**/extension/extension.yaml", {
+    cwd: folder,
+    absolute: true,
+    ignore: ["**/node_modules/**", "**/.venv/**", "**/dist/**"],
+  });
+}
+
+/**
+ * Saves a diagnostics report to a file chosen by the user.
+ * @param format format of the report
+ * @param manifests all manifests that were checked
+ * @param diagnostics diagnostics found in the manifests
+ */
+async function exportReport(
+  format: "JUnit" | "SARIF",
+  manifests: string[],
+  diagnostics: ExtensionDiagnosticDto[],
+) {
+  const workspaceRoot = vscode.workspace.workspaceFolders?.[0].uri.fsPath;
+  const reportUri = await vscode.window.showSaveDialog({
+    title: `Export ${format} report`,
+    defaultUri: vscode.Uri.file(
+      path.join(
+        workspaceRoot ?? "",
+        format === "JUnit" ? "extension-diagnostics.xml" : "extension-diagnostics.sarif",
+      ),
+    ),
+    filters: format === "JUnit" ? { "JUnit XML": ["xml"] } : { SARIF: ["sarif", "json"] },
+  });
+  if (!reportUri) {
+    return;
+  }
+  writeFileSync(
+    reportUri.fsPath,
+    format === "JUnit"
+      ? toJUnitReport(manifests, diagnostics)
+      : toSarifReport(diagnostics, getRuleCatalogue(), workspaceRoot),
+  );
+  showMessage("info", `Report saved to ${reportUri.fsPath}`);
+}
+
+/**
+ * Runs all diagnostic rules against every extension manifest found in every registered
+ * extensions workspace. Results are shown in the Problems panel, and can be exported as a
+ * JUnit or SARIF report for use in CI pipelines.
+ * @param context VSCode Extension Context
+ * @param diagnosticsProvider the provider of extension diagnostics
+ */
+export async function lintAllExtensions(
+  context: vscode.ExtensionContext,
+  diagnosticsProvider: DiagnosticsProvider,
+) {
+  const manifests = [
+    ...new Set(
+      getAllWorkspaces(context).flatMap(workspace =>
+        findManifests((workspace.folder as vscode.Uri).fsPath),
+      ),
+    ),
+  ];
+  if (manifests.length === 0) {
+    showMessage("warn", "No extension manifests found in any of the registered workspaces.");
+    return;
+  }
+
+  const diagnostics: ExtensionDiagnosticDto[] = [];
+  const unreadable: string[] = [];
+  await vscode.window.withProgress(
+    {
+      location: vscode.ProgressLocation.Notification,
+      title: "Linting extensions",
+      cancellable: false,
+    },
+    async progress => {
+      for (const manifest of manifests) {
+        progress.report({ message: path.basename(path.resolve(manifest, "..", "..")) });
+        try {
+          const document = await vscode.workspace.openTextDocument(vscode.Uri.file(manifest));
+          const extension = yaml.parse(document.getText()) as ExtensionStub;
+          const manifestDiagnostics = await diagnosticsProvider.provideDiagnostics(
+            document,
+            extension,
+          );
+          diagnostics.push(...manifestDiagnostics.map(d => toDiagnosticDto(manifest, d)));
+        } catch (err) {
+          console.log(`Could not lint ${manifest}. ${(err as Error).message}`);
+          unreadable.push(manifest);
+        }
+      }
+    },
+  );
+
+  if (unreadable.length > 0) {
+    showMessage("warn", `Could not lint ${unreadable.length} manifests with invalid YAML.`);
+  }
+  const errorCount = diagnostics.filter(d => d.severity === "error").length;
+  const choice = await vscode.window.showInformationMessage(
+    `Linted ${manifests.length} extensions: ${errorCount} errors, ` +
+      `${diagnostics.length - errorCount} other problems.`,
+    "Open Problems",
+    "Export JUnit",
+    "Export SARIF",
+  );
+  switch (choice) {
+    case "Open Problems":
+      await vscode.commands.executeCommand("workbench.action.problems.focus");
+      break;
+    case "Export JUnit":
+      await exportReport("JUnit", manifests, diagnostics);
+      break;
+    case "Export SARIF":
+      await exportReport("SARIF", manifests, diagnostics);
+      break;
+    default:
+      break;
+  }
+}
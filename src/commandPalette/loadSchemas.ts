@@ -14,7 +14,7 @@
   limitations under the License.
  */
 
-import { existsSync, mkdirSync, readFileSync, writeFile, writeFileSync } from "fs";
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
 import * as path from "path";
 import axios from "axios";
 import * as vscode from "vscode";
@@ -61,13 +61,8 @@ function downloadSchemaFiles(location: string, version: string, dt: Dynatrace) {
                   const parts = (resp.$id as string).split("/");
                   fileName = parts[parts.length - 1];
                 }
-                writeFile(`${location}/${fileName}`, JSON.stringify(resp), err => {
-                  if (err) {
-                    vscode.window
-                      .showErrorMessage(`Error writing file ${fileName}:\n${err.message}`)
-                      .then(undefined, () => {});
-                  }
-                });
+                // Written synchronously so all files are in place once loading completes
+                writeFileSync(`${location}/${fileName}`, JSON.stringify(resp));
               } catch (err) {
                 vscode.window
                   .showErrorMessage(`Error writing file:\n${(err as Error).message}`)
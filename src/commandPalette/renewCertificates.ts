@@ -0,0 +1,130 @@
+/**
+  Copyright 2022 Dynatrace LLC
+
+  Licensed under the Apache License, Version 2.0 (the "License");
+  you may not use this file except in compliance with the License.
+  You may obtain a copy of the License at
+
+      https://www.apache.org/licenses/LICENSE-2.0
+
+  Unless required by applicable law or agreed to in writing, software
+  distributed under the License is distributed on an "AS IS" BASIS,
+  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+  See the License for the specific language governing permissions and
+  limitations under the License.
+ */
+
+import { readFileSync } from "fs";
+import * as path from "path";
+import * as vscode from "vscode";
+import { Dynatrace } from "../dynatrace-api/dynatrace";
+import {
+  getCertificateDistributions,
+  readCertificateDetails,
+  recordCertificateDistribution,
+} from "../utils/certificates";
+import { showMessage } from "../utils/code";
+import { getAllEnvironments, getEnvironmentToken } from "../utils/fileSystem";
+import { distributeToLocalComponents } from "./distributeCertificate";
+import { generateCerts } from "./generateCertificates";
+
+/**
+ * Delivers the "Renew certificates" command functionality.
+ * Generates a new pair of CA and Developer certificates for the workspace, then replaces the
+ * old CA certificate in the credential vault of every environment it had been uploaded to, and
+ * finally offers to distribute the new one to locally installed OneAgents/ActiveGates.
+ * @param context VSCode Extension Context
+ * @returns boolean - success of the command
+ */
+export async function renewCertificates(context: vscode.ExtensionContext): Promise<boolean> {
+  const storagePath = context.storageUri?.fsPath;
+  if (!storagePath) {
+    return false;
+  }
+  const confirm = await vscode.window.showWarningMessage(
+    "This will replace the workspace certificates with new ones. Extensions will need to be " +
+      "signed again with the new Developer certificate.",
+    { modal: true },
+    "Renew",
+  );
+  if (confirm !== "Renew" || !(await generateCerts(context, false))) {
+    return false;
+  }
+
+  const caCertPath = path.join(storagePath, "certificates", "ca.pem");
+  const certContent = readFileSync(caCertPath).toString();
+  const { fingerprint } = readCertificateDetails(certContent);
+
+  // Environments holding the previous CA certificate need the new one instead
+  const distributions = getCertificateDistributions(context);
+  const environments = getAllEnvironments(context).flatMap(environment => {
+    const distribution = distributions[environment.url];
+    return distribution && distribution.fingerprint !== fingerprint
+      ? [{ environment, credentialId: distribution.credentialId }]
+      : [];
+  });
+  const chosen =
+    environments.length > 0
+      ? await vscode.window.showQuickPick(
+          environments.map(({ environment, credentialId }) => ({
+            label: environment.name ?? environment.id,
+            description: environment.url,
+            picked: true,
+            environment,
+            credentialId,
+          })),
+          {
+            canPickMany: true,
+            ignoreFocusOut: true,
+            title: "Renew certificates",
+            placeHolder: "Update the CA certificate in the credential vaults of these environments",
+          },
+        )
+      : [];
+
+  if (chosen && chosen.length > 0) {
+    const failures = await vscode.window.withProgress(
+      { location: vscode.ProgressLocation.Notification, title: "Redistributing CA certificate" },
+      async progress => {
+        const failed: string[] = [];
+        for (const { label, environment, credentialId } of chosen) {
+          progress.report({ message: label });
+          const dt = new Dynatrace(
+            environment.apiUrl,
+            await getEnvironmentToken(context, environment),
+          );
+          try {
+            const oldCert = await dt.credentialVault.getCertificate(credentialId);
+            await dt.credentialVault.putCertificate(
+              credentialId,
+              certContent,
+              oldCert.name,
+              oldCert.description,
+            );
+            await recordCertificateDistribution(context, environment.url, {
+              credentialId,
+              fingerprint,
+            });
+          } catch (err) {
+            console.log(`Could not update certificate in ${environment.url}`);
+            console.log((err as Error).message);
+            failed.push(label);
+          }
+        }
+        return failed;
+      },
+    );
+    if (failures.length > 0) {
+      showMessage(
+        "error",
+        `Could not update the CA certificate in: ${failures.join(", ")}. ` +
+          "Connect to these environments and run the Distribute certificate command.",
+      );
+    } else {
+      showMessage("info", "CA certificate updated in all chosen credential vaults.");
+    }
+  }
+
+  await distributeToLocalComponents(caCertPath);
+  return true;
+}
@@ -0,0 +1,74 @@
+/**
+  Copyright 2022 Dynatrace LLC
+
+  Licensed under the Apache License, Version 2.0 (the "License");
+  you may not use this file except in compliance with the License.
+  You may obtain a copy of the License at
+
+      https://www.apache.org/licenses/LICENSE-2.0
+
+  Unless required by applicable law or agreed to in writing, software
+  distributed under the License is distributed on an "AS IS" BASIS,
+  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+  See the License for the specific language governing permissions and
+  limitations under the License.
+ */
+
+import * as vscode from "vscode";
+import { PrometheusMockServer } from "../codeLens/utils/prometheusMock";
+import { showMessage } from "../utils/code";
+
+const DRIFT_OPTIONS: Record<string, number> = {
+  "No drift": 0,
+  "1% drift": 0.01,
+  "5% drift": 0.05,
+  "20% drift": 0.2,
+};
+
+/**
+ * Workflow for starting a local Prometheus mock endpoint. The user picks a recorded exposition
+ * file and how much the values should drift between scrapes; the file is then served on the
+ * port configured in settings, so that Prometheus features (scraping, completions, metadata
+ * generation) can be tried out without a real exporter.
+ * @param mockServer the mock server to start
+ */
+export async function startPrometheusMock(mockServer: PrometheusMockServer) {
+  const files = await vscode.window.showOpenDialog({
+    title: "Prometheus mock - exposition file",
+    openLabel: "Serve",
+    canSelectMany: false,
+    filters: { "Prometheus exposition": ["txt", "prom", "*"] },
+  });
+  if (!files || files.length === 0) {
+    return;
+  }
+  const drift = await vscode.window.showQuickPick(Object.keys(DRIFT_OPTIONS), {
+    title: "Prometheus mock - value drift",
+    placeHolder: "How much should values change between scrapes?",
+    ignoreFocusOut: true,
+  });
+  if (!drift) {
+    return;
+  }
+  const port =
+    vscode.workspace
+      .getConfiguration("dynatraceExtensions", null)
+      .get<number>("prometheusMockPort") ?? 9464;
+
+  try {
+    const url = await mockServer.start({
+      file: files[0].fsPath,
+      port,
+      drift: DRIFT_OPTIONS[drift],
+    });
+    const choice = await vscode.window.showInformationMessage(
+      `Prometheus mock endpoint running at ${url}`,
+      "Copy URL",
+    );
+    if (choice === "Copy URL") {
+      await vscode.env.clipboard.writeText(url);
+    }
+  } catch (err) {
+    showMessage("error", `Could not start Prometheus mock endpoint: ${(err as Error).message}`);
+  }
+}
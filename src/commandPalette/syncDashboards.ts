@@ -0,0 +1,331 @@
+/**
+  Copyright 2022 Dynatrace LLC
+
+  Licensed under the Apache License, Version 2.0 (the "License");
+  you may not use this file except in compliance with the License.
+  You may obtain a copy of the License at
+
+      https://www.apache.org/licenses/LICENSE-2.0
+
+  Unless required by applicable law or agreed to in writing, software
+  distributed under the License is distributed on an "AS IS" BASIS,
+  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+  See the License for the specific language governing permissions and
+  limitations under the License.
+ */
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
+import * as path from "path";
+import * as vscode from "vscode";
+import * as yaml from "yaml";
+import { Dynatrace } from "../dynatrace-api/dynatrace";
+import { Dashboard } from "../dynatrace-api/interfaces/dashboards";
+import { ExtensionStub } from "../interfaces/extensionMeta";
+import { DynatraceEnvironment } from "../treeViews/environmentsTreeView";
+import { showMessage } from "../utils/code";
+import { isSameDashboard, serializeDashboard, toDeployedDashboard } from "../utils/dashboardSync";
+import { createUniqueFileName, getExtensionFilePath } from "../utils/fileSystem";
+import { applyYamlEdits, setYamlListEntry } from "../utils/yamlParsing";
+
+const LINKS_KEY = "dashboardLinks";
+
+/**
+ * Workspace files of dashboards are linked to the dashboards (or, for platform dashboards, the
+ * documents) they were downloaded from or uploaded to in each environment. Links are kept in the workspace state, by environment URL
+ * and path of the file relative to the extension directory.
+ * @param context VSCode Extension Context
+ * @param environment environment the dashboard is deployed in
+ * @param relativePath path of the dashboard file, relative to the extension directory
+ * @returns id of the linked dashboard, if any
+ */
+export function getLinkedDashboardId(
+  context: vscode.ExtensionContext,
+  environment: DynatraceEnvironment,
+  relativePath: string,
+): string | undefined {
+  const links = context.workspaceState.get<Record<string, string>>(LINKS_KEY) ?? {};
+  return links[`${environment.url}|${relativePath}`];
+}
+
+/**
+ * Links a workspace dashboard file to a dashboard deployed in an environment.
+ * @param context VSCode Extension Context
+ * @param environment environment the dashboard is deployed in
+ * @param relativePath path of the dashboard file, relative to the extension directory
+ * @param dashboardId id of the deployed dashboard
+ */
+export async function linkDashboard(
+  context: vscode.ExtensionContext,
+  environment: DynatraceEnvironment,
+  relativePath: string,
+  dashboardId: string,
+) {
+  const links = context.workspaceState.get<Record<string, string>>(LINKS_KEY) ?? {};
+  links[`${environment.url}|${relativePath}`] = dashboardId;
+  await context.workspaceState.update(LINKS_KEY, links);
+}
+
+/**
+ * Lets the user choose a dashboard deployed in the environment. Dashboards can be searched by
+ * name or id.
+ * @param dt Dynatrace API Client
+ * @param placeHolder what the dashboard is chosen for
+ * @returns id of the chosen dashboard, or undefined if cancelled
+ */
+async function chooseDeployedDashboard(
+  dt: Dynatrace,
+  placeHolder: string,
+): Promise<string | undefined> {
+  const dashboards = await dt.dashboards.list();
+  const choice = await vscode.window.showQuickPick(
+    dashboards.map(d => ({ label: d.name ?? d.id, description: d.owner, detail: d.id, id: d.id })),
+    {
+      title: "Dashboards in the environment",
+      placeHolder,
+      matchOnDetail: true,
+      ignoreFocusOut: true,
+    },
+  );
+  return choice?.id;
+}
+
+/**
+ * Lets the user choose one of the classic dashboards packaged with the extension (i.e. listed
+ * under `dashboards` in the extension.yaml). Platform dashboards (listed under `documents`) use
+ * a different format and API, so they're never offered.
+ * @param extensionFile path to the extension.yaml file
+ * @param placeHolder what the dashboard is chosen for
+ * @returns path of the chosen file relative to the extension directory, or undefined if none
+ */
+async function chooseLocalDashboard(
+  extensionFile: string,
+  placeHolder: string,
+): Promise<string | undefined> {
+  const extensionDir = path.resolve(extensionFile, "..");
+  const extension = yaml.parse(readFileSync(extensionFile).toString()) as ExtensionStub | null;
+  const files = (extension?.dashboards ?? [])
+    .map(dashboard => dashboard.path)
+    .filter(relativePath => existsSync(path.resolve(extensionDir, relativePath)));
+  if (files.length === 0) {
+    showMessage("warn", "There are no dashboards in this extension's workspace.");
+    return undefined;
+  }
+  return vscode.window.showQuickPick(files, {
+    title: "Dashboards in the workspace",
+    placeHolder,
+    ignoreFocusOut: true,
+  });
+}
+
+/**
+ * Resolves the deployed dashboard linked to a workspace file, letting the user choose one if
+ * there's no link yet.
+ * @param dt Dynatrace API Client
+ * @param context VSCode Extension Context
+ * @param environment environment the dashboard is deployed in
+ * @param relativePath path of the dashboard file, relative to the extension directory
+ * @returns the deployed dashboard, or undefined if none was chosen
+ */
+async function getDeployedDashboard(
+  dt: Dynatrace,
+  context: vscode.ExtensionContext,
+  environment: DynatraceEnvironment,
+  relativePath: string,
+): Promise<Dashboard | undefined> {
+  const dashboardId =
+    getLinkedDashboardId(context, environment, relativePath) ??
+    (await chooseDeployedDashboard(dt, `Which dashboard does ${relativePath} belong to?`));
+  if (!dashboardId) {
+    return undefined;
+  }
+  await linkDashboard(context, environment, relativePath, dashboardId);
+  return dt.dashboards.get(dashboardId);
+}
+
+/**
+ * Workflow for downloading a dashboard deployed in the connected environment into the
+ * extension's dashboards directory. The dashboard is normalized (no id, standard owner) so it
+ * can be kept in git, and added to the extension.yaml. Downloading a dashboard again updates
+ * the file it was first downloaded to.
+ * @param dt Dynatrace API Client
+ * @param environment the connected environment
+ * @param context VSCode Extension Context
+ */
+export async function pullDashboard(
+  dt: Dynatrace,
+  environment: DynatraceEnvironment,
+  context: vscode.ExtensionContext,
+) {
+  const extensionFile = getExtensionFilePath();
+  if (!extensionFile) {
+    return;
+  }
+  const extensionDir = path.resolve(extensionFile, "..");
+  const dashboardsDir = path.resolve(extensionDir, "dashboards");
+  if (!existsSync(dashboardsDir)) {
+    mkdirSync(dashboardsDir);
+  }
+
+  const dashboardId = await chooseDeployedDashboard(dt, "Choose a dashboard to download");
+  if (!dashboardId) {
+    showMessage("error", "No dashboard selected. Operation cancelled.");
+    return;
+  }
+  let dashboard: Dashboard;
+  try {
+    dashboard = await dt.dashboards.get(dashboardId);
+  } catch (err) {
+    showMessage("error", `Could not download dashboard: ${(err as Error).message}`);
+    return;
+  }
+
+  // Re-use the file this dashboard is already linked to, if any
+  const links = context.workspaceState.get<Record<string, string>>(LINKS_KEY) ?? {};
+  const linkedPath = Object.keys(links)
+    .filter(key => key.startsWith(`${environment.url}|`) && links[key] === dashboardId)
+    .map(key => key.slice(environment.url.length + 1))
+    .find(relativePath => existsSync(path.resolve(extensionDir, relativePath)));
+  const relativePath =
+    linkedPath ??
+    `dashboards/${createUniqueFileName(
+      dashboardsDir,
+      "dashboard",
+      dashboard.dashboardMetadata.name,
+    )}`;
+  const dashboardFile = path.resolve(extensionDir, relativePath);
+  writeFileSync(dashboardFile, serializeDashboard(dashboard));
+  await linkDashboard(context, environment, relativePath, dashboardId);
+
+  // Make sure the extension packages the dashboard
+  const extensionText = readFileSync(extensionFile).toString();
+  const edits = setYamlListEntry(
+    extensionText,
+    ["dashboards"],
+    { path: relativePath },
+    existing => (existing as { path?: string } | null)?.path === relativePath,
+  );
+  writeFileSync(extensionFile, applyYamlEdits(extensionText, edits));
+
+  showMessage("info", `Dashboard downloaded to ${relativePath}`);
+  await vscode.window.showTextDocument(vscode.Uri.file(dashboardFile));
+}
+
+/**
+ * Workflow for comparing a dashboard from the workspace with the one deployed in the connected
+ * environment. Differences are shown in a diff editor.
+ * @param dt Dynatrace API Client
+ * @param environment the connected environment
+ * @param context VSCode Extension Context
+ */
+export async function diffDashboard(
+  dt: Dynatrace,
+  environment: DynatraceEnvironment,
+  context: vscode.ExtensionContext,
+) {
+  const extensionFile = getExtensionFilePath();
+  if (!extensionFile) {
+    return;
+  }
+  const extensionDir = path.resolve(extensionFile, "..");
+  const relativePath = await chooseLocalDashboard(extensionFile, "Choose a dashboard to compare");
+  if (!relativePath) {
+    return;
+  }
+  const localFile = path.resolve(extensionDir, relativePath);
+  const local = JSON.parse(readFileSync(localFile).toString()) as Dashboard;
+
+  let deployed: Dashboard | undefined;
+  try {
+    deployed = await getDeployedDashboard(dt, context, environment, relativePath);
+  } catch (err) {
+    showMessage("error", `Could not download dashboard: ${(err as Error).message}`);
+    return;
+  }
+  if (!deployed) {
+    return;
+  }
+  if (isSameDashboard(local, deployed)) {
+    showMessage("info", "The dashboard in the workspace matches the deployed one.");
+    return;
+  }
+
+  const deployedFile = path.resolve(
+    context.globalStorageUri.fsPath,
+    `dashboard-${deployed.id ?? "deployed"}.json`,
+  );
+  writeFileSync(deployedFile, serializeDashboard(deployed));
+  await vscode.commands.executeCommand(
+    "vscode.diff",
+    vscode.Uri.file(deployedFile),
+    vscode.Uri.file(localFile),
+    `${deployed.dashboardMetadata.name}: ${
+      environment.label?.toString() ?? environment.id
+    } ↔ workspace`,
+  );
+}
+
+/**
+ * Workflow for uploading the changes of a dashboard from the workspace to the dashboard it is
+ * linked to in the connected environment. Dashboards that aren't linked can either replace a
+ * chosen dashboard or be created as a new one.
+ * @param dt Dynatrace API Client
+ * @param environment the connected environment
+ * @param context VSCode Extension Context
+ */
+export async function pushDashboard(
+  dt: Dynatrace,
+  environment: DynatraceEnvironment,
+  context: vscode.ExtensionContext,
+) {
+  const extensionFile = getExtensionFilePath();
+  if (!extensionFile) {
+    return;
+  }
+  const extensionDir = path.resolve(extensionFile, "..");
+  const relativePath = await chooseLocalDashboard(extensionFile, "Choose a dashboard to upload");
+  if (!relativePath) {
+    return;
+  }
+  const local = JSON.parse(
+    readFileSync(path.resolve(extensionDir, relativePath)).toString(),
+  ) as Dashboard;
+
+  try {
+    if (!getLinkedDashboardId(context, environment, relativePath)) {
+      const choice = await vscode.window.showQuickPick(
+        ["Create a new dashboard", "Replace an existing dashboard"],
+        { title: `${relativePath} isn't linked to a dashboard yet`, ignoreFocusOut: true },
+      );
+      if (!choice) {
+        return;
+      }
+      if (choice === "Create a new dashboard") {
+        const created = await dt.dashboards.post(local);
+        await linkDashboard(context, environment, relativePath, created.id);
+        showMessage("info", "Dashboard created successfully.");
+        return;
+      }
+    }
+
+    const deployed = await getDeployedDashboard(dt, context, environment, relativePath);
+    if (!deployed?.id) {
+      return;
+    }
+    if (isSameDashboard(local, deployed)) {
+      showMessage("info", "The deployed dashboard is already up to date.");
+      return;
+    }
+    const confirm = await vscode.window.showWarningMessage(
+      `This will overwrite dashboard "${deployed.dashboardMetadata.name}" in the environment.`,
+      { modal: true },
+      "Overwrite",
+    );
+    if (confirm !== "Overwrite") {
+      return;
+    }
+    await dt.dashboards.put(deployed.id, toDeployedDashboard(local, deployed));
+    showMessage("info", "Dashboard updated successfully.");
+  } catch (err) {
+    showMessage("error", `Could not upload dashboard: ${(err as Error).message}`);
+  }
+}
@@ -14,15 +14,13 @@
   limitations under the License.
  */
 
-import { lstatSync, readdirSync, readFileSync } from "fs";
+import { readFileSync } from "fs";
 import * as path from "path";
-import AdmZip = require("adm-zip");
 import * as vscode from "vscode";
-import * as yaml from "yaml";
 import { Dynatrace } from "../dynatrace-api/dynatrace";
 import { DynatraceAPIError } from "../dynatrace-api/errors";
-import { ExtensionStub } from "../interfaces/extensionMeta";
 import { loopSafeWait, showMessage } from "../utils/code";
+import { getLatestPackage, readManifestFromPackage } from "../utils/extensionBuild";
 
 /**
  * Uploads the latest avaialable extension 2.0 package from the `dist` folder of
@@ -39,26 +37,13 @@ export async function uploadExtension(dt: Dynatrace, tenantUrl: string) {
     return;
   }
   const distDir = path.join(rootPath, "dist");
-  const extensionZip = readdirSync(distDir)
-    .filter(file => file.endsWith(".zip") && lstatSync(path.join(distDir, file)).isFile())
-    .map(file => ({ file, mtime: lstatSync(path.join(distDir, file)).mtime }))
-    .sort((a, b) => b.mtime.getTime() - a.mtime.getTime())[0].file;
+  const extensionZip = getLatestPackage(distDir);
+  if (!extensionZip) {
+    return;
+  }
 
   // Browse extension archive and extract the extension name and version
-  let zip = new AdmZip(path.join(distDir, extensionZip));
-  zip = new AdmZip(
-    zip
-      .getEntries()
-      .filter(entry => entry.entryName === "extension.zip")[0]
-      .getData(),
-  );
-  const extension = yaml.parse(
-    zip
-      .getEntries()
-      .filter(entry => entry.entryName === "extension.yaml")[0]
-      .getData()
-      .toString("utf-8"),
-  ) as ExtensionStub;
+  const extension = readManifestFromPackage(path.join(distDir, extensionZip));
   const extensionVersion = extension.version;
   const extensionName = extension.name;
 
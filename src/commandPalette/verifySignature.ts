@@ -0,0 +1,81 @@
+/**
+  Copyright 2022 Dynatrace LLC
+
+  Licensed under the Apache License, Version 2.0 (the "License");
+  you may not use this file except in compliance with the License.
+  You may obtain a copy of the License at
+
+      https://www.apache.org/licenses/LICENSE-2.0
+
+  Unless required by applicable law or agreed to in writing, software
+  distributed under the License is distributed on an "AS IS" BASIS,
+  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+  See the License for the specific language governing permissions and
+  limitations under the License.
+ */
+
+import { existsSync, readFileSync } from "fs";
+import * as path from "path";
+import AdmZip = require("adm-zip");
+import { pki } from "node-forge";
+import * as vscode from "vscode";
+import { readCertificateDetails } from "../utils/certificates";
+import { showMessage } from "../utils/code";
+import { verifySignature } from "../utils/cryptography";
+import { resolveRealPath } from "../utils/fileSystem";
+
+/**
+ * Delivers the "Verify extension signature" command functionality.
+ * The user chooses an extension package (outer .zip) and the signature of the inner archive is
+ * checked against its content and against a CA certificate - the one configured for the
+ * workspace, or one chosen by the user if none is configured.
+ * @returns boolean - whether the signature is valid
+ */
+export async function verifyExtensionSignature(): Promise<boolean> {
+  const workspaceRoot = vscode.workspace.workspaceFolders?.[0].uri;
+  const packageUri = await vscode.window.showOpenDialog({
+    title: "Choose an extension package to verify",
+    defaultUri: workspaceRoot ? vscode.Uri.joinPath(workspaceRoot, "dist") : undefined,
+    filters: { "Extension package": ["zip"] },
+    canSelectMany: false,
+  });
+  if (!packageUri || packageUri.length === 0) {
+    return false;
+  }
+
+  let caCertPath: string | undefined;
+  const caCertSetting = vscode.workspace
+    .getConfiguration("dynatraceExtensions", null)
+    .get<string>("rootOrCaCertificateLocation");
+  if (caCertSetting && existsSync(resolveRealPath(caCertSetting))) {
+    caCertPath = resolveRealPath(caCertSetting);
+  } else {
+    const caCertUri = await vscode.window.showOpenDialog({
+      title: "Choose the CA certificate to verify against",
+      filters: { Certificate: ["pem", "crt", "cer"] },
+      canSelectMany: false,
+    });
+    caCertPath = caCertUri?.[0].fsPath;
+  }
+  if (!caCertPath) {
+    showMessage("error", "No CA certificate to verify against. Operation cancelled.");
+    return false;
+  }
+
+  const packageName = path.basename(packageUri[0].fsPath);
+  try {
+    const outerZip = new AdmZip(packageUri[0].fsPath);
+    const content = outerZip.getEntry("extension.zip")?.getData();
+    const signature = outerZip.getEntry("extension.zip.sig")?.getData().toString();
+    if (!content || !signature) {
+      throw new Error("The package doesn't hold an extension.zip and its signature");
+    }
+    const signerCert = verifySignature(content, signature, readFileSync(caCertPath).toString());
+    const signer = readCertificateDetails(pki.certificateToPem(signerCert));
+    showMessage("info", `Signature of ${packageName} is valid. Signed by ${signer.subject}.`);
+    return true;
+  } catch (err) {
+    showMessage("error", `Signature of ${packageName} is not valid: ${(err as Error).message}`);
+    return false;
+  }
+}
@@ -43,6 +43,60 @@ export function extensionDiagnostic(
   };
 }
 
+/**
+ * Serializable form of a diagnostic raised against an extension manifest, used when
+ * reporting diagnostics outside of VS Code (e.g. exports for CI pipelines).
+ * Lines and characters are 0-based, like in VS Code.
+ */
+export interface ExtensionDiagnosticDto {
+  file: string;
+  code: string;
+  severity: "error" | "warning" | "information" | "hint";
+  message: string;
+  startLine: number;
+  startCharacter: number;
+  endLine: number;
+  endCharacter: number;
+}
+
+/**
+ * Serializable description of a diagnostic rule from the catalogue.
+ */
+export interface ExtensionRuleDto {
+  code: string;
+  severity: ExtensionDiagnosticDto["severity"];
+  description: string;
+}
+
+const DTO_SEVERITIES: Record<vscode.DiagnosticSeverity, ExtensionDiagnosticDto["severity"]> = {
+  [vscode.DiagnosticSeverity.Error]: "error",
+  [vscode.DiagnosticSeverity.Warning]: "warning",
+  [vscode.DiagnosticSeverity.Information]: "information",
+  [vscode.DiagnosticSeverity.Hint]: "hint",
+};
+
+/**
+ * Converts a VS Code Diagnostic into its serializable form.
+ * @param file path to the file the diagnostic was raised against
+ * @param diagnostic the VS Code Diagnostic
+ * @returns serializable diagnostic
+ */
+export function toDiagnosticDto(
+  file: string,
+  diagnostic: vscode.Diagnostic,
+): ExtensionDiagnosticDto {
+  return {
+    file,
+    code: String(diagnostic.code),
+    severity: DTO_SEVERITIES[diagnostic.severity],
+    message: diagnostic.message,
+    startLine: diagnostic.range.start.line,
+    startCharacter: diagnostic.range.start.character,
+    endLine: diagnostic.range.end.line,
+    endCharacter: diagnostic.range.end.character,
+  };
+}
+
 /**
  * ALL KNOWN DYNATRACE EXTENSIONS COPILOT DIAGNOSTICS SHOULD BE CATALOGUED HERE
  * ============================================================================
@@ -171,3 +225,48 @@ export const OID_TABLE_OBJ_AS_STATIC: ExtensionDiagnostic = {
     "Type conflict. " +
     "This OID maps to table entries but is not being used inside a 'table' subgroup.",
 };
+
+export const SCHEMA_VIOLATION: ExtensionDiagnostic = {
+  code: "DED020",
+  severity: vscode.DiagnosticSeverity.Error,
+  message: "Extension does not comply with the schema.",
+};
+
+/**
+ * All catalogued diagnostics.
+ */
+const DIAGNOSTIC_CATALOGUE: ExtensionDiagnostic[] = [
+  EXTENSION_NAME_MISSING,
+  EXTENSION_NAME_TOO_LONG,
+  EXTENSION_NAME_INVALID,
+  EXTENSION_NAME_NON_CUSTOM,
+  EXTENSION_NAME_CUSTOM_ON_BITBUCKET,
+  COUNT_METRIC_KEY_SUFFIX,
+  GAUGE_METRIC_KEY_SUFFIX,
+  REFERENCED_CARD_NOT_DEFINED,
+  DEFINED_CARD_NOT_REFERENCED,
+  OID_DOES_NOT_EXIST,
+  OID_NOT_READABLE,
+  OID_STRING_AS_METRIC,
+  OID_COUNTER_AS_GAUGE,
+  OID_GAUGE_AS_COUNTER,
+  OID_SYNTAX_INVALID,
+  OID_DOT_ZERO_IN_TABLE,
+  OID_DOT_ZERO_MISSING,
+  OID_STATIC_OBJ_IN_TABLE,
+  OID_TABLE_OBJ_AS_STATIC,
+  SCHEMA_VIOLATION,
+];
+
+/**
+ * Describes all catalogued diagnostics in serializable form, e.g. for listing the rules in
+ * exported reports.
+ * @returns descriptions of all rules
+ */
+export function getRuleCatalogue(): ExtensionRuleDto[] {
+  return DIAGNOSTIC_CATALOGUE.map(diagnostic => ({
+    code: String(diagnostic.code),
+    severity: DTO_SEVERITIES[diagnostic.severity],
+    description: diagnostic.message,
+  }));
+}
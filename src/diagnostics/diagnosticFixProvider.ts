@@ -76,9 +76,51 @@ export class DiagnosticFixProvider implements vscode.CodeActionProvider {
       ),
     );
 
+    // Actions for suppressing any diagnostic
+    fixActions.push(...this.createSuppressionActions(diagnostics, range, document));
+
     return fixActions;
   }
 
+  /**
+   * Creates Code Actions that suppress diagnostics on the triggering line by appending a
+   * `# dt-ignore` comment with the diagnostic's code.
+   * @param diagnostics all diagnostics of the document
+   * @param range range that triggered the provider
+   * @param document document that triggered the provider
+   * @returns list of Code Actions
+   */
+  private createSuppressionActions(
+    diagnostics: vscode.Diagnostic[],
+    range: vscode.Range,
+    document: vscode.TextDocument,
+  ): vscode.CodeAction[] {
+    const line = document.lineAt(range.start.line);
+    // Don't attempt to combine with existing suppression comments
+    if (line.text.includes("dt-ignore")) {
+      return [];
+    }
+
+    // One action per code, even if the code is raised multiple times on the line
+    const lineDiagnostics = diagnostics.filter(d => d.range.start.line === range.start.line);
+    return lineDiagnostics
+      .filter((d, idx) => lineDiagnostics.findIndex(o => o.code === d.code) === idx)
+      .map(diagnostic => {
+        const action = this.createFixAction(
+          `Ignore ${String(diagnostic.code)} for this line`,
+          diagnostic,
+          {
+            editType: "insert",
+            editPosition: line.range.end,
+            editText: `  # dt-ignore: ${String(diagnostic.code)}`,
+          },
+          document,
+        );
+        action.isPreferred = false;
+        return action;
+      });
+  }
+
   /**
    * Creates a quick fix action in a relatively generic way.
    * @param title title of the generated action
@@ -0,0 +1,191 @@
+/**
+  Copyright 2022 Dynatrace LLC
+
+  Licensed under the Apache License, Version 2.0 (the "License");
+  you may not use this file except in compliance with the License.
+  You may obtain a copy of the License at
+
+      https://www.apache.org/licenses/LICENSE-2.0
+
+  Unless required by applicable law or agreed to in writing, software
+  distributed under the License is distributed on an "AS IS" BASIS,
+  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+  See the License for the specific language governing permissions and
+  limitations under the License.
+ */
+
+/********************************************************************************
+ * REPORT FORMATS FOR EXPORTING EXTENSION DIAGNOSTICS (E.G. FOR CI PIPELINES)
+ ********************************************************************************/
+
+import { createHash } from "crypto";
+import * as path from "path";
+import { pathToFileURL } from "url";
+import { ExtensionDiagnosticDto, ExtensionRuleDto } from "./diagnosticData";
+
+const TOOL_NAME = "Dynatrace Extensions";
+const TOOL_URI = "https://github.com/dynatrace-extensions/dynatrace-extensions-vscode";
+const SRCROOT = "%SRCROOT%";
+const FINGERPRINT_KEY = "dynatraceExtensionsDiagnostic/v1";
+
+/**
+ * Escapes text for use within XML attributes and content.
+ * @param text text to escape
+ * @returns escaped text
+ */
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+/**
+ * Creates a JUnit XML report of diagnostics. Every file is a test suite and every diagnostic a
+ * failed test case; files without diagnostics get a single passing test case so they still
+ * show up in CI test reports.
+ * @param files all files that were checked
+ * @param diagnostics diagnostics raised against the files
+ * @returns the report as XML
+ */
+export function toJUnitReport(files: string[], diagnostics: ExtensionDiagnosticDto[]): string {
+  const suites = files.map(file => {
+    const fileDiagnostics = diagnostics.filter(d => d.file === file);
+    const testCases =
+      fileDiagnostics.length === 0
+        ? [`    <testcase classname="${escapeXml(file)}" name="No problems found" />`]
+        : fileDiagnostics.map(
+            d =>
+              `    <testcase classname="${escapeXml(file)}" ` +
+              `name="${escapeXml(`${d.code} at ${d.startLine + 1}:${d.startCharacter + 1}`)}">\n` +
+              `      <failure type="${d.severity}" message="${escapeXml(d.message)}">` +
+              `${escapeXml(`${file}:${d.startLine + 1}:${d.startCharacter + 1} ${d.message}`)}` +
+              "</failure>\n" +
+              "    </testcase>",
+          );
+    return [
+      `  <testsuite name="${escapeXml(file)}" tests="${testCases.length}" ` +
+        `failures="${fileDiagnostics.length}">`,
+      ...testCases,
+      "  </testsuite>",
+    ].join("\n");
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="${TOOL_NAME}" tests="${files.length + diagnostics.length}" ` +
+      `failures="${diagnostics.length}">`,
+    ...suites,
+    "</testsuites>",
+    "",
+  ].join("\n");
+}
+
+/**
+ * Creates a SARIF 2.1.0 report of diagnostics, suitable for code scanning tools (e.g. GitHub).
+ * Files within the base directory are referenced relative to the "%SRCROOT%" base so that
+ * results map onto the repository; all others are referenced by absolute URI. Fingerprints
+ * do not depend on line numbers so results can be tracked across changes of the file; identical
+ * findings within a file are told apart by their order of occurrence instead.
+ * @param diagnostics diagnostics to include
+ * @param rules descriptions of all known rules
+ * @param baseDir root directory of the sources (e.g. the repository root)
+ * @returns the report as JSON
+ */
+export function toSarifReport(
+  diagnostics: ExtensionDiagnosticDto[],
+  rules: ExtensionRuleDto[] = [],
+  baseDir?: string,
+): string {
+  const levels: Record<ExtensionDiagnosticDto["severity"], string> = {
+    error: "error",
+    warning: "warning",
+    information: "note",
+    hint: "note",
+  };
+  const knownRules = new Map(rules.map(rule => [rule.code, rule]));
+  const ruleIds = [...new Set([...knownRules.keys(), ...diagnostics.map(d => d.code)])].sort();
+
+  const artifactLocation = (file: string) => {
+    const relativePath = baseDir ? path.relative(baseDir, file) : "";
+    if (!baseDir || relativePath.startsWith("..") || path.isAbsolute(relativePath)) {
+      return { uri: pathToFileURL(file).toString() };
+    }
+    return { uri: relativePath.split(path.sep).join("/"), uriBaseId: SRCROOT };
+  };
+
+  // Number identical findings (same rule, file and message) in the order they appear in the file
+  const occurrences = new Map<ExtensionDiagnosticDto, number>();
+  const seen = new Map<string, number>();
+  [...diagnostics]
+    .sort((a, b) => a.startLine - b.startLine || a.startCharacter - b.startCharacter)
+    .forEach(d => {
+      const key = `${d.code}|${d.file}|${d.message}`;
+      const occurrence = seen.get(key) ?? 0;
+      seen.set(key, occurrence + 1);
+      occurrences.set(d, occurrence);
+    });
+
+  return JSON.stringify(
+    {
+      $schema: "https://json.schemastore.org/sarif-2.1.0.json",
+      version: "2.1.0",
+      runs: [
+        {
+          tool: {
+            driver: {
+              name: TOOL_NAME,
+              informationUri: TOOL_URI,
+              rules: ruleIds.map(id => {
+                const rule = knownRules.get(id);
+                return rule
+                  ? {
+                      id,
+                      shortDescription: { text: rule.description },
+                      defaultConfiguration: { level: levels[rule.severity] },
+                    }
+                  : { id };
+              }),
+            },
+          },
+          ...(baseDir
+            ? {
+                originalUriBaseIds: { [SRCROOT]: { uri: `${pathToFileURL(baseDir).toString()}/` } },
+              }
+            : {}),
+          results: diagnostics.map(d => {
+            const location = artifactLocation(d.file);
+            return {
+              ruleId: d.code,
+              ruleIndex: ruleIds.indexOf(d.code),
+              level: levels[d.severity],
+              message: { text: d.message },
+              locations: [
+                {
+                  physicalLocation: {
+                    artifactLocation: location,
+                    region: {
+                      startLine: d.startLine + 1,
+                      startColumn: d.startCharacter + 1,
+                      endLine: d.endLine + 1,
+                      endColumn: d.endCharacter + 1,
+                    },
+                  },
+                },
+              ],
+              partialFingerprints: {
+                [FINGERPRINT_KEY]: createHash("sha256")
+                  .update(`${d.code}|${location.uri}|${d.message}|${occurrences.get(d) ?? 0}`)
+                  .digest("hex"),
+              },
+            };
+          }),
+        },
+      ],
+    },
+    null,
+    2,
+  );
+}
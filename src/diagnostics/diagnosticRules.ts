@@ -0,0 +1,99 @@
+/**
+  Copyright 2022 Dynatrace LLC
+
+  Licensed under the Apache License, Version 2.0 (the "License");
+  you may not use this file except in compliance with the License.
+  You may obtain a copy of the License at
+
+      https://www.apache.org/licenses/LICENSE-2.0
+
+  Unless required by applicable law or agreed to in writing, software
+  distributed under the License is distributed on an "AS IS" BASIS,
+  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+  See the License for the specific language governing permissions and
+  limitations under the License.
+ */
+
+/********************************************************************************
+ * CONFIGURATION AND SUPPRESSION OF INDIVIDUAL DIAGNOSTIC RULES
+ ********************************************************************************/
+
+/**
+ * Severity a rule can be configured with in the "diagnostics.rules" setting.
+ */
+export type RuleSeverity = "error" | "warning" | "information" | "hint" | "off";
+
+/**
+ * Diagnostics suppressed via comments within a document. Lists hold the suppressed codes,
+ * with an empty list meaning all codes are suppressed.
+ */
+export interface Suppressions {
+  file?: string[];
+  lines: Map<number, string[]>;
+}
+
+/**
+ * Matches suppression comments:
+ *   `# dt-ignore` - suppresses all diagnostics on the same line (or the next one if the
+ *                   comment is on a line of its own)
+ *   `# dt-ignore: DED005, DED006` - same, but only for the given codes
+ *   `# dt-ignore-file: DED005` - suppresses the given codes (or all) in the whole document
+ */
+const SUPPRESSION_PATTERN = /#\s*dt-ignore(-file)?(?:\s*:\s*([\w\s,]*))?\s*$/;
+
+/**
+ * Merges two lists of suppressed codes. Since an empty list stands for all codes, merging
+ * with an empty list results in an empty list.
+ * @param existing codes suppressed so far (if any)
+ * @param codes codes to add
+ * @returns merged list
+ */
+function mergeCodes(existing: string[] | undefined, codes: string[]): string[] {
+  if (!existing) {
+    return codes;
+  }
+  if (existing.length === 0 || codes.length === 0) {
+    return [];
+  }
+  return [...new Set([...existing, ...codes])];
+}
+
+/**
+ * Finds all suppression comments in the content of a document.
+ * @param content text content of the document
+ * @returns suppressed diagnostics
+ */
+export function parseSuppressions(content: string): Suppressions {
+  const suppressions: Suppressions = { lines: new Map() };
+
+  content.split("\n").forEach((line, lineIdx) => {
+    const match = SUPPRESSION_PATTERN.exec(line.trimEnd());
+    if (!match) {
+      return;
+    }
+    const codes = match[2] ? match[2].split(/[\s,]+/).filter(code => code !== "") : [];
+
+    if (match[1]) {
+      suppressions.file = mergeCodes(suppressions.file, codes);
+    } else {
+      // A comment on a line of its own applies to the line that follows it
+      const targetLine = line.trimStart().startsWith("#") ? lineIdx + 1 : lineIdx;
+      suppressions.lines.set(targetLine, mergeCodes(suppressions.lines.get(targetLine), codes));
+    }
+  });
+
+  return suppressions;
+}
+
+/**
+ * Checks whether a diagnostic is suppressed.
+ * @param suppressions suppressions found in the document
+ * @param line line (0-based) where the diagnostic starts
+ * @param code code of the diagnostic
+ * @returns true if suppressed, false otherwise
+ */
+export function isSuppressed(suppressions: Suppressions, line: number, code: string): boolean {
+  return [suppressions.file, suppressions.lines.get(line)].some(
+    codes => codes !== undefined && (codes.length === 0 || codes.includes(code)),
+  );
+}
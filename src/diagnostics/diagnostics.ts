@@ -14,6 +14,8 @@
   limitations under the License.
  */
 
+import * as path from "path";
+import { ValidateFunction } from "ajv";
 import * as vscode from "vscode";
 import { ExtensionStub } from "../interfaces/extensionMeta";
 import { showMessage } from "../utils/code";
@@ -26,6 +28,7 @@ import {
   getReferencedCardsMeta,
 } from "../utils/extensionParsing";
 import { getExtensionFilePath } from "../utils/fileSystem";
+import { compileSchemaValidator, validateManifest } from "../utils/schemaValidation";
 import { isOidReadable, isTable, oidFromMetriValue, OidInformation } from "../utils/snmp";
 import {
   getBlockItemIndexAtLine,
@@ -54,7 +57,20 @@ import {
   OID_SYNTAX_INVALID,
   OID_TABLE_OBJ_AS_STATIC,
   REFERENCED_CARD_NOT_DEFINED,
+  SCHEMA_VIOLATION,
+  ExtensionDiagnosticDto,
+  toDiagnosticDto,
 } from "./diagnosticData";
+import { isSuppressed, parseSuppressions, RuleSeverity } from "./diagnosticRules";
+
+const RULE_SEVERITIES: Record<Exclude<RuleSeverity, "off">, vscode.DiagnosticSeverity> = {
+  error: vscode.DiagnosticSeverity.Error,
+  warning: vscode.DiagnosticSeverity.Warning,
+  information: vscode.DiagnosticSeverity.Information,
+  hint: vscode.DiagnosticSeverity.Hint,
+};
+// How long to wait before compiling schemas again after a failure
+const SCHEMA_RETRY_INTERVAL = 60_000;
 
 /**
  * Utility class implemented for providing diagnostics information regarding the contents
@@ -63,6 +79,7 @@ import {
 export class DiagnosticsProvider extends CachedDataProducer {
   private readonly collection: vscode.DiagnosticCollection;
   private readonly context: vscode.ExtensionContext;
+  private schemaValidator?: { schemaDir: string; validate?: ValidateFunction; failedAt?: number };
 
   /**
    * @param context VSCode Extension Context
@@ -77,24 +94,74 @@ export class DiagnosticsProvider extends CachedDataProducer {
   /**
    * Collects Extension 2.0 diagnostics and updates the collection managed by this provider.
    * @param document text document to provide diagnostics for
+   * @param extension the document's content serialized as object. Defaults to the manifest of
+   * the currently open workspace; must be given for any other manifest.
+   * @returns the diagnostics reported for the document
    */
-  public async provideDiagnostics(document: vscode.TextDocument) {
+  public async provideDiagnostics(
+    document: vscode.TextDocument,
+    extension: ExtensionStub = this.parsedExtension,
+  ): Promise<vscode.Diagnostic[]> {
     // If feature disabled, don't continue
     if (!vscode.workspace.getConfiguration("dynatraceExtensions", null).get("diagnostics")) {
       this.collection.set(document.uri, []);
-      return;
+      return [];
     }
 
     // Diagnostic collections should be awaited all in parallel
     const diagnostics = await Promise.all([
       this.diagnoseExtensionName(document),
-      this.diagnoseMetricKeys(document, this.parsedExtension),
-      this.diagnoseCardKeys(document, this.parsedExtension),
-      this.diagnoseMetricOids(document, this.parsedExtension),
-      this.diagnoseDimensionOids(document, this.parsedExtension),
+      this.diagnoseMetricKeys(document, extension),
+      this.diagnoseCardKeys(document, extension),
+      this.diagnoseMetricOids(document, extension),
+      this.diagnoseDimensionOids(document, extension),
+      this.diagnoseSchema(document, extension),
     ]).then(results => results.reduce((collection, result) => collection.concat(result), []));
 
-    this.collection.set(document.uri, diagnostics);
+    const reportedDiagnostics = this.applyRules(document, diagnostics);
+    this.collection.set(document.uri, reportedDiagnostics);
+    return reportedDiagnostics;
+  }
+
+  /**
+   * Applies the user's per-rule configuration to the collected diagnostics. Rules can have
+   * their severity changed or be turned "off" in settings, and individual findings can be
+   * suppressed with `# dt-ignore` comments within the document.
+   * @param document text document the diagnostics belong to
+   * @param diagnostics diagnostics collected for the document
+   * @returns diagnostics that should be reported
+   */
+  private applyRules(
+    document: vscode.TextDocument,
+    diagnostics: vscode.Diagnostic[],
+  ): vscode.Diagnostic[] {
+    const rules = vscode.workspace
+      .getConfiguration("dynatraceExtensions", null)
+      .get<Record<string, RuleSeverity>>("diagnostics.rules", {});
+    const suppressions = parseSuppressions(document.getText());
+
+    return diagnostics
+      .filter(diagnostic => {
+        const code = String(diagnostic.code);
+        return (
+          rules[code] !== "off" && !isSuppressed(suppressions, diagnostic.range.start.line, code)
+        );
+      })
+      .map(diagnostic => {
+        const ruleSeverity = rules[String(diagnostic.code)] as RuleSeverity | undefined;
+        if (ruleSeverity && ruleSeverity !== "off" && ruleSeverity in RULE_SEVERITIES) {
+          diagnostic.severity = RULE_SEVERITIES[ruleSeverity];
+        }
+        return diagnostic;
+      });
+  }
+
+  /**
+   * Forgets the compiled extension schema, so it is compiled again on the next validation.
+   * Meant to be called whenever schema files have been (re-)downloaded.
+   */
+  public resetSchemaValidator() {
+    this.schemaValidator = undefined;
   }
 
   /**
@@ -106,6 +173,18 @@ export class DiagnosticsProvider extends CachedDataProducer {
     return [...(this.collection.get(uri) ?? [])];
   }
 
+  /**
+   * Retrieve all currently logged Diagnostics across all documents, in serializable form.
+   * @returns list of diagnostics
+   */
+  public getAllDiagnostics(): ExtensionDiagnosticDto[] {
+    const diagnostics: ExtensionDiagnosticDto[] = [];
+    this.collection.forEach((uri, uriDiagnostics) => {
+      diagnostics.push(...uriDiagnostics.map(d => toDiagnosticDto(uri.fsPath, d)));
+    });
+    return diagnostics;
+  }
+
   /**
    * Checks whether extension is valid for building.
    * Essentially checks whether there are any diagnostics created with severity "Error".
@@ -569,4 +648,58 @@ export class DiagnosticsProvider extends CachedDataProducer {
     }
     return diagnostics;
   }
+
+  /**
+   * Provides diagnostics for any part of the extension that doesn't comply with the extension
+   * schema. Validation happens offline, against the schemas downloaded with the Load schemas
+   * command, so nothing is reported if no schemas have been loaded yet.
+   * @param document text document where diagnostics should be applied
+   * @param extension extension.yaml serialized as object
+   * @returns list of diagnostics
+   */
+  private async diagnoseSchema(
+    document: vscode.TextDocument,
+    extension: ExtensionStub,
+  ): Promise<vscode.Diagnostic[]> {
+    // Honor the user's settings
+    if (
+      !vscode.workspace
+        .getConfiguration("dynatraceExtensions", null)
+        .get("diagnostics.schema", false) as boolean
+    ) {
+      return [];
+    }
+
+    const schemaVersion = this.context.workspaceState.get<string>("schemaVersion");
+    if (!schemaVersion) {
+      return [];
+    }
+    const schemaDir = path.join(this.context.globalStorageUri.fsPath, schemaVersion);
+    // Failures are retried after a while, so a broken schema directory isn't re-compiled on
+    // every keystroke but schemas that are fixed later (e.g. downloaded again) get picked up
+    const { schemaDir: cachedDir, failedAt } = this.schemaValidator ?? {};
+    if (
+      cachedDir !== schemaDir ||
+      (failedAt !== undefined && Date.now() - failedAt > SCHEMA_RETRY_INTERVAL)
+    ) {
+      try {
+        this.schemaValidator = { schemaDir, validate: compileSchemaValidator(schemaDir) };
+      } catch (err) {
+        console.log(`Could not compile extension schema. ${(err as Error).message}`);
+        this.schemaValidator = { schemaDir, failedAt: Date.now() };
+      }
+    }
+    const validate = this.schemaValidator.validate;
+    if (!validate) {
+      return [];
+    }
+
+    return validateManifest(validate, extension, document.getText()).map(violation =>
+      extensionDiagnostic(
+        document.positionAt(violation.start),
+        document.positionAt(violation.end),
+        { ...SCHEMA_VIOLATION, message: `${violation.message} (${violation.path.join(".")})` },
+      ),
+    );
+  }
 }
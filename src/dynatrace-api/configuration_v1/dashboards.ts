@@ -15,7 +15,7 @@
  */
 
 import { HttpClient } from "../http_client";
-import { Dashboard } from "../interfaces/dashboards";
+import { Dashboard, DashboardStub } from "../interfaces/dashboards";
 
 /**
  * Implementation of the Dashboards API.
@@ -28,16 +28,49 @@ export class DashboardService {
     this.httpClient = httpClient;
   }
 
+  /**
+   * Lists all dashboards in the environment
+   * @returns list of dashboard ids, names and owners
+   */
+  async list() {
+    return this.httpClient
+      .makeRequest<{ dashboards: DashboardStub[] }>(this.endpoint)
+      .then(res => res.dashboards);
+  }
+
+  /**
+   * Gets the full definition of a dashboard
+   * @param dashboardId ID of the dashboard
+   * @returns dashboard definition
+   */
+  async get(dashboardId: string) {
+    return this.httpClient.makeRequest<Dashboard>(`${this.endpoint}/${dashboardId}`);
+  }
+
   /**
    * Create a dashboard
    * @param dashboard dashboard definition
-   * @returns
+   * @returns id and name of the created dashboard
    */
   async post(dashboard: Dashboard) {
-    return this.httpClient.makeRequest(
+    return this.httpClient.makeRequest<DashboardStub>(
       this.endpoint,
       dashboard as unknown as Record<string, unknown>,
       "POST",
     );
   }
+
+  /**
+   * Update an existing dashboard
+   * @param dashboardId ID of the dashboard
+   * @param dashboard dashboard definition
+   * @returns
+   */
+  async put(dashboardId: string, dashboard: Dashboard) {
+    return this.httpClient.makeRequest(
+      `${this.endpoint}/${dashboardId}`,
+      { ...dashboard, id: dashboardId } as unknown as Record<string, unknown>,
+      "PUT",
+    );
+  }
 }
@@ -19,10 +19,13 @@ import { DashboardService } from "./configuration_v1/dashboards";
 import { ExtensionsServiceV1 } from "./configuration_v1/extensions";
 import { ActiveGatesService } from "./environment_v2/activegates";
 import { ExtensionsServiceV2 } from "./environment_v2/extensions";
+import { LogsService } from "./environment_v2/logs";
 import { MetricService } from "./environment_v2/metrics";
 import { EntityServiceV2 } from "./environment_v2/monitoredEntities";
 import { SettingsService } from "./environment_v2/settings";
 import { HttpClient } from "./http_client";
+import { getTokenUrl, OAuthClient, OAuthCredentials } from "./oauth";
+import { DocumentService } from "./platform/documents";
 
 /**
  * Implentation of a Dynatrace Client to facilitate calls to Dynatrace APIs
@@ -37,12 +40,20 @@ export class Dynatrace {
   public readonly settings: SettingsService;
   public readonly dashboards: DashboardService;
   public readonly activeGates: ActiveGatesService;
+  public readonly logs: LogsService;
+  /** Platform APIs; only available if the environment has OAuth credentials */
+  public readonly documents?: DocumentService;
 
   /**
    * @param baseUrl URL to Dynatrace Environment
    * @param apiToken API Token for this Environment
+   * @param platform URL of the platform environment and OAuth client credentials for it
    */
-  constructor(baseUrl: string, apiToken: string) {
+  constructor(
+    baseUrl: string,
+    apiToken: string,
+    platform?: { url: string; credentials: OAuthCredentials },
+  ) {
     this._httpClient = new HttpClient(baseUrl, apiToken);
     this.extensionsV2 = new ExtensionsServiceV2(this._httpClient);
     this.credentialVault = new CredentialVaultService(this._httpClient);
@@ -52,5 +63,10 @@ export class Dynatrace {
     this.dashboards = new DashboardService(this._httpClient);
     this.extensionsV1 = new ExtensionsServiceV1(this._httpClient);
     this.activeGates = new ActiveGatesService(this._httpClient);
+    this.logs = new LogsService(this._httpClient);
+    if (platform) {
+      const oauthClient = new OAuthClient(platform.credentials, getTokenUrl(platform.url));
+      this.documents = new DocumentService(new HttpClient(platform.url, oauthClient));
+    }
   }
 }
@@ -16,6 +16,7 @@
 
 import { HttpClient } from "../http_client";
 import {
+  ExtensionEnvironmentConfiguration,
   ExtensionMonitoringConfiguration,
   ExtensionStatusDto,
   MinimalExtension,
@@ -111,6 +112,32 @@ export class ExtensionsServiceV2 {
     );
   }
 
+  /**
+   * Gets the active environment configuration version of the extension 2.0
+   * @param extensionName name of the extension
+   * @returns response data
+   */
+  async getEnvironmentConfiguration(
+    extensionName: string,
+  ): Promise<ExtensionEnvironmentConfiguration> {
+    return this.httpClient.makeRequest(
+      `${this.endpoint}/${extensionName}/environmentConfiguration`,
+    );
+  }
+
+  /**
+   * Deactivates the extension 2.0 by deleting its environment configuration
+   * @param extensionName name of the extension to deactivate
+   * @returns response data
+   */
+  async deleteEnvironmentConfiguration(extensionName: string) {
+    return this.httpClient.makeRequest(
+      `${this.endpoint}/${extensionName}/environmentConfiguration`,
+      {},
+      "DELETE",
+    );
+  }
+
   /**
    * Updates the active environment configuration version of the extension 2.0
    * @param extensionName name of the extension to activate
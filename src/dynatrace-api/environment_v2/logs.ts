@@ -0,0 +1,57 @@
+/**
+  Copyright 2022 Dynatrace LLC
+
+  Licensed under the Apache License, Version 2.0 (the "License");
+  you may not use this file except in compliance with the License.
+  You may obtain a copy of the License at
+
+      https://www.apache.org/licenses/LICENSE-2.0
+
+  Unless required by applicable law or agreed to in writing, software
+  distributed under the License is distributed on an "AS IS" BASIS,
+  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+  See the License for the specific language governing permissions and
+  limitations under the License.
+ */
+
+import { HttpClient } from "../http_client";
+import { LogRecord, LogSearchResponse } from "../interfaces/logs";
+
+/**
+ * Implementation of the Log Monitoring V2 API
+ */
+export class LogsService {
+  private readonly endpoint = "/api/v2/logs";
+  private readonly httpClient: HttpClient;
+
+  constructor(httpClient: HttpClient) {
+    this.httpClient = httpClient;
+  }
+
+  /**
+   * Reads log records matching a query.
+   * @param query The log search query (e.g. `status="ERROR" AND host.name="abc"`).
+   * @param from The start of the requested timeframe. Defaults to now-2h.
+   * @param to The end of the requested timeframe. Defaults to current timestamp.
+   * @param limit The maximum number of records to return.
+   * @param sort The sorting of the records - "timestamp" or "-timestamp" for newest first.
+   * @returns list of log records
+   */
+  async search(
+    query: string,
+    from?: string,
+    to?: string,
+    limit?: number,
+    sort?: string,
+  ): Promise<LogRecord[]> {
+    return this.httpClient
+      .makeRequest<LogSearchResponse>(`${this.endpoint}/search`, {
+        query: query,
+        from: from,
+        to: to,
+        limit: limit,
+        sort: sort,
+      })
+      .then(response => response.results);
+  }
+}
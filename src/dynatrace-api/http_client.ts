@@ -14,31 +14,205 @@
   limitations under the License.
  */
 
-import axios, { ResponseType } from "axios";
+import * as https from "https";
+import * as tls from "tls";
+import axios, { AxiosRequestConfig, ResponseType } from "axios";
 import FormData = require("form-data");
 import { DynatraceAPIError } from "./errors";
 import { DynatraceAxiosError, ErrorEnvelope, PaginatedResponse } from "./interfaces/dynatrace";
+import { ProxyTunnelAgent } from "./proxy_agent";
+import type { OAuthClient } from "./oauth";
+
+/**
+ * Connection settings shared by all HTTP Clients.
+ */
+export interface HttpClientOptions {
+  /** Request timeout in milliseconds; 0 means no timeout */
+  timeout: number;
+  /** How many times a failed request is retried */
+  maxRetries: number;
+  /** URL of an HTTP(S) proxy to send requests through */
+  proxy?: string;
+  /** Hosts (or domain suffixes) that are reached without the proxy */
+  noProxy?: string[];
+  /** Whether TLS certificates of servers must be valid */
+  strictSSL: boolean;
+  /** Extra CA certificates (PEM) to trust on top of the system ones */
+  ca?: string;
+}
+
+const DEFAULT_OPTIONS: HttpClientOptions = { timeout: 60_000, maxRetries: 3, strictSSL: true };
+const BASE_RETRY_DELAY = 1_000;
+const MAX_RETRY_DELAY = 30_000;
+// Status codes for requests which were (most likely) not processed by the server
+const RETRY_ANY_METHOD = [429];
+// Status codes for requests that may have been processed, so only idempotent ones are retried
+const RETRY_IDEMPOTENT = [500, 502, 503, 504];
+const IDEMPOTENT_METHODS = ["GET", "HEAD", "PUT", "DELETE", "OPTIONS"];
+
+let clientOptions: HttpClientOptions = DEFAULT_OPTIONS;
+let httpsAgents: { direct?: https.Agent; proxied?: https.Agent } = {};
+
+/**
+ * Updates the connection settings used by all HTTP Clients for any following requests.
+ * Settings that are not given (or undefined) fall back to their defaults.
+ * @param options connection settings
+ */
+export function configureHttpClients(options: Partial<HttpClientOptions>) {
+  const givenOptions = Object.fromEntries(
+    Object.entries<unknown>(options).filter(([, value]) => value !== undefined),
+  );
+  clientOptions = { ...DEFAULT_OPTIONS, ...givenOptions };
+  httpsAgents = {};
+}
+
+/**
+ * Reads the hosts that bypass the proxy from the NO_PROXY (or no_proxy) environment variable.
+ * @returns hosts or domain suffixes, as listed in the variable
+ */
+export function getEnvironmentNoProxy(): string[] {
+  return (process.env.NO_PROXY ?? process.env.no_proxy ?? "")
+    .split(",")
+    .map(entry => entry.trim())
+    .filter(entry => entry);
+}
+
+/**
+ * Calculates how long to wait before retrying a request. The server's Retry-After header
+ * (either in seconds or as an HTTP date) is honoured, otherwise the delay grows exponentially
+ * with every attempt.
+ * @param attempt number of the retry (starting from 0)
+ * @param retryAfter value of the Retry-After response header, if any
+ * @param now the current time, in milliseconds
+ * @returns delay in milliseconds
+ */
+export function getRetryDelay(attempt: number, retryAfter?: string, now: number = Date.now()) {
+  if (retryAfter) {
+    const seconds = Number(retryAfter);
+    const delay = Number.isNaN(seconds) ? Date.parse(retryAfter) - now : seconds * 1000;
+    if (!Number.isNaN(delay)) {
+      return Math.min(Math.max(delay, 0), MAX_RETRY_DELAY);
+    }
+  }
+  return Math.min(BASE_RETRY_DELAY * 2 ** attempt, MAX_RETRY_DELAY);
+}
+
+/**
+ * Checks whether a host should be reached without going through the proxy.
+ * @param hostname host of the request
+ * @param noProxy hosts or domain suffixes to bypass the proxy for
+ * @returns true if the proxy should be bypassed
+ */
+function bypassesProxy(hostname: string, noProxy: string[] = []) {
+  return noProxy.some(entry => {
+    const domain = entry.trim().replace(/^\*?\./, "");
+    return domain === "*" || hostname === domain || hostname.endsWith(`.${domain}`);
+  });
+}
+
+/**
+ * Gets the agent for HTTPS requests, which applies the TLS settings and, if needed, tunnels
+ * through the proxy. Agents are reused until the client options change.
+ * @param proxy URL of the proxy to tunnel through, if any
+ * @returns HTTPS agent
+ */
+function getHttpsAgent(proxy?: string): https.Agent {
+  const agentOptions: https.AgentOptions = {
+    keepAlive: true,
+    rejectUnauthorized: clientOptions.strictSSL,
+    // Extra CAs replace the system ones in Node, so both are needed
+    ca: clientOptions.ca ? [...tls.rootCertificates, clientOptions.ca] : undefined,
+    timeout: clientOptions.timeout || undefined,
+  };
+  if (proxy) {
+    httpsAgents.proxied ??= new ProxyTunnelAgent(proxy, agentOptions);
+    return httpsAgents.proxied;
+  }
+  httpsAgents.direct ??= new https.Agent(agentOptions);
+  return httpsAgents.direct;
+}
+
+/**
+ * Builds the connection related part of the request config (proxy, TLS and timeout) from the
+ * current client options.
+ * @param url URL of the request
+ * @returns partial request config
+ */
+export function getConnectionConfig(url: string): AxiosRequestConfig {
+  const { hostname, protocol } = new URL(url);
+  const proxy =
+    clientOptions.proxy && !bypassesProxy(hostname, clientOptions.noProxy)
+      ? new URL(clientOptions.proxy)
+      : undefined;
+
+  // Proxies come only from the client options, never from axios' own environment lookup
+  const config: AxiosRequestConfig = { timeout: clientOptions.timeout, proxy: false };
+  if (protocol === "https:") {
+    // The agent takes care of tunnelling HTTPS requests through the proxy
+    config.httpsAgent = getHttpsAgent(proxy ? clientOptions.proxy : undefined);
+  } else if (proxy) {
+    config.proxy = {
+      protocol: proxy.protocol.replace(":", ""),
+      host: proxy.hostname,
+      port: Number(proxy.port || (proxy.protocol === "https:" ? 443 : 80)),
+      auth: proxy.username
+        ? {
+            username: decodeURIComponent(proxy.username),
+            password: decodeURIComponent(proxy.password),
+          }
+        : undefined,
+    };
+  }
+  return config;
+}
+
+/**
+ * Waits for the given amount of time.
+ * @param ms time to wait in milliseconds
+ */
+async function sleep(ms: number) {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
 
 /**
  * Implementation of a HTTP Client specialised for accessing Dynatrace APIs
  */
 export class HttpClient {
   private readonly baseUrl: string;
-  private readonly apiToken: string;
+  private readonly auth: string | OAuthClient;
 
-  constructor(baseUrl: string, apiToken: string) {
+  /**
+   * @param baseUrl URL requests are made against
+   * @param auth API Token, or an OAuth client to get access tokens from (platform APIs)
+   */
+  constructor(baseUrl: string, auth: string | OAuthClient) {
     this.baseUrl = baseUrl;
-    this.apiToken = apiToken;
+    this.auth = auth;
+  }
+
+  /**
+   * Builds the Authorization header value for the next request.
+   * @returns header value
+   */
+  private async getAuthorization(): Promise<string> {
+    return typeof this.auth === "string"
+      ? `Api-Token ${this.auth}`
+      : `Bearer ${await this.auth.getAccessToken()}`;
   }
 
   /**
    * Makes an HTTP Request with the given details.
-   * All requests automatically contain the API Token as Authorization header
+   * All requests automatically contain the API Token (or OAuth access token) as Authorization
+   * header; a rejected OAuth access token is renewed once before giving up. Requests that
+   * are rate limited (429) or fail with a server error (5xx, idempotent methods only) are
+   * retried with a growing delay, as configured through {@link configureHttpClients}.
    * @param path URL path for the web request endpoint
    * @param params query parameters; in case of POST or PUT it becomes body of request
    * @param method HTTP method to use
    * @param headers additional request headers
    * @param queryParams query parameters; to be used for POST and PUT requests
+   * @param files file to send as multipart form; the body (if any) is sent as extra form fields
+   * @param responseType type of data the server responds with
    * @returns response data
    */
   async makeRequest<T = never>(
@@ -47,7 +221,7 @@ export class HttpClient {
     method: string = "GET",
     headers: Record<string, string> = {},
     queryParams?: Record<string, unknown>,
-    files?: { file: Buffer; name: string },
+    files?: { file: Buffer; name: string; field?: string },
     responseType?: ResponseType,
   ): Promise<T> {
     const url = `${this.baseUrl}${path}`;
@@ -61,12 +235,9 @@ export class HttpClient {
     if (!("Content-Type" in headers)) {
       headers["Content-type"] = "application/json";
     }
-    const form = new FormData();
     if (files) {
       headers["Content-type"] = "multipart/form-data";
-      form.append("file", files.file, files.name);
     }
-    headers.Authorization = `Api-Token ${this.apiToken}`;
 
     console.debug(
       `Making ${method} request to ${url} ${
@@ -74,16 +245,27 @@ export class HttpClient {
       } ${body ? " and body " + JSON.stringify(body) : ""}`,
     );
 
-    return axios
-      .request({
-        url: url,
-        headers: headers,
-        params: params,
-        method: method,
-        data: files ? form : body,
-        responseType,
-      })
-      .then(res => {
+    let tokenRenewed = false;
+    for (let attempt = 0; ; attempt++) {
+      // Forms are streamed, so they can only be sent once
+      const form = new FormData();
+      if (files) {
+        Object.entries(body ?? {}).forEach(([key, value]) => {
+          form.append(key, typeof value === "string" ? value : JSON.stringify(value));
+        });
+        form.append(files.field ?? "file", files.file, files.name);
+      }
+      try {
+        headers.Authorization = await this.getAuthorization();
+        const res = await axios.request({
+          url: url,
+          headers: headers,
+          params: params,
+          method: method,
+          data: files ? form : body,
+          responseType,
+          ...getConnectionConfig(url),
+        });
         if (res.status >= 400) {
           const errorData = res.data as ErrorEnvelope;
           const message = `Error making request to ${url}: ${
@@ -93,33 +275,67 @@ export class HttpClient {
           throw new DynatraceAPIError(message, errorData.error);
         }
         return res.data as T;
-      })
-      .catch((err: unknown) => {
-        if (Object.keys(err).includes("response")) {
-          // Request was made, server responded with non-2xx, axios threw as error
-          throw new DynatraceAPIError(
-            (err as DynatraceAxiosError).message,
-            (err as DynatraceAxiosError).response.data.error,
-          );
-        } else if (Object.keys(err).includes("request")) {
-          // Request was made, but no response received
-          console.log(err);
-          throw new DynatraceAPIError(`No response from server ${this.baseUrl}`, {
-            code: 0,
-            constraintViolations: [],
-            message: (err as Error).message,
-          });
-        } else {
-          // Something else unexpected happened
-          const message = `Error making request to ${url}: ${(err as Error).message}.`;
-          console.log(message);
-          throw new DynatraceAPIError(message, {
-            code: 0,
-            constraintViolations: [],
-            message: message,
-          });
+      } catch (err: unknown) {
+        if (err instanceof DynatraceAPIError) {
+          throw err;
         }
+        const status = (err as Partial<DynatraceAxiosError>).response?.status;
+        if (status === 401 && typeof this.auth !== "string" && !tokenRenewed) {
+          // The access token may have been revoked or expired early
+          this.auth.invalidate();
+          tokenRenewed = true;
+          continue;
+        }
+        const retryable =
+          status === undefined
+            ? // No response (e.g. connection reset) - the request may have been processed
+              Object.keys(err as object).includes("request") &&
+              IDEMPOTENT_METHODS.includes(method.toUpperCase())
+            : RETRY_ANY_METHOD.includes(status) ||
+              (RETRY_IDEMPOTENT.includes(status) &&
+                IDEMPOTENT_METHODS.includes(method.toUpperCase()));
+        if (retryable && attempt < clientOptions.maxRetries) {
+          const retryAfter = (err as Partial<DynatraceAxiosError>).response?.headers["retry-after"];
+          const delay = getRetryDelay(attempt, retryAfter);
+          console.log(`Request to ${url} failed (${status ?? "no response"}), retry in ${delay}ms`);
+          await sleep(delay);
+          continue;
+        }
+        this.handleError(err, url);
+      }
+    }
+  }
+
+  /**
+   * Converts an error thrown by axios into a {@link DynatraceAPIError}.
+   * @param err the error thrown
+   * @param url URL of the request
+   */
+  private handleError(err: unknown, url: string): never {
+    if (Object.keys(err as object).includes("response")) {
+      // Request was made, server responded with non-2xx, axios threw as error
+      throw new DynatraceAPIError(
+        (err as DynatraceAxiosError).message,
+        (err as DynatraceAxiosError).response.data.error,
+      );
+    } else if (Object.keys(err as object).includes("request")) {
+      // Request was made, but no response received
+      console.log(err);
+      throw new DynatraceAPIError(`No response from server ${this.baseUrl}`, {
+        code: 0,
+        constraintViolations: [],
+        message: (err as Error).message,
+      });
+    } else {
+      // Something else unexpected happened
+      const message = `Error making request to ${url}: ${(err as Error).message}.`;
+      console.log(message);
+      throw new DynatraceAPIError(message, {
+        code: 0,
+        constraintViolations: [],
+        message: message,
       });
+    }
   }
 
   /**
@@ -21,6 +21,12 @@ interface Dashboard {
   tiles: unknown[];
 }
 
+interface DashboardStub {
+  id: string;
+  name?: string;
+  owner?: string;
+}
+
 interface ConfigurationMetadata {
   configurationVersions?: number[];
   currentConfigurationVersions?: string[];
@@ -55,4 +61,30 @@ interface DynamicFilters {
   tagSuggestionTypes?: string[];
 }
 
-export { Dashboard };
+/**
+ * Content of a dashboard in the platform (Dashboards app) format.
+ */
+interface PlatformDashboard {
+  version: number;
+  variables: unknown[];
+  tiles: Record<string, PlatformDashboardTile>;
+  layouts: Record<string, PlatformTileLayout>;
+}
+
+interface PlatformDashboardTile {
+  type: "markdown" | "data";
+  title?: string;
+  content?: string;
+  query?: string;
+  visualization?: "lineChart" | "table" | "singleValue";
+  visualizationSettings?: Record<string, unknown>;
+}
+
+interface PlatformTileLayout {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+export { Dashboard, DashboardStub, PlatformDashboard, PlatformDashboardTile };
@@ -39,6 +39,10 @@ export interface ExtensionV1DTO {
   type: "ACTIVEGATE" | "CODEMODULE" | "JMX" | "ONEAGENT" | "PMI" | "UNKNOWN";
 }
 
+export interface ExtensionEnvironmentConfiguration {
+  version: string;
+}
+
 export interface ExtensionMonitoringConfiguration {
   objectId?: string;
   scope?: string;
@@ -0,0 +1,127 @@
+/**
+  Copyright 2022 Dynatrace LLC
+
+  Licensed under the Apache License, Version 2.0 (the "License");
+  you may not use this file except in compliance with the License.
+  You may obtain a copy of the License at
+
+      https://www.apache.org/licenses/LICENSE-2.0
+
+  Unless required by applicable law or agreed to in writing, software
+  distributed under the License is distributed on an "AS IS" BASIS,
+  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+  See the License for the specific language governing permissions and
+  limitations under the License.
+ */
+
+import axios from "axios";
+import { DynatraceAPIError } from "./errors";
+import { getConnectionConfig } from "./http_client";
+
+/** Scopes requested for platform API access */
+export const PLATFORM_SCOPES = ["document:documents:read", "document:documents:write"];
+/** Tokens are renewed this long before they actually expire */
+const EXPIRY_MARGIN = 60_000;
+
+export interface OAuthCredentials {
+  clientId: string;
+  clientSecret: string;
+}
+
+interface TokenResponse {
+  access_token: string;
+  expires_in: number;
+}
+
+interface TokenErrorResponse {
+  error?: string;
+  error_description?: string;
+}
+
+/**
+ * Gets the URL of the SSO token endpoint that issues tokens for a platform environment.
+ * @param environmentUrl URL of the platform environment (e.g. https://abc123.apps.dynatrace.com)
+ * @returns URL of the token endpoint
+ */
+export function getTokenUrl(environmentUrl: string): string {
+  const { hostname } = new URL(environmentUrl);
+  if (hostname.endsWith(".dev.apps.dynatracelabs.com")) {
+    return "https://sso-dev.dynatracelabs.com/sso/oauth2/token";
+  }
+  if (hostname.endsWith(".sprint.apps.dynatracelabs.com")) {
+    return "https://sso-sprint.dynatracelabs.com/sso/oauth2/token";
+  }
+  return "https://sso.dynatrace.com/sso/oauth2/token";
+}
+
+/**
+ * Obtains access tokens for an OAuth client using the client credentials flow.
+ * Tokens are cached and a new one is requested once the current one (nearly) expires.
+ */
+export class OAuthClient {
+  private readonly credentials: OAuthCredentials;
+  private readonly tokenUrl: string;
+  private readonly scopes: string[];
+  private accessToken?: string;
+  private expiresAt = 0;
+
+  /**
+   * @param credentials ID and secret of the OAuth client
+   * @param tokenUrl URL of the SSO token endpoint
+   * @param scopes scopes to request for the token
+   */
+  constructor(credentials: OAuthCredentials, tokenUrl: string, scopes: string[] = PLATFORM_SCOPES) {
+    this.credentials = credentials;
+    this.tokenUrl = tokenUrl;
+    this.scopes = scopes;
+  }
+
+  /**
+   * Gets a valid access token, requesting a new one if there isn't one or it is about to expire.
+   * @returns access token
+   */
+  async getAccessToken(): Promise<string> {
+    if (!this.accessToken || Date.now() >= this.expiresAt - EXPIRY_MARGIN) {
+      this.accessToken = await this.requestToken();
+    }
+    return this.accessToken;
+  }
+
+  /**
+   * Discards the cached token (e.g. after it was rejected), so the next call gets a new one.
+   */
+  invalidate() {
+    this.accessToken = undefined;
+    this.expiresAt = 0;
+  }
+
+  /**
+   * Requests a new access token from the SSO token endpoint.
+   * @returns access token
+   */
+  private async requestToken(): Promise<string> {
+    const body = new URLSearchParams({
+      grant_type: "client_credentials",
+      client_id: this.credentials.clientId,
+      client_secret: this.credentials.clientSecret,
+      scope: this.scopes.join(" "),
+    });
+    const res = await axios
+      .post<TokenResponse>(this.tokenUrl, body.toString(), {
+        headers: { "Content-Type": "application/x-www-form-urlencoded" },
+        ...getConnectionConfig(this.tokenUrl),
+      })
+      .catch(
+        (err: { message: string; response?: { status: number; data?: TokenErrorResponse } }) => {
+          const reason = err.response?.data?.error_description ?? err.message;
+          throw new DynatraceAPIError(`Could not get an OAuth access token: ${reason}`, {
+            code: err.response?.status ?? 0,
+            constraintViolations: [],
+            message: reason,
+          });
+        },
+      );
+    this.expiresAt = Date.now() + res.data.expires_in * 1000;
+    return res.data.access_token;
+  }
+}
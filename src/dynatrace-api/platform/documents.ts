@@ -0,0 +1,87 @@
+/**
+  Copyright 2022 Dynatrace LLC
+
+  Licensed under the Apache License, Version 2.0 (the "License");
+  you may not use this file except in compliance with the License.
+  You may obtain a copy of the License at
+
+      https://www.apache.org/licenses/LICENSE-2.0
+
+  Unless required by applicable law or agreed to in writing, software
+  distributed under the License is distributed on an "AS IS" BASIS,
+  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+  See the License for the specific language governing permissions and
+  limitations under the License.
+ */
+
+import { HttpClient } from "../http_client";
+import { DocumentMetadata } from "../interfaces/documents";
+
+/**
+ * Implementation of the platform Document API (documents such as dashboards and notebooks).
+ */
+export class DocumentService {
+  private readonly httpClient: HttpClient;
+  private readonly endpoint = "/platform/document/v1/documents";
+
+  constructor(httpClient: HttpClient) {
+    this.httpClient = httpClient;
+  }
+
+  /**
+   * Lists the documents of a given type, optionally only those with a given name.
+   * @param type document type (e.g. "dashboard")
+   * @param name exact name of the documents to list
+   * @returns list of document metadata
+   */
+  async list(type: string, name?: string) {
+    // Backslashes and quotes must be escaped within string literals of the filter
+    const literal = (value: string) => `'${value.replace(/\\/g, "\\\\").replace(/'/g, "\\'")}'`;
+    const filter = `type == ${literal(type)}${name ? ` and name == ${literal(name)}` : ""}`;
+    return this.httpClient.paginatedCall<DocumentMetadata>(this.endpoint, "documents", { filter });
+  }
+
+  /**
+   * Gets the metadata of a document
+   * @param id id of the document
+   * @returns metadata of the document
+   */
+  async get(id: string) {
+    return this.httpClient.makeRequest<DocumentMetadata>(`${this.endpoint}/${id}`);
+  }
+
+  /**
+   * Creates a document
+   * @param name name of the document
+   * @param type document type (e.g. "dashboard")
+   * @param content content of the document
+   * @returns metadata of the created document
+   */
+  async create(name: string, type: string, content: Buffer) {
+    return this.httpClient.makeRequest<DocumentMetadata>(
+      this.endpoint,
+      { name, type },
+      "POST",
+      {},
+      undefined,
+      { file: content, name: `${name}.json`, field: "content" },
+    );
+  }
+
+  /**
+   * Replaces the content of an existing document
+   * @param document metadata of the document, as last read
+   * @param content new content of the document
+   * @returns
+   */
+  async updateContent(document: DocumentMetadata, content: Buffer) {
+    return this.httpClient.makeRequest(
+      `${this.endpoint}/${document.id}/content`,
+      {},
+      "PUT",
+      {},
+      { "optimistic-locking-version": document.version },
+      { file: content, name: `${document.name}.json`, field: "content" },
+    );
+  }
+}
@@ -14,6 +14,7 @@
   limitations under the  License.
  */
 
+import { readFileSync } from "fs";
 import * as vscode from "vscode";
 import { PrometheusActionProvider } from "./codeActions/prometheus";
 import { SnippetGenerator } from "./codeActions/snippetGenerator";
@@ -29,6 +30,7 @@ import { PrometheusCodeLensProvider } from "./codeLens/prometheusScraper";
 import { ScreenLensProvider } from "./codeLens/screenCodeLens";
 import { SelectorCodeLensProvider } from "./codeLens/selectorCodeLens";
 import { SnmpCodeLensProvider } from "./codeLens/snmpCodeLens";
+import { PrometheusMockServer } from "./codeLens/utils/prometheusMock";
 import { ValidationStatus, runSelector, validateSelector } from "./codeLens/utils/selectorUtils";
 import { runWMIQuery } from "./codeLens/utils/wmiUtils";
 import { WmiCodeLensProvider } from "./codeLens/wmiCodeLens";
@@ -39,18 +41,34 @@ import { createAlert } from "./commandPalette/createAlert";
 import { createMonitoringConfiguration } from "./commandPalette/createConfiguration";
 import { createOverviewDashboard } from "./commandPalette/createDashboard";
 import { createDocumentation } from "./commandPalette/createDocumentation";
+import { deployExtension } from "./commandPalette/deployExtension";
 import { distributeCertificate } from "./commandPalette/distributeCertificate";
+import { exportDiagnostics } from "./commandPalette/exportDiagnostics";
 import { generateCerts } from "./commandPalette/generateCertificates";
 import { initWorkspace } from "./commandPalette/initWorkspace";
+import { lintAllExtensions } from "./commandPalette/lintAllExtensions";
 import { loadSchemas } from "./commandPalette/loadSchemas";
+import { renewCertificates } from "./commandPalette/renewCertificates";
+import { startPrometheusMock } from "./commandPalette/startPrometheusMock";
+import { diffDashboard, pullDashboard, pushDashboard } from "./commandPalette/syncDashboards";
 import { uploadExtension } from "./commandPalette/uploadExtension";
+import { verifyExtensionSignature } from "./commandPalette/verifySignature";
 import { DiagnosticFixProvider } from "./diagnostics/diagnosticFixProvider";
 import { DiagnosticsProvider } from "./diagnostics/diagnostics";
+import { configureHttpClients, getEnvironmentNoProxy } from "./dynatrace-api/http_client";
 import { SnmpHoverProvider } from "./hover/snmpHover";
+import { ExtensionStub } from "./interfaces/extensionMeta";
 import { ConnectionStatusManager } from "./statusBar/connection";
 import { FastModeStatus } from "./statusBar/fastMode";
-import { EnvironmentsTreeDataProvider } from "./treeViews/environmentsTreeView";
+import { CertificatesTreeDataProvider } from "./treeViews/certificatesTreeView";
+import { showExtensionLogs } from "./treeViews/commands/environments";
+import {
+  DeployedExtension,
+  EnvironmentsTreeDataProvider,
+  MonitoringConfiguration,
+} from "./treeViews/environmentsTreeView";
 import { ExtensionsTreeDataProvider } from "./treeViews/extensionsTreeView";
+import { showMessage } from "./utils/code";
 import {
   checkCertificateExists,
   checkEnvironmentConnected,
@@ -59,6 +77,7 @@ import {
   checkWorkspaceOpen,
   isExtensionsWorkspace,
 } from "./utils/conditionCheckers";
+import { ConfigurationStatusPoller } from "./utils/configurationStatusPoller";
 import { CachedData } from "./utils/dataCaching";
 import {
   getAllEnvironments,
@@ -66,6 +85,8 @@ import {
   initGlobalStorage,
   initWorkspaceStorage,
   migrateFromLegacyExtension,
+  migrateTokensToSecretStorage,
+  resolveRealPath,
 } from "./utils/fileSystem";
 import { REGISTERED_PANELS, WebviewPanelManager } from "./webviews/webviewPanel";
 
@@ -142,18 +163,24 @@ function registerCompletionProviders(
  * This is so that all commands can be created in one function, keeping the activation function more tidy.
  * @param tenantsProvider a provider for environments tree data
  * @param extensionWorkspacesProvider a provider for extension workspaces tree data
+ * @param certificatesProvider a provider for workspace certificates tree data
  * @param diagnosticsProvider a provider for diagnostics
  * @param cachedData the data cache
  * @param outputChannel a JSON output channel for communicating data
+ * @param statusPoller a poller for the status of monitoring configurations
  * @param context {@link vscode.ExtensionContext}
  * @returns list commands as disposables
  */
 function registerCommandPaletteCommands(
   tenantsProvider: EnvironmentsTreeDataProvider,
   extensionWorkspacesProvider: ExtensionsTreeDataProvider,
+  certificatesProvider: CertificatesTreeDataProvider,
   diagnosticsProvider: DiagnosticsProvider,
   cachedData: CachedData,
   outputChannel: vscode.OutputChannel,
+  prometheusMockServer: PrometheusMockServer,
+  webviewPanelManager: WebviewPanelManager,
+  statusPoller: ConfigurationStatusPoller,
   context: vscode.ExtensionContext,
 ): vscode.Disposable[] {
   return [
@@ -163,6 +190,7 @@ function registerCommandPaletteCommands(
         const dtClient = await tenantsProvider.getDynatraceClient();
         if (dtClient) {
           await loadSchemas(context, dtClient);
+          diagnosticsProvider.resetSchemaValidator();
         }
       }
     }),
@@ -200,11 +228,27 @@ function registerCommandPaletteCommands(
       if ((await checkWorkspaceOpen()) && (await checkEnvironmentConnected(tenantsProvider))) {
         initWorkspaceStorage(context);
         const dtClient = await tenantsProvider.getDynatraceClient();
-        if ((await checkCertificateExists("ca")) && dtClient) {
-          await distributeCertificate(context, dtClient);
+        const currentEnv = await tenantsProvider.getCurrentEnvironment();
+        if ((await checkCertificateExists("ca")) && dtClient && currentEnv) {
+          await distributeCertificate(context, dtClient, currentEnv.url);
+          certificatesProvider.refresh();
         }
       }
     }),
+    // Verify the signature of a built extension package
+    vscode.commands.registerCommand("dynatrace-extensions.verifySignature", async () => {
+      if (await checkWorkspaceOpen()) {
+        await verifyExtensionSignature();
+      }
+    }),
+    // Renew the workspace certificates and redistribute the CA certificate
+    vscode.commands.registerCommand("dynatrace-extensions.renewCertificates", async () => {
+      if ((await checkWorkspaceOpen()) && (await checkCertificateExists("all"))) {
+        initWorkspaceStorage(context);
+        await renewCertificates(context);
+        certificatesProvider.refresh();
+      }
+    }),
     // Build Extension 2.0 package
     vscode.commands.registerCommand("dynatrace-extensions.buildExtension", async () => {
       if (
@@ -248,6 +292,48 @@ function registerCommandPaletteCommands(
         }
       },
     ),
+    // Deploy an extension to several environments at once
+    vscode.commands.registerCommand("dynatrace-extensions.deployExtension", async () => {
+      if (
+        (await checkWorkspaceOpen()) &&
+        (await isExtensionsWorkspace(context)) &&
+        (await checkExtensionZipExists())
+      ) {
+        await deployExtension(context, outputChannel);
+        // Pick up configurations affected by the new version straight away
+        statusPoller.poll().catch(() => {});
+      }
+    }),
+    // Show the timeline of status changes of monitoring configurations
+    vscode.commands.registerCommand(
+      "dynatrace-extensions.showConfigurationStatusHistory",
+      async () => {
+        await statusPoller.poll();
+        webviewPanelManager.render(
+          REGISTERED_PANELS.CONFIGURATION_STATUS,
+          "Configuration status history",
+          { dataType: "CONFIGURATION_STATUS", data: Object.values(statusPoller.getHistory()) },
+        );
+      },
+    ),
+    // Run diagnostics across all extensions of all registered workspaces
+    vscode.commands.registerCommand("dynatrace-extensions.lintAllExtensions", async () => {
+      await lintAllExtensions(context, diagnosticsProvider);
+    }),
+    // Export the current extension diagnostics as SARIF report
+    vscode.commands.registerCommand("dynatrace-extensions.exportDiagnostics", async () => {
+      if (await checkWorkspaceOpen()) {
+        await exportDiagnostics(diagnosticsProvider);
+      }
+    }),
+    // Serve a recorded Prometheus exposition file on a local endpoint
+    vscode.commands.registerCommand("dynatrace-extensions.startPrometheusMock", async () => {
+      await startPrometheusMock(prometheusMockServer);
+    }),
+    vscode.commands.registerCommand("dynatrace-extensions.stopPrometheusMock", async () => {
+      await prometheusMockServer.stop();
+      showMessage("info", "Prometheus mock endpoint stopped.");
+    }),
     // Create Extension documentation
     vscode.commands.registerCommand("dynatrace-extensions.createDocumentation", async () => {
       if ((await checkWorkspaceOpen()) && (await isExtensionsWorkspace(context))) {
@@ -257,13 +343,52 @@ function registerCommandPaletteCommands(
     // Create Overview dashboard
     vscode.commands.registerCommand("dynatrace-extensions.createDashboard", async () => {
       if ((await checkWorkspaceOpen()) && (await isExtensionsWorkspace(context))) {
-        await createOverviewDashboard(tenantsProvider, cachedData, outputChannel);
+        await createOverviewDashboard(context, tenantsProvider, cachedData, outputChannel);
+      }
+    }),
+    // Download a dashboard from the tenant into the workspace
+    vscode.commands.registerCommand("dynatrace-extensions.pullDashboard", async () => {
+      if (
+        (await checkWorkspaceOpen()) &&
+        (await isExtensionsWorkspace(context)) &&
+        (await checkEnvironmentConnected(tenantsProvider))
+      ) {
+        const currentEnv = await tenantsProvider.getCurrentEnvironment();
+        if (currentEnv) {
+          await pullDashboard(currentEnv.dt, currentEnv, context);
+        }
+      }
+    }),
+    // Compare a workspace dashboard with the one deployed in the tenant
+    vscode.commands.registerCommand("dynatrace-extensions.diffDashboard", async () => {
+      if (
+        (await checkWorkspaceOpen()) &&
+        (await isExtensionsWorkspace(context)) &&
+        (await checkEnvironmentConnected(tenantsProvider))
+      ) {
+        const currentEnv = await tenantsProvider.getCurrentEnvironment();
+        if (currentEnv) {
+          await diffDashboard(currentEnv.dt, currentEnv, context);
+        }
       }
     }),
-    // Create Alert
+    // Upload changes of a workspace dashboard to the tenant
+    vscode.commands.registerCommand("dynatrace-extensions.pushDashboard", async () => {
+      if (
+        (await checkWorkspaceOpen()) &&
+        (await isExtensionsWorkspace(context)) &&
+        (await checkEnvironmentConnected(tenantsProvider))
+      ) {
+        const currentEnv = await tenantsProvider.getCurrentEnvironment();
+        if (currentEnv) {
+          await pushDashboard(currentEnv.dt, currentEnv, context);
+        }
+      }
+    }),
+    // Create or edit an Alert
     vscode.commands.registerCommand("dynatrace-extensions.createAlert", async () => {
       if ((await checkWorkspaceOpen()) && (await isExtensionsWorkspace(context))) {
-        await createAlert(cachedData);
+        await createAlert(cachedData, tenantsProvider, webviewPanelManager);
       }
     }),
     // Convert JMX Extension from 1.0 to 2.0
@@ -284,7 +409,7 @@ function registerCommandPaletteCommands(
         ) {
           const dtClient = await tenantsProvider.getDynatraceClient();
           if (dtClient) {
-            await createMonitoringConfiguration(dtClient, context, cachedData);
+            await createMonitoringConfiguration(dtClient, cachedData, webviewPanelManager);
           }
         }
       },
@@ -422,6 +547,12 @@ function registerFeatureSwitchCommands() {
         .then(undefined, () => {
           console.log("Could not update setting diagnostics.snmp");
         });
+      vscode.workspace
+        .getConfiguration()
+        .update("dynatraceExtensions.diagnostics.schema", true)
+        .then(undefined, () => {
+          console.log("Could not update setting diagnostics.schema");
+        });
     }),
     vscode.commands.registerCommand("dynatrace-extensions-workspaces.disableAllDiagnostics", () => {
       vscode.workspace
@@ -454,6 +585,12 @@ function registerFeatureSwitchCommands() {
         .then(undefined, () => {
           console.log("Could not update setting diagnostics.snmp");
         });
+      vscode.workspace
+        .getConfiguration()
+        .update("dynatraceExtensions.diagnostics.schema", false)
+        .then(undefined, () => {
+          console.log("Could not update setting diagnostics.schema");
+        });
     }),
     vscode.commands.registerCommand("dynatrace-extensions-workspaces.enableNameDiagnostics", () => {
       vscode.workspace
@@ -537,9 +674,83 @@ function registerFeatureSwitchCommands() {
           });
       },
     ),
+    vscode.commands.registerCommand(
+      "dynatrace-extensions-workspaces.enableSchemaDiagnostics",
+      () => {
+        vscode.workspace
+          .getConfiguration()
+          .update("dynatraceExtensions.diagnostics.schema", true)
+          .then(undefined, () => {
+            console.log("Could not update setting diagnostics.schema");
+          });
+      },
+    ),
+    vscode.commands.registerCommand(
+      "dynatrace-extensions-workspaces.disableSchemaDiagnostics",
+      () => {
+        vscode.workspace
+          .getConfiguration()
+          .update("dynatraceExtensions.diagnostics.schema", false)
+          .then(undefined, () => {
+            console.log("Could not update setting diagnostics.schema");
+          });
+      },
+    ),
   ];
 }
 
+/**
+ * Gets the number of seconds between checks of the status of monitoring configurations.
+ * @returns poll interval in seconds, 0 if polling is disabled
+ */
+function getStatusPollInterval() {
+  return (
+    vscode.workspace
+      .getConfiguration("dynatraceExtensions", null)
+      .get<number>("statusPollInterval") ?? 300
+  );
+}
+
+/**
+ * Applies the connection settings (timeouts, retries, proxy and CAs) to all HTTP Clients.
+ * Proxy settings are taken from VSCode's own "http" settings, falling back to the environment.
+ */
+function applyConnectionSettings() {
+  const httpConfig = vscode.workspace.getConfiguration("http", null);
+  const extensionConfig = vscode.workspace.getConfiguration("dynatraceExtensions", null);
+
+  let ca: string | undefined;
+  const caBundleLocation = extensionConfig.get<string>("caBundleLocation");
+  if (caBundleLocation) {
+    try {
+      ca = readFileSync(resolveRealPath(caBundleLocation)).toString();
+    } catch (err) {
+      showMessage("error", `Could not read the CA bundle. ${(err as Error).message}`);
+    }
+  }
+
+  // Empty settings/variables mean no proxy, so the first non-empty value wins
+  const proxySetting = httpConfig.get<string>("proxy");
+  const proxy = [
+    proxySetting,
+    process.env.HTTPS_PROXY,
+    process.env.https_proxy,
+    process.env.HTTP_PROXY,
+    process.env.http_proxy,
+  ].find(value => value);
+  const noProxy = httpConfig.get<string[]>("noProxy") ?? [];
+
+  configureHttpClients({
+    timeout: (extensionConfig.get<number>("requestTimeout") ?? 60) * 1000,
+    maxRetries: extensionConfig.get<number>("requestRetries"),
+    proxy,
+    // A proxy from the environment comes with its own exclusions
+    noProxy: proxy && !proxySetting ? [...noProxy, ...getEnvironmentNoProxy()] : noProxy,
+    strictSSL: httpConfig.get<boolean>("proxyStrictSSL"),
+    ca,
+  });
+}
+
 /**
  * Sets up the VSCode extension by registering all the available functionality as disposable objects.
  * Activation events (e.g. run command) always trigger this function.
@@ -549,6 +760,7 @@ export async function activate(context: vscode.ExtensionContext) {
   console.log("DYNATRACE EXTENSIONS - ACTIVATED!");
   // Initialize global storage
   initGlobalStorage(context);
+  applyConnectionSettings();
 
   // Check presence of legacy extension
   const legacyExtension = vscode.extensions.getExtension(
@@ -558,6 +770,8 @@ export async function activate(context: vscode.ExtensionContext) {
   if (legacyExtension) {
     await migrateFromLegacyExtension(context);
   }
+  // Tokens used to be kept in the global storage JSON file
+  await migrateTokensToSecretStorage(context);
 
   // Document selector for the extension.yaml file
   const extension2selector: vscode.DocumentSelector = {
@@ -602,10 +816,16 @@ export async function activate(context: vscode.ExtensionContext) {
     connectionStatusManager,
     genericChannel,
   );
-  const cachedData = new CachedData(tenantsTreeViewProvider);
+  const cachedData = new CachedData(tenantsTreeViewProvider, context.globalStorageUri.fsPath);
   await cachedData.initialize();
   const webviewPanelManager = new WebviewPanelManager(context.extensionUri);
+  const configurationStatusPoller = new ConfigurationStatusPoller(
+    context,
+    () => cachedData.getCached<ExtensionStub | undefined>("parsedExtension")?.name,
+    () => tenantsTreeViewProvider.refresh(),
+  );
   const extensionsTreeViewProvider = new ExtensionsTreeDataProvider(context);
+  const certificatesTreeViewProvider = new CertificatesTreeDataProvider(context);
   const metricLensProvider = new SelectorCodeLensProvider(
     "metricSelector:",
     "metricSelectorsCodeLens",
@@ -618,7 +838,8 @@ export async function activate(context: vscode.ExtensionContext) {
   );
   const snippetCodeActionProvider = new SnippetGenerator();
   const screensLensProvider = new ScreenLensProvider(tenantsTreeViewProvider);
-  const prometheusLensProvider = new PrometheusCodeLensProvider(cachedData);
+  const prometheusMockServer = new PrometheusMockServer();
+  const prometheusLensProvider = new PrometheusCodeLensProvider(cachedData, prometheusMockServer);
   const prometheusActionProvider = new PrometheusActionProvider();
   const snmpActionProvider = new SnmpActionProvider(cachedData);
   const wmiLensProvider = new WmiCodeLensProvider(cachedData);
@@ -654,9 +875,13 @@ export async function activate(context: vscode.ExtensionContext) {
     ...registerCommandPaletteCommands(
       tenantsTreeViewProvider,
       extensionsTreeViewProvider,
+      certificatesTreeViewProvider,
       diagnosticsProvider,
       cachedData,
       genericChannel,
+      prometheusMockServer,
+      webviewPanelManager,
+      configurationStatusPoller,
       context,
     ),
     // Commands for enabling/disabling features
@@ -673,6 +898,11 @@ export async function activate(context: vscode.ExtensionContext) {
       "dynatrace-extensions-environments",
       tenantsTreeViewProvider,
     ),
+    // Workspace Certificates Tree View
+    vscode.window.registerTreeDataProvider(
+      "dynatrace-extensions-certificates",
+      certificatesTreeViewProvider,
+    ),
     // Hover provider for SNMP OIDs
     vscode.languages.registerHoverProvider(extension2selector, snmpHoverProvider),
     // Code actions for adding snippets
@@ -695,6 +925,8 @@ export async function activate(context: vscode.ExtensionContext) {
     connectionStatusManager.getStatusBarItem(),
     // FastMode Status Bar Item
     fastModeStatus.getStatusBarItem(),
+    // Local Prometheus mock endpoint, stopped when the extension is deactivated
+    { dispose: () => prometheusMockServer.stop() },
     // Code Lens for Prometheus scraping
     vscode.languages.registerCodeLensProvider(extension2selector, prometheusLensProvider),
     // Code Lens for metric and entity selectors
@@ -764,6 +996,13 @@ export async function activate(context: vscode.ExtensionContext) {
         });
       },
     ),
+    // Execution logs of deployed extensions and their configurations
+    vscode.commands.registerCommand(
+      "dynatrace-extensions-environments.showLogs",
+      async (item: DeployedExtension | MonitoringConfiguration) => {
+        await showExtensionLogs(item, webviewPanelManager);
+      },
+    ),
     // Default WebView Panel Serializers
     vscode.window.registerWebviewPanelSerializer(
       REGISTERED_PANELS.METRIC_RESULTS,
@@ -773,6 +1012,14 @@ export async function activate(context: vscode.ExtensionContext) {
       REGISTERED_PANELS.WMI_RESULTS,
       webviewPanelManager,
     ),
+    vscode.window.registerWebviewPanelSerializer(
+      REGISTERED_PANELS.ALERT_BACKTEST,
+      webviewPanelManager,
+    ),
+    vscode.window.registerWebviewPanelSerializer(
+      REGISTERED_PANELS.CONFIGURATION_STATUS,
+      webviewPanelManager,
+    ),
     // Activity on every document save
     vscode.workspace.onDidSaveTextDocument(async (doc: vscode.TextDocument) => {
       // Fast Development Mode - build extension
@@ -814,13 +1061,35 @@ export async function activate(context: vscode.ExtensionContext) {
       }
     }),
     // Activity on every configuration change
-    vscode.workspace.onDidChangeConfiguration(() => {
+    vscode.workspace.onDidChangeConfiguration(event => {
+      if (
+        event.affectsConfiguration("http") ||
+        event.affectsConfiguration("dynatraceExtensions.requestTimeout") ||
+        event.affectsConfiguration("dynatraceExtensions.requestRetries") ||
+        event.affectsConfiguration("dynatraceExtensions.caBundleLocation")
+      ) {
+        applyConnectionSettings();
+      }
+      if (event.affectsConfiguration("dynatraceExtensions.statusPollInterval")) {
+        configurationStatusPoller.start(getStatusPollInterval());
+      }
       const fastModeEnabled = vscode.workspace
         .getConfiguration("dynatraceExtensions", null)
         .get("fastDevelopmentMode");
       fastModeStatus.updateStatusBar(Boolean(fastModeEnabled));
+      certificatesTreeViewProvider.refresh();
     }),
   );
+  // Keep an eye on the status of the workspace extension's configurations
+  configurationStatusPoller.start(getStatusPollInterval());
+  configurationStatusPoller.poll().catch(err => {
+    console.log(`Could not check configuration status. ${(err as Error).message}`);
+  });
+  context.subscriptions.push({ dispose: () => configurationStatusPoller.stop() });
+  // Warn about workspace certificates that are about to expire
+  certificatesTreeViewProvider.checkExpiry().catch(err => {
+    console.log(`Could not check certificate expiry. ${(err as Error).message}`);
+  });
   // We may have an initialization pending from previous window/activation.
   const pendingInit = context.globalState.get("dynatrace-extensions.initPending");
   if (pendingInit) {
@@ -18,6 +18,7 @@ interface AlertDoc {
   name: string;
   description: string;
   entity?: string;
+  entityName?: string;
 }
 
 interface DashboardDoc {
@@ -50,6 +51,45 @@ interface EntityDoc {
   metrics: string[];
 }
 
+interface FeatureSetSectionDoc {
+  name: string;
+  metrics: MetricDoc[];
+}
+
+interface CardDoc {
+  key: string;
+  displayName: string;
+  type: string;
+}
+
+interface ScreenDoc {
+  entityType: string;
+  entityName: string;
+  cards: CardDoc[];
+}
+
+interface ChangelogDoc {
+  tag: string;
+  date: string;
+  changes: string[];
+}
+
+/**
+ * All details available to documentation templates.
+ */
+interface DocumentationView {
+  name: string;
+  version: string;
+  entities: EntityDoc[];
+  metricGroups: MetricEntityMap[];
+  featureSets: FeatureSetSectionDoc[];
+  alerts: AlertDoc[];
+  dashboards: DashboardDoc[];
+  screens: ScreenDoc[];
+  variables: { id: string; type: string; displayName: string }[];
+  changelog: ChangelogDoc[];
+}
+
 interface DynatraceDashboard {
   id: string;
   dashboardMetadata: {
@@ -94,8 +134,13 @@ interface AlertStrategy {
 
 export {
   AlertDoc,
+  CardDoc,
+  ChangelogDoc,
   DashboardDoc,
+  DocumentationView,
   FeatureSetDoc,
+  FeatureSetSectionDoc,
+  ScreenDoc,
   MetricDoc,
   MetricEntityMap,
   EntityDoc,
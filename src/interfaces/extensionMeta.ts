@@ -291,6 +291,7 @@ export interface ExtensionStub {
   minDynatraceVersion: string;
   alerts?: { path: string }[];
   dashboards?: { path: string }[];
+  documents?: { dashboards?: { displayName: string; path: string }[] };
   snmp?: SnmpGroup[];
   wmi?: WmiGroup[];
   prometheus?: DatasourceGroup[];
@@ -26,7 +26,13 @@ export interface DynatraceEnvironmentData {
   id: string;
   url: string;
   apiUrl: string;
-  token: string;
+  /**
+   * Encrypted API token. Only present until migrated to SecretStorage, or if SecretStorage is
+   * not available on the host.
+   */
+  token?: string;
   current: boolean;
   name?: string;
+  /** ID of an OAuth client for platform APIs; its secret is kept in SecretStorage */
+  oauthClientId?: string;
 }
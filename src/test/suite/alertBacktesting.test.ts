@@ -0,0 +1,68 @@
+/**
+  Copyright 2022 Dynatrace LLC
+
+  Licensed under the Apache License, Version 2.0 (the "License");
+  you may not use this file except in compliance with the License.
+  You may obtain a copy of the License at
+
+      https://www.apache.org/licenses/LICENSE-2.0
+
+  Unless required by applicable law or agreed to in writing, software
+  distributed under the License is distributed on an "AS IS" BASIS,
+  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+  See the License for the specific language governing permissions and
+  limitations under the License.
+ */
+
+import * as assert from "assert";
+
+import { backtestAlert, computeBounds } from "../../utils/alertBacktesting";
+import { newAlertDefinition } from "../../utils/alerts";
+
+
+const MINUTE = 60_000;
+
+suite("Alert Backtesting Test Suite", () => {
+
+  /**
+   * Check that events open and close according to the sliding window
+   */
+  test("Test static threshold replay", () => {
+    const alert = { ...newAlertDefinition("High load", "custom.load"), threshold: 10 };
+    const values = [1, 20, 20, 20, 1, 1, 1, 1, 1, 20];
+    const timestamps = values.map((_, i) => i * MINUTE);
+
+    const result = backtestAlert(alert, [
+      {
+        metricId: "custom.load",
+        dataPointCountRatio: 0,
+        dimensionCountRatio: 0,
+        data: [{ dimensionMap: {}, dimensions: [], timestamps, values }],
+      },
+    ]);
+
+    assert.strictEqual(result.eventCount, 1);
+    assert.deepStrictEqual(result.series[0].events, [{ start: 3 * MINUTE, end: 8 * MINUTE }]);
+  });
+
+  /**
+   * Check that seasonal baselines learn from the same time on earlier days
+   */
+  test("Test seasonal baseline bounds", () => {
+    const day = 24 * 60 * MINUTE;
+    const alert = {
+      ...newAlertDefinition("Unusual load", "custom.load"),
+      strategy: "SEASONAL_BASELINE" as const,
+      alertCondition: "ABOVE" as const,
+      tolerance: 2,
+    };
+    const timestamps = [0, day, 2 * day, 3 * day];
+    const values = [10, 12, 14, 100];
+
+    const { lower, upper } = computeBounds(alert, timestamps, values);
+
+    assert.deepStrictEqual(lower, [null, null, null, null]);
+    // Last sample is compared to the mean (12) and deviation of the three earlier days
+    assert.ok(Math.abs((upper[3] as number) - (12 + 2 * Math.sqrt(8 / 3))) < 1e-9);
+  });
+});
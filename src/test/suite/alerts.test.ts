@@ -0,0 +1,87 @@
+/**
+  Copyright 2022 Dynatrace LLC
+
+  Licensed under the Apache License, Version 2.0 (the "License");
+  you may not use this file except in compliance with the License.
+  You may obtain a copy of the License at
+
+      https://www.apache.org/licenses/LICENSE-2.0
+
+  Unless required by applicable law or agreed to in writing, software
+  distributed under the License is distributed on an "AS IS" BASIS,
+  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+  See the License for the specific language governing permissions and
+  limitations under the License.
+ */
+
+import * as assert from "assert";
+
+import {
+  fromAlertJson,
+  newAlertDefinition,
+  parseMetricSelector,
+  toAlertJson,
+  validateSampleWindow,
+} from "../../utils/alerts";
+
+
+suite("Alerts Test Suite", () => {
+
+  /**
+   * Check that seasonal baseline alerts with filters survive a round trip through JSON
+   */
+  test("Test alert round trip", () => {
+    const alert = {
+      ...newAlertDefinition("Queue too long", "custom.queue.size"),
+      strategy: "SEASONAL_BASELINE" as const,
+      alertCondition: "OUTSIDE" as const,
+      tolerance: 3.5,
+      alertOnMissingData: true,
+      filters: [{ key: "queue", value: 'a "quoted", name', operator: "NOT_EQUALS" as const }],
+    };
+
+    const alertJson = toAlertJson(alert, { id: "my-id", description: "Custom" });
+
+    assert.strictEqual(alertJson.id, "my-id");
+    assert.strictEqual(alertJson.description, "Custom");
+    assert.strictEqual(alertJson.threshold, undefined);
+    assert.strictEqual(
+      alertJson.metricSelector,
+      'custom.queue.size:filter(and(ne("queue","a \\"quoted\\", name")))',
+    );
+    assert.deepStrictEqual(fromAlertJson(alertJson), { ...alert, primaryDimensionKey: undefined });
+  });
+
+  /**
+   * Check that alerts created before the editor existed can still be read
+   */
+  test("Test legacy alert", () => {
+    const alert = fromAlertJson({
+      metricSelector: "custom.metric",
+      name: "Legacy",
+      monitoringStrategy: { type: "STATIC_THRESHOLD", alertCondition: "BELOW", threshold: 10 },
+      primaryDimensionKey: "dt.entity.host",
+      samples: 5,
+      violatingSamples: 3,
+      dealertingSamples: 5,
+    });
+
+    assert.strictEqual(alert.alertCondition, "BELOW");
+    assert.strictEqual(alert.threshold, 10);
+    assert.strictEqual(alert.primaryDimensionKey, "dt.entity.host");
+    assert.deepStrictEqual(parseMetricSelector("custom.metric"), {
+      metricKey: "custom.metric",
+      filters: [],
+    });
+  });
+
+  /**
+   * Check validation of sliding windows
+   */
+  test("Test sample window validation", () => {
+    assert.strictEqual(validateSampleWindow(5, 3, 5), undefined);
+    assert.ok(validateSampleWindow(2, 1, 1));
+    assert.ok(validateSampleWindow(5, 6, 5));
+    assert.ok(validateSampleWindow(5, 3, 0));
+  });
+});
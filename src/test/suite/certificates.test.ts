@@ -0,0 +1,58 @@
+/**
+  Copyright 2022 Dynatrace LLC
+
+  Licensed under the Apache License, Version 2.0 (the "License");
+  you may not use this file except in compliance with the License.
+  You may obtain a copy of the License at
+
+      https://www.apache.org/licenses/LICENSE-2.0
+
+  Unless required by applicable law or agreed to in writing, software
+  distributed under the License is distributed on an "AS IS" BASIS,
+  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+  See the License for the specific language governing permissions and
+  limitations under the License.
+ */
+
+import * as assert from "assert";
+
+import { md, pki } from "node-forge";
+import { getExpiryStatus, readCertificateDetails } from "../../utils/certificates";
+
+
+suite("Certificates Test Suite", () => {
+  const keys = pki.rsa.generateKeyPair({ bits: 1024, e: 0x10001 });
+  const cert = pki.createCertificate();
+  cert.serialNumber = "01";
+  cert.setSubject([{ shortName: "CN", value: "Test Root" }]);
+  cert.setIssuer([{ shortName: "CN", value: "Test Root" }]);
+  cert.publicKey = keys.publicKey;
+  cert.validity.notBefore = new Date("2024-01-01T00:00:00Z");
+  cert.validity.notAfter = new Date("2025-01-01T00:00:00Z");
+  cert.sign(keys.privateKey, md.sha256.create());
+  // Merged cert & key files hold other PEM blocks too
+  const pemContent = pki.privateKeyToPem(keys.privateKey) + pki.certificateToPem(cert);
+
+  /**
+   * Check that details are read from the certificate block of the content
+   */
+  test("Test readCertificateDetails", () => {
+    const details = readCertificateDetails(pemContent);
+    assert.strictEqual(details.subject, "CN=Test Root");
+    assert.strictEqual(details.issuer, "CN=Test Root");
+    assert.strictEqual(details.serialNumber, "01");
+    assert.match(details.fingerprint, /^([0-9A-F]{2}:){31}[0-9A-F]{2}$/);
+    assert.deepStrictEqual(details.notAfter, new Date("2025-01-01T00:00:00Z"));
+    assert.throws(() => readCertificateDetails(pki.privateKeyToPem(keys.privateKey)));
+  });
+
+  /**
+   * Check that certificates are classified by how close they are to expiry
+   */
+  test("Test getExpiryStatus", () => {
+    const details = readCertificateDetails(pemContent);
+    assert.strictEqual(getExpiryStatus(details, 30, new Date("2024-06-01T00:00:00Z")), "valid");
+    assert.strictEqual(getExpiryStatus(details, 30, new Date("2024-12-15T00:00:00Z")), "expiring");
+    assert.strictEqual(getExpiryStatus(details, 30, new Date("2025-01-02T00:00:00Z")), "expired");
+  });
+});
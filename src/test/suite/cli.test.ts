@@ -0,0 +1,65 @@
+/**
+  Copyright 2022 Dynatrace LLC
+
+  Licensed under the Apache License, Version 2.0 (the "License");
+  you may not use this file except in compliance with the License.
+  You may obtain a copy of the License at
+
+      https://www.apache.org/licenses/LICENSE-2.0
+
+  Unless required by applicable law or agreed to in writing, software
+  distributed under the License is distributed on an "AS IS" BASIS,
+  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+  See the License for the specific language governing permissions and
+  limitations under the License.
+ */
+
+import * as assert from "assert";
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import * as os from "os";
+import * as path from "path";
+
+import { loadConfig, parseArgs } from "../../cli/config";
+
+
+suite("CLI Test Suite", () => {
+
+  /**
+   * Check that commands, positional arguments and both styles of flags are parsed
+   */
+  test("Test parseArgs", () => {
+    const args = parseArgs(["upload", "dist/ext.zip", "--activate", "--config", "ci.json", "--workspace=src"]);
+
+    assert.strictEqual(args.command, "upload");
+    assert.deepStrictEqual(args.positional, ["dist/ext.zip"]);
+    assert.deepStrictEqual(args.flags, { activate: true, config: "ci.json", workspace: "src" });
+  });
+
+  /**
+   * Check that a flag missing its value is rejected
+   */
+  test("Test parseArgs missing value", () => {
+    assert.throws(() => parseArgs(["build", "--config"]));
+  });
+
+  /**
+   * Check that hosts from NO_PROXY are added to the ones from the config file
+   */
+  test("Test loadConfig noProxy", () => {
+    const workspaceRoot = mkdtempSync(path.join(os.tmpdir(), "dt-ext-"));
+    const noProxy = process.env.NO_PROXY;
+    try {
+      writeFileSync(path.join(workspaceRoot, ".dt-ext.json"), JSON.stringify({ noProxy: ["internal"] }));
+      process.env.NO_PROXY = "localhost, .example.com,";
+
+      assert.deepStrictEqual(loadConfig(workspaceRoot).noProxy, ["internal", "localhost", ".example.com"]);
+    } finally {
+      if (noProxy === undefined) {
+        delete process.env.NO_PROXY;
+      } else {
+        process.env.NO_PROXY = noProxy;
+      }
+      rmSync(workspaceRoot, { recursive: true, force: true });
+    }
+  });
+});
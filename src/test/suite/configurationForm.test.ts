@@ -0,0 +1,101 @@
+/**
+  Copyright 2022 Dynatrace LLC
+
+  Licensed under the Apache License, Version 2.0 (the "License");
+  you may not use this file except in compliance with the License.
+  You may obtain a copy of the License at
+
+      https://www.apache.org/licenses/LICENSE-2.0
+
+  Unless required by applicable law or agreed to in writing, software
+  distributed under the License is distributed on an "AS IS" BASIS,
+  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+  See the License for the specific language governing permissions and
+  limitations under the License.
+ */
+
+import * as assert from "assert";
+
+import { buildFormFields, validateConfiguration } from "../../utils/configurationForm";
+
+
+const schema = {
+  enums: {
+    Auth: { items: [{ value: "none", displayName: "No authentication" }, { value: "basic" }] },
+  },
+  types: {
+    Endpoint: {
+      properties: {
+        url: { displayName: "URL", type: "text", nullable: false },
+        auth: { displayName: "Authentication", type: { $ref: "#/enums/Auth" }, nullable: false },
+        password: {
+          displayName: "Password",
+          type: "secret",
+          nullable: false,
+          precondition: { type: "EQUALS", property: "auth", expectedValue: "basic" },
+        },
+        parent: { displayName: "Parent", type: { $ref: "#/types/Endpoint" } },
+      },
+    },
+  },
+  properties: {
+    description: { displayName: "Description", description: "Name of the configuration", type: "text", nullable: false },
+    enabled: { displayName: "Enabled", type: "boolean", nullable: false, default: true },
+    endpoints: { displayName: "Endpoints", type: "list", items: { type: { $ref: "#/types/Endpoint" } }, nullable: false },
+    unsupported: { displayName: "Unsupported", type: "binary" },
+  },
+};
+
+suite("Configuration Form Test Suite", () => {
+
+  /**
+   * Check that schema properties become fields, with references resolved
+   */
+  test("Test buildFormFields", () => {
+    const fields = buildFormFields(schema);
+
+    assert.deepStrictEqual(fields.map(f => [f.key, f.type, f.required]), [
+      ["description", "text", true],
+      ["enabled", "boolean", true],
+      ["endpoints", "list", true],
+    ]);
+    assert.strictEqual(fields[0].description, "Name of the configuration");
+    assert.strictEqual(fields[1].defaultValue, true);
+    const endpoint = fields[2].items;
+    assert.strictEqual(endpoint?.type, "object");
+    // The circular reference to Endpoint is left out
+    assert.deepStrictEqual(endpoint.fields?.map(f => [f.key, f.type]), [
+      ["url", "text"],
+      ["auth", "enum"],
+      ["password", "secret"],
+    ]);
+    assert.deepStrictEqual(endpoint.fields[1].options, [
+      { value: "none", displayName: "No authentication" },
+      { value: "basic", displayName: "basic" },
+    ]);
+  });
+
+  /**
+   * Check that missing required values are reported by path, skipping fields whose
+   * preconditions aren't met
+   */
+  test("Test validateConfiguration", () => {
+    const fields = buildFormFields(schema);
+
+    assert.deepStrictEqual(validateConfiguration(fields, { description: " ", enabled: false, endpoints: [] }), {
+      description: "Description is required",
+      endpoints: "Endpoints is required",
+    });
+    assert.deepStrictEqual(
+      validateConfiguration(fields, {
+        description: "Test",
+        enabled: true,
+        endpoints: [
+          { url: "http://localhost", auth: "none" },
+          { url: "", auth: "basic", password: "" },
+        ],
+      }),
+      { "endpoints.1.url": "URL is required", "endpoints.1.password": "Password is required" },
+    );
+  });
+});
@@ -0,0 +1,66 @@
+/**
+  Copyright 2022 Dynatrace LLC
+
+  Licensed under the Apache License, Version 2.0 (the "License");
+  you may not use this file except in compliance with the License.
+  You may obtain a copy of the License at
+
+      https://www.apache.org/licenses/LICENSE-2.0
+
+  Unless required by applicable law or agreed to in writing, software
+  distributed under the License is distributed on an "AS IS" BASIS,
+  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+  See the License for the specific language governing permissions and
+  limitations under the License.
+ */
+
+import * as assert from "assert";
+
+import { pruneHistory, recordStatus, StatusHistory } from "../../utils/configurationStatus";
+
+
+const observation = (configurationId: string, status: string, version: string, timestamp: number) => ({
+  environmentId: "env1",
+  environmentName: "Staging",
+  extensionName: "custom:my-extension",
+  configurationId,
+  description: `Config ${configurationId}`,
+  status,
+  version,
+  timestamp,
+});
+
+suite("Configuration Status Test Suite", () => {
+
+  /**
+   * Check that only actual changes are recorded and status flips report the previous status
+   */
+  test("Test recordStatus", () => {
+    const history: StatusHistory = {};
+
+    assert.strictEqual(recordStatus(history, observation("a", "OK", "1.0.0", 1)), undefined);
+    assert.strictEqual(recordStatus(history, observation("a", "OK", "1.0.0", 2)), undefined);
+    // A new version is recorded, but the status didn't flip
+    assert.strictEqual(recordStatus(history, observation("a", "OK", "1.0.1", 3)), undefined);
+    assert.deepStrictEqual(recordStatus(history, observation("a", "ERROR", "1.0.1", 4)), { status: "OK", version: "1.0.1", timestamp: 3 });
+
+    assert.deepStrictEqual(history["env1/a"].changes.map(c => [c.status, c.version, c.timestamp]), [
+      ["OK", "1.0.0", 1],
+      ["OK", "1.0.1", 3],
+      ["ERROR", "1.0.1", 4],
+    ]);
+  });
+
+  /**
+   * Check that only deleted configurations of the checked environment and extension are pruned
+   */
+  test("Test pruneHistory", () => {
+    const history: StatusHistory = {};
+    recordStatus(history, observation("a", "OK", "1.0.0", 1));
+    recordStatus(history, observation("b", "OK", "1.0.0", 1));
+    recordStatus(history, { ...observation("c", "OK", "1.0.0", 1), environmentId: "env2" });
+
+    assert.deepStrictEqual(Object.keys(pruneHistory(history, "env1", "custom:my-extension", ["a"])), ["env1/a", "env2/c"]);
+    assert.deepStrictEqual(Object.keys(pruneHistory(history, "env1", "custom:other", [])), ["env1/a", "env1/b", "env2/c"]);
+  });
+});
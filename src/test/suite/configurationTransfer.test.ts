@@ -0,0 +1,98 @@
+/**
+  Copyright 2022 Dynatrace LLC
+
+  Licensed under the Apache License, Version 2.0 (the "License");
+  you may not use this file except in compliance with the License.
+  You may obtain a copy of the License at
+
+      https://www.apache.org/licenses/LICENSE-2.0
+
+  Unless required by applicable law or agreed to in writing, software
+  distributed under the License is distributed on an "AS IS" BASIS,
+  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+  See the License for the specific language governing permissions and
+  limitations under the License.
+ */
+
+import * as assert from "assert";
+import * as os from "os";
+import * as path from "path";
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "fs";
+
+import { FormField } from "../../utils/configurationForm";
+import {
+  exportFileName,
+  fillSecretPlaceholders,
+  findSecretPlaceholders,
+  isExportedConfiguration,
+  redactSecrets,
+} from "../../utils/configurationTransfer";
+
+
+const fields: FormField[] = [
+  { key: "description", displayName: "Description", type: "text", required: true },
+  {
+    key: "endpoints",
+    displayName: "Endpoints",
+    type: "list",
+    required: true,
+    items: {
+      key: "items",
+      displayName: "Endpoints",
+      type: "object",
+      required: true,
+      fields: [
+        { key: "url", displayName: "URL", type: "text", required: true },
+        { key: "password", displayName: "Password", type: "secret", required: false },
+      ],
+    },
+  },
+];
+
+suite("Configuration Transfer Test Suite", () => {
+
+  /**
+   * Check that secrets are swapped for placeholders on export and back on import
+   */
+  test("Test secret placeholders", () => {
+    const value = {
+      description: "Staging",
+      endpoints: [{ url: "http://a", password: "abc" }, { url: "http://b" }],
+    };
+
+    const redacted = redactSecrets(fields, value, "config-1");
+    assert.deepStrictEqual(redacted, {
+      description: "Staging",
+      endpoints: [{ url: "http://a", password: "{{secret:config-1.endpoints.0.password}}" }, { url: "http://b" }],
+    });
+    assert.deepStrictEqual(findSecretPlaceholders([redacted, redacted]), ["config-1.endpoints.0.password"]);
+    assert.deepStrictEqual(fillSecretPlaceholders(redacted, { "config-1.endpoints.0.password": "xyz" }), {
+      description: "Staging",
+      endpoints: [{ url: "http://a", password: "xyz" }, { url: "http://b" }],
+    });
+  });
+
+  /**
+   * Check that only files written by an export are recognized as such
+   */
+  test("Test isExportedConfiguration", () => {
+    const dir = mkdtempSync(path.join(os.tmpdir(), "configExport"));
+    const write = (file: string, content: string) => {
+      writeFileSync(path.join(dir, file), content);
+      return path.join(dir, file);
+    };
+
+    try {
+      const exported = JSON.stringify({ scope: "HOST-1", value: { enabled: true } });
+      assert.ok(isExportedConfiguration(write(exportFileName(0), exported)));
+      assert.ok(!isExportedConfiguration(write("package.json", exported)));
+      assert.ok(!isExportedConfiguration(write("config-2.json", '{"scope":"a","value":{},"x":1}')));
+      assert.ok(!isExportedConfiguration(write("config-3.json", '{"compilerOptions":{}}')));
+      assert.ok(!isExportedConfiguration(write("config-4.json", "not json")));
+      mkdirSync(path.join(dir, "config-5.json"));
+      assert.ok(!isExportedConfiguration(path.join(dir, "config-5.json")));
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
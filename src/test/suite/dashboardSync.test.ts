@@ -0,0 +1,65 @@
+/**
+  Copyright 2022 Dynatrace LLC
+
+  Licensed under the Apache License, Version 2.0 (the "License");
+  you may not use this file except in compliance with the License.
+  You may obtain a copy of the License at
+
+      https://www.apache.org/licenses/LICENSE-2.0
+
+  Unless required by applicable law or agreed to in writing, software
+  distributed under the License is distributed on an "AS IS" BASIS,
+  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+  See the License for the specific language governing permissions and
+  limitations under the License.
+ */
+
+import * as assert from "assert";
+
+import { Dashboard } from "../../dynatrace-api/interfaces/dashboards";
+import {
+  isSameDashboard,
+  normalizeDashboard,
+  toDeployedDashboard,
+} from "../../utils/dashboardSync";
+
+
+suite("Dashboard Sync Test Suite", () => {
+  const deployed: Dashboard = {
+    metadata: { configurationVersions: [6], clusterVersion: "1.270.0" },
+    id: "aaaaaaaa-bbbb-cccc-dddd-eeeeeeeeeeee",
+    dashboardMetadata: { name: "Overview", owner: "someone@example.com", shared: true },
+    tiles: [{ name: "Markdown", tileType: "MARKDOWN" }],
+  };
+
+  /**
+   * Check that environment-specific details are dropped, and only those
+   */
+  test("Test normalizeDashboard", () => {
+    assert.deepStrictEqual(normalizeDashboard(deployed), {
+      dashboardMetadata: { name: "Overview", owner: "Dynatrace", shared: true },
+      tiles: [{ name: "Markdown", tileType: "MARKDOWN" }],
+    });
+    assert.ok(isSameDashboard(normalizeDashboard(deployed), deployed));
+    assert.ok(!isSameDashboard({ ...deployed, tiles: [] }, deployed));
+    // Key order doesn't matter
+    assert.ok(
+      isSameDashboard(
+        { tiles: deployed.tiles, dashboardMetadata: { shared: true, owner: "x", name: "Overview" } },
+        deployed,
+      ),
+    );
+  });
+
+  /**
+   * Check that uploads keep the id and owner of the deployed dashboard
+   */
+  test("Test toDeployedDashboard", () => {
+    const local = { ...normalizeDashboard(deployed), tiles: [] };
+    const upload = toDeployedDashboard(local, deployed);
+
+    assert.strictEqual(upload.id, deployed.id);
+    assert.strictEqual(upload.dashboardMetadata.owner, "someone@example.com");
+    assert.deepStrictEqual(upload.tiles, []);
+  });
+});
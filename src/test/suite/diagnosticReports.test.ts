@@ -0,0 +1,103 @@
+/**
+  Copyright 2022 Dynatrace LLC
+
+  Licensed under the Apache License, Version 2.0 (the "License");
+  you may not use this file except in compliance with the License.
+  You may obtain a copy of the License at
+
+      https://www.apache.org/licenses/LICENSE-2.0
+
+  Unless required by applicable law or agreed to in writing, software
+  distributed under the License is distributed on an "AS IS" BASIS,
+  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+  See the License for the specific language governing permissions and
+  limitations under the License.
+ */
+
+import * as assert from "assert";
+
+import { ExtensionDiagnosticDto } from "../../diagnostics/diagnosticData";
+import { toJUnitReport, toSarifReport } from "../../diagnostics/diagnosticReports";
+
+suite("Diagnostic Reports Test Suite", () => {
+  const diagnostic: ExtensionDiagnosticDto = {
+    file: "/repo/a/extension/extension.yaml",
+    code: "DED003",
+    severity: "error",
+    message: "Metric <key> is not valid",
+    startLine: 4,
+    startCharacter: 2,
+    endLine: 4,
+    endCharacter: 10,
+  };
+
+  /**
+   * Check that every file is a test suite and diagnostics are failed test cases
+   */
+  test("Test JUnit report", () => {
+    const report = toJUnitReport(
+      ["/repo/a/extension/extension.yaml", "/repo/b/extension/extension.yaml"],
+      [diagnostic],
+    );
+
+    assert.ok(report.includes('<testsuites name="Dynatrace Extensions" tests="3" failures="1">'));
+    assert.ok(report.includes('name="DED003 at 5:3"'));
+    assert.ok(report.includes('message="Metric &lt;key&gt; is not valid"'));
+    assert.ok(report.includes('name="No problems found"'));
+  });
+
+  /**
+   * Check that SARIF results reference files relative to the source root and describe rules
+   */
+  test("Test SARIF report", () => {
+    const report = JSON.parse(
+      toSarifReport(
+        [diagnostic],
+        [{ code: "DED003", severity: "error", description: "Extension name is invalid." }],
+        "/repo",
+      ),
+    ) as {
+      runs: {
+        tool: { driver: { rules: { id: string; shortDescription?: { text: string } }[] } };
+        results: {
+          ruleIndex: number;
+          locations: {
+            physicalLocation: { artifactLocation: { uri: string; uriBaseId: string } };
+          }[];
+          partialFingerprints: Record<string, string>;
+        }[];
+      }[];
+    };
+    const run = report.runs[0];
+    const result = run.results[0];
+
+    assert.strictEqual(run.tool.driver.rules[result.ruleIndex].id, "DED003");
+    assert.strictEqual(
+      run.tool.driver.rules[result.ruleIndex].shortDescription?.text,
+      "Extension name is invalid.",
+    );
+    assert.deepStrictEqual(result.locations[0].physicalLocation.artifactLocation, {
+      uri: "a/extension/extension.yaml",
+      uriBaseId: "%SRCROOT%",
+    });
+    assert.strictEqual(Object.keys(result.partialFingerprints).length, 1);
+  });
+
+  /**
+   * Check that identical findings on different lines don't share a fingerprint
+   */
+  test("Test SARIF fingerprints of repeated findings", () => {
+    const repeated = { ...diagnostic, startLine: 9, endLine: 9 };
+    const report = JSON.parse(toSarifReport([repeated, diagnostic], [], "/repo")) as {
+      runs: { results: { partialFingerprints: Record<string, string> }[] }[];
+    };
+    const [first, second] = report.runs[0].results.map(
+      r => Object.values(r.partialFingerprints)[0],
+    );
+    const alone = JSON.parse(toSarifReport([diagnostic], [], "/repo")) as typeof report;
+
+    assert.notStrictEqual(first, second);
+    // The earlier line keeps the fingerprint it has when reported alone
+    assert.strictEqual(second, Object.values(alone.runs[0].results[0].partialFingerprints)[0]);
+  });
+});
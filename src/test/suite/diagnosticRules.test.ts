@@ -0,0 +1,55 @@
+/**
+  Copyright 2022 Dynatrace LLC
+
+  Licensed under the Apache License, Version 2.0 (the "License");
+  you may not use this file except in compliance with the License.
+  You may obtain a copy of the License at
+
+      https://www.apache.org/licenses/LICENSE-2.0
+
+  Unless required by applicable law or agreed to in writing, software
+  distributed under the License is distributed on an "AS IS" BASIS,
+  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+  See the License for the specific language governing permissions and
+  limitations under the License.
+ */
+
+import * as assert from "assert";
+
+import { isSuppressed, parseSuppressions } from "../../diagnostics/diagnosticRules";
+
+
+suite("Diagnostic Rules Test Suite", () => {
+
+  /**
+   * Check that trailing comments suppress their own line and standalone ones the next line
+   */
+  test("Test line suppressions", () => {
+    const suppressions = parseSuppressions(
+      [
+        "name: my.extension  # dt-ignore: DED003",
+        "metrics:",
+        "  # dt-ignore: DED005, DED006",
+        "  - key: my.metric",
+        "    type: count  # dt-ignore",
+      ].join("\n"),
+    );
+
+    assert.strictEqual(isSuppressed(suppressions, 0, "DED003"), true);
+    assert.strictEqual(isSuppressed(suppressions, 0, "DED004"), false);
+    assert.strictEqual(isSuppressed(suppressions, 2, "DED005"), false);
+    assert.strictEqual(isSuppressed(suppressions, 3, "DED005"), true);
+    assert.strictEqual(isSuppressed(suppressions, 3, "DED006"), true);
+    assert.strictEqual(isSuppressed(suppressions, 4, "DED019"), true);
+  });
+
+  /**
+   * Check that file level comments suppress codes anywhere in the document
+   */
+  test("Test file suppressions", () => {
+    const suppressions = parseSuppressions("# dt-ignore-file: DED005\nname: my.extension\n");
+
+    assert.strictEqual(isSuppressed(suppressions, 1, "DED005"), true);
+    assert.strictEqual(isSuppressed(suppressions, 1, "DED006"), false);
+  });
+});
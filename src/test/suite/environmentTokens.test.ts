@@ -0,0 +1,174 @@
+/**
+  Copyright 2022 Dynatrace LLC
+
+  Licensed under the Apache License, Version 2.0 (the "License");
+  you may not use this file except in compliance with the License.
+  You may obtain a copy of the License at
+
+      https://www.apache.org/licenses/LICENSE-2.0
+
+  Unless required by applicable law or agreed to in writing, software
+  distributed under the License is distributed on an "AS IS" BASIS,
+  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+  See the License for the specific language governing permissions and
+  limitations under the License.
+ */
+
+import * as assert from "assert";
+import * as path from "path";
+import * as vscode from "vscode";
+import { mkdirSync, readFileSync, rmSync, writeFileSync } from "fs";
+
+import { DynatraceEnvironmentData } from "../../interfaces/treeViewData";
+import { decryptToken, encryptToken } from "../../utils/cryptography";
+import {
+  getEnvironmentToken,
+  getOAuthCredentials,
+  migrateTokensToSecretStorage,
+  registerEnvironment,
+  removeEnvironment,
+  storeEnvironmentToken,
+} from "../../utils/fileSystem";
+import { testContext, testGlobalStorage } from "../mock/vscode";
+
+/**
+ * Creates an extension context whose SecretStorage is backed by a map.
+ * @param available whether SecretStorage works on the simulated host; if not, every call fails
+ * @returns the context and the map holding the secrets
+ */
+function contextWithSecrets(available = true) {
+  const secrets = new Map<string, string>();
+  const whenAvailable = <T>(action: () => T) =>
+    available ? Promise.resolve(action()) : Promise.reject<T>(new Error("No keyring"));
+  const context: vscode.ExtensionContext = {
+    ...testContext,
+    secrets: {
+      ...testContext.secrets,
+      get: (key: string) => whenAvailable(() => secrets.get(key)),
+      store: (key: string, value: string) => whenAvailable(() => void secrets.set(key, value)),
+      delete: (key: string) => whenAvailable(() => void secrets.delete(key)),
+    },
+  };
+  return { context, secrets };
+}
+
+suite("Environment Tokens Test Suite", () => {
+  const environmentsJson = path.join(
+    testContext.globalStorageUri.fsPath,
+    "dynatraceEnvironments.json",
+  );
+  const environment = (token?: string): DynatraceEnvironmentData => ({
+    id: "abc12345",
+    url: "https://abc12345.live.dynatrace.com",
+    apiUrl: "https://abc12345.live.dynatrace.com",
+    token: token ? encryptToken(token) : undefined,
+    current: true,
+  });
+  const readEnvironments = () =>
+    JSON.parse(readFileSync(environmentsJson).toString()) as DynatraceEnvironmentData[];
+
+  setup(() => {
+    mkdirSync(testContext.globalStorageUri.fsPath, { recursive: true });
+  });
+
+  teardown(() => {
+    rmSync(testGlobalStorage, { recursive: true, force: true });
+  });
+
+  /**
+   * Check that tokens are moved to SecretStorage once and removed from the environments file
+   */
+  test("Test migrateTokensToSecretStorage", async () => {
+    const { context, secrets } = contextWithSecrets();
+    writeFileSync(environmentsJson, JSON.stringify([environment("dt0c01.token")]));
+
+    await migrateTokensToSecretStorage(context);
+    assert.strictEqual(
+      secrets.get("dynatrace-extensions.environmentToken.abc12345"),
+      "dt0c01.token",
+    );
+    assert.strictEqual(readEnvironments()[0].token, undefined);
+
+    // Running again doesn't touch anything that was already migrated
+    secrets.set("dynatrace-extensions.environmentToken.abc12345", "dt0c01.rotated");
+    await migrateTokensToSecretStorage(context);
+    assert.strictEqual(
+      secrets.get("dynatrace-extensions.environmentToken.abc12345"),
+      "dt0c01.rotated",
+    );
+    assert.strictEqual(await getEnvironmentToken(context, readEnvironments()[0]), "dt0c01.rotated");
+  });
+
+  /**
+   * Check that tokens stay encrypted with the environment when SecretStorage isn't available
+   */
+  test("Test fallback without SecretStorage", async () => {
+    const { context, secrets } = contextWithSecrets(false);
+    const env = environment();
+
+    assert.strictEqual(await storeEnvironmentToken(context, env, "dt0c01.token"), false);
+    assert.strictEqual(secrets.size, 0);
+    assert.strictEqual(decryptToken(env.token ?? ""), "dt0c01.token");
+    assert.strictEqual(await getEnvironmentToken(context, env), "dt0c01.token");
+
+    // Migration leaves such environments as they are
+    writeFileSync(environmentsJson, JSON.stringify([env]));
+    const before = readFileSync(environmentsJson).toString();
+    await migrateTokensToSecretStorage(context);
+    assert.strictEqual(readFileSync(environmentsJson).toString(), before);
+  });
+
+  /**
+   * Check that a token kept with the environment takes precedence over SecretStorage
+   */
+  test("Test getEnvironmentToken", async () => {
+    const { context, secrets } = contextWithSecrets();
+    secrets.set("dynatrace-extensions.environmentToken.abc12345", "dt0c01.stored");
+
+    assert.strictEqual(
+      await getEnvironmentToken(context, environment("dt0c01.newer")),
+      "dt0c01.newer",
+    );
+    assert.strictEqual(await getEnvironmentToken(context, environment()), "dt0c01.stored");
+    assert.strictEqual(await getEnvironmentToken(contextWithSecrets().context, environment()), "");
+  });
+
+  /**
+   * Check that environments are saved and removed on hosts without SecretStorage
+   */
+  test("Test registerEnvironment and removeEnvironment without SecretStorage", async () => {
+    const { context } = contextWithSecrets(false);
+    writeFileSync(environmentsJson, "[]");
+
+    await registerEnvironment(
+      context,
+      "https://abc12345.live.dynatrace.com",
+      "https://abc12345.live.dynatrace.com",
+      "dt0c01.token",
+      "Test",
+      true,
+      "dt0s02.client",
+      "dt0s02.secret",
+    );
+    const [saved] = readEnvironments();
+    assert.strictEqual(saved.id, "abc12345");
+    assert.strictEqual(saved.oauthClientId, "dt0s02.client");
+    assert.strictEqual(decryptToken(saved.token ?? ""), "dt0c01.token");
+    assert.strictEqual(await getEnvironmentToken(context, saved), "dt0c01.token");
+    assert.strictEqual(await getOAuthCredentials(context, saved), undefined);
+
+    // Editing without a new token keeps the encrypted one
+    await registerEnvironment(
+      context,
+      "https://abc12345.live.dynatrace.com",
+      "https://abc12345.live.dynatrace.com",
+      undefined,
+      "Renamed",
+    );
+    assert.strictEqual(decryptToken(readEnvironments()[0].token ?? ""), "dt0c01.token");
+    assert.strictEqual(readEnvironments()[0].name, "Renamed");
+
+    await removeEnvironment(context, "abc12345");
+    assert.deepStrictEqual(readEnvironments(), []);
+  });
+});
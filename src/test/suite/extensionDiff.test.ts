@@ -0,0 +1,91 @@
+/**
+  Copyright 2022 Dynatrace LLC
+
+  Licensed under the Apache License, Version 2.0 (the "License");
+  you may not use this file except in compliance with the License.
+  You may obtain a copy of the License at
+
+      https://www.apache.org/licenses/LICENSE-2.0
+
+  Unless required by applicable law or agreed to in writing, software
+  distributed under the License is distributed on an "AS IS" BASIS,
+  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+  See the License for the specific language governing permissions and
+  limitations under the License.
+ */
+
+import * as assert from "assert";
+import * as yaml from "yaml";
+
+import { ExtensionStub } from "../../interfaces/extensionMeta";
+import { diffExtensions, isEmptyDiff } from "../../utils/extensionDiff";
+
+
+const baseExtension = yaml.parse(`
+name: custom:my.ext
+version: 1.0.0
+minDynatraceVersion: "1.260"
+prometheus:
+  - group: main
+    metrics:
+      - key: my.metric.one
+        value: metric:one
+      - key: my.metric.two
+        value: metric:two
+        featureSet: extra
+screens:
+  - entityType: my:entity
+`) as ExtensionStub;
+
+const targetExtension = yaml.parse(`
+name: custom:my.ext
+version: 1.1.0
+minDynatraceVersion: "1.260"
+prometheus:
+  - group: main
+    metrics:
+      - key: my.metric.one
+        value: metric:one_total
+        type: count
+      - key: my.metric.three
+        value: metric:three
+        featureSet: extra
+screens:
+  - entityType: my:other_entity
+`) as ExtensionStub;
+
+suite("Extension Diff Test Suite", () => {
+
+  /**
+   * Check that metrics, feature sets and screens changes are all picked up
+   */
+  test("Test diffExtensions", () => {
+    const diff = diffExtensions(baseExtension, targetExtension);
+
+    assert.strictEqual(diff.baseVersion, "1.0.0");
+    assert.strictEqual(diff.targetVersion, "1.1.0");
+    assert.deepStrictEqual(diff.metrics, {
+      added: ["my.metric.three"],
+      removed: ["my.metric.two"],
+      changed: ["my.metric.one"],
+    });
+    assert.deepStrictEqual(diff.featureSets, {
+      added: [],
+      removed: [],
+      changed: [{ name: "extra", addedMetrics: ["my.metric.three"], removedMetrics: ["my.metric.two"] }],
+    });
+    assert.deepStrictEqual(diff.screens, {
+      added: ["my:other_entity"],
+      removed: ["my:entity"],
+      changed: [],
+    });
+    assert.strictEqual(isEmptyDiff(diff), false);
+  });
+
+  /**
+   * Check that an extension compared to itself has no differences
+   */
+  test("Test diffExtensions no changes", () => {
+    assert.strictEqual(isEmptyDiff(diffExtensions(baseExtension, baseExtension)), true);
+  });
+});
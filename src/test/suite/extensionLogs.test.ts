@@ -0,0 +1,67 @@
+/**
+  Copyright 2022 Dynatrace LLC
+
+  Licensed under the Apache License, Version 2.0 (the "License");
+  you may not use this file except in compliance with the License.
+  You may obtain a copy of the License at
+
+      https://www.apache.org/licenses/LICENSE-2.0
+
+  Unless required by applicable law or agreed to in writing, software
+  distributed under the License is distributed on an "AS IS" BASIS,
+  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+  See the License for the specific language governing permissions and
+  limitations under the License.
+ */
+
+import * as assert from "assert";
+
+import { buildExtensionLogQuery, dropSeenLogEntries, toLogEntries } from "../../utils/extensionLogs";
+
+
+suite("Extension Logs Test Suite", () => {
+
+  /**
+   * Check that queries match the extension, and the configuration if given
+   */
+  test("Test buildExtensionLogQuery", () => {
+    assert.strictEqual(buildExtensionLogQuery("custom:my-extension"), 'dt.extension.name="custom:my-extension"');
+    assert.strictEqual(
+      buildExtensionLogQuery("custom:my-extension", 'a"b'),
+      'dt.extension.name="custom:my-extension" AND dt.extension.config.id="a\\"b"',
+    );
+  });
+
+  /**
+   * Check that records are attributed to the ActiveGate or host they came from
+   */
+  test("Test toLogEntries", () => {
+    const entries = toLogEntries([
+      { timestamp: 1, status: "ERROR", content: "Failed", additionalColumns: { "dt.active_gate.id": ["0x1234"], "host.name": ["ag-host"] } },
+      { timestamp: 2, status: "INFO", content: "Started", additionalColumns: { "host.name": ["my-host"] } },
+      { timestamp: 3, status: "NONE", content: "Other" },
+    ]);
+
+    assert.deepStrictEqual(entries.map(e => [e.timestamp, e.level, e.source]), [
+      [1, "ERROR", "0x1234"],
+      [2, "INFO", "my-host"],
+      [3, "NONE", "Unknown"],
+    ]);
+  });
+
+  /**
+   * Check that records returned again by overlapping queries are only shown once
+   */
+  test("Test dropSeenLogEntries", () => {
+    const entry = (timestamp: number, content: string) => ({ timestamp, level: "INFO", content, source: "my-host" });
+    const seen = new Map<string, number>();
+
+    assert.strictEqual(dropSeenLogEntries([entry(1, "a"), entry(2, "b")], seen, 0).length, 2);
+    assert.deepStrictEqual(
+      dropSeenLogEntries([entry(1, "a"), entry(2, "b"), entry(2, "c"), entry(3, "a")], seen, 2),
+      [entry(2, "c"), entry(3, "a")],
+    );
+    // Entries older than the window are forgotten
+    assert.deepStrictEqual([...seen.values()], [2, 2, 3]);
+  });
+});
@@ -0,0 +1,142 @@
+/**
+  Copyright 2022 Dynatrace LLC
+
+  Licensed under the Apache License, Version 2.0 (the "License");
+  you may not use this file except in compliance with the License.
+  You may obtain a copy of the License at
+
+      https://www.apache.org/licenses/LICENSE-2.0
+
+  Unless required by applicable law or agreed to in writing, software
+  distributed under the License is distributed on an "AS IS" BASIS,
+  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+  See the License for the specific language governing permissions and
+  limitations under the License.
+ */
+
+import * as assert from "assert";
+import * as http from "http";
+import { AddressInfo } from "net";
+
+import { DynatraceAPIError } from "../../dynatrace-api/errors";
+import { configureHttpClients, getRetryDelay, HttpClient } from "../../dynatrace-api/http_client";
+import { getTokenUrl, OAuthClient } from "../../dynatrace-api/oauth";
+
+
+/**
+ * Starts a local server that replies to each request with the next of the given status codes.
+ * Rate limited replies ask the client to retry straight away.
+ * @param statuses status codes to reply with, in order
+ * @returns the server and the methods of the requests it received
+ */
+async function startServer(statuses: number[]) {
+  const methods: string[] = [];
+  const server = http.createServer((req, res) => {
+    methods.push(req.method ?? "");
+    const status = statuses[Math.min(methods.length, statuses.length) - 1];
+    res.writeHead(status, { "Content-Type": "application/json", "Retry-After": "0" });
+    res.end(JSON.stringify(status < 400 ? { ok: true } : { error: { code: status, message: "Failed" } }));
+  });
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  return { server, methods, url: `http://127.0.0.1:${port}` };
+}
+
+suite("HTTP Client Test Suite", () => {
+
+  teardown(() => {
+    configureHttpClients({});
+  });
+
+  /**
+   * Check that Retry-After is honoured in both formats and the delay grows otherwise
+   */
+  test("Test getRetryDelay", () => {
+    const now = Date.parse("2024-01-01T00:00:00Z");
+
+    assert.strictEqual(getRetryDelay(0, "5", now), 5000);
+    assert.strictEqual(getRetryDelay(0, "Mon, 01 Jan 2024 00:00:10 GMT", now), 10000);
+    assert.strictEqual(getRetryDelay(0, "Sun, 31 Dec 2023 23:59:00 GMT", now), 0);
+    assert.strictEqual(getRetryDelay(0, "3600", now), 30000);
+    assert.strictEqual(getRetryDelay(0, undefined, now), 1000);
+    assert.strictEqual(getRetryDelay(2, "soon", now), 4000);
+    assert.strictEqual(getRetryDelay(10, undefined, now), 30000);
+  });
+
+  /**
+   * Check that rate limited requests are retried regardless of method, up to the limit
+   */
+  test("Test rate limited requests are retried", async () => {
+    const { server, methods, url } = await startServer([429, 429, 200]);
+    configureHttpClients({ maxRetries: 2 });
+    try {
+      const response = await new HttpClient(url, "token").makeRequest<{ ok: boolean }>("/api", {}, "POST");
+
+      assert.deepStrictEqual(response, { ok: true });
+      assert.deepStrictEqual(methods, ["POST", "POST", "POST"]);
+    } finally {
+      server.close();
+    }
+  });
+
+  /**
+   * Check that server errors are only retried for idempotent requests
+   */
+  test("Test server errors are retried for idempotent requests only", async () => {
+    const { server, methods, url } = await startServer([503, 200]);
+    configureHttpClients({ maxRetries: 1 });
+    try {
+      await assert.rejects(
+        new HttpClient(url, "token").makeRequest("/api", {}, "POST"),
+        (err: DynatraceAPIError) => err.errorParams.code === 503,
+      );
+      const response = await new HttpClient(url, "token").makeRequest<{ ok: boolean }>("/api");
+
+      assert.deepStrictEqual(response, { ok: true });
+      assert.deepStrictEqual(methods, ["POST", "GET"]);
+    } finally {
+      server.close();
+    }
+  });
+
+  /**
+   * Check that OAuth access tokens are reused, and renewed once when rejected
+   */
+  test("Test OAuth access tokens", async () => {
+    const tokenRequests: string[] = [];
+    const authorizations: string[] = [];
+    const server = http.createServer((req, res) => {
+      let body = "";
+      req.on("data", (chunk: Buffer) => (body += chunk.toString()));
+      req.on("end", () => {
+        res.setHeader("Content-Type", "application/json");
+        if (req.url === "/token") {
+          tokenRequests.push(body);
+          res.end(JSON.stringify({ access_token: `token${tokenRequests.length}`, expires_in: 300 }));
+          return;
+        }
+        authorizations.push(req.headers.authorization ?? "");
+        // The first token gets revoked after one use
+        res.statusCode = authorizations.length === 2 ? 401 : 200;
+        res.end(JSON.stringify(res.statusCode === 200 ? { ok: true } : { error: { code: 401 } }));
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+    const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    try {
+      const oauthClient = new OAuthClient({ clientId: "id", clientSecret: "secret" }, `${url}/token`, ["a", "b"]);
+      const client = new HttpClient(url, oauthClient);
+      await client.makeRequest("/api");
+      await client.makeRequest("/api");
+
+      assert.deepStrictEqual(authorizations, ["Bearer token1", "Bearer token1", "Bearer token2"]);
+      assert.strictEqual(tokenRequests.length, 2);
+      assert.strictEqual(tokenRequests[0], "grant_type=client_credentials&client_id=id&client_secret=secret&scope=a+b");
+    } finally {
+      server.close();
+    }
+
+    assert.strictEqual(getTokenUrl("https://abc123.apps.dynatrace.com"), "https://sso.dynatrace.com/sso/oauth2/token");
+    assert.strictEqual(getTokenUrl("https://abc123.sprint.apps.dynatracelabs.com/"), "https://sso-sprint.dynatracelabs.com/sso/oauth2/token");
+  });
+});
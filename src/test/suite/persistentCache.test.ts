@@ -0,0 +1,97 @@
+/**
+  Copyright 2022 Dynatrace LLC
+
+  Licensed under the Apache License, Version 2.0 (the "License");
+  you may not use this file except in compliance with the License.
+  You may obtain a copy of the License at
+
+      https://www.apache.org/licenses/LICENSE-2.0
+
+  Unless required by applicable law or agreed to in writing, software
+  distributed under the License is distributed on an "AS IS" BASIS,
+  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+  See the License for the specific language governing permissions and
+  limitations under the License.
+ */
+
+import * as assert from "assert";
+import { mkdtempSync, rmSync } from "fs";
+import * as os from "os";
+import * as path from "path";
+
+import { PersistentCache } from "../../utils/persistentCache";
+
+
+suite("Persistent Cache Test Suite", () => {
+  let cacheDir: string;
+
+  setup(() => {
+    cacheDir = mkdtempSync(path.join(os.tmpdir(), "dt-cache-"));
+  });
+
+  teardown(() => {
+    rmSync(cacheDir, { recursive: true, force: true });
+  });
+
+  /**
+   * Check that fresh entries are served without going to the source
+   */
+  test("Test fresh entry", async () => {
+    const cache = new PersistentCache(cacheDir);
+    cache.set("key", ["a"]);
+
+    const value = await cache.getOrFetch("key", 60_000, () => {
+      throw new Error("Should not fetch");
+    });
+
+    assert.deepStrictEqual(value, ["a"]);
+  });
+
+  /**
+   * Check that stale entries are revalidated with their ETag
+   */
+  test("Test revalidation", async () => {
+    const cache = new PersistentCache(cacheDir);
+    cache.set("key", ["a"], "v1");
+
+    let receivedEtag: string | undefined;
+    const value = await cache.getOrFetch("key", 0, async etag => {
+      receivedEtag = etag;
+      return { notModified: true };
+    });
+
+    assert.strictEqual(receivedEtag, "v1");
+    assert.deepStrictEqual(value, ["a"]);
+  });
+
+  /**
+   * Check that stale entries are still served when the source is unreachable
+   */
+  test("Test offline fallback", async () => {
+    const cache = new PersistentCache(cacheDir);
+    cache.set("key", ["a"]);
+
+    const value = await cache.getOrFetch<string[]>("key", 0, () =>
+      Promise.reject(new Error("offline")),
+    );
+    const missing = await cache.getOrFetch<string[]>("missing", 0, () =>
+      Promise.reject(new Error("offline")),
+    );
+
+    assert.deepStrictEqual(value, ["a"]);
+    assert.strictEqual(missing, undefined);
+  });
+
+  /**
+   * Check that fetched values replace the persisted ones
+   */
+  test("Test update", async () => {
+    const cache = new PersistentCache(cacheDir);
+    cache.set("key", ["a"]);
+
+    await cache.getOrFetch("key", 0, async () => ({ value: ["b"], etag: "v2" }));
+
+    assert.deepStrictEqual(cache.get("key")?.value, ["b"]);
+    assert.strictEqual(cache.get("key")?.etag, "v2");
+  });
+});
@@ -0,0 +1,116 @@
+/**
+  Copyright 2022 Dynatrace LLC
+
+  Licensed under the Apache License, Version 2.0 (the "License");
+  you may not use this file except in compliance with the License.
+  You may obtain a copy of the License at
+
+      https://www.apache.org/licenses/LICENSE-2.0
+
+  Unless required by applicable law or agreed to in writing, software
+  distributed under the License is distributed on an "AS IS" BASIS,
+  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+  See the License for the specific language governing permissions and
+  limitations under the License.
+ */
+
+import * as assert from "assert";
+import * as yaml from "yaml";
+
+import { PlatformDashboard } from "../../dynatrace-api/interfaces/dashboards";
+import { ExtensionStub } from "../../interfaces/extensionMeta";
+import { buildPlatformDashboard, buildTimeseriesQuery } from "../../utils/platformDashboards";
+
+
+const extension = yaml.parse(`
+name: custom:my.ext
+version: 1.0.0
+minDynatraceVersion: "1.270"
+prometheus:
+  - group: main
+    metrics:
+      - key: my.requests.count
+        value: metric:requests_total
+      - key: my.latency-p90
+        value: metric:latency
+        featureSet: extra
+      - key: my.queue_size
+        value: metric:queue_size
+        featureSet: queues
+      - key: other.metric
+        value: metric:other
+metrics:
+  - key: my.requests.count
+    metadata:
+      displayName: Requests
+topology:
+  types:
+    - name: my:entity
+      displayName: My entity
+      rules:
+        - sources:
+            - sourceType: Metrics
+              condition: $prefix(my.)
+    - name: my:unused
+      displayName: Unused entity
+      rules:
+        - sources:
+            - sourceType: Metrics
+              condition: $eq(not.a.metric)
+`) as ExtensionStub;
+
+suite("Platform Dashboards Test Suite", () => {
+
+  /**
+   * Check that count metrics are summed up, others averaged, and identifiers quoted as needed
+   */
+  test("Test buildTimeseriesQuery", () => {
+    assert.strictEqual(
+      buildTimeseriesQuery(
+        [
+          { key: "my.requests.count", name: "Requests" },
+          { key: "my.latency-p90", name: "Latency (p90)" },
+        ],
+        "my:entity",
+      ),
+      [
+        "timeseries { Requests = sum(my.requests.count), `Latency (p90)` = avg(`my.latency-p90`) },",
+        "  by: { `dt.entity.my:entity` }",
+        "| fieldsAdd entityName(`dt.entity.my:entity`)",
+      ].join("\n"),
+    );
+    assert.ok(
+      buildTimeseriesQuery([{ key: "my.metric", name: "a`b" }], "host").startsWith(
+        "timeseries { `a``b` = avg(my.metric) },\n  by: { dt.entity.host }",
+      ),
+    );
+  });
+
+  /**
+   * Check that every entity gets a section with its charts laid out two per row
+   */
+  test("Test buildPlatformDashboard", () => {
+    const dashboard = JSON.parse(buildPlatformDashboard(extension, "Overview")) as PlatformDashboard;
+
+    assert.deepStrictEqual(Object.values(dashboard.layouts), [
+      { x: 0, y: 0, w: 24, h: 2 },
+      { x: 0, y: 2, w: 24, h: 1 },
+      { x: 0, y: 3, w: 12, h: 6 },
+      { x: 12, y: 3, w: 12, h: 6 },
+      { x: 0, y: 9, w: 12, h: 6 },
+    ]);
+    assert.deepStrictEqual(Object.keys(dashboard.tiles), Object.keys(dashboard.layouts));
+    assert.ok(dashboard.tiles["0"].content?.startsWith("# Overview\n"));
+    assert.strictEqual(dashboard.tiles["1"].content, "## My entity");
+    assert.deepStrictEqual(
+      ["2", "3", "4"].map(id => dashboard.tiles[id].title),
+      ["My entity - default metrics", "My entity - extra metrics", "My entity - queues metrics"],
+    );
+    assert.strictEqual(
+      dashboard.tiles["2"].query,
+      buildTimeseriesQuery([{ key: "my.requests.count", name: "Requests" }], "my:entity"),
+    );
+    // Metrics without a display name are shown by their key
+    assert.ok(dashboard.tiles["4"].query?.includes("my.queue_size = avg(my.queue_size)"));
+  });
+});
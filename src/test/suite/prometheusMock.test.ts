@@ -0,0 +1,82 @@
+/**
+  Copyright 2022 Dynatrace LLC
+
+  Licensed under the Apache License, Version 2.0 (the "License");
+  you may not use this file except in compliance with the License.
+  You may obtain a copy of the License at
+
+      https://www.apache.org/licenses/LICENSE-2.0
+
+  Unless required by applicable law or agreed to in writing, software
+  distributed under the License is distributed on an "AS IS" BASIS,
+  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+  See the License for the specific language governing permissions and
+  limitations under the License.
+ */
+
+import * as assert from "assert";
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import * as os from "os";
+import * as path from "path";
+import axios from "axios";
+
+import { applyValueDrift, PrometheusMockServer } from "../../codeLens/utils/prometheusMock";
+
+
+const EXPOSITION = [
+  "# HELP http_requests_total Total requests",
+  "# TYPE http_requests_total counter",
+  'http_requests_total{method="GET",path="/a b"} 100 1700000000000',
+  "# TYPE temperature gauge",
+  "temperature 20",
+  "# TYPE latency histogram",
+  'latency_bucket{le="+Inf"} 10',
+  "latency_sum 2.5",
+].join("\n");
+
+suite("Prometheus Mock Test Suite", () => {
+
+  /**
+   * Check that counters increase with every scrape and gauges fluctuate
+   */
+  test("Test value drift", () => {
+    const drifted = applyValueDrift(EXPOSITION, 0.1, 2, () => 1).split("\n");
+
+    assert.strictEqual(drifted[2], 'http_requests_total{method="GET",path="/a b"} 120 1700000000000');
+    assert.strictEqual(drifted[4], "temperature 22");
+    assert.strictEqual(drifted[6], 'latency_bucket{le="+Inf"} 12');
+    assert.strictEqual(drifted[7], "latency_sum 3");
+    assert.strictEqual(applyValueDrift(EXPOSITION, 0, 5), EXPOSITION);
+    // Series recorded as 0 still change
+    assert.strictEqual(
+      applyValueDrift("# TYPE errors_total counter\nerrors_total 0", 0.5, 4),
+      "# TYPE errors_total counter\nerrors_total 2",
+    );
+    assert.strictEqual(applyValueDrift("queue_size 0", 0.5, 1, () => 1), "queue_size 1");
+  });
+
+  /**
+   * Check that the recorded exposition is served on /metrics only
+   */
+  test("Test mock server", async () => {
+    const tempDir = mkdtempSync(path.join(os.tmpdir(), "dt-prom-"));
+    const file = path.join(tempDir, "metrics.txt");
+    writeFileSync(file, EXPOSITION);
+    const server = new PrometheusMockServer();
+
+    try {
+      const url = await server.start({ file, port: 0, drift: 0 });
+      const metrics = await axios.get<string>(url);
+      const notFound = await axios.get(url.replace("/metrics", "/other"), {
+        validateStatus: () => true,
+      });
+
+      assert.strictEqual(metrics.data, EXPOSITION);
+      assert.strictEqual(notFound.status, 404);
+    } finally {
+      await server.stop();
+      rmSync(tempDir, { recursive: true, force: true });
+    }
+    assert.strictEqual(server.url, undefined);
+  });
+});
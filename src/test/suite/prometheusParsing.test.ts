@@ -0,0 +1,109 @@
+/**
+  Copyright 2022 Dynatrace LLC
+
+  Licensed under the Apache License, Version 2.0 (the "License");
+  you may not use this file except in compliance with the License.
+  You may obtain a copy of the License at
+
+      https://www.apache.org/licenses/LICENSE-2.0
+
+  Unless required by applicable law or agreed to in writing, software
+  distributed under the License is distributed on an "AS IS" BASIS,
+  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+  See the License for the specific language governing permissions and
+  limitations under the License.
+ */
+
+import * as assert from "assert";
+
+import {
+  isProtobufExposition,
+  parseProtobufExposition,
+  parseTextExposition,
+} from "../../codeLens/utils/prometheusParsing";
+
+
+/**
+ * Encodes a length-delimited protobuf field
+ */
+function field(fieldNo: number, value: Buffer | string): Buffer {
+  const data = Buffer.from(value);
+  return Buffer.concat([Buffer.from([(fieldNo << 3) | 2, data.length]), data]);
+}
+
+suite("Prometheus Parsing Test Suite", () => {
+
+  /**
+   * Check that classic text expositions resolve types of counters and histograms
+   */
+  test("Test text format", () => {
+    const data = parseTextExposition(
+      [
+        "# HELP requests_total Total requests",
+        "# TYPE requests_total counter",
+        'requests_total{method="GET",path="/a,b}"} 10',
+        "# TYPE temperature gauge",
+        "temperature 20",
+        "# TYPE latency_seconds histogram",
+        'latency_seconds_bucket{le="0.1"} 3',
+        "latency_seconds_sum 1.2",
+        "latency_seconds_count 3",
+      ].join("\n"),
+    );
+
+    assert.deepStrictEqual(data.requests_total, {
+      type: "count",
+      description: "Total requests",
+      dimensions: ["method", "path"],
+    });
+    assert.strictEqual(data.temperature.type, "gauge");
+    assert.deepStrictEqual(data.latency_seconds_bucket, { type: "count", dimensions: ["le"] });
+    assert.deepStrictEqual(data.latency_seconds_sum, { type: "count", unit: "seconds" });
+    assert.strictEqual(data.latency_seconds, undefined);
+  });
+
+  /**
+   * Check that OpenMetrics units, exemplars, creation timestamps and EOF are handled
+   */
+  test("Test OpenMetrics format", () => {
+    const data = parseTextExposition(
+      [
+        "# TYPE transferred counter",
+        "# UNIT transferred bytes",
+        "# HELP transferred Bytes transferred",
+        'transferred_total{host="a"} 100 # {trace_id="x y"} 5 1.2',
+        'transferred_created{host="a"} 1700000000',
+        "# EOF",
+        "ignored_metric 1",
+      ].join("\n"),
+    );
+
+    assert.deepStrictEqual(Object.keys(data), ["transferred_total"]);
+    assert.deepStrictEqual(data.transferred_total, {
+      type: "count",
+      description: "Bytes transferred",
+      unit: "bytes",
+      dimensions: ["host"],
+    });
+  });
+
+  /**
+   * Check that delimited protobuf expositions are detected and decoded
+   */
+  test("Test protobuf format", () => {
+    const label = field(1, field(1, "instance"));
+    const family = Buffer.concat([
+      field(1, "queue_size"),
+      field(2, "Items in queue"),
+      Buffer.from([3 << 3, 1]), // type: GAUGE
+      field(4, label),
+    ]);
+    const exposition = Buffer.concat([Buffer.from([family.length]), family]);
+
+    assert.strictEqual(isProtobufExposition(exposition), true);
+    assert.strictEqual(isProtobufExposition(Buffer.from("# TYPE a gauge\na 1\n")), false);
+    assert.deepStrictEqual(parseProtobufExposition(exposition), {
+      queue_size: { type: "gauge", description: "Items in queue", dimensions: ["instance"] },
+    });
+  });
+});
@@ -0,0 +1,95 @@
+/**
+  Copyright 2022 Dynatrace LLC
+
+  Licensed under the Apache License, Version 2.0 (the "License");
+  you may not use this file except in compliance with the License.
+  You may obtain a copy of the License at
+
+      https://www.apache.org/licenses/LICENSE-2.0
+
+  Unless required by applicable law or agreed to in writing, software
+  distributed under the License is distributed on an "AS IS" BASIS,
+  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+  See the License for the specific language governing permissions and
+  limitations under the License.
+ */
+
+import * as assert from "assert";
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import * as os from "os";
+import * as path from "path";
+import * as yaml from "yaml";
+
+import { compileSchemaValidator, validateManifest } from "../../utils/schemaValidation";
+
+
+suite("Schema Validation Test Suite", () => {
+  let schemaDir: string;
+
+  suiteSetup(() => {
+    schemaDir = mkdtempSync(path.join(os.tmpdir(), "dt-schemas-"));
+    writeFileSync(
+      path.join(schemaDir, "extension.schema.json"),
+      JSON.stringify({
+        $schema: "http://json-schema.org/draft-07/schema#",
+        $id: "https://example.com/extension.schema.json",
+        type: "object",
+        required: ["name"],
+        additionalProperties: false,
+        properties: {
+          name: { type: "string" },
+          metrics: { type: "array", items: { $ref: "metric.schema.json" } },
+        },
+      }),
+    );
+    writeFileSync(
+      path.join(schemaDir, "metric.schema.json"),
+      JSON.stringify({
+        $schema: "http://json-schema.org/draft-07/schema#",
+        $id: "https://example.com/metric.schema.json",
+        type: "object",
+        properties: { key: { type: "string" }, type: { enum: ["gauge", "count"] } },
+      }),
+    );
+  });
+
+  suiteTeardown(() => {
+    rmSync(schemaDir, { recursive: true, force: true });
+  });
+
+  /**
+   * Check that schemas referencing each other compile and a valid manifest passes
+   */
+  test("Test valid manifest", () => {
+    const validate = compileSchemaValidator(schemaDir);
+    assert.ok(validate);
+
+    const content = 'name: custom:my.ext\nmetrics:\n  - key: my.metric\n    type: gauge\n';
+    assert.deepStrictEqual(validateManifest(validate, yaml.parse(content), content), []);
+  });
+
+  /**
+   * Check that violations are mapped back to the offending text in the manifest
+   */
+  test("Test violation positions", () => {
+    const validate = compileSchemaValidator(schemaDir);
+    assert.ok(validate);
+
+    const content = 'name: custom:my.ext\nversion: 1.0.0\nmetrics:\n  - key: my.metric\n    type: rate\n';
+    const violations = validateManifest(validate, yaml.parse(content), content);
+
+    assert.strictEqual(violations.length, 2);
+    const [versionViolation, typeViolation] = violations;
+    assert.deepStrictEqual(versionViolation.path, ["version"]);
+    assert.strictEqual(content.substring(versionViolation.start, versionViolation.end), "version");
+    assert.deepStrictEqual(typeViolation.path, ["metrics", 0, "type"]);
+    assert.strictEqual(content.substring(typeViolation.start, typeViolation.end), "rate");
+  });
+
+  /**
+   * Check that nothing is compiled if schemas haven't been loaded
+   */
+  test("Test missing schemas", () => {
+    assert.strictEqual(compileSchemaValidator(path.join(schemaDir, "missing")), undefined);
+  });
+});
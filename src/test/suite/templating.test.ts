@@ -0,0 +1,90 @@
+/**
+  Copyright 2022 Dynatrace LLC
+
+  Licensed under the Apache License, Version 2.0 (the "License");
+  you may not use this file except in compliance with the License.
+  You may obtain a copy of the License at
+
+      https://www.apache.org/licenses/LICENSE-2.0
+
+  Unless required by applicable law or agreed to in writing, software
+  distributed under the License is distributed on an "AS IS" BASIS,
+  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+  See the License for the specific language governing permissions and
+  limitations under the License.
+ */
+
+import * as assert from "assert";
+
+import { renderTemplate } from "../../utils/templating";
+
+
+suite("Templating Test Suite", () => {
+  const view = {
+    name: "custom:my-extension",
+    html: "<b>bold</b>",
+    metrics: [
+      { key: "my.metric", name: "My metric", description: "Some metric", unit: "Count" },
+      { key: "other.metric", name: "Other metric" },
+    ],
+    alerts: [],
+    tags: ["a", "b"],
+  };
+
+  /**
+   * Check Mustache variables, sections and inverted sections
+   */
+  test("Test Mustache templates", () => {
+    const template = `\
+# {{name}}
+{{#metrics}}
+* {{name}} (\`{{key}}\`)
+{{#description}}
+  {{.}}{{#unit}} (as {{unit}}){{/unit}}
+{{/description}}
+{{/metrics}}
+{{^alerts}}
+No alerts
+{{/alerts}}
+{{html}} {{{html}}}
+`;
+
+    assert.strictEqual(
+      renderTemplate(template, view),
+      `\
+# custom:my-extension
+* My metric (\`my.metric\`)
+  Some metric (as Count)
+* Other metric (\`other.metric\`)
+No alerts
+&lt;b&gt;bold&lt;/b&gt; <b>bold</b>
+`,
+    );
+  });
+
+  /**
+   * Check Handlebars block helpers
+   */
+  test("Test Handlebars templates", () => {
+    const template = `\
+{{#each tags}}[{{this}}]{{/each}}
+{{#if alerts}}alerts{{else}}no alerts{{/if}}
+{{#unless metrics}}no metrics{{else}}{{metrics.length}} metrics{{/unless}}`;
+
+    assert.strictEqual(renderTemplate(template, view), "[a][b]\nno alerts\n2 metrics");
+    assert.strictEqual(
+      renderTemplate("{{#each tags}}{{#if @first}}first {{/if}}{{@index}}={{this}} {{/each}}", view),
+      "first 0=a 1=b ",
+    );
+    assert.strictEqual(renderTemplate("{{#with metrics.[0]}}{{key}}{{/with}}", view), "my.metric");
+    assert.strictEqual(renderTemplate("{{html}}", view, false), "<b>bold</b>");
+  });
+
+  /**
+   * Check that broken templates and unsupported syntax fail instead of rendering partially
+   */
+  test("Test invalid templates", () => {
+    assert.throws(() => renderTemplate("{{#metrics}}", view), /Parse error/);
+    assert.throws(() => renderTemplate("{{> header}}", view), /partial header could not be found/);
+  });
+});
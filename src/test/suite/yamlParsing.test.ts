@@ -0,0 +1,128 @@
+/**
+  Copyright 2022 Dynatrace LLC
+
+  Licensed under the Apache License, Version 2.0 (the "License");
+  you may not use this file except in compliance with the License.
+  You may obtain a copy of the License at
+
+      https://www.apache.org/licenses/LICENSE-2.0
+
+  Unless required by applicable law or agreed to in writing, software
+  distributed under the License is distributed on an "AS IS" BASIS,
+  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+  See the License for the specific language governing permissions and
+  limitations under the License.
+ */
+
+import * as assert from "assert";
+
+import {
+  addYamlListEntries,
+  applyYamlEdits,
+  getYamlPathAtLine,
+  setYamlListEntry,
+} from "../../utils/yamlParsing";
+
+
+suite("YAML Editing Test Suite", () => {
+  const extensionYaml = `\
+name: custom:my-extension
+alerts:
+    # Existing alerts
+    - path: alerts/a.json  # keep this comment
+
+# Dashboards
+dashboards: []
+screens:
+- entityType: my:entity
+  chartsCards:
+    - key: overview
+      charts: []
+`;
+
+  /**
+   * Check that list entries are added with the list's indentation and comments are kept
+   */
+  test("Test adding list entries", () => {
+    const alerts = applyYamlEdits(
+      extensionYaml,
+      addYamlListEntries(extensionYaml, ["alerts"], [{ path: "alerts/b.json" }]),
+    );
+    assert.ok(
+      alerts.includes(
+        "    - path: alerts/a.json  # keep this comment\n    - path: alerts/b.json\n\n# Dashboards\n",
+      ),
+    );
+
+    const dashboards = applyYamlEdits(
+      extensionYaml,
+      addYamlListEntries(extensionYaml, ["dashboards"], [{ path: "dashboards/d.json" }]),
+    );
+    assert.ok(dashboards.includes("dashboards: [{ path: dashboards/d.json }]\n"));
+
+    const properties = applyYamlEdits(
+      extensionYaml,
+      addYamlListEntries(extensionYaml, ["screens", 0, "propertiesCard", "properties"], ["a"]),
+    );
+    assert.ok(properties.endsWith("  propertiesCard:\n    properties:\n      - a\n"));
+  });
+
+  /**
+   * Check that comments belonging to the next key stay with it and line endings aren't mixed
+   */
+  test("Test adding list entries before outer comments", () => {
+    const content = "alerts:\n  - path: a\n# comment about dashboards\ndashboards:\n";
+    assert.strictEqual(
+      applyYamlEdits(content, addYamlListEntries(content, ["alerts"], [{ path: "alerts/b.json" }])),
+      "alerts:\n  - path: a\n  - path: alerts/b.json\n# comment about dashboards\ndashboards:\n",
+    );
+
+    const crlf = content.replace(/\n/g, "\r\n");
+    assert.strictEqual(
+      applyYamlEdits(crlf, addYamlListEntries(crlf, ["alerts"], [{ path: "b", x: 1 }])),
+      "alerts:\r\n  - path: a\r\n  - path: b\r\n    x: 1\r\n" +
+        "# comment about dashboards\r\ndashboards:\r\n",
+    );
+    assert.strictEqual(
+      applyYamlEdits(crlf, addYamlListEntries(crlf, ["screens"], ["s"])),
+      `${crlf}screens:\r\n  - s\r\n`,
+    );
+  });
+
+  /**
+   * Check that matching entries are updated in place instead of added again
+   */
+  test("Test setting list entries", () => {
+    const isOverview = (existing: unknown) => (existing as { key: string }).key === "overview";
+
+    assert.deepStrictEqual(
+      setYamlListEntry(extensionYaml, ["alerts"], { path: "alerts/a.json" }, () => true),
+      [],
+    );
+    const updated = applyYamlEdits(
+      extensionYaml,
+      setYamlListEntry(
+        extensionYaml,
+        ["screens", 0, "chartsCards"],
+        { key: "overview", displayName: "Overview", charts: [] },
+        isOverview,
+      ),
+    );
+    assert.ok(updated.endsWith("    - key: overview\n      charts: []\n      displayName: Overview\n"));
+  });
+
+  /**
+   * Check that paths are found for keys on a given line
+   */
+  test("Test getYamlPathAtLine", () => {
+    assert.deepStrictEqual(getYamlPathAtLine(extensionYaml, 1), ["alerts"]);
+    assert.deepStrictEqual(getYamlPathAtLine(extensionYaml, 11), [
+      "screens",
+      0,
+      "chartsCards",
+      0,
+      "charts",
+    ]);
+    assert.strictEqual(getYamlPathAtLine(extensionYaml, 2), undefined);
+  });
+});
@@ -0,0 +1,327 @@
+/**
+  Copyright 2022 Dynatrace LLC
+
+  Licensed under the Apache License, Version 2.0 (the "License");
+  you may not use this file except in compliance with the License.
+  You may obtain a copy of the License at
+
+      https://www.apache.org/licenses/LICENSE-2.0
+
+  Unless required by applicable law or agreed to in writing, software
+  distributed under the License is distributed on an "AS IS" BASIS,
+  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+  See the License for the specific language governing permissions and
+  limitations under the License.
+ */
+
+import { existsSync, readFileSync } from "fs";
+import * as vscode from "vscode";
+import { Dynatrace } from "../dynatrace-api/dynatrace";
+import { DynatraceAPIError } from "../dynatrace-api/errors";
+import {
+  CertificateDetails,
+  ExpiryStatus,
+  getCertificateDistributions,
+  getDaysUntilExpiry,
+  getExpiryStatus,
+  readCertificateDetails,
+} from "../utils/certificates";
+import { getAllEnvironments, getEnvironmentToken, resolveRealPath } from "../utils/fileSystem";
+
+type CertificateType = "ca" | "dev";
+
+const CERTIFICATE_SETTINGS: Record<CertificateType, { setting: string; label: string }> = {
+  ca: { setting: "rootOrCaCertificateLocation", label: "CA certificate" },
+  dev: { setting: "developerCertkeyLocation", label: "Developer certificate" },
+};
+
+const EXPIRY_ICONS: Record<ExpiryStatus, vscode.ThemeIcon> = {
+  valid: new vscode.ThemeIcon("workspace-trusted", new vscode.ThemeColor("testing.iconPassed")),
+  expiring: new vscode.ThemeIcon("warning", new vscode.ThemeColor("list.warningForeground")),
+  expired: new vscode.ThemeIcon("error", new vscode.ThemeColor("list.errorForeground")),
+};
+
+/**
+ * Represents a certificate associated with the current workspace.
+ */
+export class WorkspaceCertificate extends vscode.TreeItem {
+  certificateType: CertificateType;
+  certificatePath: string;
+  details: CertificateDetails;
+  expiryStatus: ExpiryStatus;
+  contextValue: "certificate";
+
+  /**
+   * @param certificateType whether this is the CA or the Developer certificate
+   * @param certificatePath path to the file holding the certificate
+   * @param details details read from the certificate
+   * @param warningDays how many days before expiry to start warning about it
+   */
+  constructor(
+    certificateType: CertificateType,
+    certificatePath: string,
+    details: CertificateDetails,
+    warningDays: number,
+  ) {
+    super(CERTIFICATE_SETTINGS[certificateType].label, vscode.TreeItemCollapsibleState.Collapsed);
+    this.certificateType = certificateType;
+    this.certificatePath = certificatePath;
+    this.details = details;
+    this.expiryStatus = getExpiryStatus(details, warningDays);
+    const daysLeft = getDaysUntilExpiry(details);
+    this.description =
+      this.expiryStatus === "expired" ? "Expired" : `Expires in ${daysLeft} day(s)`;
+    this.tooltip = `${details.subject}\n${certificatePath}`;
+    this.iconPath = EXPIRY_ICONS[this.expiryStatus];
+    this.contextValue = "certificate";
+  }
+}
+
+/**
+ * Represents a single detail of a certificate (e.g. subject, fingerprint, validity).
+ */
+export class CertificateDetail extends vscode.TreeItem {
+  contextValue: "certificateDetail";
+
+  /**
+   * @param label name of the detail
+   * @param value value of the detail
+   */
+  constructor(label: string, value: string) {
+    super(label, vscode.TreeItemCollapsibleState.None);
+    this.description = value;
+    this.tooltip = value;
+    this.contextValue = "certificateDetail";
+  }
+}
+
+/**
+ * Groups the credential vaults of all registered environments under a CA certificate.
+ */
+export class CredentialVaults extends vscode.TreeItem {
+  certificate: WorkspaceCertificate;
+  contextValue: "credentialVaults";
+
+  /**
+   * @param certificate the CA certificate the vaults are checked for
+   */
+  constructor(certificate: WorkspaceCertificate) {
+    super("Credential vaults", vscode.TreeItemCollapsibleState.Collapsed);
+    this.certificate = certificate;
+    this.iconPath = new vscode.ThemeIcon("lock");
+    this.contextValue = "credentialVaults";
+  }
+}
+
+/**
+ * Represents the state of a CA certificate in the credential vault of an environment.
+ */
+export class CredentialVaultStatus extends vscode.TreeItem {
+  contextValue: "credentialVaultStatus";
+
+  /**
+   * @param environmentName name of the environment
+   * @param status description of the certificate's state in the vault
+   * @param icon icon matching the state
+   */
+  constructor(environmentName: string, status: string, icon: vscode.ThemeIcon) {
+    super(environmentName, vscode.TreeItemCollapsibleState.None);
+    this.description = status;
+    this.iconPath = icon;
+    this.contextValue = "credentialVaultStatus";
+  }
+}
+
+type CertificatesTreeItem =
+  | WorkspaceCertificate
+  | CertificateDetail
+  | CredentialVaults
+  | CredentialVaultStatus;
+
+/**
+ * A tree data provider that renders the certificates associated with the current workspace,
+ * together with their details, expiry and the environments whose credential vaults hold them.
+ */
+export class CertificatesTreeDataProvider implements vscode.TreeDataProvider<CertificatesTreeItem> {
+  context: vscode.ExtensionContext;
+  private _onDidChangeTreeData: vscode.EventEmitter<CertificatesTreeItem | undefined> =
+    new vscode.EventEmitter<CertificatesTreeItem | undefined>();
+
+  readonly onDidChangeTreeData: vscode.Event<CertificatesTreeItem | undefined> =
+    this._onDidChangeTreeData.event;
+
+  /**
+   * @param context VSCode Extension Context
+   */
+  constructor(context: vscode.ExtensionContext) {
+    this.context = context;
+    this.registerCommands();
+  }
+
+  /**
+   * Registers the commands that this Tree View needs to work with.
+   */
+  private registerCommands() {
+    vscode.commands.registerCommand("dynatrace-extensions-certificates.refresh", () =>
+      this.refresh(),
+    );
+  }
+
+  /**
+   * Refresh this view.
+   */
+  refresh(): void {
+    this._onDidChangeTreeData.fire(undefined);
+  }
+
+  /**
+   * Retrieve a tree view item from an element within the view.
+   * @param element the element to retrieve
+   * @returns the tree item
+   */
+  getTreeItem(element: CertificatesTreeItem): vscode.TreeItem {
+    return element;
+  }
+
+  /**
+   * Retrieves the tree view items that represent children of an element, or all items
+   * if no parent element has been provided.
+   * @param element parent element, if any
+   * @returns list of tree items
+   */
+  async getChildren(element?: CertificatesTreeItem): Promise<CertificatesTreeItem[]> {
+    if (!element) {
+      return this.getWorkspaceCertificates();
+    }
+    switch (element.contextValue) {
+      // Certificates have their details as children, CA certificates also their vaults
+      case "certificate": {
+        const { details } = element;
+        const children: CertificatesTreeItem[] = [
+          new CertificateDetail("Subject", details.subject),
+          new CertificateDetail("Issuer", details.issuer),
+          new CertificateDetail("Serial number", details.serialNumber),
+          new CertificateDetail("SHA-256 fingerprint", details.fingerprint),
+          new CertificateDetail("Valid from", details.notBefore.toLocaleString()),
+          new CertificateDetail("Valid until", details.notAfter.toLocaleString()),
+        ];
+        if (element.certificateType === "ca") {
+          children.push(new CredentialVaults(element));
+        }
+        return children;
+      }
+      case "credentialVaults":
+        return this.getCredentialVaultStatuses(element.certificate);
+      default:
+        return [];
+    }
+  }
+
+  /**
+   * Reads the certificates configured for the workspace. Certificates that are not configured,
+   * or can't be read, are left out.
+   * @returns list of certificate items
+   */
+  getWorkspaceCertificates(): WorkspaceCertificate[] {
+    const config = vscode.workspace.getConfiguration("dynatraceExtensions", null);
+    const warningDays = config.get<number>("certificateExpiryWarningDays") ?? 30;
+    const certificates: WorkspaceCertificate[] = [];
+    for (const certificateType of ["ca", "dev"] as CertificateType[]) {
+      const settingValue = config.get<string>(CERTIFICATE_SETTINGS[certificateType].setting);
+      if (!settingValue) {
+        continue;
+      }
+      const certificatePath = resolveRealPath(settingValue);
+      if (!existsSync(certificatePath)) {
+        continue;
+      }
+      try {
+        const details = readCertificateDetails(readFileSync(certificatePath).toString());
+        certificates.push(
+          new WorkspaceCertificate(certificateType, certificatePath, details, warningDays),
+        );
+      } catch (err) {
+        console.log(`Could not read certificate at ${certificatePath}`);
+        console.log((err as Error).message);
+      }
+    }
+    return certificates;
+  }
+
+  /**
+   * Checks the credential vault of every registered environment for the CA certificate.
+   * Only credentials uploaded from this workspace are known, so these are looked up to confirm
+   * they still exist and hold the same certificate.
+   * @param certificate the CA certificate
+   * @returns status items, one per environment
+   */
+  private async getCredentialVaultStatuses(
+    certificate: WorkspaceCertificate,
+  ): Promise<CredentialVaultStatus[]> {
+    const distributions = getCertificateDistributions(this.context);
+    return Promise.all(
+      getAllEnvironments(this.context).map(async environment => {
+        const name = environment.name ?? environment.id;
+        const distribution = distributions[environment.url];
+        if (!distribution) {
+          return new CredentialVaultStatus(
+            name,
+            "Not uploaded",
+            new vscode.ThemeIcon("circle-slash"),
+          );
+        }
+        const dt = new Dynatrace(
+          environment.apiUrl,
+          await getEnvironmentToken(this.context, environment),
+        );
+        return dt.credentialVault
+          .getCertificate(distribution.credentialId)
+          .then(credential =>
+            distribution.fingerprint === certificate.details.fingerprint
+              ? new CredentialVaultStatus(
+                  name,
+                  `Up to date (${credential.name})`,
+                  new vscode.ThemeIcon("pass", new vscode.ThemeColor("testing.iconPassed")),
+                )
+              : new CredentialVaultStatus(
+                  name,
+                  `Outdated certificate (${credential.name})`,
+                  new vscode.ThemeIcon("warning", new vscode.ThemeColor("list.warningForeground")),
+                ),
+          )
+          .catch((err: DynatraceAPIError) =>
+            // The stored credential may have been deleted from the vault since the upload
+            err.errorParams.code === 404
+              ? new CredentialVaultStatus(
+                  name,
+                  "Credential not found",
+                  new vscode.ThemeIcon("error", new vscode.ThemeColor("list.errorForeground")),
+                )
+              : new CredentialVaultStatus(
+                  name,
+                  `Could not check: ${err.message}`,
+                  new vscode.ThemeIcon("question"),
+                ),
+          );
+      }),
+    );
+  }
+
+  /**
+   * Warns about workspace certificates that expired or are about to expire, offering to renew
+   * them.
+   */
+  async checkExpiry() {
+    const expiring = this.getWorkspaceCertificates().filter(c => c.expiryStatus !== "valid");
+    if (expiring.length === 0) {
+      return;
+    }
+    const choice = await vscode.window.showWarningMessage(
+      expiring.map(c => `${c.label?.toString() ?? ""}: ${c.description as string}`).join(". "),
+      "Renew certificates",
+    );
+    if (choice === "Renew certificates") {
+      await vscode.commands.executeCommand("dynatrace-extensions.renewCertificates");
+    }
+  }
+}
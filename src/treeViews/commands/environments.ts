@@ -17,11 +17,29 @@
 import { readFileSync, readdirSync, rmSync, writeFileSync } from "fs";
 import * as path from "path";
 import * as vscode from "vscode";
+import * as yaml from "yaml";
 import { DynatraceAPIError } from "../../dynatrace-api/errors";
+import { getTokenUrl, OAuthClient } from "../../dynatrace-api/oauth";
+import { ExtensionStub } from "../../interfaces/extensionMeta";
 import { DynatraceEnvironmentData } from "../../interfaces/treeViewData";
 import { showMessage } from "../../utils/code";
 import { checkUrlReachable } from "../../utils/conditionCheckers";
-import { encryptToken } from "../../utils/cryptography";
+import { buildFormFields, FormField, getScopeOptions } from "../../utils/configurationForm";
+import {
+  exportFileName,
+  fillSecretPlaceholders,
+  findSecretPlaceholders,
+  isExportedConfiguration,
+  redactSecrets,
+} from "../../utils/configurationTransfer";
+import { readManifestContentFromPackage } from "../../utils/extensionBuild";
+import { diffExtensions, isEmptyDiff } from "../../utils/extensionDiff";
+import {
+  ExtensionLogsData,
+  buildExtensionLogQuery,
+  dropSeenLogEntries,
+  toLogEntries,
+} from "../../utils/extensionLogs";
 import {
   createUniqueFileName,
   getAllEnvironments,
@@ -30,12 +48,19 @@ import {
   removeEnvironment,
 } from "../../utils/fileSystem";
 import { createObjectFromSchema } from "../../utils/schemaParsing";
+import { REGISTERED_PANELS, WebviewPanelManager } from "../../webviews/webviewPanel";
 import {
   DeployedExtension,
   DynatraceEnvironment,
   MonitoringConfiguration,
 } from "../environmentsTreeView";
 
+/** Milliseconds between checks for new log records while the log viewer is open */
+const LOG_TAIL_INTERVAL = 10_000;
+/** Milliseconds before the newest record shown that each check reaches back, for late records */
+const LOG_TAIL_OVERLAP = 2 * 60_000;
+let logTail: NodeJS.Timer | undefined;
+
 export interface MinimalConfiguration {
   scope: string;
   value: {
@@ -85,10 +110,64 @@ export function validateEnvironmentUrl(value: string): string | null {
   return "This does not look like a Dynatrace environment URL";
 }
 
+/**
+ * Collects the optional OAuth client credentials for a platform environment, which enable
+ * access to platform APIs (e.g. uploading platform dashboards). The credentials are checked by
+ * requesting an access token with them.
+ * @param url URL of the environment
+ * @param existingClientId client ID currently registered for the environment, if any
+ * @returns the client ID and secret (secret is undefined if the existing one should be kept),
+ * undefined if no OAuth client should be used, or null if the operation was cancelled
+ */
+async function collectOAuthCredentials(
+  url: string,
+  existingClientId?: string,
+): Promise<{ clientId: string; clientSecret?: string } | undefined | null> {
+  if (!url.includes(".apps")) {
+    return undefined;
+  }
+  const clientId = await vscode.window.showInputBox({
+    title: "OAuth client for platform APIs",
+    placeHolder: "The ID of an OAuth client (dt0s02.XXXX), to use for platform APIs...",
+    prompt: "Optional - leave blank to use the access token only",
+    value: existingClientId,
+    ignoreFocusOut: true,
+  });
+  if (clientId === undefined) {
+    return null;
+  }
+  if (clientId === "") {
+    return undefined;
+  }
+
+  const clientSecret = await vscode.window.showInputBox({
+    title: "OAuth client secret",
+    placeHolder: "The secret of the OAuth client...",
+    prompt: clientId === existingClientId ? "Leave blank to keep the current secret" : "Mandatory",
+    password: true,
+    ignoreFocusOut: true,
+  });
+  if (clientSecret === undefined || (clientSecret === "" && clientId !== existingClientId)) {
+    showMessage("error", "Client secret cannot be blank. Operation was cancelled");
+    return null;
+  }
+  if (clientSecret === "") {
+    return { clientId };
+  }
+
+  try {
+    await new OAuthClient({ clientId, clientSecret }, getTokenUrl(url)).getAccessToken();
+  } catch (err) {
+    showMessage("error", (err as Error).message);
+    return null;
+  }
+  return { clientId, clientSecret };
+}
+
 /**
  * A workflow for registering a new Dynatrace Environment within the VSCode extension.
- * URL, Token, and an optional label are collected. The user can also set this as the
- * currently used environment.
+ * URL, Token, and an optional label are collected. Platform environments can also get an
+ * OAuth client for platform APIs. The user can also set this as the currently used environment.
  * @param context VSCode Extension Context
  * @returns
  */
@@ -139,13 +218,27 @@ export async function addEnvironment(context: vscode.ExtensionContext) {
     ignoreFocusOut: true,
   });
 
+  const oauth = await collectOAuthCredentials(url);
+  if (oauth === null) {
+    return;
+  }
+
   const current = await vscode.window.showQuickPick(["Yes", "No"], {
     title: "Set this as your currrent environment?",
     canPickMany: false,
     ignoreFocusOut: true,
   });
 
-  await registerEnvironment(context, url, apiUrl, encryptToken(token), name, current === "Yes");
+  await registerEnvironment(
+    context,
+    url,
+    apiUrl,
+    token,
+    name,
+    current === "Yes",
+    oauth?.clientId,
+    oauth?.clientSecret,
+  );
 }
 
 /**
@@ -210,13 +303,27 @@ export async function editEnvironment(
     ignoreFocusOut: true,
   });
 
+  const oauth = await collectOAuthCredentials(url, environment.oauthClientId);
+  if (oauth === null) {
+    return;
+  }
+
   const current = await vscode.window.showQuickPick(["Yes", "No"], {
     title: "Set this as your currrent environment?",
     canPickMany: false,
     ignoreFocusOut: true,
   });
 
-  await registerEnvironment(context, url, apiUrl, encryptToken(token), name, current === "Yes");
+  await registerEnvironment(
+    context,
+    url,
+    apiUrl,
+    token,
+    name,
+    current === "Yes",
+    oauth?.clientId,
+    oauth?.clientSecret,
+  );
 }
 
 /**
@@ -281,9 +388,10 @@ export async function changeConnection(
         context,
         environment.url,
         environment.apiUrl,
-        environment.token,
+        undefined,
         environment.name,
         true,
+        environment.oauthClientId,
       );
       return [true, environment];
     }
@@ -594,6 +702,291 @@ export async function saveMoniotringConfiguration(config: MonitoringConfiguratio
   showMessage("info", "Configuration file saved successfully.");
 }
 
+/**
+ * Exports all monitoring configurations of a deployed extension to a folder, one file per
+ * configuration. Secrets are replaced with placeholders (e.g. "{{secret:config-1.password}}")
+ * which are asked for when importing the configurations into another environment. Nothing is
+ * exported if the extension schema (needed to identify secrets) can't be fetched. Files left in
+ * the folder by a previous export are removed first, so they don't get imported along with this
+ * one; any other files are never touched.
+ * @param extension the deployed extension to export configurations of
+ */
+export async function exportMonitoringConfigurations(extension: DeployedExtension) {
+  const configs = await extension.dt.extensionsV2.listMonitoringConfigurations(extension.id);
+  if (configs.length === 0) {
+    showMessage("info", "This extension has no monitoring configurations to export.");
+    return;
+  }
+
+  // Secret fields can only be identified from the extension schema
+  let fields: FormField[];
+  try {
+    fields = buildFormFields(
+      await extension.dt.extensionsV2.getExtensionSchema(extension.id, extension.extensionVersion),
+    );
+  } catch (err) {
+    fields = [];
+    console.log(`Could not fetch extension schema. ${(err as Error).message}`);
+  }
+  if (fields.length === 0) {
+    showMessage(
+      "error",
+      "Could not read the extension's schema, so secrets can't be removed from the " +
+        "configurations. Export cancelled.",
+    );
+    return;
+  }
+
+  const exportDir = await vscode.window
+    .showOpenDialog({
+      canSelectFiles: false,
+      canSelectFolders: true,
+      canSelectMany: false,
+      openLabel: "Export here",
+      title: `Export ${configs.length} configuration(s) of ${extension.id}`,
+    })
+    .then(uris => uris?.[0].fsPath);
+  if (!exportDir) {
+    showMessage("info", "Operation cancelled.");
+    return;
+  }
+
+  const existingFiles = readdirSync(exportDir);
+  const staleFiles = existingFiles.filter(file =>
+    isExportedConfiguration(path.join(exportDir, file)),
+  );
+  const clashingFiles = configs
+    .map((_, idx) => exportFileName(idx))
+    .filter(file => existingFiles.includes(file) && !staleFiles.includes(file));
+  if (clashingFiles.length > 0) {
+    showMessage(
+      "error",
+      `The folder already contains ${clashingFiles.join(", ")}, which weren't created by an ` +
+        "export. Please choose another folder.",
+    );
+    return;
+  }
+  if (staleFiles.length > 0) {
+    const choice = await vscode.window.showWarningMessage(
+      "The folder contains configurations from a previous export, which will be deleted: " +
+        `${staleFiles.join(", ")}`,
+      { modal: true },
+      "Delete and export",
+    );
+    if (choice !== "Delete and export") {
+      showMessage("info", "Operation cancelled.");
+      return;
+    }
+    staleFiles.forEach(file => rmSync(path.join(exportDir, file)));
+  }
+
+  configs.forEach((config, idx) => {
+    const fileName = exportFileName(idx);
+    const fileBase = path.basename(fileName, ".json");
+    const exportedConfig = {
+      scope: config.scope,
+      value: redactSecrets(fields, config.value as unknown as Record<string, unknown>, fileBase),
+    };
+    writeFileSync(path.join(exportDir, fileName), JSON.stringify(exportedConfig, undefined, 4));
+  });
+  showMessage("info", `Exported ${configs.length} configuration(s) to ${exportDir}`);
+}
+
+/**
+ * Imports monitoring configurations from a folder (e.g. as exported from another environment)
+ * into a deployed extension. The user maps each scope found in the files to a scope of this
+ * environment and provides the values of any secret placeholders. Configurations are created
+ * for the active version of the extension.
+ * @param extension the deployed extension to import configurations into
+ * @param oc a JSON output channel to communicate errors to
+ * @returns success of the operation
+ */
+export async function importMonitoringConfigurations(
+  extension: DeployedExtension,
+  oc: vscode.OutputChannel,
+): Promise<boolean> {
+  const importDir = await vscode.window
+    .showOpenDialog({
+      canSelectFiles: false,
+      canSelectFolders: true,
+      canSelectMany: false,
+      openLabel: "Import from here",
+      title: `Import configurations into ${extension.id}`,
+    })
+    .then(uris => uris?.[0].fsPath);
+  if (!importDir) {
+    showMessage("info", "Operation cancelled.");
+    return false;
+  }
+
+  const configs = readdirSync(importDir)
+    .filter(file => file.endsWith(".json"))
+    .flatMap(file => {
+      try {
+        const config = JSON.parse(
+          readFileSync(path.join(importDir, file)).toString(),
+        ) as Partial<MinimalConfiguration>;
+        return config.value && typeof config.scope === "string"
+          ? [config as MinimalConfiguration]
+          : [];
+      } catch {
+        return [];
+      }
+    });
+  if (configs.length === 0) {
+    showMessage("warn", "No monitoring configuration files found in this folder.");
+    return false;
+  }
+
+  // Map each scope to one of this environment
+  const scopeOptions = await getScopeOptions(extension.dt);
+  const scopeMapping: Record<string, string> = {};
+  for (const scope of new Set(configs.map(config => config.scope))) {
+    const choice = await vscode.window.showQuickPick(
+      [
+        { label: scope, description: "Keep as is", scope },
+        ...scopeOptions.map(option => ({
+          label: option.id,
+          description: option.displayName,
+          scope: option.id,
+        })),
+        { label: "Enter a scope manually", scope: undefined },
+      ],
+      {
+        title: `Scope in this environment for configurations running on ${scope}`,
+        ignoreFocusOut: true,
+      },
+    );
+    const targetScope =
+      choice && !choice.scope
+        ? await vscode.window.showInputBox({
+            title: `Scope in this environment for configurations running on ${scope}`,
+            placeHolder: "e.g. ag_group-default, HOST-XXXXXXXX, environment",
+            ignoreFocusOut: true,
+          })
+        : choice?.scope;
+    if (!targetScope) {
+      showMessage("info", "Operation cancelled.");
+      return false;
+    }
+    scopeMapping[scope] = targetScope;
+  }
+
+  // Collect the values of secret placeholders
+  const secrets: Record<string, string> = {};
+  for (const name of findSecretPlaceholders(configs.map(config => config.value))) {
+    const secret = await vscode.window.showInputBox({
+      title: `Value for secret ${name}`,
+      password: true,
+      ignoreFocusOut: true,
+    });
+    if (secret === undefined) {
+      showMessage("info", "Operation cancelled.");
+      return false;
+    }
+    secrets[name] = secret;
+  }
+
+  const importedConfigs = configs.map(config => ({
+    scope: scopeMapping[config.scope],
+    value: {
+      ...fillSecretPlaceholders(config.value, secrets),
+      version: extension.extensionVersion,
+    },
+  }));
+  return extension.dt.extensionsV2
+    .postMonitoringConfiguration(
+      extension.id,
+      importedConfigs as unknown as Record<string, unknown>,
+    )
+    .then(() => {
+      showMessage("info", `Imported ${importedConfigs.length} configuration(s).`);
+      return true;
+    })
+    .catch((err: DynatraceAPIError) => {
+      showMessage("error", `Import operation failed: ${err.message}`);
+      oc.replace(JSON.stringify(err.errorParams, undefined, 2));
+      oc.show();
+      return false;
+    });
+}
+
+/**
+ * Shows the execution logs of a deployed extension, or of one of its monitoring configurations,
+ * in a webview panel. Records of the last hour are shown first, then new ones are appended for
+ * as long as the panel stays open.
+ * @param item the deployed extension or monitoring configuration
+ * @param webviewPanelManager manager for the webview panel showing the logs
+ */
+export async function showExtensionLogs(
+  item: DeployedExtension | MonitoringConfiguration,
+  webviewPanelManager: WebviewPanelManager,
+) {
+  const [extensionName, configurationId] =
+    item.contextValue === "monitoringConfiguration"
+      ? [item.extensionName, item.id]
+      : [item.id, undefined];
+  const query = buildExtensionLogQuery(extensionName, configurationId);
+  if (logTail) {
+    clearInterval(logTail);
+    logTail = undefined;
+  }
+
+  const records = await item.dt.logs
+    .search(query, "now-1h", undefined, 1000, "-timestamp")
+    .catch((err: DynatraceAPIError) => {
+      showMessage(
+        "error",
+        `Could not read logs: ${err.message}. Make sure your token has the logs.read scope.`,
+      );
+      return undefined;
+    });
+  if (!records) {
+    return;
+  }
+  const entries = toLogEntries(records).reverse();
+  let lastTimestamp = entries.length > 0 ? entries[entries.length - 1].timestamp : Date.now();
+  const seen = new Map<string, number>();
+  dropSeenLogEntries(entries, seen, lastTimestamp - LOG_TAIL_OVERLAP);
+
+  const title = item.label?.toString() ?? item.id;
+  const logsData: ExtensionLogsData = { extensionName, configurationId, title, entries };
+  webviewPanelManager.render(REGISTERED_PANELS.EXTENSION_LOGS, `Logs: ${title}`, {
+    dataType: "EXTENSION_LOGS",
+    data: logsData,
+  });
+
+  // Tail the logs until the panel is closed or shows another extension/configuration
+  const tail = setInterval(() => {
+    if (!webviewPanelManager.isOpen(REGISTERED_PANELS.EXTENSION_LOGS)) {
+      clearInterval(tail);
+      return;
+    }
+    item.dt.logs
+      .search(query, String(lastTimestamp - LOG_TAIL_OVERLAP), undefined, 1000, "timestamp")
+      .then(newRecords => {
+        if (newRecords.length > 0) {
+          lastTimestamp = Math.max(lastTimestamp, newRecords[newRecords.length - 1].timestamp);
+        }
+        const newEntries = dropSeenLogEntries(
+          toLogEntries(newRecords),
+          seen,
+          lastTimestamp - LOG_TAIL_OVERLAP,
+        );
+        if (newEntries.length > 0) {
+          webviewPanelManager.postMessage(REGISTERED_PANELS.EXTENSION_LOGS, {
+            messageType: "appendLogs",
+            data: newEntries,
+          });
+        }
+      })
+      .catch(err => {
+        console.log(`Could not read new log records. ${(err as Error).message}`);
+      });
+  }, LOG_TAIL_INTERVAL);
+  logTail = tail;
+}
+
 /**
  * Opens the Extension configuration page in the browser.
  * @param extension extension clicked on
@@ -605,3 +998,158 @@ export async function openExtension(extension: DeployedExtension) {
 
   await vscode.env.openExternal(vscode.Uri.parse(`${baseUrl}/ui/hub/ext/${extension.id}`));
 }
+
+/**
+ * Prompts the user to select one of the versions of a deployed extension.
+ * @param extension the deployed extension
+ * @param title title of the selection prompt
+ * @param excludeActive whether the currently active version should be left out
+ * @returns the selected version or undefined if none was selected (or versions can't be listed)
+ */
+async function selectExtensionVersion(
+  extension: DeployedExtension,
+  title: string,
+  excludeActive: boolean = false,
+): Promise<string | undefined> {
+  const versions = extension.dt.extensionsV2.listVersions(extension.id).then(res =>
+    res
+      .map(v => v.version)
+      .filter(v => !excludeActive || v !== extension.extensionVersion)
+      .reverse()
+      .map(
+        (v): vscode.QuickPickItem => ({
+          label: v,
+          description: v === extension.extensionVersion ? "active" : undefined,
+        }),
+      ),
+  );
+  try {
+    const selection = await vscode.window.showQuickPick(versions, {
+      title,
+      canPickMany: false,
+      ignoreFocusOut: true,
+    });
+    return selection?.label;
+  } catch (err) {
+    showMessage("error", `Could not list versions of ${extension.id}: ${(err as Error).message}`);
+    return undefined;
+  }
+}
+
+/**
+ * Activates a version of a deployed extension, replacing the currently active one. This can
+ * be used to roll back to an earlier version. If no version is given, the user is prompted
+ * to select one of the versions deployed in the environment.
+ * @param extension the deployed extension
+ * @param version optional version to activate
+ * @returns the success of the operation
+ */
+export async function activateExtensionVersion(
+  extension: DeployedExtension,
+  version?: string,
+): Promise<boolean> {
+  const selectedVersion =
+    version ?? (await selectExtensionVersion(extension, "Choose a version to activate", true));
+  if (!selectedVersion) {
+    showMessage("error", "No version selected. Operation cancelled.");
+    return false;
+  }
+
+  const confirm = await vscode.window.showQuickPick(["Yes", "No"], {
+    title: `Replace active version ${extension.extensionVersion} with ${selectedVersion}?`,
+    canPickMany: false,
+    ignoreFocusOut: true,
+  });
+  if (confirm !== "Yes") {
+    showMessage("info", "Operation cancelled.");
+    return false;
+  }
+
+  return extension.dt.extensionsV2
+    .putEnvironmentConfiguration(extension.id, selectedVersion)
+    .then(() => {
+      showMessage("info", `Version ${selectedVersion} activated successfully.`);
+      return true;
+    })
+    .catch((err: DynatraceAPIError) => {
+      showMessage("error", `Activation failed: ${err.message}`);
+      return false;
+    });
+}
+
+/**
+ * Compares a version of a deployed extension against the extension in the currently open
+ * workspace. The deployed package is downloaded and a structured diff of the metrics, feature
+ * sets and screens is written to the output channel. From there, the user can open a text diff
+ * of the two extension.yaml files or activate the deployed version.
+ * @param extension the deployed extension to compare against
+ * @param context vscode.ExtensionContext
+ * @param oc a JSON output channel to write the diff to
+ * @returns true if the deployed version was activated, false otherwise
+ */
+export async function compareExtensionVersion(
+  extension: DeployedExtension,
+  context: vscode.ExtensionContext,
+  oc: vscode.OutputChannel,
+): Promise<boolean> {
+  const extensionFile = getExtensionFilePath();
+  if (!extensionFile) {
+    showMessage("error", "Open the workspace of this extension to compare it.");
+    return false;
+  }
+  const localContent = readFileSync(extensionFile).toString();
+  const localExtension = yaml.parse(localContent) as ExtensionStub;
+  if (localExtension.name !== extension.id) {
+    showMessage("error", `The open workspace is not for extension ${extension.id}.`);
+    return false;
+  }
+
+  const version = await selectExtensionVersion(extension, "Choose a version to compare with");
+  if (!version) {
+    showMessage("error", "No version selected. Operation cancelled.");
+    return false;
+  }
+
+  // Download the deployed version and compare it to the local one
+  let deployedContent: string;
+  try {
+    deployedContent = await vscode.window.withProgress(
+      { location: vscode.ProgressLocation.Notification, title: `Downloading version ${version}` },
+      () =>
+        extension.dt.extensionsV2
+          .getExtension(extension.id, version, true)
+          .then(data => readManifestContentFromPackage(data as Buffer)),
+    );
+  } catch (err) {
+    showMessage("error", `Could not download version ${version}: ${(err as Error).message}`);
+    return false;
+  }
+  const diff = diffExtensions(yaml.parse(deployedContent) as ExtensionStub, localExtension);
+  oc.replace(JSON.stringify(diff, undefined, 2));
+  oc.show();
+
+  const choice = await vscode.window.showInformationMessage(
+    isEmptyDiff(diff)
+      ? `No differences in metrics, feature sets or screens found against version ${version}.`
+      : `Differences against version ${version} are shown in the output panel.`,
+    "Show YAML diff",
+    "Activate this version",
+  );
+  if (choice === "Show YAML diff") {
+    const deployedFile = path.resolve(
+      context.globalStorageUri.fsPath,
+      `${extension.id.replace(":", "_")}-${version}.yaml`,
+    );
+    writeFileSync(deployedFile, deployedContent);
+    await vscode.commands.executeCommand(
+      "vscode.diff",
+      vscode.Uri.file(deployedFile),
+      vscode.Uri.file(extensionFile),
+      `${extension.id}: ${version} ↔ workspace`,
+    );
+  }
+  if (choice === "Activate this version") {
+    return activateExtensionVersion(extension, version);
+  }
+  return false;
+}
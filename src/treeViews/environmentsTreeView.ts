@@ -17,11 +17,16 @@
 import path = require("path");
 import * as vscode from "vscode";
 import { Dynatrace } from "../dynatrace-api/dynatrace";
+import { OAuthCredentials } from "../dynatrace-api/oauth";
 import { DynatraceEnvironmentData } from "../interfaces/treeViewData";
 import { ConnectionStatusManager } from "../statusBar/connection";
 import { showMessage } from "../utils/code";
-import { decryptToken, encryptToken } from "../utils/cryptography";
-import { getAllEnvironments, registerEnvironment } from "../utils/fileSystem";
+import {
+  getAllEnvironments,
+  getEnvironmentToken,
+  getOAuthCredentials,
+  registerEnvironment,
+} from "../utils/fileSystem";
 import {
   addEnvironment,
   editEnvironment,
@@ -30,8 +35,12 @@ import {
   editMonitoringConfiguration,
   deleteMonitoringConfiguration,
   addMonitoringConfiguration,
+  exportMonitoringConfigurations,
+  importMonitoringConfigurations,
   saveMoniotringConfiguration,
   openExtension,
+  compareExtensionVersion,
+  activateExtensionVersion,
 } from "./commands/environments";
 
 const ICONS_PATH = path.join(__filename, "..", "..", "src", "assets", "icons");
@@ -67,6 +76,7 @@ export class DynatraceEnvironment extends vscode.TreeItem implements IDynatraceE
   apiUrl: string;
   token: string;
   current: boolean;
+  oauthClientId?: string;
   contextValue: "currentDynatraceEnvironment" | "dynatraceEnvironment";
 
   /**
@@ -76,6 +86,8 @@ export class DynatraceEnvironment extends vscode.TreeItem implements IDynatraceE
    * @param id the ID of id of this environment (Tenant ID)
    * @param label an optional label for displaying this environment (otherwise will use ID)
    * @param current whether this environment should be used for API operations currently
+   * @param apiUrl the URL for API calls, if different from the environment URL
+   * @param oauthCredentials OAuth client credentials for platform APIs, if any
    */
   constructor(
     collapsibleState: vscode.TreeItemCollapsibleState,
@@ -85,13 +97,19 @@ export class DynatraceEnvironment extends vscode.TreeItem implements IDynatraceE
     label?: string,
     current: boolean = false,
     apiUrl?: string,
+    oauthCredentials?: OAuthCredentials,
   ) {
     super(label ?? id, collapsibleState);
     this.url = url;
     this.apiUrl = apiUrl ?? url;
     this.token = token;
     this.id = id;
-    this.dt = new Dynatrace(this.apiUrl, this.token);
+    this.oauthClientId = oauthCredentials?.clientId;
+    this.dt = new Dynatrace(
+      this.apiUrl,
+      this.token,
+      oauthCredentials ? { url, credentials: oauthCredentials } : undefined,
+    );
     this.tooltip = id;
     this.current = current;
     this.contextValue = this.current ? "currentDynatraceEnvironment" : "dynatraceEnvironment";
@@ -252,9 +270,10 @@ export class EnvironmentsTreeDataProvider implements vscode.TreeDataProvider<Env
           context,
           environment.url,
           environment.apiUrl,
-          encryptToken(environment.token),
+          undefined,
           environment.label?.toString(),
           true,
+          environment.oauthClientId,
         );
         this.connectionStatus.clearConnectionChecks();
         this.connectionStatus
@@ -324,6 +343,45 @@ export class EnvironmentsTreeDataProvider implements vscode.TreeDataProvider<Env
         });
       },
     );
+    vscode.commands.registerCommand(
+      "dynatrace-extensions-environments.exportConfigs",
+      async (extension: DeployedExtension) => {
+        await exportMonitoringConfigurations(extension).catch(err => {
+          showMessage("error", `Unable to export configurations. ${(err as Error).message}`);
+        });
+      },
+    );
+    vscode.commands.registerCommand(
+      "dynatrace-extensions-environments.importConfigs",
+      async (extension: DeployedExtension) => {
+        await importMonitoringConfigurations(extension, this.oc).then(success => {
+          if (success) {
+            this.refresh();
+          }
+        });
+      },
+    );
+    // Commands for deployed extensions
+    vscode.commands.registerCommand(
+      "dynatrace-extensions-environments.compareExtension",
+      async (extension: DeployedExtension) => {
+        await compareExtensionVersion(extension, context, this.oc).then(activated => {
+          if (activated) {
+            this.refresh();
+          }
+        });
+      },
+    );
+    vscode.commands.registerCommand(
+      "dynatrace-extensions-environments.activateVersion",
+      async (extension: DeployedExtension) => {
+        await activateExtensionVersion(extension).then(success => {
+          if (success) {
+            this.refresh();
+          }
+        });
+      },
+    );
     // Other commands
     vscode.commands.registerCommand(
       "dynatrace-extensions-environments.openExtension",
@@ -413,20 +471,23 @@ export class EnvironmentsTreeDataProvider implements vscode.TreeDataProvider<Env
     }
 
     // If no item specified, grab all environments from global storage
-    return getAllEnvironments(this.context).map((environment: DynatraceEnvironmentData) => {
-      if (environment.current) {
-        this.connectionStatus.updateStatusBar(true, environment).catch(() => {});
-      }
-      return new DynatraceEnvironment(
-        vscode.TreeItemCollapsibleState.Collapsed,
-        environment.url,
-        decryptToken(environment.token),
-        environment.id,
-        environment.name,
-        environment.current,
-        environment.apiUrl,
-      );
-    });
+    return Promise.all(
+      getAllEnvironments(this.context).map(async (environment: DynatraceEnvironmentData) => {
+        if (environment.current) {
+          this.connectionStatus.updateStatusBar(true, environment).catch(() => {});
+        }
+        return new DynatraceEnvironment(
+          vscode.TreeItemCollapsibleState.Collapsed,
+          environment.url,
+          await getEnvironmentToken(this.context, environment),
+          environment.id,
+          environment.name,
+          environment.current,
+          environment.apiUrl,
+          await getOAuthCredentials(this.context, environment),
+        );
+      }),
+    );
   }
 
   /**
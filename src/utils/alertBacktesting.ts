@@ -0,0 +1,245 @@
+/**
+  Copyright 2022 Dynatrace LLC
+
+  Licensed under the Apache License, Version 2.0 (the "License");
+  you may not use this file except in compliance with the License.
+  You may obtain a copy of the License at
+
+      https://www.apache.org/licenses/LICENSE-2.0
+
+  Unless required by applicable law or agreed to in writing, software
+  distributed under the License is distributed on an "AS IS" BASIS,
+  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+  See the License for the specific language governing permissions and
+  limitations under the License.
+ */
+
+/********************************************************************************
+ * UTILITIES FOR REPLAYING ALERTS AGAINST HISTORICAL METRIC DATA
+ ********************************************************************************/
+
+import { MetricSeriesCollection } from "../dynatrace-api/interfaces/metrics";
+import { AlertDefinition, buildMetricSelector } from "./alerts";
+
+type MetricSeries = MetricSeriesCollection["data"][number];
+
+export interface BacktestEvent {
+  start: number;
+  end?: number;
+}
+
+export interface BacktestSeries {
+  name: string;
+  timestamps: number[];
+  values: (number | null)[];
+  lower: (number | null)[];
+  upper: (number | null)[];
+  events: BacktestEvent[];
+}
+
+export interface BacktestResult {
+  alertName: string;
+  metricSelector: string;
+  strategy: string;
+  eventCount: number;
+  series: BacktestSeries[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Calculates a percentile of sorted values (nearest rank).
+ * @param sorted values sorted in ascending order
+ * @param p percentile (0-100)
+ * @returns the percentile
+ */
+function percentile(sorted: number[], p: number): number {
+  const rank = Math.ceil((p / 100) * sorted.length) - 1;
+  return sorted[Math.min(Math.max(rank, 0), sorted.length - 1)];
+}
+
+/**
+ * Picks the reference values used for learning the normal behavior at a given day. Only data
+ * from earlier days is used, like Dynatrace does; when there is none (e.g. the first day of the
+ * timeframe), all data is used instead.
+ * @param samples samples to pick from
+ * @param day day to learn for
+ * @returns reference values
+ */
+function referenceValues(samples: { day: number; value: number }[], day: number): number[] {
+  const earlier = samples.filter(s => s.day < day).map(s => s.value);
+  return earlier.length > 0 ? earlier : samples.map(s => s.value);
+}
+
+/**
+ * Calculates the mean and standard deviation of values.
+ * @param values values to describe
+ * @returns mean and standard deviation
+ */
+function meanAndStdDev(values: number[]): [number, number] {
+  const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+  return [mean, Math.sqrt(values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / values.length)];
+}
+
+/**
+ * Works out the bounds of normal behavior for every sample of a series. Values above the upper
+ * or below the lower bound violate the alert condition.
+ *  - static thresholds use the threshold as the bound
+ *  - auto-adaptive thresholds use the 99th/1st percentile plus/minus the number of signal
+ *    fluctuations times the interquartile range, learned per day
+ *  - seasonal baselines use the mean plus/minus the tolerance times the standard deviation of
+ *    values at the same time of the day
+ * @param alert alert definition
+ * @param timestamps timestamps of the samples
+ * @param values values of the samples
+ * @returns lower and upper bounds per sample
+ */
+export function computeBounds(
+  alert: AlertDefinition,
+  timestamps: number[],
+  values: (number | null)[],
+): { lower: (number | null)[]; upper: (number | null)[] } {
+  const checkAbove = alert.alertCondition !== "BELOW";
+  const checkBelow = alert.alertCondition !== "ABOVE";
+
+  if (alert.strategy === "STATIC_THRESHOLD") {
+    return {
+      lower: timestamps.map(() => (checkBelow ? alert.threshold : null)),
+      upper: timestamps.map(() => (checkAbove ? alert.threshold : null)),
+    };
+  }
+
+  const samples: { day: number; slot: number; value: number }[] = [];
+  timestamps.forEach((ts, i) => {
+    const value = values[i];
+    if (value !== null) {
+      samples.push({ day: Math.floor(ts / DAY_MS), slot: ts % DAY_MS, value });
+    }
+  });
+  if (samples.length === 0) {
+    return { lower: timestamps.map(() => null), upper: timestamps.map(() => null) };
+  }
+
+  // Normal behavior is learned once per day (auto-adaptive) or per day and time of day (seasonal)
+  const learned = new Map<string, number[]>();
+  const bySlot = new Map<number, { day: number; value: number }[]>();
+  samples.forEach(({ day, slot, value }) =>
+    bySlot.set(slot, [...(bySlot.get(slot) ?? []), { day, value }]),
+  );
+  const overall = meanAndStdDev(samples.map(s => s.value));
+
+  const bounds = timestamps.map(ts => {
+    const day = Math.floor(ts / DAY_MS);
+    const slot = ts % DAY_MS;
+    const key = alert.strategy === "AUTO_ADAPTIVE_THRESHOLD" ? `${day}` : `${day}-${slot}`;
+    const cached = learned.get(key);
+    if (cached) {
+      return cached;
+    }
+
+    let dayBounds: number[];
+    if (alert.strategy === "AUTO_ADAPTIVE_THRESHOLD") {
+      const reference = referenceValues(samples, day).sort((a, b) => a - b);
+      const iqr = percentile(reference, 75) - percentile(reference, 25);
+      dayBounds = [
+        percentile(reference, 1) - alert.signalFluctuation * iqr,
+        percentile(reference, 99) + alert.signalFluctuation * iqr,
+      ];
+    } else {
+      const reference = referenceValues(bySlot.get(slot) ?? [], day);
+      const [mean, stdDev] = reference.length < 2 ? overall : meanAndStdDev(reference);
+      dayBounds = [mean - alert.tolerance * stdDev, mean + alert.tolerance * stdDev];
+    }
+    learned.set(key, dayBounds);
+    return dayBounds;
+  });
+
+  return {
+    lower: bounds.map(([lower]) => (checkBelow ? lower : null)),
+    upper: bounds.map(([, upper]) => (checkAbove ? upper : null)),
+  };
+}
+
+/**
+ * Replays the sliding window of an alert over a series of samples. An event opens once enough
+ * samples within the window violate the condition, and closes once enough consecutive samples
+ * don't. Missing samples only count as violating if the alert is set to alert on missing data.
+ * @param alert alert definition
+ * @param timestamps timestamps of the samples
+ * @param values values of the samples
+ * @param lower lower bounds of normal behavior per sample
+ * @param upper upper bounds of normal behavior per sample
+ * @returns events the alert would have raised
+ */
+export function evaluateAlert(
+  alert: AlertDefinition,
+  timestamps: number[],
+  values: (number | null)[],
+  lower: (number | null)[],
+  upper: (number | null)[],
+): BacktestEvent[] {
+  const violating = values.map((value, i) => {
+    if (value === null) {
+      return alert.alertOnMissingData;
+    }
+    const upperBound = upper[i];
+    const lowerBound = lower[i];
+    return (
+      (upperBound !== null && value > upperBound) || (lowerBound !== null && value < lowerBound)
+    );
+  });
+
+  const events: BacktestEvent[] = [];
+  let openEvent: BacktestEvent | undefined;
+  violating.forEach((_, i) => {
+    if (!openEvent) {
+      const window = violating.slice(Math.max(0, i - alert.samples + 1), i + 1);
+      if (window.filter(v => v).length >= alert.violatingSamples) {
+        openEvent = { start: timestamps[i] };
+        events.push(openEvent);
+      }
+    } else if (
+      i + 1 >= alert.dealertingSamples &&
+      violating.slice(i - alert.dealertingSamples + 1, i + 1).every(v => !v)
+    ) {
+      openEvent.end = timestamps[i];
+      openEvent = undefined;
+    }
+  });
+  return events;
+}
+
+/**
+ * Replays an alert against historical data of its metric.
+ * @param alert alert definition
+ * @param data metric data, as returned by the metrics query API (or a recording of it)
+ * @returns events the alert would have raised, per series
+ */
+export function backtestAlert(
+  alert: AlertDefinition,
+  data: MetricSeriesCollection[],
+): BacktestResult {
+  const series = data
+    .flatMap(collection => collection.data)
+    .map((metricSeries: MetricSeries): BacktestSeries => {
+      const values = metricSeries.values as (number | null)[];
+      const { lower, upper } = computeBounds(alert, metricSeries.timestamps, values);
+      return {
+        name:
+          metricSeries.dimensions.length > 0 ? metricSeries.dimensions.join(", ") : alert.metricKey,
+        timestamps: metricSeries.timestamps,
+        values,
+        lower,
+        upper,
+        events: evaluateAlert(alert, metricSeries.timestamps, values, lower, upper),
+      };
+    });
+
+  return {
+    alertName: alert.name,
+    metricSelector: buildMetricSelector(alert.metricKey, alert.filters),
+    strategy: alert.strategy,
+    eventCount: series.reduce((count, s) => count + s.events.length, 0),
+    series,
+  };
+}
@@ -0,0 +1,246 @@
+/**
+  Copyright 2022 Dynatrace LLC
+
+  Licensed under the Apache License, Version 2.0 (the "License");
+  you may not use this file except in compliance with the License.
+  You may obtain a copy of the License at
+
+      https://www.apache.org/licenses/LICENSE-2.0
+
+  Unless required by applicable law or agreed to in writing, software
+  distributed under the License is distributed on an "AS IS" BASIS,
+  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+  See the License for the specific language governing permissions and
+  limitations under the License.
+ */
+
+/********************************************************************************
+ * UTILITIES FOR WORKING WITH EXTENSION ALERTS (METRIC EVENTS)
+ ********************************************************************************/
+
+import * as crypto from "crypto";
+
+export type AlertStrategy = "STATIC_THRESHOLD" | "AUTO_ADAPTIVE_THRESHOLD" | "SEASONAL_BASELINE";
+export type AlertCondition = "ABOVE" | "BELOW" | "OUTSIDE";
+
+export interface DimensionFilter {
+  key: string;
+  value: string;
+  operator: "EQUALS" | "NOT_EQUALS";
+}
+
+/**
+ * Editable details of an alert, independent of how they're laid out in the alert's JSON file.
+ * Only the strategy-relevant value out of threshold, signal fluctuation and tolerance is used.
+ */
+export interface AlertDefinition {
+  name: string;
+  metricKey: string;
+  filters: DimensionFilter[];
+  strategy: AlertStrategy;
+  alertCondition: AlertCondition;
+  threshold: number;
+  signalFluctuation: number;
+  tolerance: number;
+  samples: number;
+  violatingSamples: number;
+  dealertingSamples: number;
+  alertOnMissingData: boolean;
+  primaryDimensionKey?: string;
+}
+
+/**
+ * Alert conditions that can be used with each monitoring strategy.
+ */
+export const STRATEGY_CONDITIONS: Record<AlertStrategy, AlertCondition[]> = {
+  STATIC_THRESHOLD: ["ABOVE", "BELOW"],
+  AUTO_ADAPTIVE_THRESHOLD: ["ABOVE", "BELOW", "OUTSIDE"],
+  SEASONAL_BASELINE: ["ABOVE", "BELOW", "OUTSIDE"],
+};
+
+const DEFAULT_DESCRIPTION =
+  "The {metricname} value was {alert_condition} normal behavior. Dimensions: {dims}";
+const FILTER_PATTERN = /(eq|ne)\("((?:[^"\\]|\\.)*)","((?:[^"\\]|\\.)*)"\)/g;
+
+/**
+ * Creates the definition of a new alert with the same defaults as Dynatrace.
+ * @param name name of the alert
+ * @param metricKey key of the metric to alert on
+ * @returns alert definition
+ */
+export function newAlertDefinition(name: string, metricKey: string): AlertDefinition {
+  return {
+    name,
+    metricKey,
+    filters: [],
+    strategy: "STATIC_THRESHOLD",
+    alertCondition: "ABOVE",
+    threshold: 0,
+    signalFluctuation: 1,
+    tolerance: 4,
+    samples: 5,
+    violatingSamples: 3,
+    dealertingSamples: 5,
+    alertOnMissingData: false,
+  };
+}
+
+/**
+ * Builds a metric selector that applies dimension filters to a metric.
+ * @param metricKey key of the metric
+ * @param filters dimension filters to apply
+ * @returns metric selector
+ */
+export function buildMetricSelector(metricKey: string, filters: DimensionFilter[]): string {
+  if (filters.length === 0) {
+    return metricKey;
+  }
+  const escape = (text: string) => text.replace(/\\/g, "\\\\").replace(/"/g, '\\"');
+  const conditions = filters.map(
+    f => `${f.operator === "EQUALS" ? "eq" : "ne"}("${escape(f.key)}","${escape(f.value)}")`,
+  );
+  return `${metricKey}:filter(and(${conditions.join(",")}))`;
+}
+
+/**
+ * Extracts the metric key and dimension filters from a metric selector. Only selectors built
+ * with {@link buildMetricSelector} are fully understood; anything else is kept as metric key.
+ * @param selector metric selector
+ * @returns metric key and dimension filters
+ */
+export function parseMetricSelector(selector: string): {
+  metricKey: string;
+  filters: DimensionFilter[];
+} {
+  const match = /^([^:]+):filter\(and\((.*)\)\)$/.exec(selector);
+  if (!match) {
+    return { metricKey: selector, filters: [] };
+  }
+  const unescape = (text: string) => text.replace(/\\(.)/g, "$1");
+  const filters = [...match[2].matchAll(FILTER_PATTERN)].map(
+    ([, operator, key, value]): DimensionFilter => ({
+      key: unescape(key),
+      value: unescape(value),
+      operator: operator === "eq" ? "EQUALS" : "NOT_EQUALS",
+    }),
+  );
+  return { metricKey: match[1], filters };
+}
+
+/**
+ * Validates the sliding window of an alert.
+ * @param samples number of samples in the window
+ * @param violatingSamples samples that must violate the condition to raise an event
+ * @param dealertingSamples samples that must not violate the condition to close the event
+ * @returns error message if the window is invalid, undefined otherwise
+ */
+export function validateSampleWindow(
+  samples: number,
+  violatingSamples: number,
+  dealertingSamples: number,
+): string | undefined {
+  if (![samples, violatingSamples, dealertingSamples].every(Number.isInteger)) {
+    return "Sample counts must be whole numbers";
+  }
+  if (samples < 3 || samples > 60) {
+    return "Sliding window must have between 3 and 60 samples";
+  }
+  if (violatingSamples < 1 || violatingSamples > samples) {
+    return `Violating samples must be between 1 and ${samples}`;
+  }
+  if (dealertingSamples < 1 || dealertingSamples > samples) {
+    return `Dealerting samples must be between 1 and ${samples}`;
+  }
+  return undefined;
+}
+
+/**
+ * Reads the definition of an alert from the content of its JSON file.
+ * @param alertJson content of the alert file
+ * @returns alert definition
+ */
+export function fromAlertJson(alertJson: Record<string, unknown>): AlertDefinition {
+  const strategy = (alertJson.monitoringStrategy ?? {}) as Record<string, unknown>;
+  const { metricKey, filters } = parseMetricSelector(String(alertJson.metricSelector ?? ""));
+  const defaults = newAlertDefinition(String(alertJson.name ?? ""), metricKey);
+  const numberOr = (value: unknown, fallback: number) =>
+    typeof value === "number" ? value : fallback;
+
+  return {
+    ...defaults,
+    filters,
+    strategy: (strategy.type as AlertStrategy | undefined) ?? defaults.strategy,
+    alertCondition:
+      (strategy.alertCondition as AlertCondition | undefined) ??
+      (alertJson.alertCondition as AlertCondition | undefined) ??
+      defaults.alertCondition,
+    threshold: numberOr(strategy.threshold ?? alertJson.threshold, defaults.threshold),
+    signalFluctuation: numberOr(strategy.signalFluctuation, defaults.signalFluctuation),
+    tolerance: numberOr(strategy.tolerance, defaults.tolerance),
+    samples: numberOr(strategy.samples ?? alertJson.samples, defaults.samples),
+    violatingSamples: numberOr(
+      strategy.violatingSamples ?? alertJson.violatingSamples,
+      defaults.violatingSamples,
+    ),
+    dealertingSamples: numberOr(
+      strategy.dealertingSamples ?? alertJson.dealertingSamples,
+      defaults.dealertingSamples,
+    ),
+    alertOnMissingData: strategy.alertingOnMissingData === true,
+    primaryDimensionKey: (alertJson.primaryDimensionKey as string | null | undefined) ?? undefined,
+  };
+}
+
+/**
+ * Creates the content of an alert's JSON file from its definition. When editing an existing
+ * alert, any details not covered by the definition (e.g. id, description) are kept.
+ * @param definition alert definition
+ * @param existing current content of the alert file, if any
+ * @returns content for the alert file
+ */
+export function toAlertJson(
+  definition: AlertDefinition,
+  existing: Record<string, unknown> = {},
+): Record<string, unknown> {
+  const monitoringStrategy: Record<string, unknown> = {
+    type: definition.strategy,
+    violatingSamples: definition.violatingSamples,
+    samples: definition.samples,
+    dealertingSamples: definition.dealertingSamples,
+    alertCondition: definition.alertCondition,
+    alertingOnMissingData: definition.alertOnMissingData,
+  };
+  switch (definition.strategy) {
+    case "STATIC_THRESHOLD":
+      monitoringStrategy.threshold = definition.threshold;
+      break;
+    case "AUTO_ADAPTIVE_THRESHOLD":
+      monitoringStrategy.signalFluctuation = definition.signalFluctuation;
+      break;
+    case "SEASONAL_BASELINE":
+      monitoringStrategy.tolerance = definition.tolerance;
+      break;
+  }
+
+  const alertJson: Record<string, unknown> = {
+    ...existing,
+    id: existing.id ?? crypto.randomUUID(),
+    metricSelector: buildMetricSelector(definition.metricKey, definition.filters),
+    name: definition.name,
+    description: existing.description ?? DEFAULT_DESCRIPTION,
+    enabled: existing.enabled ?? true,
+    monitoringStrategy,
+    primaryDimensionKey: definition.primaryDimensionKey ?? null,
+    alertCondition: definition.alertCondition,
+    samples: definition.samples,
+    violatingSamples: definition.violatingSamples,
+    dealertingSamples: definition.dealertingSamples,
+    threshold: definition.threshold,
+    eventType: existing.eventType ?? "CUSTOM_ALERT",
+  };
+  // A fixed threshold only applies to static alerts
+  if (definition.strategy !== "STATIC_THRESHOLD") {
+    delete alertJson.threshold;
+  }
+  return alertJson;
+}
@@ -0,0 +1,144 @@
+/**
+  Copyright 2022 Dynatrace LLC
+
+  Licensed under the Apache License, Version 2.0 (the "License");
+  you may not use this file except in compliance with the License.
+  You may obtain a copy of the License at
+
+      https://www.apache.org/licenses/LICENSE-2.0
+
+  Unless required by applicable law or agreed to in writing, software
+  distributed under the License is distributed on an "AS IS" BASIS,
+  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+  See the License for the specific language governing permissions and
+  limitations under the License.
+ */
+
+/********************************************************************************
+ * UTILITIES FOR INSPECTING CERTIFICATES AND TRACKING THEIR DISTRIBUTION
+ ********************************************************************************/
+
+import { asn1, md, pem, pki } from "node-forge";
+import type * as vscode from "vscode";
+
+const DISTRIBUTIONS_KEY = "certificateDistributions";
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface CertificateDetails {
+  subject: string;
+  issuer: string;
+  serialNumber: string;
+  fingerprint: string;
+  notBefore: Date;
+  notAfter: Date;
+}
+
+export type ExpiryStatus = "valid" | "expiring" | "expired";
+
+/**
+ * Details of a CA certificate uploaded to the credential vault of an environment.
+ */
+export interface CertificateDistribution {
+  credentialId: string;
+  fingerprint: string;
+}
+
+/**
+ * Formats the attributes of a certificate subject or issuer as a distinguished name.
+ * @param attributes certificate field attributes
+ * @returns distinguished name (e.g. "CN=Extension Developer Root, O=Dynatrace")
+ */
+function toDistinguishedName(attributes: pki.CertificateField[]): string {
+  return attributes
+    .map(attr => `${attr.shortName ?? attr.name ?? attr.type ?? "?"}=${String(attr.value)}`)
+    .join(", ");
+}
+
+/**
+ * Reads the details of the first certificate found in PEM content. The content may hold other
+ * blocks too (e.g. merged certificate and key files).
+ * @param pemContent PEM encoded content
+ * @returns certificate details
+ */
+export function readCertificateDetails(pemContent: string): CertificateDetails {
+  const block = pem.decode(pemContent).find(b => b.type === "CERTIFICATE");
+  if (!block) {
+    throw new Error("No certificate found in the PEM content");
+  }
+  const cert = pki.certificateFromAsn1(asn1.fromDer(block.body));
+  const fingerprint = md.sha256
+    .create()
+    .update(block.body)
+    .digest()
+    .toHex()
+    .toUpperCase()
+    .replace(/(..)(?!$)/g, "$1:");
+
+  return {
+    subject: toDistinguishedName(cert.subject.attributes),
+    issuer: toDistinguishedName(cert.issuer.attributes),
+    serialNumber: cert.serialNumber,
+    fingerprint,
+    notBefore: cert.validity.notBefore,
+    notAfter: cert.validity.notAfter,
+  };
+}
+
+/**
+ * Calculates the number of whole days left until a certificate expires.
+ * @param details certificate details
+ * @param now the moment to calculate from
+ * @returns number of days; negative if the certificate has already expired
+ */
+export function getDaysUntilExpiry(details: CertificateDetails, now: Date = new Date()): number {
+  return Math.floor((details.notAfter.getTime() - now.getTime()) / DAY_MS);
+}
+
+/**
+ * Classifies a certificate by how close it is to expiring.
+ * @param details certificate details
+ * @param warningDays how many days before expiry a certificate counts as expiring
+ * @param now the moment to check against
+ * @returns expiry status
+ */
+export function getExpiryStatus(
+  details: CertificateDetails,
+  warningDays: number,
+  now: Date = new Date(),
+): ExpiryStatus {
+  if (details.notAfter.getTime() <= now.getTime()) {
+    return "expired";
+  }
+  return getDaysUntilExpiry(details, now) < warningDays ? "expiring" : "valid";
+}
+
+/**
+ * Gets the CA certificates this workspace uploaded to credential vaults, by environment URL.
+ * @param context VSCode Extension Context
+ * @returns distributions by environment URL
+ */
+export function getCertificateDistributions(
+  context: vscode.ExtensionContext,
+): Partial<Record<string, CertificateDistribution>> {
+  return (
+    context.workspaceState.get<Partial<Record<string, CertificateDistribution>>>(
+      DISTRIBUTIONS_KEY,
+    ) ?? {}
+  );
+}
+
+/**
+ * Records that a CA certificate was uploaded to the credential vault of an environment.
+ * @param context VSCode Extension Context
+ * @param environmentUrl URL of the environment
+ * @param distribution details of the uploaded credential
+ */
+export async function recordCertificateDistribution(
+  context: vscode.ExtensionContext,
+  environmentUrl: string,
+  distribution: CertificateDistribution,
+) {
+  const distributions = getCertificateDistributions(context);
+  distributions[environmentUrl] = distribution;
+  await context.workspaceState.update(DISTRIBUTIONS_KEY, distributions);
+}
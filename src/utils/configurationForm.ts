@@ -0,0 +1,323 @@
+/**
+  Copyright 2022 Dynatrace LLC
+
+  Licensed under the Apache License, Version 2.0 (the "License");
+  you may not use this file except in compliance with the License.
+  You may obtain a copy of the License at
+
+      https://www.apache.org/licenses/LICENSE-2.0
+
+  Unless required by applicable law or agreed to in writing, software
+  distributed under the License is distributed on an "AS IS" BASIS,
+  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+  See the License for the specific language governing permissions and
+  limitations under the License.
+ */
+
+/********************************************************************************
+ * UTILITIES FOR BUILDING MONITORING CONFIGURATION FORMS FROM SCHEMAS
+ ********************************************************************************/
+
+import type { Dynatrace } from "../dynatrace-api/dynatrace";
+
+export type FormFieldType =
+  | "text"
+  | "secret"
+  | "boolean"
+  | "integer"
+  | "float"
+  | "time"
+  | "enum"
+  | "object"
+  | "list";
+
+export interface FormPrecondition {
+  type: "EQUALS" | "IN" | "NULL" | "NOT" | "AND" | "OR";
+  property?: string;
+  expectedValue?: unknown;
+  expectedValues?: unknown[];
+  precondition?: FormPrecondition;
+  preconditions?: FormPrecondition[];
+}
+
+export interface FormOption {
+  value: string;
+  displayName: string;
+}
+
+/**
+ * A field of the configuration form. Objects hold their properties as sub-fields, lists hold
+ * the definition of their items.
+ */
+export interface FormField {
+  key: string;
+  displayName: string;
+  description?: string;
+  type: FormFieldType;
+  required: boolean;
+  defaultValue?: unknown;
+  options?: FormOption[];
+  fields?: FormField[];
+  items?: FormField;
+  precondition?: FormPrecondition;
+}
+
+export interface ScopeOption {
+  id: string;
+  displayName: string;
+  activationContext: "LOCAL" | "REMOTE";
+}
+
+/**
+ * Everything the configuration form webview needs to render.
+ */
+export interface ConfigurationFormData {
+  extensionName: string;
+  extensionVersion: string;
+  fields: FormField[];
+  value: Record<string, unknown>;
+  scope: string;
+  scopes: ScopeOption[];
+}
+
+type SchemaProperty = Record<string, unknown> & {
+  type?: string | { $ref: string };
+  items?: { type: string | { $ref: string } };
+};
+
+interface FormSchema {
+  properties?: Record<string, SchemaProperty>;
+  enums?: Record<string, { items?: { value: unknown; displayName?: string }[] }>;
+  types?: Record<string, { properties?: Record<string, SchemaProperty> }>;
+}
+
+const PRIMITIVE_TYPES: Partial<Record<string, FormFieldType>> = {
+  text: "text",
+  secret: "secret",
+  boolean: "boolean",
+  integer: "integer",
+  float: "float",
+  local_time: "time",
+};
+
+/**
+ * Converts a type of a schema property (a primitive name or a reference) into a form field.
+ * @param schema the whole schema, for resolving references
+ * @param type the type of the property
+ * @param base details of the field that don't depend on its type
+ * @param visitedTypes types already being expanded, to stop at circular references
+ * @returns form field or undefined if the type is not supported
+ */
+function toField(
+  schema: FormSchema,
+  type: string | { $ref: string },
+  base: Omit<FormField, "type">,
+  visitedTypes: string[],
+): FormField | undefined {
+  if (typeof type === "string") {
+    const fieldType = PRIMITIVE_TYPES[type];
+    return fieldType ? { ...base, type: fieldType } : undefined;
+  }
+  const [, kind, name] = type.$ref.split("/");
+  if (kind === "enums") {
+    const options = (schema.enums?.[name]?.items ?? []).map(item => ({
+      value: String(item.value),
+      displayName: item.displayName ?? String(item.value),
+    }));
+    return { ...base, type: "enum", options };
+  }
+  if (kind === "types" && !visitedTypes.includes(name)) {
+    // eslint-disable-next-line @typescript-eslint/no-use-before-define
+    const fields = buildFields(schema, schema.types?.[name]?.properties ?? {}, [
+      ...visitedTypes,
+      name,
+    ]);
+    return { ...base, type: "object", fields };
+  }
+  return undefined;
+}
+
+/**
+ * Converts schema properties into form fields. Properties of unsupported types are left out.
+ * @param schema the whole schema, for resolving references
+ * @param properties the properties to convert
+ * @param visitedTypes types already being expanded, to stop at circular references
+ * @returns list of form fields
+ */
+function buildFields(
+  schema: FormSchema,
+  properties: Record<string, SchemaProperty>,
+  visitedTypes: string[],
+): FormField[] {
+  return Object.entries(properties).flatMap(([key, property]) => {
+    if (!property.type) {
+      return [];
+    }
+    const base: Omit<FormField, "type"> = {
+      key,
+      displayName: typeof property.displayName === "string" ? property.displayName : key,
+      description:
+        typeof property.description === "string" && property.description !== ""
+          ? property.description
+          : undefined,
+      required: property.nullable === false,
+      defaultValue: property.default,
+      precondition: property.precondition as FormPrecondition | undefined,
+    };
+    let field: FormField | undefined;
+    if ((property.type === "list" || property.type === "set") && property.items) {
+      const items = toField(
+        schema,
+        property.items.type,
+        { key: "items", displayName: base.displayName, required: true },
+        visitedTypes,
+      );
+      field = items ? { ...base, type: "list", items } : undefined;
+    } else {
+      field = toField(schema, property.type, base, visitedTypes);
+    }
+    return field ? [field] : [];
+  });
+}
+
+/**
+ * Builds the fields of a configuration form from an extension schema (Settings 2.0 format, as
+ * served by the environment or found in activationSchema.json).
+ * @param schema the schema
+ * @returns list of form fields
+ */
+export function buildFormFields(schema: unknown): FormField[] {
+  return buildFields(
+    schema as FormSchema,
+    (schema as FormSchema | undefined)?.properties ?? {},
+    [],
+  );
+}
+
+/**
+ * Checks whether a precondition is met by the values next to the field it belongs to.
+ * @param precondition the precondition
+ * @param value object holding the field and its siblings
+ * @returns true if the precondition is met
+ */
+export function meetsPrecondition(
+  precondition: FormPrecondition,
+  value: Record<string, unknown>,
+): boolean {
+  const propertyValue = precondition.property ? value[precondition.property] : undefined;
+  switch (precondition.type) {
+    case "EQUALS":
+      return propertyValue === precondition.expectedValue;
+    case "IN":
+      return (precondition.expectedValues ?? []).includes(propertyValue);
+    case "NULL":
+      return propertyValue === undefined || propertyValue === null;
+    case "NOT":
+      return !precondition.precondition || !meetsPrecondition(precondition.precondition, value);
+    case "AND":
+      return (precondition.preconditions ?? []).every(p => meetsPrecondition(p, value));
+    case "OR":
+      return (precondition.preconditions ?? []).some(p => meetsPrecondition(p, value));
+    default:
+      return true;
+  }
+}
+
+/**
+ * Checks whether a value counts as missing for a required field.
+ * @param field the field
+ * @param value the value of the field
+ * @returns true if the value is missing
+ */
+function isMissing(field: FormField, value: unknown): boolean {
+  if (value === undefined || value === null) {
+    return true;
+  }
+  if (field.type === "list") {
+    return !Array.isArray(value) || value.length === 0;
+  }
+  return typeof value === "string" && value.trim() === "";
+}
+
+/**
+ * Validates a configuration value against the form fields. Only fields whose preconditions are
+ * met are checked.
+ * @param fields the form fields
+ * @param value the configuration value
+ * @param path path of the value within the whole configuration, used as error key prefix
+ * @returns error messages by field path (e.g. "prometheusRemote.endpoints.0.url")
+ */
+export function validateConfiguration(
+  fields: FormField[],
+  value: Record<string, unknown>,
+  path: string = "",
+): Record<string, string> {
+  const errors: Record<string, string> = {};
+  for (const field of fields) {
+    if (field.precondition && !meetsPrecondition(field.precondition, value)) {
+      continue;
+    }
+    const fieldPath = `${path}${field.key}`;
+    const fieldValue = value[field.key];
+    if (field.required && isMissing(field, fieldValue)) {
+      errors[fieldPath] = `${field.displayName} is required`;
+      continue;
+    }
+    if (field.type === "object" && field.fields && typeof fieldValue === "object" && fieldValue) {
+      Object.assign(
+        errors,
+        validateConfiguration(field.fields, fieldValue as Record<string, unknown>, `${fieldPath}.`),
+      );
+    }
+    if (field.type === "list" && field.items && Array.isArray(fieldValue)) {
+      // List items are validated like properties keyed by their index
+      const items = field.items;
+      const itemFields = fieldValue.map((_, idx) => ({ ...items, key: String(idx) }));
+      Object.assign(
+        errors,
+        validateConfiguration(
+          itemFields,
+          { ...fieldValue } as Record<string, unknown>,
+          `${fieldPath}.`,
+        ),
+      );
+    }
+  }
+  return errors;
+}
+
+/**
+ * Collects the scopes a monitoring configuration can be assigned to - ActiveGate groups for
+ * remote configurations, hosts and host groups for local ones. Failing API calls just mean fewer
+ * options, the scope can still be typed in.
+ * @param dt Dynatrace client
+ * @returns list of scope options
+ */
+export async function getScopeOptions(dt: Dynatrace): Promise<ScopeOption[]> {
+  const [activeGates, hosts, hostGroups] = await Promise.all([
+    dt.activeGates.list().catch(() => []),
+    dt.entitiesV2.list("type(HOST)").catch(() => []),
+    dt.entitiesV2.list("type(HOST_GROUP)").catch(() => []),
+  ]);
+  const groups = [...new Set(activeGates.map(activeGate => activeGate.group))].filter(
+    group => group,
+  );
+
+  return [
+    ...groups.map(group => ({
+      id: `ag_group-${group}`,
+      displayName: `ActiveGate group: ${group}`,
+      activationContext: "REMOTE" as const,
+    })),
+    ...hosts.map(host => ({
+      id: host.entityId,
+      displayName: `Host: ${host.displayName}`,
+      activationContext: "LOCAL" as const,
+    })),
+    ...hostGroups.map(hostGroup => ({
+      id: hostGroup.entityId,
+      displayName: `Host group: ${hostGroup.displayName}`,
+      activationContext: "LOCAL" as const,
+    })),
+  ];
+}
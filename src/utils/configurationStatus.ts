@@ -0,0 +1,100 @@
+/**
+  Copyright 2022 Dynatrace LLC
+
+  Licensed under the Apache License, Version 2.0 (the "License");
+  you may not use this file except in compliance with the License.
+  You may obtain a copy of the License at
+
+      https://www.apache.org/licenses/LICENSE-2.0
+
+  Unless required by applicable law or agreed to in writing, software
+  distributed under the License is distributed on an "AS IS" BASIS,
+  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+  See the License for the specific language governing permissions and
+  limitations under the License.
+ */
+
+/********************************************************************************
+ * UTILITIES FOR TRACKING THE STATUS HISTORY OF MONITORING CONFIGURATIONS
+ ********************************************************************************/
+
+/** Key under which the status history is kept in the workspace state */
+export const STATUS_HISTORY_KEY = "configurationStatusHistory";
+/** Number of status changes kept per configuration */
+const MAX_CHANGES = 50;
+
+export interface StatusChange {
+  status: string;
+  version: string;
+  timestamp: number;
+}
+
+export interface ConfigurationStatusHistory {
+  environmentId: string;
+  environmentName: string;
+  extensionName: string;
+  configurationId: string;
+  description: string;
+  changes: StatusChange[];
+}
+
+/** Status histories keyed by environment and configuration ID */
+export type StatusHistory = Record<string, ConfigurationStatusHistory>;
+
+/**
+ * A status of a monitoring configuration, as seen at a point in time.
+ */
+export interface StatusObservation extends Omit<ConfigurationStatusHistory, "changes"> {
+  status: string;
+  version: string;
+  timestamp: number;
+}
+
+/**
+ * Records an observed status in the history of its configuration. A change is only added when
+ * the status or the configured version differs from the latest one recorded.
+ * @param history the status history, updated in place
+ * @param observation the observed status
+ * @returns the previously recorded status if the status has changed, otherwise undefined (this
+ * includes the first observation of a configuration)
+ */
+export function recordStatus(
+  history: StatusHistory,
+  observation: StatusObservation,
+): StatusChange | undefined {
+  const { status, version, timestamp, ...details } = observation;
+  const key = `${observation.environmentId}/${observation.configurationId}`;
+  const entry = key in history ? history[key] : { ...details, changes: [] };
+  history[key] = { ...entry, ...details };
+
+  const latest = entry.changes.length > 0 ? entry.changes[entry.changes.length - 1] : undefined;
+  if (latest && latest.status === status && latest.version === version) {
+    return undefined;
+  }
+  history[key].changes = [...entry.changes, { status, version, timestamp }].slice(-MAX_CHANGES);
+  return latest && latest.status !== status ? latest : undefined;
+}
+
+/**
+ * Removes configurations that no longer exist from the history of an environment.
+ * @param history the status history
+ * @param environmentId ID of the environment that was checked
+ * @param extensionName name of the extension whose configurations were checked
+ * @param configurationIds IDs of the configurations that currently exist
+ * @returns the status history without the removed configurations
+ */
+export function pruneHistory(
+  history: StatusHistory,
+  environmentId: string,
+  extensionName: string,
+  configurationIds: string[],
+): StatusHistory {
+  return Object.fromEntries(
+    Object.entries(history).filter(
+      ([, entry]) =>
+        entry.environmentId !== environmentId ||
+        entry.extensionName !== extensionName ||
+        configurationIds.includes(entry.configurationId),
+    ),
+  );
+}
@@ -0,0 +1,202 @@
+/**
+  Copyright 2022 Dynatrace LLC
+
+  Licensed under the Apache License, Version 2.0 (the "License");
+  you may not use this file except in compliance with the License.
+  You may obtain a copy of the License at
+
+      https://www.apache.org/licenses/LICENSE-2.0
+
+  Unless required by applicable law or agreed to in writing, software
+  distributed under the License is distributed on an "AS IS" BASIS,
+  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+  See the License for the specific language governing permissions and
+  limitations under the License.
+ */
+
+/********************************************************************************
+ * UTILITIES FOR POLLING THE STATUS OF MONITORING CONFIGURATIONS
+ ********************************************************************************/
+
+import * as vscode from "vscode";
+import { Dynatrace } from "../dynatrace-api/dynatrace";
+import { DynatraceEnvironmentData } from "../interfaces/treeViewData";
+import {
+  STATUS_HISTORY_KEY,
+  StatusHistory,
+  pruneHistory,
+  recordStatus,
+} from "./configurationStatus";
+import { getAllEnvironments, getEnvironmentToken } from "./fileSystem";
+
+/**
+ * Periodically checks the status of all monitoring configurations of the workspace's extension,
+ * across all registered environments. Status changes are kept as a history in the workspace
+ * state and configurations that turn to ERROR (e.g. after deploying a new version) are raised as
+ * notifications.
+ */
+export class ConfigurationStatusPoller {
+  private readonly context: vscode.ExtensionContext;
+  private readonly getExtensionName: () => string | undefined;
+  private readonly onStatusChange: () => void;
+  private pollInterval: NodeJS.Timer | undefined;
+  private polling = false;
+
+  /**
+   * @param context vscode.ExtensionContext
+   * @param getExtensionName provides the name of the workspace's extension, if any
+   * @param onStatusChange called after a poll that found status changes
+   */
+  constructor(
+    context: vscode.ExtensionContext,
+    getExtensionName: () => string | undefined,
+    onStatusChange: () => void,
+  ) {
+    this.context = context;
+    this.getExtensionName = getExtensionName;
+    this.onStatusChange = onStatusChange;
+  }
+
+  /**
+   * (Re)starts polling at the given interval. An interval of 0 stops polling.
+   * @param intervalSeconds seconds between polls
+   */
+  public start(intervalSeconds: number) {
+    this.stop();
+    if (intervalSeconds > 0) {
+      this.pollInterval = setInterval(() => {
+        this.poll().catch(() => {});
+      }, intervalSeconds * 1000);
+    }
+  }
+
+  /**
+   * Stops polling.
+   */
+  public stop() {
+    if (this.pollInterval) {
+      clearInterval(this.pollInterval);
+      this.pollInterval = undefined;
+    }
+  }
+
+  /**
+   * Gets the recorded status history.
+   * @returns status history by environment and configuration
+   */
+  public getHistory(): StatusHistory {
+    return this.context.workspaceState.get<StatusHistory>(STATUS_HISTORY_KEY) ?? {};
+  }
+
+  /**
+   * Checks the status of all configurations once. Polls are skipped while another is running.
+   */
+  public async poll() {
+    const extensionName = this.getExtensionName();
+    if (!extensionName || this.polling) {
+      return;
+    }
+    this.polling = true;
+    try {
+      const environments = getAllEnvironments(this.context);
+      const history = this.getHistory();
+      const results = await Promise.all(
+        environments.map(environment =>
+          this.pollEnvironment(environment, extensionName, history).catch(err => {
+            console.log(
+              `Could not check configuration status in ${environment.id}. ${
+                (err as Error).message
+              }`,
+            );
+            return undefined;
+          }),
+        ),
+      );
+      // Configurations that were deleted meanwhile have no history worth keeping
+      const prunedHistory = results.reduce(
+        (current, result, idx) =>
+          result
+            ? pruneHistory(current, environments[idx].id, extensionName, result.configurationIds)
+            : current,
+        history,
+      );
+      await this.context.workspaceState.update(STATUS_HISTORY_KEY, prunedHistory);
+      if (results.some(result => result?.changed)) {
+        this.onStatusChange();
+      }
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  /**
+   * Checks the status of all configurations of the extension in one environment.
+   * @param environment the environment to check
+   * @param extensionName name of the extension
+   * @param history status history, updated in place
+   * @returns whether any status changed and the IDs of the configurations found
+   */
+  private async pollEnvironment(
+    environment: DynatraceEnvironmentData,
+    extensionName: string,
+    history: StatusHistory,
+  ): Promise<{ changed: boolean; configurationIds: string[] }> {
+    const dt = new Dynatrace(
+      environment.apiUrl,
+      await getEnvironmentToken(this.context, environment),
+    );
+    const configs = await dt.extensionsV2.listMonitoringConfigurations(extensionName);
+    const environmentName = environment.name ?? environment.id;
+    let changed = false;
+
+    for (const config of configs) {
+      const configurationId = config.objectId ?? "";
+      const { status } = await dt.extensionsV2.getMonitoringConfigurationStatus(
+        extensionName,
+        configurationId,
+      );
+      const previous = recordStatus(history, {
+        environmentId: environment.id,
+        environmentName,
+        extensionName,
+        configurationId,
+        description: config.value.description,
+        version: config.value.version,
+        status,
+        timestamp: Date.now(),
+      });
+      if (previous) {
+        changed = true;
+        if (status === "ERROR") {
+          this.notifyError(environmentName, config.value.description, config.value.version);
+        }
+      }
+    }
+    return { changed, configurationIds: configs.map(config => config.objectId ?? "") };
+  }
+
+  /**
+   * Notifies the user that a configuration has turned to ERROR.
+   * @param environmentName name of the environment
+   * @param description description of the configuration
+   * @param version version of the extension the configuration runs
+   */
+  private notifyError(environmentName: string, description: string, version: string) {
+    vscode.window
+      .showErrorMessage(
+        `Configuration "${description}" (version ${version}) in ${environmentName} ` +
+          "changed to ERROR.",
+        "Show status history",
+      )
+      .then(
+        choice => {
+          if (choice) {
+            vscode.commands
+              .executeCommand("dynatrace-extensions.showConfigurationStatusHistory")
+              .then(undefined, () => {});
+          }
+        },
+        () => {},
+      );
+  }
+}
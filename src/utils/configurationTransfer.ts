@@ -0,0 +1,150 @@
+/**
+  Copyright 2022 Dynatrace LLC
+
+  Licensed under the Apache License, Version 2.0 (the "License");
+  you may not use this file except in compliance with the License.
+  You may obtain a copy of the License at
+
+      https://www.apache.org/licenses/LICENSE-2.0
+
+  Unless required by applicable law or agreed to in writing, software
+  distributed under the License is distributed on an "AS IS" BASIS,
+  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+  See the License for the specific language governing permissions and
+  limitations under the License.
+ */
+
+/********************************************************************************
+ * UTILITIES FOR EXPORTING AND IMPORTING MONITORING CONFIGURATIONS
+ ********************************************************************************/
+
+import { readFileSync, statSync } from "fs";
+import * as path from "path";
+import { FormField } from "./configurationForm";
+
+const PLACEHOLDER_PATTERN = /^\{\{secret:(.+)\}\}$/;
+const EXPORT_FILE_PATTERN = /^config-\d+\.json$/;
+
+/**
+ * Gets the name of the file a configuration is exported to.
+ * @param idx index of the configuration within the export
+ * @returns file name
+ */
+export function exportFileName(idx: number) {
+  return `config-${idx + 1}.json`;
+}
+
+/**
+ * Checks whether a file was written by a previous export, i.e. it has the name of an export
+ * file and holds nothing but a configuration's scope and value.
+ * @param filePath path of the file
+ * @returns true if the file is an exported configuration
+ */
+export function isExportedConfiguration(filePath: string): boolean {
+  if (!EXPORT_FILE_PATTERN.test(path.basename(filePath)) || !statSync(filePath).isFile()) {
+    return false;
+  }
+  try {
+    const config = JSON.parse(readFileSync(filePath).toString()) as Record<string, unknown> | null;
+    return (
+      typeof config === "object" &&
+      config !== null &&
+      Object.keys(config).sort().join(",") === "scope,value" &&
+      typeof config.scope === "string" &&
+      typeof config.value === "object" &&
+      config.value !== null
+    );
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Creates the placeholder that stands in for a secret in an exported configuration.
+ * @param name name of the secret
+ * @returns the placeholder
+ */
+export function secretPlaceholder(name: string) {
+  return `{{secret:${name}}}`;
+}
+
+/**
+ * Replaces the values of secret fields with placeholders, so exported configurations can be
+ * shared and the secrets provided again on import. Placeholders are named after the path of the
+ * field, prefixed by the given name.
+ * @param fields form fields built from the extension schema
+ * @param value the configuration value (or part of it)
+ * @param prefix prefix for the placeholder names
+ * @returns copy of the value with secrets replaced
+ */
+export function redactSecrets(
+  fields: FormField[],
+  value: Record<string, unknown>,
+  prefix: string,
+): Record<string, unknown> {
+  const redacted = { ...value };
+  for (const field of fields) {
+    const fieldValue = value[field.key];
+    const name = `${prefix}.${field.key}`;
+    if (fieldValue === undefined || fieldValue === null) {
+      continue;
+    }
+    if (field.type === "secret") {
+      redacted[field.key] = secretPlaceholder(name);
+    } else if (field.type === "object" && field.fields && typeof fieldValue === "object") {
+      redacted[field.key] = redactSecrets(
+        field.fields,
+        fieldValue as Record<string, unknown>,
+        name,
+      );
+    } else if (field.type === "list" && field.items && Array.isArray(fieldValue)) {
+      // List items are handled like properties keyed by their index
+      const items = field.items;
+      const itemFields = fieldValue.map((_, idx) => ({ ...items, key: String(idx) }));
+      redacted[field.key] = Object.values(
+        redactSecrets(itemFields, { ...fieldValue } as Record<string, unknown>, name),
+      );
+    }
+  }
+  return redacted;
+}
+
+/**
+ * Finds the names of all secret placeholders within a configuration value.
+ * @param value the configuration value
+ * @returns list of unique placeholder names
+ */
+export function findSecretPlaceholders(value: unknown): string[] {
+  if (typeof value === "string") {
+    const match = PLACEHOLDER_PATTERN.exec(value);
+    return match ? [match[1]] : [];
+  }
+  if (typeof value === "object" && value) {
+    const names = Object.values(value).flatMap(item => findSecretPlaceholders(item));
+    return [...new Set(names)];
+  }
+  return [];
+}
+
+/**
+ * Replaces secret placeholders within a configuration value with the actual secrets.
+ * Placeholders without a matching secret are left as they are.
+ * @param value the configuration value
+ * @param secrets secret values by placeholder name
+ * @returns copy of the value with placeholders replaced
+ */
+export function fillSecretPlaceholders<T>(value: T, secrets: Record<string, string>): T {
+  if (typeof value === "string") {
+    const match = PLACEHOLDER_PATTERN.exec(value);
+    return (match && match[1] in secrets ? secrets[match[1]] : value) as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => fillSecretPlaceholders(item as unknown, secrets)) as T;
+  }
+  if (typeof value === "object" && value) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, fillSecretPlaceholders(item, secrets)]),
+    ) as T;
+  }
+  return value;
+}
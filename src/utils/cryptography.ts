@@ -20,15 +20,23 @@
 
 import * as crypto from "crypto";
 import * as fs from "fs";
+import * as path from "path";
 import * as forge from "node-forge";
 
 const algorithm = "aes-256-cbc";
+const digestAlgorithms = {
+  sha1: () => forge.md.sha1.create(),
+  sha256: () => forge.md.sha256.create(),
+  sha384: () => forge.md.sha384.create(),
+  sha512: () => forge.md.sha512.create(),
+};
 
 /**
  * Encrypts a token using AES-256-CBC algorithm and provides a string comprised
  * of the initialization vector, key, and token in hex format. This is not
  * realistically secure as all the information required to decrypt it is
- * within the data but it's better than storing it in plain text.
+ * within the data but it's better than storing it in plain text. Only used for
+ * hosts where VS Code's SecretStorage isn't available.
  * @param token the token to encrypt
  * @returns the resulting string in hex format
  */
@@ -63,51 +71,157 @@ export function decryptToken(token: string): string {
 }
 
 /**
- * Given a merged CertKey file, this function separates and returns the RSA Key and
- * PEM Certificate contents.
+ * Signals that the private key used for signing can't be read without a passphrase, or that
+ * the passphrase given is incorrect.
+ */
+export class PassphraseError extends Error {}
+
+/**
+ * Checks whether a file is a PKCS#12 bundle rather than PEM content.
+ * @param filePath path to the file
+ * @returns true if the file is PKCS#12
+ */
+function isPkcs12File(filePath: string): boolean {
+  return [".p12", ".pfx"].includes(path.extname(filePath).toLowerCase());
+}
+
+/**
+ * Checks whether a PEM block holds an encrypted private key, either in PKCS#8 format or in
+ * the legacy OpenSSL format (with a Proc-Type header).
+ * @param block decoded PEM block
+ * @returns true if the block holds an encrypted key
+ */
+function isEncryptedKeyBlock(block: forge.pem.ObjectPEM): boolean {
+  const procType = block.procType as { type?: string } | null;
+  return (
+    block.type === "ENCRYPTED PRIVATE KEY" ||
+    (block.type.endsWith("PRIVATE KEY") && procType?.type === "ENCRYPTED")
+  );
+}
+
+/**
+ * Checks whether the credentials used for signing are protected by a passphrase. This is the
+ * case for PKCS#12 bundles, as well as for PEM files holding an encrypted private key (either
+ * PKCS#8 or legacy OpenSSL format).
+ * @param certKeyPath path to the file holding the certificate and private key
+ * @returns true if a passphrase is needed to sign
+ */
+export function isPassphraseProtected(certKeyPath: string): boolean {
+  if (isPkcs12File(certKeyPath)) {
+    return true;
+  }
+  return forge.pem.decode(fs.readFileSync(certKeyPath).toString()).some(isEncryptedKeyBlock);
+}
+
+/**
+ * Reads the private key and certificate from a PKCS#12 bundle. If the bundle holds more
+ * certificates, the one matching the private key is used.
+ * @param filePath path to the PKCS#12 file
+ * @param passphrase passphrase of the bundle
+ * @returns tuple of private key and certificate
+ */
+function getCredentialsFromPkcs12(
+  filePath: string,
+  passphrase: string,
+): [forge.pki.rsa.PrivateKey, forge.pki.Certificate] {
+  let p12;
+  try {
+    p12 = forge.pkcs12.pkcs12FromAsn1(
+      forge.asn1.fromDer(fs.readFileSync(filePath).toString("binary")),
+      passphrase,
+    );
+  } catch (err) {
+    throw new PassphraseError(`Could not open PKCS#12 file: ${(err as Error).message}`);
+  }
+  const keyBags = [
+    ...(p12.getBags({ bagType: forge.pki.oids.pkcs8ShroudedKeyBag })[
+      forge.pki.oids.pkcs8ShroudedKeyBag
+    ] ?? []),
+    ...(p12.getBags({ bagType: forge.pki.oids.keyBag })[forge.pki.oids.keyBag] ?? []),
+  ];
+  const key = keyBags.find(bag => bag.key)?.key as forge.pki.rsa.PrivateKey | undefined;
+  if (!key) {
+    throw new Error("PKCS#12 file invalid: unable to find a private key");
+  }
+  const certs = (p12.getBags({ bagType: forge.pki.oids.certBag })[forge.pki.oids.certBag] ?? [])
+    .map(bag => bag.cert)
+    .filter((cert): cert is forge.pki.Certificate => cert !== undefined);
+  const cert =
+    certs.find(c => (c.publicKey as forge.pki.rsa.PublicKey).n.equals(key.n)) ??
+    (certs[0] as forge.pki.Certificate | undefined);
+  if (!cert) {
+    throw new Error("PKCS#12 file invalid: unable to find a certificate");
+  }
+  return [key, cert];
+}
+
+/**
+ * Given a PEM file holding both a certificate and private key, this function separates and
+ * returns the private key and certificate. The key may be an RSA (PKCS#1) key, a PKCS#8 key,
+ * or either of them encrypted, in which case the passphrase is needed.
  * @param filePath path to the merged CertKey file
- * @returns tuple of key content and certificate content
+ * @param passphrase passphrase of the private key, if encrypted
+ * @returns tuple of private key and certificate
  */
-function getContentFromMergedFile(filePath: string): [string, string] {
-  const contetLines = fs.readFileSync(filePath).toString().split("\n");
-  const keyStart = contetLines.findIndex(l => l.includes("BEGIN RSA PRIVATE KEY"));
-  const keyEnd = contetLines.findIndex(l => l.includes("END RSA PRIVATE KEY"));
-  const certStart = contetLines.findIndex(l => l.includes("BEGIN CERTIFICATE"));
-  const certEnd = contetLines.findIndex(l => l.includes("END CERTIFICATE"));
+function getCredentialsFromPem(
+  filePath: string,
+  passphrase?: string,
+): [forge.pki.rsa.PrivateKey, forge.pki.Certificate] {
+  const blocks = forge.pem.decode(fs.readFileSync(filePath).toString());
+  const keyBlock = blocks.find(block => block.type.endsWith("PRIVATE KEY"));
+  const certBlock = blocks.find(block => block.type === "CERTIFICATE");
 
-  if (keyStart === -1 || keyEnd === -1) {
-    throw new Error("CertKey file invalid: unable to find RSA Key content");
+  if (!keyBlock) {
+    throw new Error("CertKey file invalid: unable to find private key content");
   }
-  if (certStart === -1 || certEnd === -1) {
+  if (!certBlock) {
     throw new Error("CertKey file invalid: unable to find Certificate content");
   }
+  const cert = forge.pki.certificateFromAsn1(forge.asn1.fromDer(certBlock.body));
+  const keyPem = forge.pem.encode(keyBlock);
 
-  return [
-    contetLines.slice(keyStart, keyEnd + 1).join("\n"),
-    contetLines.slice(certStart, certEnd + 1).join("\n"),
-  ];
+  if (isEncryptedKeyBlock(keyBlock)) {
+    if (passphrase === undefined) {
+      throw new PassphraseError("The private key is encrypted and needs a passphrase");
+    }
+    // Returns null if the passphrase is wrong, unless the wrongly decrypted bytes happen to pass
+    // the padding check - then parsing them fails instead
+    let key: forge.pki.rsa.PrivateKey | null;
+    try {
+      key = forge.pki.decryptRsaPrivateKey(keyPem, passphrase) as forge.pki.rsa.PrivateKey | null;
+    } catch {
+      key = null;
+    }
+    if (!key) {
+      throw new PassphraseError("Incorrect passphrase for the private key");
+    }
+    return [key, cert];
+  }
+  return [forge.pki.privateKeyFromPem(keyPem), cert];
 }
 
 /**
  * Signs a given file and produces a signature file.
  * @param inputFilePath file path of data to sign
- * @param keyPath path to the file containing RSA Private Key
- * @param certPath path to the file containing Certificate Key
+ * @param certKeyPath path to the file holding the certificate and private key, either as PEM
+ * or as a PKCS#12 bundle (.p12/.pfx)
+ * @param passphrase passphrase for encrypted keys and PKCS#12 bundles
  * @returns signature
  */
-export function sign(inputFilePath: string, certKeyPath: string): string {
+export function sign(inputFilePath: string, certKeyPath: string, passphrase?: string): string {
   console.log(`Signing extension with credentials from ${certKeyPath}`);
 
-  const [keyContents, certContents] = getContentFromMergedFile(certKeyPath);
+  const [key, cert] = isPkcs12File(certKeyPath)
+    ? getCredentialsFromPkcs12(certKeyPath, passphrase ?? "")
+    : getCredentialsFromPem(certKeyPath, passphrase);
 
   const dataToSign = fs.readFileSync(inputFilePath);
-  const cert = forge.pki.certificateFromPem(certContents);
   const p7 = forge.pkcs7.createSignedData();
 
   p7.content = forge.util.createBuffer(dataToSign);
   p7.addCertificate(cert);
   p7.addSigner({
-    key: forge.pki.privateKeyFromPem(keyContents),
+    key,
     certificate: cert,
     digestAlgorithm: forge.pki.oids.sha256,
   });
@@ -119,3 +233,117 @@ export function sign(inputFilePath: string, certKeyPath: string): string {
     body: forge.asn1.toDer(p7.toAsn1()).getBytes(),
   });
 }
+
+/**
+ * Verifies a detached CMS signature (as produced by {@link sign}) against the signed content
+ * and checks that the signing certificate was issued by the given CA certificate.
+ * @param content the signed content
+ * @param signature PEM encoded signature
+ * @param caCertificate PEM encoded CA certificate
+ * @returns the certificate the content was signed with
+ */
+export function verifySignature(
+  content: Buffer,
+  signature: string,
+  caCertificate: string,
+): forge.pki.Certificate {
+  const signatureBlock = forge.pem
+    .decode(signature)
+    .find(block => block.type === "CMS" || block.type === "PKCS7");
+  if (!signatureBlock) {
+    throw new Error("Signature invalid: unable to find CMS content");
+  }
+  // The same content as PKCS#7, which is what forge reads
+  const message = forge.pkcs7.messageFromPem(
+    forge.pem.encode({ ...signatureBlock, type: "PKCS7" }),
+  ) as forge.pkcs7.PkcsSignedData & { rawCapture?: { signerInfos?: forge.asn1.Asn1[] } };
+  const signerInfo = message.rawCapture?.signerInfos?.[0]?.value as forge.asn1.Asn1[] | undefined;
+  if (!signerInfo) {
+    throw new Error("Signature invalid: no signer information found");
+  }
+
+  // SignerInfo: version, issuerAndSerialNumber, digestAlgorithm, [0] authenticatedAttributes,
+  // digestEncryptionAlgorithm, encryptedDigest, ...
+  const serialNumber = forge.util.bytesToHex(
+    (signerInfo[1].value as forge.asn1.Asn1[])[1].value as string,
+  );
+  const signerCert = message.certificates.find(c => c.serialNumber === serialNumber);
+  if (!signerCert) {
+    throw new Error("Signature invalid: the signing certificate is not included");
+  }
+  const digestAlgorithm = forge.pki.oids[
+    forge.asn1.derToOid(
+      forge.util.createBuffer((signerInfo[2].value as forge.asn1.Asn1[])[0].value as string),
+    )
+  ] as keyof typeof digestAlgorithms;
+  const createDigest = digestAlgorithms[digestAlgorithm] as
+    | (() => forge.md.MessageDigest)
+    | undefined;
+  if (!createDigest) {
+    throw new Error(`Signature uses an unsupported digest algorithm (${digestAlgorithm})`);
+  }
+  const contentDigest = createDigest().update(content.toString("binary")).digest().bytes();
+
+  // With authenticated attributes, the signature covers the attributes instead of the content
+  let signedDigest = contentDigest;
+  const attributes = signerInfo.find(
+    field => field.tagClass === forge.asn1.Class.CONTEXT_SPECIFIC && field.type === 0,
+  );
+  if (attributes) {
+    const messageDigest = (attributes.value as forge.asn1.Asn1[])
+      .map(attr => attr.value as forge.asn1.Asn1[])
+      .find(
+        ([oid]) =>
+          forge.asn1.derToOid(forge.util.createBuffer(oid.value as string)) ===
+          forge.pki.oids.messageDigest,
+      );
+    const digestValue = (messageDigest?.[1].value as forge.asn1.Asn1[] | undefined)?.[0].value;
+    if (digestValue !== contentDigest) {
+      throw new Error("Signature does not match the content");
+    }
+    const signedAttributes = forge.asn1.create(
+      forge.asn1.Class.UNIVERSAL,
+      forge.asn1.Type.SET,
+      true,
+      attributes.value as forge.asn1.Asn1[],
+    );
+    signedDigest = createDigest()
+      .update(forge.asn1.toDer(signedAttributes).getBytes())
+      .digest()
+      .bytes();
+  }
+
+  const encryptedDigest = signerInfo.find(
+    field =>
+      field.tagClass === forge.asn1.Class.UNIVERSAL && field.type === forge.asn1.Type.OCTETSTRING,
+  )?.value as string;
+  let verified = false;
+  try {
+    verified = (signerCert.publicKey as forge.pki.rsa.PublicKey).verify(
+      signedDigest,
+      encryptedDigest,
+    );
+  } catch (err) {
+    console.log((err as Error).message);
+  }
+  if (!verified) {
+    throw new Error("Signature does not match the content");
+  }
+
+  const caBlock = forge.pem.decode(caCertificate).find(block => block.type === "CERTIFICATE");
+  if (!caBlock) {
+    throw new Error("CA certificate invalid: unable to find Certificate content");
+  }
+  const caCert = forge.pki.certificateFromAsn1(forge.asn1.fromDer(caBlock.body));
+  let issuedByCa = false;
+  try {
+    issuedByCa = caCert.verify(signerCert);
+  } catch (err) {
+    // Thrown when the issuer doesn't match the CA subject
+    console.log((err as Error).message);
+  }
+  if (!issuedByCa) {
+    throw new Error("The signing certificate was not issued by the CA certificate");
+  }
+  return signerCert;
+}
@@ -0,0 +1,81 @@
+/**
+  Copyright 2022 Dynatrace LLC
+
+  Licensed under the Apache License, Version 2.0 (the "License");
+  you may not use this file except in compliance with the License.
+  You may obtain a copy of the License at
+
+      https://www.apache.org/licenses/LICENSE-2.0
+
+  Unless required by applicable law or agreed to in writing, software
+  distributed under the License is distributed on an "AS IS" BASIS,
+  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+  See the License for the specific language governing permissions and
+  limitations under the License.
+ */
+
+/********************************************************************************
+ * UTILITIES FOR KEEPING DASHBOARDS IN SYNC BETWEEN WORKSPACE AND ENVIRONMENT
+ ********************************************************************************/
+
+import { isDeepStrictEqual } from "util";
+import { Dashboard } from "../dynatrace-api/interfaces/dashboards";
+
+/**
+ * Owner of all dashboards packaged with an extension.
+ */
+export const DASHBOARD_OWNER = "Dynatrace";
+
+/**
+ * Removes the environment-specific details of a dashboard (its id, configuration metadata and
+ * owner) so that it can be kept in an extension's workspace and compared across environments.
+ * @param dashboard dashboard as returned by the Dynatrace API
+ * @returns normalized dashboard
+ */
+export function normalizeDashboard(dashboard: Dashboard): Dashboard {
+  const normalized: Dashboard = {
+    ...dashboard,
+    dashboardMetadata: { ...dashboard.dashboardMetadata, owner: DASHBOARD_OWNER },
+  };
+  delete normalized.id;
+  delete normalized.metadata;
+  return normalized;
+}
+
+/**
+ * Serializes a dashboard the way it is stored in the workspace.
+ * @param dashboard dashboard to serialize
+ * @returns JSON string representing the normalized dashboard
+ */
+export function serializeDashboard(dashboard: Dashboard): string {
+  return JSON.stringify(normalizeDashboard(dashboard), null, 2);
+}
+
+/**
+ * Checks whether two dashboards have the same content, ignoring environment-specific details
+ * and the order of keys.
+ * @param a first dashboard
+ * @param b second dashboard
+ * @returns true if the dashboards only differ in environment-specific details
+ */
+export function isSameDashboard(a: Dashboard, b: Dashboard): boolean {
+  return isDeepStrictEqual(normalizeDashboard(a), normalizeDashboard(b));
+}
+
+/**
+ * Prepares a dashboard from the workspace to replace one deployed in an environment. The
+ * deployed dashboard keeps its id and owner.
+ * @param local dashboard from the workspace
+ * @param deployed dashboard currently in the environment
+ * @returns dashboard to upload
+ */
+export function toDeployedDashboard(local: Dashboard, deployed: Dashboard): Dashboard {
+  return {
+    ...normalizeDashboard(local),
+    id: deployed.id,
+    dashboardMetadata: {
+      ...local.dashboardMetadata,
+      owner: deployed.dashboardMetadata.owner,
+    },
+  };
+}
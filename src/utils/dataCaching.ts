@@ -24,14 +24,16 @@ import Axios from "axios";
 import { BehaviorSubject, Observable, switchMap, of, delay, map } from "rxjs";
 import * as vscode from "vscode";
 import * as yaml from "yaml";
-import { PromData } from "../codeLens/prometheusScraper";
+import { PromData } from "../codeLens/utils/prometheusParsing";
 import { ValidationStatus } from "../codeLens/utils/selectorUtils";
 import { WmiQueryResult } from "../codeLens/utils/wmiUtils";
+import { Dynatrace } from "../dynatrace-api/dynatrace";
 import { Entity, EntityType } from "../dynatrace-api/interfaces/monitoredEntities";
 import { ExtensionStub } from "../interfaces/extensionMeta";
 import { EnvironmentsTreeDataProvider } from "../treeViews/environmentsTreeView";
 import { loopSafeWait } from "./code";
 import { getExtensionFilePath, getSnmpMibFiles } from "./fileSystem";
+import { FetchResult, PersistentCache } from "./persistentCache";
 import { fetchOID, MibModuleStore, OidInformation, parseMibFile } from "./snmp";
 
 type CachedDataType =
@@ -86,6 +88,11 @@ export class CachedDataProducer extends CachedDataConsumer {
 
 type LoadedFile = { name: string; filePath: string };
 
+// How long persisted data is served before being revalidated against its source
+const ENTITY_TYPES_TTL = 24 * 60 * 60 * 1000;
+const BARISTA_ICONS_TTL = 7 * 24 * 60 * 60 * 1000;
+const SNMP_OID_TTL = 30 * 24 * 60 * 60 * 1000;
+
 /**
  * A utility class for caching reusable data that other components depend on.
  * Data is fetched only when needed and stored in-memory for reusability. This class should have
@@ -94,6 +101,8 @@ type LoadedFile = { name: string; filePath: string };
  */
 export class CachedData {
   private readonly environments: EnvironmentsTreeDataProvider;
+  private readonly persistentCache: PersistentCache;
+  private readonly snmpCache: PersistentCache;
   private builtinEntityTypes = new BehaviorSubject<EntityType[]>([]);
   private parsedExtension = new BehaviorSubject<ExtensionStub | undefined>(undefined);
   private baristaIcons = new BehaviorSubject<string[]>([]);
@@ -109,9 +118,12 @@ export class CachedData {
 
   /**
    * @param environments a Dynatrace Environments provider
+   * @param globalStoragePath path to the extension's global storage, where data is persisted
    */
-  constructor(environments: EnvironmentsTreeDataProvider) {
+  constructor(environments: EnvironmentsTreeDataProvider, globalStoragePath: string) {
     this.environments = environments;
+    this.persistentCache = new PersistentCache(path.join(globalStoragePath, "cache"));
+    this.snmpCache = new PersistentCache(path.join(globalStoragePath, "cache", "snmp"));
   }
 
   public subscribeConsumers(subscription: Partial<Record<CachedDataType, CachedDataConsumer[]>>) {
@@ -144,19 +156,21 @@ export class CachedData {
 
   /**
    * Initializes cache by pulling all data that can be pre-loaded and setting up update schedules.
+   * Data persisted on disk by previous sessions is made available straight away and revalidated
+   * in the background once it's past its TTL.
    */
   public async initialize() {
     // Fetch entities
-    this.fetchBuiltinEntityTypes()
-      .then(entityTypes => this.builtinEntityTypes.next(entityTypes))
-      .catch(() => this.builtinEntityTypes.next([]))
-      .finally(() => this.builtinEntityTypes.complete());
+    this.loadBuiltinEntityTypes(ENTITY_TYPES_TTL).catch(() => {});
 
     // Fetch Barista icons
-    this.fetchBaristaIcons()
-      .then(icons => this.baristaIcons.next(icons))
-      .catch(() => this.baristaIcons.next([]))
-      .finally(() => this.baristaIcons.complete());
+    this.loadPersisted(
+      this.baristaIcons,
+      "baristaIcons",
+      BARISTA_ICONS_TTL,
+      (etag?: string) => this.fetchBaristaIcons(etag),
+      [],
+    ).catch(() => {});
 
     // Fetch extension manifest
     const initialManifestContent = this.fetchExtensionManifest();
@@ -209,16 +223,58 @@ export class CachedData {
   }
 
   /**
-   * Fetches the list of Dynatrace built-in entity types from the currently connected environment.
+   * Emits the persisted value of some data (if any) and then the revalidated one, should it be
+   * different. The subject is completed at the end, as this data doesn't change during a session.
+   * @param subject the subject holding the data
+   * @param key key of the persisted entry
+   * @param ttl time (in millis) for which the persisted value is considered current
+   * @param fetcher fetches the data from its source
+   * @param fallback value to use if the data is neither persisted nor available from source
    */
-  private async fetchBuiltinEntityTypes(): Promise<EntityType[]> {
-    const dtClient = await this.environments.getDynatraceClient();
-    if (dtClient) {
-      const entityTypes = await dtClient.entitiesV2.listTypes().catch(() => []);
-      return entityTypes;
+  private async loadPersisted<T>(
+    subject: BehaviorSubject<T>,
+    key: string,
+    ttl: number,
+    fetcher: (etag?: string) => Promise<FetchResult<T>>,
+    fallback: T,
+  ) {
+    const persisted = this.persistentCache.get<T>(key);
+    if (persisted) {
+      subject.next(persisted.value);
+    }
+    const value = (await this.persistentCache.getOrFetch(key, ttl, fetcher)) ?? fallback;
+    if (!persisted || JSON.stringify(value) !== JSON.stringify(persisted.value)) {
+      subject.next(value);
+    }
+    subject.complete();
+  }
+
+  /**
+   * Loads the list of Dynatrace built-in entity types. These are persisted per environment.
+   * @param ttl time (in millis) for which the persisted value is considered current
+   */
+  private async loadBuiltinEntityTypes(ttl: number) {
+    const environment = await this.environments.getCurrentEnvironment();
+    if (!environment) {
+      this.builtinEntityTypes.next([]);
+      this.builtinEntityTypes.complete();
+      return;
     }
+    await this.loadPersisted(
+      this.builtinEntityTypes,
+      `builtinEntityTypes-${environment.id}`,
+      ttl,
+      () => this.fetchBuiltinEntityTypes(environment.dt),
+      [],
+    );
+  }
 
-    return [];
+  /**
+   * Fetches the list of Dynatrace built-in entity types from an environment.
+   * @param dtClient Dynatrace API Client of the environment
+   */
+  private async fetchBuiltinEntityTypes(dtClient: Dynatrace): Promise<FetchResult<EntityType[]>> {
+    return { value: await dtClient.entitiesV2.listTypes() };
   }
 
   /**
@@ -235,8 +291,9 @@ export class CachedData {
   /**
    * Loads the names of all available Barista Icons. The internal Barista endpoint is tried first,
    * before the public one.
+   * @param etag ETag of the icons fetched previously, to skip downloading them if unchanged
    */
-  private async fetchBaristaIcons(): Promise<string[]> {
+  private async fetchBaristaIcons(etag?: string): Promise<FetchResult<string[]>> {
     const publicURL = "https://barista.dynatrace.com/data/resources/icons.json";
     const internalURL = "https://barista.lab.dynatrace.org/data/resources/icons.json";
     interface BaristaResponse {
@@ -249,30 +306,27 @@ export class CachedData {
       name: string;
     }
 
-    const icons = await Axios.get<BaristaResponse>(internalURL)
-      .then(res => {
-        if (res.data.icons) {
-          return res.data.icons.map((i: BaristaMeta) => i.name);
+    const fetchIcons = (url: string) =>
+      Axios.get<BaristaResponse>(url, {
+        headers: etag ? { "If-None-Match": etag } : {},
+        validateStatus: status => status === 200 || status === 304,
+      }).then((res): FetchResult<string[]> => {
+        if (res.status === 304) {
+          return { notModified: true };
         }
-        return [];
-      })
-      .catch(() => {
-        const publicIcons = Axios.get<BaristaResponse>(publicURL)
-          .then(res => {
-            if (res.data.icons) {
-              return res.data.icons.map((i: BaristaMeta) => i.name);
-            }
-            return [];
-          })
-          .catch(err => {
-            console.log("Barista not accessible.");
-            console.log((err as Error).message);
-            return [];
-          });
-        return publicIcons;
+        return {
+          value: res.data.icons ? res.data.icons.map((i: BaristaMeta) => i.name) : [],
+          etag: typeof res.headers.etag === "string" ? res.headers.etag : undefined,
+        };
       });
 
-    return icons;
+    return fetchIcons(internalURL).catch(() =>
+      fetchIcons(publicURL).catch((err: Error) => {
+        console.log("Barista not accessible.");
+        console.log(err.message);
+        throw err;
+      }),
+    );
   }
 
   private async collectSingleOid(oid: string): Promise<[string, OidInformation]> {
@@ -285,7 +339,7 @@ export class CachedData {
       );
       if (localIndex === -1) {
         // Only ASN.1 notation is supported for online fetching
-        return nameNotation ? [oid, {}] : [oid, await fetchOID(oid)];
+        return nameNotation ? [oid, {}] : [oid, await this.fetchOnlineOid(oid)];
       } else {
         return [oid, this.localSnmpDatabase[localIndex]];
       }
@@ -294,14 +348,28 @@ export class CachedData {
     }
   }
 
+  /**
+   * Fetches information about an OID from the online database. Results are persisted, so any
+   * OID that was looked up once remains available offline.
+   * @param oid the OID in ASN.1 notation
+   */
+  private async fetchOnlineOid(oid: string): Promise<OidInformation> {
+    const info = await this.snmpCache.getOrFetch(oid, SNMP_OID_TTL, async () => {
+      const fetched = await fetchOID(oid);
+      if (Object.keys(fetched).length === 0) {
+        throw new Error(`No information found for OID ${oid}`);
+      }
+      return { value: fetched };
+    });
+    return info ?? {};
+  }
+
   /**
    * On demand update of built-in entity types (TODO: is this really needed? who would trigger it?).
+   * This always goes to the connected environment, bypassing the persisted data.
    */
   public updateEntityTypes() {
-    this.fetchBuiltinEntityTypes()
-      .then(entityTypes => this.builtinEntityTypes.next(entityTypes))
-      .catch(() => this.builtinEntityTypes.next([]))
-      .finally(() => this.builtinEntityTypes.complete());
+    this.loadBuiltinEntityTypes(0).catch(() => {});
   }
 
   /**
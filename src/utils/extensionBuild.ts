@@ -0,0 +1,533 @@
+/**
+  Copyright 2022 Dynatrace LLC
+
+  Licensed under the Apache License, Version 2.0 (the "License");
+  you may not use this file except in compliance with the License.
+  You may obtain a copy of the License at
+
+      https://www.apache.org/licenses/LICENSE-2.0
+
+  Unless required by applicable law or agreed to in writing, software
+  distributed under the License is distributed on an "AS IS" BASIS,
+  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+  See the License for the specific language governing permissions and
+  limitations under the License.
+ */
+
+/********************************************************************************
+ * UTILITIES FOR BUILDING, VALIDATING AND UPLOADING EXTENSION PACKAGES
+ * Nothing in here may depend on the VS Code API, so that the same workflow can
+ * be used both by the VS Code commands and by the headless CLI.
+ ********************************************************************************/
+
+import { ExecOptions } from "child_process";
+import {
+  copyFileSync,
+  existsSync,
+  lstatSync,
+  mkdirSync,
+  readdirSync,
+  readFileSync,
+  rmSync,
+  unlinkSync,
+  writeFileSync,
+} from "fs";
+import * as path from "path";
+import AdmZip = require("adm-zip");
+import { glob } from "glob";
+import * as yaml from "yaml";
+import { Dynatrace } from "../dynatrace-api/dynatrace";
+import { DynatraceAPIError } from "../dynatrace-api/errors";
+import { ExtensionStub } from "../interfaces/extensionMeta";
+import { isPassphraseProtected, sign } from "./cryptography";
+import { incrementExtensionVersion, normalizeExtensionVersion } from "./extensionParsing";
+import { runCommand } from "./subprocesses";
+
+/**
+ * Minimal view of a cancellation token. Both VS Code's CancellationToken and anything the
+ * CLI might create satisfy it.
+ */
+export interface CancellationFlag {
+  isCancellationRequested: boolean;
+}
+
+/**
+ * Tracks what a deployment changed in an environment, so that it can be rolled back.
+ */
+export interface DeploymentState {
+  /** Version that was active before the deployment (if any) */
+  previousVersion?: string;
+  uploaded: boolean;
+  activated: boolean;
+}
+
+export interface ExtensionManifestDetails {
+  content: string;
+  name: string;
+  version: string;
+}
+
+/**
+ * Loop-safe wait. Equivalent of loopSafeWait from ./code, which can't be used here as that
+ * module depends on the VS Code API.
+ * @param duration time to wait in milliseconds
+ */
+async function wait(duration: number) {
+  await new Promise(resolve => setTimeout(resolve, duration));
+}
+
+/**
+ * Searches a workspace root path for the extension.yaml file and returns the found result so
+ * long as the extension directory is in the root of the workspace or one directory deep
+ * (e.g. src/extension/extension.yaml)
+ * @param workspaceRoot path to the root of the workspace
+ * @returns path to the extension.yaml or undefined if not found
+ */
+export function findExtensionFile(workspaceRoot: string): string | undefined {
+  let matches = glob.sync("extension/extension.yaml", { cwd: workspaceRoot });
+  if (matches.length === 0) {
+    matches = glob.sync("*/extension/extension.yaml", { cwd: workspaceRoot });
+  }
+  if (matches.length > 0) {
+    return path.join(workspaceRoot, matches[0]);
+  }
+  return undefined;
+}
+
+/**
+ * Reads the extension manifest and extracts the name and (normalized) version from it.
+ * Regular expressions are used instead of parsing so that the content can be written back
+ * with minimal changes.
+ * @param extensionFile path to the extension.yaml file
+ * @returns content, name and version or undefined if these couldn't be extracted
+ */
+export function readExtensionManifest(extensionFile: string): ExtensionManifestDetails | undefined {
+  const content = readFileSync(extensionFile).toString();
+  const nameMatch = /^name: "?([:a-zA-Z0-9.\-_]+)"?/gm.exec(content);
+  if (!nameMatch?.[1]) {
+    return undefined;
+  }
+  const versionMatch = /^version: "?([0-9.]+)"?/gm.exec(content);
+  if (!versionMatch?.[1]) {
+    return undefined;
+  }
+  return {
+    content,
+    name: nameMatch[1],
+    version: normalizeExtensionVersion(versionMatch[1]),
+  };
+}
+
+/**
+ * Creates the file name for an extension package (archive).
+ * @param extensionName name of the extension
+ * @param extensionVersion version of the extension
+ * @returns the .zip file name
+ */
+export function getPackageFileName(extensionName: string, extensionVersion: string) {
+  return `${extensionName.replace(":", "_")}-${extensionVersion}.zip`;
+}
+
+/**
+ * Finds the most recently modified extension package (.zip) in the given directory.
+ * @param distDir path to the "dist" directory of the workspace
+ * @returns the file name of the package or undefined if none exists
+ */
+export function getLatestPackage(distDir: string): string | undefined {
+  if (!existsSync(distDir)) {
+    return undefined;
+  }
+  return readdirSync(distDir)
+    .filter(file => file.endsWith(".zip") && lstatSync(path.join(distDir, file)).isFile())
+    .map(file => ({ file, mtime: lstatSync(path.join(distDir, file)).mtime }))
+    .sort((a, b) => b.mtime.getTime() - a.mtime.getTime())[0]?.file;
+}
+
+/**
+ * Browses a signed extension package and extracts the raw manifest of the extension from it.
+ * @param packageData path to the outer .zip archive or its content
+ * @returns the manifest text
+ */
+export function readManifestContentFromPackage(packageData: string | Buffer): string {
+  const source = typeof packageData === "string" ? packageData : "Extension package";
+  const outerZip = new AdmZip(packageData);
+  const innerEntry = outerZip.getEntries().find(entry => entry.entryName === "extension.zip");
+  if (!innerEntry) {
+    throw new Error(`${source} is not a signed extension package`);
+  }
+  const innerZip = new AdmZip(innerEntry.getData());
+  const manifestEntry = innerZip.getEntries().find(entry => entry.entryName === "extension.yaml");
+  if (!manifestEntry) {
+    throw new Error(`${source} does not contain an extension.yaml`);
+  }
+  return manifestEntry.getData().toString("utf-8");
+}
+
+/**
+ * Browses a signed extension package and extracts the manifest of the extension from it.
+ * @param packageData path to the outer .zip archive or its content
+ * @returns the manifest, parsed
+ */
+export function readManifestFromPackage(packageData: string | Buffer): ExtensionStub {
+  return yaml.parse(readManifestContentFromPackage(packageData)) as ExtensionStub;
+}
+
+/**
+ * Carries out general tasks that should be executed before the build workflow.
+ * Ensures the dist folder exists and increments the extension version in case there might
+ * be a conflict on the tenant (if dt is provided). We also delete any .DS_Store files that
+ * will mess up the extension archive for MAC users.
+ * @param distDir path to the "dist" directory within the workspace
+ * @param extensionFile path to the extension.yaml file
+ * @param extensionContent contents of the extension.yaml file
+ * @param extensionName the name of the extension
+ * @param currentVersion the current version of the extension
+ * @param forceIncrement whether to enforce the increment of currentVersion
+ * @param dt optional Dynatrace API Client
+ * @returns the version to build; differs from currentVersion if it was incremented
+ */
+export async function preBuildTasks(
+  distDir: string,
+  extensionFile: string,
+  extensionContent: string,
+  extensionName: string,
+  currentVersion: string,
+  forceIncrement: boolean = false,
+  dt?: Dynatrace,
+): Promise<string> {
+  // Create the dist folder if it doesn't exist
+  if (!existsSync(distDir)) {
+    mkdirSync(distDir);
+  }
+
+  const versionRegex = /^version: ("?[0-9.]+"?)/gm;
+  const nextVersion = incrementExtensionVersion(currentVersion);
+
+  // Delete any .DS_Store files found
+  const extensionDir = path.resolve(extensionFile, "..");
+  const dsFiles = glob.sync("**/.DS_Store", { cwd: extensionDir });
+  dsFiles.forEach(file => {
+    try {
+      unlinkSync(path.join(extensionDir, file));
+    } catch {
+      console.log(`Couldn't delete file ${file}`);
+    }
+  });
+
+  if (forceIncrement) {
+    // Always increment the version
+    writeFileSync(extensionFile, extensionContent.replace(versionRegex, `version: ${nextVersion}`));
+    return nextVersion;
+  } else if (dt) {
+    // Increment the version if there is clash on the tenant
+    const versions = await dt.extensionsV2
+      .listVersions(extensionName)
+      .then(ext => ext.map(e => e.version))
+      .catch(() => [] as string[]);
+    if (versions.includes(currentVersion)) {
+      writeFileSync(
+        extensionFile,
+        extensionContent.replace(versionRegex, `version: ${nextVersion}`),
+      );
+      return nextVersion;
+    }
+  }
+  return currentVersion;
+}
+
+/**
+ * Carries out the archiving and signing parts of the extension build workflow.
+ * The intermediary files (inner & outer .zips and signature) are created and stored
+ * within the given working directory to not crowd the user's workspace.
+ * @param workDir path to the directory holding intermediary build files
+ * @param extensionDir path to the "extension" folder within the workspace
+ * @param zipFileName the name of the .zip file for this build
+ * @param devCertKeyPath the path to the developer's fused credential file
+ * @param passphrase passphrase of the developer's key, if protected
+ */
+export function assembleStandard(
+  workDir: string,
+  extensionDir: string,
+  zipFileName: string,
+  devCertKeyPath: string,
+  passphrase?: string,
+) {
+  // Build the inner .zip archive
+  const innerZip = new AdmZip();
+  innerZip.addLocalFolder(extensionDir);
+  const innerZipPath = path.resolve(workDir, "extension.zip");
+  innerZip.writeZip(innerZipPath);
+  console.log(`Built the inner archive: ${innerZipPath}`);
+
+  // Sign the inner .zip archive and write the signature file
+  const signature = sign(innerZipPath, devCertKeyPath, passphrase);
+  const sigatureFilePath = path.resolve(workDir, "extension.zip.sig");
+  writeFileSync(sigatureFilePath, signature);
+  console.log(`Wrote the signature file: ${sigatureFilePath}`);
+
+  // Build the outer .zip that includes the inner .zip and the signature file
+  const outerZip = new AdmZip();
+  const outerZipPath = path.resolve(workDir, zipFileName);
+  outerZip.addLocalFile(innerZipPath);
+  outerZip.addLocalFile(sigatureFilePath);
+  outerZip.writeZip(outerZipPath);
+  console.log(`Wrote initial outer zip at: ${outerZipPath}`);
+}
+
+/**
+ * Makes sure the developer's key can be used to sign Python extensions. These are signed by
+ * `dt-sdk`, which can't be given a passphrase, so protected keys can't be used.
+ * @param certKeyPath the path to the developer's fused private key & certificate
+ * @throws {Error} if the key is protected by a passphrase
+ */
+export function checkPythonSigningKey(certKeyPath: string) {
+  if (isPassphraseProtected(certKeyPath)) {
+    throw new Error(
+      `The developer key in ${certKeyPath} is protected by a passphrase, which dt-sdk can't use ` +
+        "to sign Python extensions. Use an unencrypted PEM key for Python extensions.",
+    );
+  }
+}
+
+/**
+ * Carries out the archiving and signing parts of the extension build workflow.
+ * This function is meant for Python extesnions 2.0, therefore all the steps are carried
+ * out through `dt-sdk` which must be available on the machine. The `lib` folder that
+ * `dt-sdk` leaves behind is cleaned up afterwards.
+ * @param workDir path to the directory holding intermediary build files
+ * @param extensionDir path to the "extension" folder within the workspace
+ * @param certKeyPath the path to the developer's fused private key & certificate
+ * @param envOptions options for the child process (e.g. virtual environment)
+ * @param oc optional JSON output channel for communicating errors
+ * @param cancelToken optional cancellation token
+ * @throws {Error} if the developer's key is protected by a passphrase
+ */
+export async function assemblePython(
+  workDir: string,
+  extensionDir: string,
+  certKeyPath: string,
+  envOptions?: ExecOptions,
+  oc?: Parameters<typeof runCommand>[1],
+  cancelToken?: Parameters<typeof runCommand>[2],
+) {
+  checkPythonSigningKey(certKeyPath);
+
+  // Build
+  await runCommand(
+    `dt-sdk build -k "${certKeyPath}" "${path.resolve(extensionDir, "..")}" -t "${workDir}" ${
+      process.platform === "win32"
+        ? "-e linux_x86_64"
+        : process.platform === "linux"
+        ? "-e win_amd64"
+        : "-e linux_x86_64 -e win_amd64"
+    }`,
+    oc,
+    cancelToken,
+    envOptions,
+  );
+
+  // Then, remove the lib folder
+  const libDir = path.join(extensionDir, "lib");
+  if (existsSync(libDir)) {
+    try {
+      rmSync(libDir, { recursive: true, force: true });
+    } catch (e) {
+      console.log("Couldn't clean up `lib` directory.", (e as Error).message);
+    }
+  }
+}
+
+/**
+ * Validates a finalized extension archive against a Dynatrace tenant, if one is provided.
+ * Upon success, the final extension archive is moved into the workspace's "dist" folder and
+ * removed from the working directory (intermediary location).
+ * @param workDir path to the directory holding intermediary build files
+ * @param zipFileName the name of the .zip file for this build
+ * @param distDir path to the "dist" folder within the workspace
+ * @param dt optional Dynatrace API Client (needed for real validation)
+ * @throws {DynatraceAPIError} if the tenant rejected the extension
+ */
+export async function validateExtension(
+  workDir: string,
+  zipFileName: string,
+  distDir: string,
+  dt?: Dynatrace,
+) {
+  const outerZipPath = path.resolve(workDir, zipFileName);
+  const finalZipPath = path.resolve(distDir, zipFileName);
+  try {
+    if (dt) {
+      await dt.extensionsV2.upload(readFileSync(outerZipPath), true);
+    }
+    // Copy .zip archive into dist dir
+    copyFileSync(outerZipPath, finalZipPath);
+  } finally {
+    // Always remove from intermediary location
+    rmSync(outerZipPath);
+  }
+}
+
+/**
+ * Uploads an extension package to Dynatrace without any prompts. If the extension limit has
+ * been reached on tenant, either the first or the last version is removed automatically.
+ * @param file the extension package contents
+ * @param extensionName name of the extension
+ * @param dt Dynatrace API Client
+ * @param cancelToken optional cancellation token
+ * @returns true if uploaded, false if the operation was cancelled
+ * @throws {DynatraceAPIError} if the upload failed
+ */
+export async function uploadPackage(
+  file: Buffer,
+  extensionName: string,
+  dt: Dynatrace,
+  cancelToken?: CancellationFlag,
+): Promise<boolean> {
+  // Check upload possible
+  const existingVersions = await dt.extensionsV2.listVersions(extensionName).catch(() => {
+    return [];
+  });
+  if (existingVersions.length >= 10) {
+    // Try delete oldest version
+    await dt.extensionsV2
+      .deleteVersion(extensionName, existingVersions[0].version)
+      .catch(async () => {
+        // Try delete newest version
+        await dt.extensionsV2.deleteVersion(
+          extensionName,
+          existingVersions[existingVersions.length - 1].version,
+        );
+      });
+  }
+
+  // Upload to Dynatrace
+  let lastError: DynatraceAPIError | undefined;
+  let uploadStatus: string;
+  do {
+    if (cancelToken?.isCancellationRequested) {
+      return false;
+    }
+    [uploadStatus, lastError] = await dt.extensionsV2
+      .upload(file)
+      .then(() => ["success", undefined] as [string, undefined])
+      .catch(
+        (err: DynatraceAPIError) => [err.errorParams.message, err] as [string, DynatraceAPIError],
+      );
+    // Previous version deletion may not be complete yet, loop until done.
+    if (uploadStatus.startsWith("Extension versions quantity limit")) {
+      await wait(1000);
+    }
+  } while (uploadStatus.startsWith("Extension versions quantity limit"));
+
+  if (lastError) {
+    throw lastError;
+  }
+  return true;
+}
+
+/**
+ * An all-in-one upload & activation flow designed to be used for fast mode builds.
+ * The extension is uploaded (see {@link uploadPackage}) and immediately activated.
+ * This skips any prompts compared to regular flow and does not preform any validation.
+ * The package is always removed from the working directory at the end.
+ * @param workDir path to the directory holding intermediary build files
+ * @param zipFileName the name of the .zip file for this build
+ * @param distDir path to the "dist" folder within the workspace
+ * @param extensionName name of the extension
+ * @param extensionVersion version of the extension
+ * @param dt Dynatrace API Client
+ * @param cancelToken optional cancellation token
+ * @returns true if activated, false if the operation was cancelled
+ * @throws {DynatraceAPIError} if the upload or activation failed
+ */
+export async function uploadAndActivate(
+  workDir: string,
+  zipFileName: string,
+  distDir: string,
+  extensionName: string,
+  extensionVersion: string,
+  dt: Dynatrace,
+  cancelToken?: CancellationFlag,
+): Promise<boolean> {
+  const zipPath = path.resolve(workDir, zipFileName);
+  try {
+    const uploaded = await uploadPackage(readFileSync(zipPath), extensionName, dt, cancelToken);
+    if (!uploaded) {
+      return false;
+    }
+
+    // Activate extension
+    await dt.extensionsV2.putEnvironmentConfiguration(extensionName, extensionVersion);
+
+    // Copy .zip archive into dist dir
+    copyFileSync(zipPath, path.resolve(distDir, zipFileName));
+    return true;
+  } finally {
+    if (existsSync(zipPath)) {
+      rmSync(zipPath);
+    }
+  }
+}
+
+/**
+ * Deploys an extension package to one environment - the package is uploaded (see
+ * {@link uploadPackage}) and optionally activated. Progress is recorded in the given state
+ * as it happens, so that a partial deployment can still be rolled back after a failure.
+ * @param file the extension package
+ * @param extensionName name of the extension
+ * @param extensionVersion version of the extension in the package
+ * @param dt Dynatrace API Client of the target environment
+ * @param activate whether to activate the version after upload
+ * @param state deployment state to update
+ * @throws {DynatraceAPIError} if the upload or activation failed
+ */
+export async function deployPackage(
+  file: Buffer,
+  extensionName: string,
+  extensionVersion: string,
+  dt: Dynatrace,
+  activate: boolean,
+  state: DeploymentState,
+) {
+  // A 404 just means the extension isn't active in this environment yet
+  state.previousVersion = await dt.extensionsV2
+    .getEnvironmentConfiguration(extensionName)
+    .then(res => res.version)
+    .catch(() => undefined);
+
+  state.uploaded = await uploadPackage(file, extensionName, dt);
+  if (state.uploaded && activate && state.previousVersion !== extensionVersion) {
+    await dt.extensionsV2.putEnvironmentConfiguration(extensionName, extensionVersion);
+    state.activated = true;
+  }
+}
+
+/**
+ * Reverts the changes recorded by {@link deployPackage}: the previously active version is
+ * re-activated (or the extension deactivated if there was none) and the uploaded version is
+ * removed. Versions removed to make room for the upload cannot be restored.
+ * @param extensionName name of the extension
+ * @param extensionVersion version of the extension that was deployed
+ * @param dt Dynatrace API Client of the target environment
+ * @param state deployment state to revert
+ * @throws {DynatraceAPIError} if any of the API operations failed
+ */
+export async function rollbackDeployment(
+  extensionName: string,
+  extensionVersion: string,
+  dt: Dynatrace,
+  state: DeploymentState,
+) {
+  if (state.activated) {
+    if (state.previousVersion) {
+      await dt.extensionsV2.putEnvironmentConfiguration(extensionName, state.previousVersion);
+    } else {
+      await dt.extensionsV2.deleteEnvironmentConfiguration(extensionName);
+    }
+    state.activated = false;
+  }
+  if (state.uploaded) {
+    await dt.extensionsV2.deleteVersion(extensionName, extensionVersion);
+    state.uploaded = false;
+  }
+}
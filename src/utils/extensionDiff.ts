@@ -0,0 +1,128 @@
+/**
+  Copyright 2022 Dynatrace LLC
+
+  Licensed under the Apache License, Version 2.0 (the "License");
+  you may not use this file except in compliance with the License.
+  You may obtain a copy of the License at
+
+      https://www.apache.org/licenses/LICENSE-2.0
+
+  Unless required by applicable law or agreed to in writing, software
+  distributed under the License is distributed on an "AS IS" BASIS,
+  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+  See the License for the specific language governing permissions and
+  limitations under the License.
+ */
+
+/********************************************************************************
+ * UTILITIES FOR COMPARING TWO VERSIONS OF AN EXTENSION
+ ********************************************************************************/
+
+import { ExtensionStub } from "../interfaces/extensionMeta";
+import { getAllMetricsByFeatureSet, getMetricsFromDataSource } from "./extensionParsing";
+
+export interface ItemsDiff {
+  added: string[];
+  removed: string[];
+  changed: string[];
+}
+
+export interface FeatureSetChange {
+  name: string;
+  addedMetrics: string[];
+  removedMetrics: string[];
+}
+
+export interface ExtensionDiff {
+  baseVersion: string;
+  targetVersion: string;
+  metrics: ItemsDiff;
+  featureSets: Omit<ItemsDiff, "changed"> & { changed: FeatureSetChange[] };
+  screens: ItemsDiff;
+}
+
+/**
+ * Compares two collections of items identified by key. Items present in both collections
+ * are considered changed if their serialized forms differ.
+ * @param base items of the base extension, by key
+ * @param target items of the target extension, by key
+ * @returns keys of added, removed and changed items
+ */
+function diffItems(base: Map<string, unknown>, target: Map<string, unknown>): ItemsDiff {
+  return {
+    added: [...target.keys()].filter(key => !base.has(key)),
+    removed: [...base.keys()].filter(key => !target.has(key)),
+    changed: [...target.keys()].filter(
+      key => base.has(key) && JSON.stringify(base.get(key)) !== JSON.stringify(target.get(key)),
+    ),
+  };
+}
+
+/**
+ * Collects all metrics of an extension - both those collected by the datasource and those
+ * only declared in the metrics metadata section - keyed by metric key.
+ * @param extension extension.yaml serialized as object
+ * @returns metric definitions by key
+ */
+function getMetricDefinitions(extension: ExtensionStub): Map<string, Record<string, unknown>> {
+  const metrics = new Map<string, Record<string, unknown>>();
+  getMetricsFromDataSource(extension, true).forEach(metric => {
+    metrics.set(metric.key, { type: metric.type, value: metric.value });
+  });
+  (extension.metrics ?? []).forEach(metric => {
+    metrics.set(metric.key, { ...(metrics.get(metric.key) ?? {}), metadata: metric.metadata });
+  });
+  return metrics;
+}
+
+/**
+ * Creates a structured diff between two versions of an extension, covering the metrics,
+ * feature sets and screens that were added, removed or changed going from base to target.
+ * @param base extension.yaml of the base version serialized as object
+ * @param target extension.yaml of the target version serialized as object
+ * @returns the diff
+ */
+export function diffExtensions(base: ExtensionStub, target: ExtensionStub): ExtensionDiff {
+  const baseFeatureSets = new Map(getAllMetricsByFeatureSet(base).map(fs => [fs.name, fs.metrics]));
+  const targetFeatureSets = new Map(
+    getAllMetricsByFeatureSet(target).map(fs => [fs.name, fs.metrics]),
+  );
+  const featureSetsDiff = diffItems(baseFeatureSets, targetFeatureSets);
+
+  return {
+    baseVersion: base.version,
+    targetVersion: target.version,
+    metrics: diffItems(getMetricDefinitions(base), getMetricDefinitions(target)),
+    featureSets: {
+      added: featureSetsDiff.added,
+      removed: featureSetsDiff.removed,
+      changed: featureSetsDiff.changed
+        .map(name => {
+          const baseMetrics = baseFeatureSets.get(name) ?? [];
+          const targetMetrics = targetFeatureSets.get(name) ?? [];
+          return {
+            name,
+            addedMetrics: targetMetrics.filter(m => !baseMetrics.includes(m)),
+            removedMetrics: baseMetrics.filter(m => !targetMetrics.includes(m)),
+          };
+        })
+        // Metrics just being listed in a different order is not a change
+        .filter(fs => fs.addedMetrics.length + fs.removedMetrics.length > 0),
+    },
+    screens: diffItems(
+      new Map((base.screens ?? []).map(screen => [screen.entityType, screen])),
+      new Map((target.screens ?? []).map(screen => [screen.entityType, screen])),
+    ),
+  };
+}
+
+/**
+ * Checks whether a diff holds any differences at all.
+ * @param diff the diff to check
+ * @returns true if the two versions are equivalent in terms of metrics, feature sets, screens
+ */
+export function isEmptyDiff(diff: ExtensionDiff): boolean {
+  return [diff.metrics, diff.featureSets, diff.screens].every(
+    items => items.added.length + items.removed.length + items.changed.length === 0,
+  );
+}
@@ -0,0 +1,103 @@
+/**
+  Copyright 2022 Dynatrace LLC
+
+  Licensed under the Apache License, Version 2.0 (the "License");
+  you may not use this file except in compliance with the License.
+  You may obtain a copy of the License at
+
+      https://www.apache.org/licenses/LICENSE-2.0
+
+  Unless required by applicable law or agreed to in writing, software
+  distributed under the License is distributed on an "AS IS" BASIS,
+  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+  See the License for the specific language governing permissions and
+  limitations under the License.
+ */
+
+/********************************************************************************
+ * UTILITIES FOR READING EXTENSION EXECUTION LOGS
+ ********************************************************************************/
+
+import { LogRecord } from "../dynatrace-api/interfaces/logs";
+
+/** Log attributes identifying where a record came from, in order of preference */
+const SOURCE_ATTRIBUTES = ["dt.active_gate.id", "host.name", "dt.entity.host"];
+
+export interface ExtensionLogEntry {
+  timestamp: number;
+  level: string;
+  content: string;
+  source: string;
+}
+
+/**
+ * Everything the extension logs webview needs to render.
+ */
+export interface ExtensionLogsData {
+  extensionName: string;
+  configurationId?: string;
+  title: string;
+  entries: ExtensionLogEntry[];
+}
+
+/**
+ * Builds the log search query that matches the execution logs of an extension.
+ * @param extensionName name of the extension
+ * @param configurationId ID of a monitoring configuration, to only match its logs
+ * @returns log search query
+ */
+export function buildExtensionLogQuery(extensionName: string, configurationId?: string) {
+  const quote = (value: string) => `"${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`;
+  const query = `dt.extension.name=${quote(extensionName)}`;
+  return configurationId ? `${query} AND dt.extension.config.id=${quote(configurationId)}` : query;
+}
+
+/**
+ * Converts log records into the entries shown by the log viewer.
+ * @param records log records returned by the logs API
+ * @returns log entries, in the same order
+ */
+export function toLogEntries(records: LogRecord[]): ExtensionLogEntry[] {
+  return records.map(record => {
+    const source = SOURCE_ATTRIBUTES.map(
+      attribute => record.additionalColumns?.[attribute]?.[0],
+    ).find(value => value);
+    return {
+      timestamp: record.timestamp,
+      level: record.status,
+      content: record.content,
+      source: source ?? "Unknown",
+    };
+  });
+}
+
+/**
+ * Picks the entries that haven't been shown yet out of a log query result. Log records are
+ * ingested with some delay, so tail queries overlap with what was already shown and records
+ * with an identical timestamp and content are treated as the same.
+ * @param entries entries returned by the latest query
+ * @param seen keys of the entries shown so far, mapped to their timestamps; updated in place and
+ * pruned of everything older than `since`
+ * @param since timestamp from which the entries are still likely to be returned again
+ * @returns the new entries, in the same order
+ */
+export function dropSeenLogEntries(
+  entries: ExtensionLogEntry[],
+  seen: Map<string, number>,
+  since: number,
+): ExtensionLogEntry[] {
+  const newEntries = entries.filter(entry => {
+    const key = `${entry.timestamp}|${entry.source}|${entry.content}`;
+    if (seen.has(key)) {
+      return false;
+    }
+    seen.set(key, entry.timestamp);
+    return true;
+  });
+  seen.forEach((timestamp, key) => {
+    if (timestamp < since) {
+      seen.delete(key);
+    }
+  });
+  return newEntries;
+}
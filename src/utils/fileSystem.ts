@@ -22,10 +22,12 @@ import { copyFileSync, existsSync, mkdirSync, readFileSync, readdirSync, writeFi
 import * as os from "os";
 import * as path from "path";
 import { copySync } from "fs-extra";
-import { glob } from "glob";
 import * as vscode from "vscode";
+import { OAuthCredentials } from "../dynatrace-api/oauth";
 import { DynatraceEnvironmentData, ExtensionWorkspace } from "../interfaces/treeViewData";
 import { showMessage } from "./code";
+import { decryptToken, encryptToken } from "./cryptography";
+import { findExtensionFile } from "./extensionBuild";
 
 /**
  * Initializes the global storage path for the VS Code extension.
@@ -153,30 +155,195 @@ export function getAllEnvironments(context: vscode.ExtensionContext): DynatraceE
   return JSON.parse(readFileSync(environmentsJson).toString()) as DynatraceEnvironmentData[];
 }
 
+/**
+ * Gets the key under which the API token of an environment is kept in SecretStorage.
+ * @param environmentId id of the environment
+ * @returns secret key
+ */
+function getTokenSecretKey(environmentId: string) {
+  return `dynatrace-extensions.environmentToken.${environmentId}`;
+}
+
+/**
+ * Gets the key under which the OAuth client secret of an environment is kept in SecretStorage.
+ * @param environmentId id of the environment
+ * @returns secret key
+ */
+function getOAuthSecretKey(environmentId: string) {
+  return `dynatrace-extensions.oauthClientSecret.${environmentId}`;
+}
+
+/**
+ * Reads a secret from SecretStorage. SecretStorage is not available on every host, in which
+ * case there's nothing to read.
+ * @param context VSCode Extension Context
+ * @param key key of the secret
+ * @returns the secret, or undefined if there's none (or SecretStorage isn't available)
+ */
+export async function readSecret(
+  context: vscode.ExtensionContext,
+  key: string,
+): Promise<string | undefined> {
+  try {
+    return await context.secrets.get(key);
+  } catch (err) {
+    console.log(`SecretStorage not available: ${(err as Error).message}`);
+    return undefined;
+  }
+}
+
+/**
+ * Stores a secret in SecretStorage, if it is available on the host.
+ * @param context VSCode Extension Context
+ * @param key key of the secret
+ * @param value value of the secret
+ * @returns true if the secret was stored
+ */
+export async function writeSecret(
+  context: vscode.ExtensionContext,
+  key: string,
+  value: string,
+): Promise<boolean> {
+  try {
+    await context.secrets.store(key, value);
+    return true;
+  } catch (err) {
+    console.log(`SecretStorage not available: ${(err as Error).message}`);
+    return false;
+  }
+}
+
+/**
+ * Deletes a secret from SecretStorage, if it is available on the host.
+ * @param context VSCode Extension Context
+ * @param key key of the secret
+ */
+export async function deleteSecret(context: vscode.ExtensionContext, key: string) {
+  try {
+    await context.secrets.delete(key);
+  } catch (err) {
+    console.log(`SecretStorage not available: ${(err as Error).message}`);
+  }
+}
+
+/**
+ * Stores the API token of an environment in SecretStorage. SecretStorage is not available on
+ * every host (e.g. remote or container hosts without a keyring), in which case the token is
+ * kept encrypted with the environment's metadata instead.
+ * @param context VSCode Extension Context
+ * @param environment the environment, updated to reflect where the token is kept
+ * @param token the API token
+ * @returns true if the token is kept in SecretStorage
+ */
+export async function storeEnvironmentToken(
+  context: vscode.ExtensionContext,
+  environment: DynatraceEnvironmentData,
+  token: string,
+): Promise<boolean> {
+  if (await writeSecret(context, getTokenSecretKey(environment.id), token)) {
+    delete environment.token;
+    return true;
+  }
+  environment.token = encryptToken(token);
+  return false;
+}
+
+/**
+ * Gets the API token of a Dynatrace environment. A token kept with the environment's metadata
+ * (not migrated yet, or SecretStorage unavailable) is always the latest one, otherwise the
+ * token comes from SecretStorage.
+ * @param context VSCode Extension Context
+ * @param environment the environment
+ * @returns API token or an empty string if none is stored
+ */
+export async function getEnvironmentToken(
+  context: vscode.ExtensionContext,
+  environment: DynatraceEnvironmentData,
+): Promise<string> {
+  if (environment.token) {
+    return decryptToken(environment.token);
+  }
+  const token = await readSecret(context, getTokenSecretKey(environment.id));
+  if (!token) {
+    console.log(`No token stored for environment ${environment.id}`);
+  }
+  return token ?? "";
+}
+
+/**
+ * Gets the OAuth client credentials of a Dynatrace environment, if it has any.
+ * @param context VSCode Extension Context
+ * @param environment the environment
+ * @returns credentials or undefined if the environment has none (or the secret is missing)
+ */
+export async function getOAuthCredentials(
+  context: vscode.ExtensionContext,
+  environment: DynatraceEnvironmentData,
+): Promise<OAuthCredentials | undefined> {
+  if (!environment.oauthClientId) {
+    return undefined;
+  }
+  const clientSecret = await readSecret(context, getOAuthSecretKey(environment.id));
+  return clientSecret ? { clientId: environment.oauthClientId, clientSecret } : undefined;
+}
+
 /**
  * Saves the metadata of a workspace in the global storage. If previous metadata exists, it
  * will be overwritten.
  * @param context VSCode Extension Context
  * @param url URL for this environment
- * @param token API Token for Dynatrace API Calls. Note: this is stored as is, so encrypt it
- *              before sending it through
+ * @param token API Token for Dynatrace API Calls; kept in SecretStorage. If not given, the
+ *              previously stored token is kept.
  * @param name An optional name/label for this environment
  * @param current if true, this will be set as the currently used environment
+ * @param oauthClientId ID of an OAuth client for platform APIs, if any
+ * @param oauthClientSecret secret of the OAuth client; kept in SecretStorage. If not given,
+ *                          any previously stored secret is kept.
  */
 export async function registerEnvironment(
   context: vscode.ExtensionContext,
   url: string,
   apiUrl: string,
-  token: string,
+  token: string | undefined,
   name?: string,
   current: boolean = false,
+  oauthClientId?: string,
+  oauthClientSecret?: string,
 ) {
   const environmentsJson = path.join(context.globalStorageUri.fsPath, "dynatraceEnvironments.json");
   let environments = JSON.parse(
     readFileSync(environmentsJson).toString(),
   ) as DynatraceEnvironmentData[];
   const id = url.includes("/e/") ? url.split("/e/")[1] : url.split("https://")[1].substring(0, 8);
-  const environment: DynatraceEnvironmentData = { id, url, apiUrl, token, name, current };
+  const previous = environments.find(e => e.id === id);
+  const environment: DynatraceEnvironmentData = {
+    id,
+    url,
+    apiUrl,
+    // Keep a token that couldn't be moved to SecretStorage, unless replaced below
+    token: previous?.token,
+    name,
+    current,
+    oauthClientId,
+  };
+  if (token && !(await storeEnvironmentToken(context, environment, token))) {
+    showMessage(
+      "warn",
+      "Secure storage is not available on this host. The token was saved in the extension's " +
+        "global storage instead.",
+    );
+  }
+  if (!oauthClientId && previous?.oauthClientId) {
+    await deleteSecret(context, getOAuthSecretKey(id));
+  } else if (oauthClientId && oauthClientSecret) {
+    if (!(await writeSecret(context, getOAuthSecretKey(id), oauthClientSecret))) {
+      showMessage(
+        "warn",
+        "Secure storage is not available on this host, so the OAuth client secret was not " +
+          "saved. Platform APIs can't be used with this environment.",
+      );
+    }
+  }
 
   // If this will be the currently used environment, deactivate others
   if (current) {
@@ -215,13 +382,18 @@ export async function removeEnvironment(context: vscode.ExtensionContext, enviro
     readFileSync(environmentsJson).toString(),
   ) as DynatraceEnvironmentData[];
 
-  writeFileSync(environmentsJson, JSON.stringify(environments.filter(e => e.id !== environmentId)));
+  const remaining = environments.filter(e => e.id !== environmentId);
+  writeFileSync(environmentsJson, JSON.stringify(remaining));
+  await deleteSecret(context, getTokenSecretKey(environmentId));
+  if (environments.some(e => e.id === environmentId && e.oauthClientId)) {
+    await deleteSecret(context, getOAuthSecretKey(environmentId));
+  }
 
   // Update the state
   await vscode.commands.executeCommand(
     "setContext",
     "dynatrace-extensions.numEnvironments",
-    environments.length - 1,
+    remaining.length,
   );
 }
 
@@ -292,15 +464,7 @@ export function getExtensionFilePath(): string | undefined {
   if (!vscode.workspace.workspaceFolders) {
     return undefined;
   }
-  const workspaceRootPath = vscode.workspace.workspaceFolders[0].uri.fsPath;
-  let matches = glob.sync("extension/extension.yaml", { cwd: workspaceRootPath });
-  if (matches.length === 0) {
-    matches = glob.sync("*/extension/extension.yaml", { cwd: workspaceRootPath });
-  }
-  if (matches.length > 0) {
-    return path.join(workspaceRootPath, matches[0]);
-  }
-  return undefined;
+  return findExtensionFile(vscode.workspace.workspaceFolders[0].uri.fsPath);
 }
 
 /**
@@ -486,6 +650,32 @@ export function createUniqueFileName(dir: string, prefix: string, initialFileNam
   return fileName;
 }
 
+/**
+ * Moves the API tokens of all registered environments from the global storage JSON file to
+ * SecretStorage. Only environments still holding a token are migrated, so this is safe to run
+ * on every activation; tokens that can't be moved (no SecretStorage on the host) stay as they are.
+ * @param context VSCode Extension Context
+ */
+export async function migrateTokensToSecretStorage(context: vscode.ExtensionContext) {
+  const environments = getAllEnvironments(context);
+  let migrated = 0;
+  for (const environment of environments) {
+    if (
+      environment.token &&
+      (await storeEnvironmentToken(context, environment, decryptToken(environment.token)))
+    ) {
+      migrated++;
+    }
+  }
+  if (migrated > 0) {
+    writeFileSync(
+      path.join(context.globalStorageUri.fsPath, "dynatraceEnvironments.json"),
+      JSON.stringify(environments),
+    );
+    console.log(`Moved the tokens of ${migrated} environment(s) to SecretStorage`);
+  }
+}
+
 /**
  * Migrates from the legacy `dt-ext-copilot` extension to the current `dynatrace_extensions`.
  * This involves migra
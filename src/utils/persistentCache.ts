@@ -0,0 +1,132 @@
+/**
+  Copyright 2022 Dynatrace LLC
+
+  Licensed under the Apache License, Version 2.0 (the "License");
+  you may not use this file except in compliance with the License.
+  You may obtain a copy of the License at
+
+      https://www.apache.org/licenses/LICENSE-2.0
+
+  Unless required by applicable law or agreed to in writing, software
+  distributed under the License is distributed on an "AS IS" BASIS,
+  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+  See the License for the specific language governing permissions and
+  limitations under the License.
+ */
+
+/********************************************************************************
+ * UTILITIES FOR PERSISTING CACHED DATA ON DISK
+ ********************************************************************************/
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
+import * as path from "path";
+
+export interface PersistedEntry<T> {
+  value: T;
+  /** Epoch millis of when the value was last confirmed to be current */
+  validatedAt: number;
+  /** Validator returned by the source (e.g. an HTTP ETag), used for revalidation */
+  etag?: string;
+}
+
+/**
+ * The outcome of fetching data from its source. A source that supports revalidation can
+ * report the data as not modified instead of sending it again.
+ */
+export type FetchResult<T> = { notModified: true } | { value: T; etag?: string };
+
+/**
+ * A simple file based cache. Every entry is stored as its own JSON file within the cache
+ * directory, together with the time it was last validated and an optional ETag. Entries past
+ * their TTL are revalidated against the source, but are still served if the source cannot
+ * be reached - this way previously fetched data remains available offline.
+ */
+export class PersistentCache {
+  private readonly cacheDir: string;
+
+  /**
+   * @param cacheDir directory where cache entries are stored
+   */
+  constructor(cacheDir: string) {
+    this.cacheDir = cacheDir;
+  }
+
+  /**
+   * Reads an entry from the cache.
+   * @param key key of the entry
+   * @returns the entry or undefined if it doesn't exist or can't be read
+   */
+  public get<T>(key: string): PersistedEntry<T> | undefined {
+    const entryFile = this.entryPath(key);
+    if (!existsSync(entryFile)) {
+      return undefined;
+    }
+    try {
+      return JSON.parse(readFileSync(entryFile).toString()) as PersistedEntry<T>;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Writes an entry to the cache, marking it as validated now.
+   * @param key key of the entry
+   * @param value the value to store
+   * @param etag optional validator for the value
+   */
+  public set<T>(key: string, value: T, etag?: string) {
+    try {
+      if (!existsSync(this.cacheDir)) {
+        mkdirSync(this.cacheDir, { recursive: true });
+      }
+      const entry: PersistedEntry<T> = { value, validatedAt: Date.now(), etag };
+      writeFileSync(this.entryPath(key), JSON.stringify(entry));
+    } catch (err) {
+      console.log(`Could not persist cache entry ${key}. ${(err as Error).message}`);
+    }
+  }
+
+  /**
+   * Gets a value, going to the source only if the cached entry is missing or older than the
+   * TTL. Stale entries are revalidated using their ETag, and are returned as they are if the
+   * source reports no modification or fails altogether.
+   * @param key key of the entry
+   * @param ttl time (in millis) for which an entry is considered current
+   * @param fetcher fetches the data from its source, given the ETag of the cached entry
+   * @returns the value or undefined if there is neither a cached nor a fetched value
+   */
+  public async getOrFetch<T>(
+    key: string,
+    ttl: number,
+    fetcher: (etag?: string) => Promise<FetchResult<T>>,
+  ): Promise<T | undefined> {
+    const entry = this.get<T>(key);
+    if (entry && Date.now() - entry.validatedAt < ttl) {
+      return entry.value;
+    }
+
+    try {
+      const result = await fetcher(entry?.etag);
+      if (!("value" in result)) {
+        if (entry) {
+          this.set(key, entry.value, entry.etag);
+        }
+        return entry?.value;
+      }
+      this.set(key, result.value, result.etag);
+      return result.value;
+    } catch (err) {
+      console.log(`Could not revalidate cache entry ${key}. ${(err as Error).message}`);
+      return entry?.value;
+    }
+  }
+
+  /**
+   * Maps a cache key to the file that holds its entry.
+   * @param key key of the entry
+   * @returns path to the file
+   */
+  private entryPath(key: string): string {
+    return path.join(this.cacheDir, `${key.replace(/[^\w.-]/g, "_")}.json`);
+  }
+}
@@ -0,0 +1,138 @@
+/**
+  Copyright 2022 Dynatrace LLC
+
+  Licensed under the Apache License, Version 2.0 (the "License");
+  you may not use this file except in compliance with the License.
+  You may obtain a copy of the License at
+
+      https://www.apache.org/licenses/LICENSE-2.0
+
+  Unless required by applicable law or agreed to in writing, software
+  distributed under the License is distributed on an "AS IS" BASIS,
+  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+  See the License for the specific language governing permissions and
+  limitations under the License.
+ */
+
+/********************************************************************************
+ * BUILDERS FOR DASHBOARDS IN THE PLATFORM (DASHBOARDS APP) FORMAT
+ ********************************************************************************/
+
+import { PlatformDashboard, PlatformDashboardTile } from "../dynatrace-api/interfaces/dashboards";
+import { ExtensionStub } from "../interfaces/extensionMeta";
+import {
+  getAllMetricsByFeatureSet,
+  getEntityMetrics,
+  getMetricDisplayName,
+} from "./extensionParsing";
+
+const PLATFORM_DASHBOARD_VERSION = 13;
+const PLATFORM_GRID_WIDTH = 24;
+
+/**
+ * Makes a name usable as a DQL identifier, quoting it with backticks if it contains anything
+ * other than letters, digits, underscores and dots.
+ * @param name field, metric or alias name
+ * @returns DQL identifier
+ */
+function dqlIdentifier(name: string): string {
+  return /^[a-z_][a-z0-9_.]*$/i.test(name) ? name : `\`${name.replace(/`/g, "``")}\``;
+}
+
+/**
+ * Builds a DQL query that charts metrics split by the entities of a given type. Count metrics
+ * are summed up, anything else is averaged.
+ * @param metrics keys and display names of the metrics to chart
+ * @param entityType entity type (internal name) to split by
+ * @returns DQL query
+ */
+export function buildTimeseriesQuery(
+  metrics: { key: string; name: string }[],
+  entityType: string,
+): string {
+  const entityField = dqlIdentifier(`dt.entity.${entityType}`);
+  const series = metrics.map(
+    m =>
+      `${dqlIdentifier(m.name)} = ${m.key.endsWith(".count") ? "sum" : "avg"}(${dqlIdentifier(
+        m.key,
+      )})`,
+  );
+  return [
+    `timeseries { ${series.join(", ")} },`,
+    `  by: { ${entityField} }`,
+    `| fieldsAdd entityName(${entityField})`,
+  ].join("\n");
+}
+
+/**
+ * Parses the extension yaml and builds an overview dashboard in the platform (Dashboards app)
+ * format. Every entity type gets a section with one chart per feature set that has metrics for
+ * it, each powered by a DQL timeseries query.
+ * @param extension extension.yaml serialized as object
+ * @param title dashboard title
+ * @returns JSON string representing the dashboard
+ */
+export function buildPlatformDashboard(extension: ExtensionStub, title: string): string {
+  const dashboard: PlatformDashboard = {
+    version: PLATFORM_DASHBOARD_VERSION,
+    variables: [],
+    tiles: {},
+    layouts: {},
+  };
+  let y = 0;
+  const addTile = (tile: PlatformDashboardTile, x: number, w: number, h: number) => {
+    const id = String(Object.keys(dashboard.tiles).length);
+    dashboard.tiles[id] = tile;
+    dashboard.layouts[id] = { x, y, w, h };
+  };
+
+  addTile(
+    {
+      type: "markdown",
+      content: `# ${title}\nOverview of the **${extension.name}** extension (version ${extension.version}).`,
+    },
+    0,
+    PLATFORM_GRID_WIDTH,
+    2,
+  );
+  y += 2;
+
+  const featureSets = getAllMetricsByFeatureSet(extension);
+  extension.topology?.types?.forEach((type, idx) => {
+    const entityMetrics = getEntityMetrics(idx, extension);
+    const charts = featureSets
+      .map(fs => ({
+        name: fs.name,
+        metrics: fs.metrics
+          .filter(m => entityMetrics.includes(m))
+          .map(m => ({ key: m, name: getMetricDisplayName(m, extension) || m })),
+      }))
+      .filter(fs => fs.metrics.length > 0);
+    if (charts.length === 0) {
+      return;
+    }
+
+    addTile({ type: "markdown", content: `## ${type.displayName}` }, 0, PLATFORM_GRID_WIDTH, 1);
+    y += 1;
+    // Charts are laid out two per row
+    charts.forEach((chart, chartIdx) => {
+      addTile(
+        {
+          type: "data",
+          title: `${type.displayName} - ${chart.name} metrics`,
+          query: buildTimeseriesQuery(chart.metrics, type.name),
+          visualization: "lineChart",
+          visualizationSettings: { autoSelectVisualization: false },
+        },
+        (chartIdx % 2) * (PLATFORM_GRID_WIDTH / 2),
+        PLATFORM_GRID_WIDTH / 2,
+        6,
+      );
+      if (chartIdx % 2 === 1 || chartIdx === charts.length - 1) {
+        y += 6;
+      }
+    });
+  });
+
+  return JSON.stringify(dashboard, null, 2);
+}
@@ -353,15 +353,11 @@ export function createObjectFromSchema(schema: unknown, startingObject?: Record<
 }
 
 /**
- * Creates a generic Monitoring Configuration object that applies to the given datasource.
- * This cannot be imported directly to Dynatrace, modifications will be needed.
+ * Reads the generic schema bundled for the given datasource.
  * @param datasource one of the supported datasources
- * @returns a configuration object that complies with the Dynatrace schema
+ * @returns the schema or undefined if the datasource has no generic schema yet
  */
-export function createGenericConfigObject(
-  datasource: DatasourceName,
-  startingObject?: Record<string, unknown>,
-) {
+export function readGenericSchema(datasource: DatasourceName): unknown {
   const schemaPath = path.join(
     __filename,
     "..",
@@ -373,8 +369,24 @@ export function createGenericConfigObject(
   );
   // If we don't have the file, it's not supported yet by Dynatrace Extensions
   if (!existsSync(schemaPath)) {
+    return undefined;
+  }
+  return JSON.parse(readFileSync(schemaPath).toString()) as unknown;
+}
+
+/**
+ * Creates a generic Monitoring Configuration object that applies to the given datasource.
+ * This cannot be imported directly to Dynatrace, modifications will be needed.
+ * @param datasource one of the supported datasources
+ * @returns a configuration object that complies with the Dynatrace schema
+ */
+export function createGenericConfigObject(
+  datasource: DatasourceName,
+  startingObject?: Record<string, unknown>,
+) {
+  const schema = readGenericSchema(datasource);
+  if (!schema) {
     return { description: "", version: "0.0.0" };
   }
-  const schema = JSON.parse(readFileSync(schemaPath).toString()) as unknown;
   return createObjectFromSchema(schema, startingObject);
 }
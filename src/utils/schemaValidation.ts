@@ -0,0 +1,200 @@
+/**
+  Copyright 2022 Dynatrace LLC
+
+  Licensed under the Apache License, Version 2.0 (the "License");
+  you may not use this file except in compliance with the License.
+  You may obtain a copy of the License at
+
+      https://www.apache.org/licenses/LICENSE-2.0
+
+  Unless required by applicable law or agreed to in writing, software
+  distributed under the License is distributed on an "AS IS" BASIS,
+  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+  See the License for the specific language governing permissions and
+  limitations under the License.
+ */
+
+/********************************************************************************
+ * UTILITIES FOR VALIDATING EXTENSION MANIFESTS AGAINST THE EXTENSION JSON SCHEMAS
+ ********************************************************************************/
+
+import { existsSync, readdirSync, readFileSync } from "fs";
+import * as path from "path";
+import Ajv, { ErrorObject, ValidateFunction } from "ajv";
+import { Document, isMap, isNode, isPair, isScalar, parseDocument } from "yaml";
+
+const MAIN_SCHEMA_FILE = "extension.schema.json";
+
+export interface SchemaViolation {
+  /** Path to the offending node within the manifest */
+  path: (string | number)[];
+  message: string;
+  /** Offset where the offending text starts */
+  start: number;
+  /** Offset where the offending text ends */
+  end: number;
+}
+
+/**
+ * Loads all schema files found in a directory (as downloaded by the Load schemas command) and
+ * compiles a validation function for the main extension schema. Schema files reference each
+ * other by their $id, so all of them must be registered before compiling.
+ * @param schemaDir directory holding the schema files of one version
+ * @returns the validation function or undefined if the main schema isn't available
+ */
+export function compileSchemaValidator(schemaDir: string): ValidateFunction | undefined {
+  if (!existsSync(path.join(schemaDir, MAIN_SCHEMA_FILE))) {
+    return undefined;
+  }
+
+  const ajv = new Ajv({ allErrors: true, strict: false, validateSchema: false });
+  let mainSchemaId: string | undefined;
+  readdirSync(schemaDir)
+    .filter(file => file.endsWith(".json"))
+    .forEach(file => {
+      const schema = JSON.parse(readFileSync(path.join(schemaDir, file)).toString()) as Record<
+        string,
+        unknown
+      >;
+      // The meta-schema declaration is dropped as we don't need Ajv to validate the schemas
+      delete schema.$schema;
+      const schemaId = typeof schema.$id === "string" ? schema.$id : file;
+      ajv.addSchema(schema, schemaId);
+      if (file === MAIN_SCHEMA_FILE) {
+        mainSchemaId = schemaId;
+      }
+    });
+
+  return mainSchemaId ? ajv.getSchema(mainSchemaId) : undefined;
+}
+
+/**
+ * Converts a JSON pointer (as used in validation errors) to a path usable with the YAML API.
+ * @param pointer JSON pointer (e.g. /metrics/0/key)
+ * @param value the validated value, used to tell array indexes apart from map keys
+ * @returns list of path segments
+ */
+function pointerToPath(pointer: string, value: unknown): (string | number)[] {
+  if (pointer === "") {
+    return [];
+  }
+  const segments: (string | number)[] = [];
+  let current = value;
+  pointer
+    .substring(1)
+    .split("/")
+    .map(segment => segment.replace(/~1/g, "/").replace(/~0/g, "~"))
+    .forEach(segment => {
+      if (Array.isArray(current)) {
+        segments.push(Number(segment));
+        current = current[Number(segment)] as unknown;
+      } else {
+        segments.push(segment);
+        current = (current as Record<string, unknown> | undefined)?.[segment];
+      }
+    });
+  return segments;
+}
+
+/**
+ * Finds the text range of a node in the YAML document. If a key is given, the range of that
+ * key within the node (assumed to be a map) is returned instead.
+ * @param document parsed YAML document
+ * @param nodePath path to the node
+ * @param key optional key within the node
+ * @returns start and end offsets
+ */
+function getRange(
+  document: Document,
+  nodePath: (string | number)[],
+  key?: string,
+): [number, number] {
+  const node = nodePath.length > 0 ? document.getIn(nodePath, true) : document.contents;
+  if (key && isMap(node)) {
+    const pair = node.items.find(
+      item => isPair(item) && isScalar(item.key) && item.key.value === key,
+    );
+    if (pair && isNode(pair.key) && pair.key.range) {
+      return [pair.key.range[0], pair.key.range[1]];
+    }
+  }
+  // For a map item, highlight its key rather than the whole (possibly huge) value
+  if (nodePath.length > 0) {
+    const parent = document.getIn(nodePath.slice(0, -1), true);
+    const lastSegment = nodePath[nodePath.length - 1];
+    if (isMap(parent) && !(isScalar(node) || node === undefined)) {
+      const pair = parent.items.find(
+        item => isPair(item) && isScalar(item.key) && item.key.value === lastSegment,
+      );
+      if (pair && isNode(pair.key) && pair.key.range) {
+        return [pair.key.range[0], pair.key.range[1]];
+      }
+    }
+  }
+  if (isNode(node) && node.range) {
+    return [node.range[0], node.range[1]];
+  }
+  return [0, 0];
+}
+
+/**
+ * Creates a user-friendly message from a validation error.
+ * @param error the error produced by the validation function
+ * @returns message
+ */
+function errorMessage(error: ErrorObject): string {
+  switch (error.keyword) {
+    case "additionalProperties":
+      return `Property "${String(error.params.additionalProperty)}" is not allowed here.`;
+    case "required":
+      return `Missing required property "${String(error.params.missingProperty)}".`;
+    case "enum":
+      return `Value must be one of: ${(error.params.allowedValues as unknown[])
+        .map(v => JSON.stringify(v))
+        .join(", ")}.`;
+    default:
+      return `Value ${error.message ?? "is invalid"}.`;
+  }
+}
+
+/**
+ * Validates the content of an extension manifest against the extension schema and maps any
+ * violations back to positions in the manifest text.
+ * @param validate validation function compiled from the schemas
+ * @param extension the manifest, parsed (what gets validated)
+ * @param content the manifest text (used for mapping positions)
+ * @returns list of violations
+ */
+export function validateManifest(
+  validate: ValidateFunction,
+  extension: unknown,
+  content: string,
+): SchemaViolation[] {
+  if (validate(extension)) {
+    return [];
+  }
+
+  const document = parseDocument(content);
+  const violations: SchemaViolation[] = [];
+  (validate.errors ?? [])
+    // Composition keywords only summarize the errors of their branches
+    .filter(error => !["anyOf", "oneOf", "if"].includes(error.keyword))
+    .forEach(error => {
+      const errorPath = pointerToPath(error.instancePath, extension);
+      const key =
+        error.keyword === "additionalProperties"
+          ? String(error.params.additionalProperty)
+          : undefined;
+      const message = errorMessage(error);
+      const violationPath = key ? [...errorPath, key] : errorPath;
+      if (
+        violations.some(v => v.message === message && v.path.join("/") === violationPath.join("/"))
+      ) {
+        return;
+      }
+      const [start, end] = getRange(document, errorPath, key);
+      violations.push({ path: violationPath, message, start, end });
+    });
+
+  return violations;
+}
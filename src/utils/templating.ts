@@ -0,0 +1,38 @@
+/**
+  Copyright 2022 Dynatrace LLC
+
+  Licensed under the Apache License, Version 2.0 (the "License");
+  you may not use this file except in compliance with the License.
+  You may obtain a copy of the License at
+
+      https://www.apache.org/licenses/LICENSE-2.0
+
+  Unless required by applicable law or agreed to in writing, software
+  distributed under the License is distributed on an "AS IS" BASIS,
+  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+  See the License for the specific language governing permissions and
+  limitations under the License.
+ */
+
+/********************************************************************************
+ * UTILITIES FOR RENDERING MUSTACHE/HANDLEBARS STYLE TEMPLATES
+ ********************************************************************************/
+
+import * as Handlebars from "handlebars";
+
+// Templates are user-provided, so they get an environment of their own without any partials
+const handlebars = Handlebars.create();
+
+/**
+ * Renders a Mustache or Handlebars template. Mustache templates are supported through
+ * Handlebars' compatibility mode, which lets sections look up names in parent contexts.
+ * Partials aren't supported; templates that use them (or have any syntax errors) fail with an
+ * error rather than rendering incomplete output.
+ * @param template template text
+ * @param view data to render the template with
+ * @param escapeHtml whether variable values get HTML-escaped; `{{{name}}}` never is
+ * @returns rendered text
+ */
+export function renderTemplate(template: string, view: unknown, escapeHtml = true): string {
+  return handlebars.compile(template, { compat: true, noEscape: !escapeHtml })(view);
+}
@@ -18,7 +18,9 @@
  * UTILITIES FOR PARSING RAW YAML CONTENT
  ********************************************************************************/
 
+import { isDeepStrictEqual } from "util";
 import * as vscode from "vscode";
+import { CST, Document, isSeq, Parser, parseDocument, parse as parseYaml, stringify } from "yaml";
 
 /**
  * Gets the indent of a text line.
@@ -249,3 +251,423 @@ export function getBlockRange(
   // At this point, end of block must be end of file
   return { startIndex, endIndex: document.getText().length - 1 };
 }
+
+/**
+ * A change to YAML content, as a replacement of a range of text.
+ */
+export interface YamlEdit {
+  offset: number;
+  length: number;
+  text: string;
+}
+
+/**
+ * Path to a node within YAML content: keys for mappings and indexes for sequences.
+ */
+export type YamlPath = (string | number)[];
+
+type CollectionItem = CST.CollectionItem;
+
+/**
+ * Parses YAML content into its concrete syntax tree (CST), which keeps all comments and
+ * formatting. Edits are only attempted on content that is valid YAML.
+ * @param content yaml content
+ * @returns the root token of the first document, or undefined if the content is empty
+ */
+function parseCst(content: string): CST.Token | undefined {
+  if (parseDocument(content).errors.length > 0) {
+    throw new Error("Content is not valid YAML and can't be edited safely");
+  }
+  for (const token of new Parser().parse(content)) {
+    if (token.type === "document") {
+      return token.value;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Gets the column of an offset within the content.
+ * @param content text content
+ * @param offset offset within the content
+ * @returns column (0-based)
+ */
+function columnOf(content: string, offset: number): number {
+  return offset - (content.lastIndexOf("\n", offset - 1) + 1);
+}
+
+/**
+ * Gets the offset right after a token (including any comments and newlines that belong to it).
+ * @param token CST token or collection item
+ * @returns end offset
+ */
+function endOf(token: CST.Token): number {
+  return token.offset + CST.stringify(token).length;
+}
+
+/**
+ * Gets the offset right after the content of a block collection. Unlike {@link endOf}, this
+ * leaves out trailing blank lines and trailing comments indented less than the collection's
+ * entries, since those belong to whatever follows the collection.
+ * @param content yaml content
+ * @param token block collection token
+ * @param column column at which the collection's entries start
+ * @returns end offset
+ */
+function contentEndOf(content: string, token: CST.Token, column: number): number {
+  let end = endOf(token);
+  for (;;) {
+    const lineStart = content.lastIndexOf("\n", content[end - 1] === "\n" ? end - 2 : end - 1) + 1;
+    if (lineStart <= token.offset) {
+      return end;
+    }
+    const line = content.slice(lineStart, end);
+    const text = line.trimStart();
+    const isOuterComment = text.startsWith("#") && line.length - text.length < column;
+    if (text.trim() !== "" && !isOuterComment) {
+      return end;
+    }
+    end = lineStart;
+  }
+}
+
+/**
+ * Gets the line ending used by YAML content, so that edits don't mix line endings.
+ * @param content yaml content
+ * @returns "\r\n" if the content uses CRLF line endings, "\n" otherwise
+ */
+function eolOf(content: string): string {
+  return content.includes("\r\n") ? "\r\n" : "\n";
+}
+
+/**
+ * Gets the resolved key of a mapping item.
+ * @param item CST collection item
+ * @returns the key as string, or undefined if the item has no scalar key
+ */
+function keyOf(item: CollectionItem): string | undefined {
+  return item.key && CST.isScalar(item.key) ? CST.resolveAsScalar(item.key).value : undefined;
+}
+
+/**
+ * Gets the items of a block sequence, leaving out comment-only lines.
+ * @param token block sequence token
+ * @returns sequence items
+ */
+function sequenceItems(token: CST.BlockSequence): CollectionItem[] {
+  return token.items.filter(item => item.start.some(t => t.type === "seq-item-ind"));
+}
+
+/**
+ * Follows a path through the CST as far as it exists.
+ * @param root root token of the document
+ * @param path path to follow
+ * @returns the deepest item found, its value and the number of path segments found
+ */
+function locate(
+  root: CST.Token | undefined,
+  path: YamlPath,
+): { item?: CollectionItem; token?: CST.Token; found: number } {
+  let location: { item?: CollectionItem; token?: CST.Token; found: number } = {
+    token: root,
+    found: 0,
+  };
+  for (const segment of path) {
+    const { token } = location;
+    let next: CollectionItem | undefined;
+    if (token?.type === "block-map" && typeof segment === "string") {
+      next = token.items.find(item => keyOf(item) === segment);
+    } else if (token?.type === "block-seq" && typeof segment === "number") {
+      next = sequenceItems(token)[segment];
+    }
+    if (!next) {
+      break;
+    }
+    location = { item: next, token: next.value ?? undefined, found: location.found + 1 };
+  }
+  return location;
+}
+
+/**
+ * Renders values as entries of a block sequence.
+ * @param entries values to render
+ * @param column column at which the "-" of each entry sits
+ * @param eol line ending to use
+ * @returns yaml text, ending with a newline
+ */
+function renderBlockEntries(entries: unknown[], column: number, eol: string): string {
+  const pad = " ".repeat(column);
+  return entries
+    .map(entry =>
+      stringify(entry, { lineWidth: 0 })
+        .trimEnd()
+        .split("\n")
+        .map((line, i) => `${pad}${i === 0 ? "- " : "  "}${line}`)
+        .join(eol),
+    )
+    .map(entry => `${entry}${eol}`)
+    .join("");
+}
+
+/**
+ * Creates an edit that inserts whole lines of text at an offset, making sure they start on a
+ * line of their own.
+ * @param content yaml content
+ * @param offset where to insert
+ * @param text lines to insert
+ * @returns edit
+ */
+function insertLines(content: string, offset: number, text: string): YamlEdit {
+  const needsNewline = offset > 0 && content[offset - 1] !== "\n";
+  return { offset, length: 0, text: needsNewline ? `${eolOf(content)}${text}` : text };
+}
+
+/**
+ * Creates an edit that inserts lines right after the line of a mapping key.
+ * @param content yaml content
+ * @param key key token
+ * @param text lines to insert
+ * @returns edit
+ */
+function insertAfterKey(content: string, key: CST.Token, text: string): YamlEdit {
+  const lineEnd = content.indexOf("\n", key.offset);
+  return insertLines(content, lineEnd === -1 ? content.length : lineEnd + 1, text);
+}
+
+/**
+ * Adds entries to the end of a list within YAML content, keeping the indentation of the list
+ * and all comments intact. Block lists get block entries, flow lists (e.g. `[]`) get flow
+ * entries. If the list (or any of its parent mappings) doesn't exist yet, it is created.
+ * @param content yaml content
+ * @param path path to the list
+ * @param entries values to add
+ * @returns edits to apply to the content
+ */
+export function addYamlListEntries(
+  content: string,
+  path: YamlPath,
+  entries: unknown[],
+): YamlEdit[] {
+  const { item, token, found } = locate(parseCst(content), path);
+  const keyColumn = item?.key ? columnOf(content, item.key.offset) : 0;
+  const eol = eolOf(content);
+
+  if (found === path.length) {
+    if (token?.type === "block-seq") {
+      const column = columnOf(content, sequenceItems(token)[0].start[0].offset);
+      return [
+        insertLines(
+          content,
+          contentEndOf(content, token, column),
+          renderBlockEntries(entries, column, eol),
+        ),
+      ];
+    }
+    if (token?.type === "flow-collection" && token.start.type === "flow-seq-start") {
+      const closing = token.end.find(t => t.type === "flow-seq-end");
+      if (closing) {
+        const hasItems = token.items.some(i => i.value);
+        const text = entries
+          .map(entry => new Document(entry, { flow: true }).toString({ lineWidth: 0 }).trimEnd())
+          .join(", ");
+        return [{ offset: closing.offset, length: 0, text: hasItems ? `, ${text}` : text }];
+      }
+    }
+    if (!token && item?.key) {
+      return [insertAfterKey(content, item.key, renderBlockEntries(entries, keyColumn + 2, eol))];
+    }
+    throw new Error(`${path.join(".")} is not a list`);
+  }
+
+  // Part of the path is missing; create it inside the deepest mapping that exists
+  const missing = path.slice(found);
+  if (missing.some(segment => typeof segment === "number")) {
+    throw new Error(`${path.join(".")} does not exist`);
+  }
+  const renderMissing = (column: number) =>
+    missing
+      .map((key, i) => `${" ".repeat(column + 2 * i)}${stringify(key).trimEnd()}:${eol}`)
+      .join("") + renderBlockEntries(entries, column + 2 * missing.length, eol);
+
+  if (token?.type === "block-map") {
+    const column = token.items[0].key ? columnOf(content, token.items[0].key.offset) : keyColumn;
+    return [insertLines(content, contentEndOf(content, token, column), renderMissing(column))];
+  }
+  if (!token && item?.key) {
+    return [insertAfterKey(content, item.key, renderMissing(keyColumn + 2))];
+  }
+  if (!token && found === 0) {
+    return [insertLines(content, content.length, renderMissing(0))];
+  }
+  throw new Error(`${path.slice(0, found).join(".")} is not a mapping`);
+}
+
+/**
+ * Updates an existing entry of a list within YAML content. Mapping entries are updated key by
+ * key so that comments within them are kept; anything else is replaced as a whole.
+ * @param content yaml content
+ * @param item CST item of the existing entry
+ * @param existing current value of the entry
+ * @param entry new value of the entry
+ * @returns edits to apply to the content
+ */
+function updateListEntry(
+  content: string,
+  item: CollectionItem,
+  existing: unknown,
+  entry: unknown,
+): YamlEdit[] {
+  const value = item.value;
+  if (!value) {
+    return [];
+  }
+  const eol = eolOf(content);
+  const isObject = (o: unknown): o is Record<string, unknown> =>
+    typeof o === "object" && o !== null && !Array.isArray(o);
+
+  if (value.type === "block-map" && isObject(existing) && isObject(entry)) {
+    const edits: YamlEdit[] = [];
+    const column = value.items[0].key ? columnOf(content, value.items[0].key.offset) : 0;
+    const newKeys: Record<string, unknown> = {};
+    let replaceAll = false;
+    for (const [key, newValue] of Object.entries(entry)) {
+      if (!(key in existing)) {
+        newKeys[key] = newValue;
+        continue;
+      }
+      if (isDeepStrictEqual(existing[key], newValue)) {
+        continue;
+      }
+      const mapItem = value.items.find(i => keyOf(i) === key);
+      const rendered = stringify(newValue, { lineWidth: 0 }).trimEnd();
+      const scalar = mapItem?.value;
+      if (
+        !scalar ||
+        scalar.type === "block-scalar" ||
+        !CST.isScalar(scalar) ||
+        rendered.includes("\n")
+      ) {
+        replaceAll = true;
+        break;
+      }
+      edits.push({ offset: scalar.offset, length: scalar.source.length, text: rendered });
+    }
+    if (!replaceAll) {
+      if (Object.keys(newKeys).length > 0) {
+        const text = stringify(newKeys, { lineWidth: 0 })
+          .trimEnd()
+          .split("\n")
+          .map(line => `${" ".repeat(column)}${line}${eol}`)
+          .join("");
+        edits.push(insertLines(content, contentEndOf(content, value, column), text));
+      }
+      return edits;
+    }
+  }
+
+  // Anything else is replaced, keeping the "- " indicator and whatever follows the entry
+  const column = columnOf(content, item.start[0].offset);
+  const text = renderBlockEntries([entry], column, eol)
+    .trimEnd()
+    .slice(column + 2);
+  return [{ offset: value.offset, length: CST.stringify(value).trimEnd().length, text: text }];
+}
+
+/**
+ * Adds an entry to a list within YAML content, or updates it if the list already has a
+ * matching entry. Nothing changes if the matching entry already has the same value.
+ * @param content yaml content
+ * @param path path to the list
+ * @param entry value of the entry
+ * @param isSameEntry tells whether an existing entry is the one to update
+ * @returns edits to apply to the content (empty if nothing needs to change)
+ */
+export function setYamlListEntry(
+  content: string,
+  path: YamlPath,
+  entry: unknown,
+  isSameEntry: (existing: unknown) => boolean,
+): YamlEdit[] {
+  const { token, found } = locate(parseCst(content), path);
+  if (found === path.length && token?.type === "block-seq") {
+    for (const item of sequenceItems(token)) {
+      // Parsing from the start of the line keeps the entry's indentation consistent
+      const lineStart = item.start[0].offset - columnOf(content, item.start[0].offset);
+      const [existing] = parseYaml(
+        content.slice(lineStart, item.value ? endOf(item.value) : endOf(item.start[0])),
+      ) as unknown[];
+      if (isSameEntry(existing)) {
+        return isDeepStrictEqual(existing, entry)
+          ? []
+          : updateListEntry(content, item, existing, entry);
+      }
+    }
+  } else if (found === path.length && token) {
+    // Entries of flow lists are only ever added, never updated
+    const list = parseDocument(content).getIn(path);
+    if (isSeq(list) && list.toJSON().some(isSameEntry)) {
+      return [];
+    }
+  }
+  return addYamlListEntries(content, path, [entry]);
+}
+
+/**
+ * Applies edits to YAML content.
+ * @param content yaml content
+ * @param edits edits to apply (non-overlapping)
+ * @returns the edited content
+ */
+export function applyYamlEdits(content: string, edits: YamlEdit[]): string {
+  return [...edits]
+    .sort((a, b) => b.offset - a.offset)
+    .reduce(
+      (text, edit) =>
+        text.slice(0, edit.offset) + edit.text + text.slice(edit.offset + edit.length),
+      content,
+    );
+}
+
+/**
+ * Gets the path of the mapping key found on a given line of YAML content.
+ * @param content yaml content
+ * @param lineNumber number of the line (0-based)
+ * @returns path to the key's value, or undefined if there's no key on the line
+ */
+export function getYamlPathAtLine(content: string, lineNumber: number): YamlPath | undefined {
+  const lines = content.split("\n");
+  if (lineNumber >= lines.length) {
+    return undefined;
+  }
+  const lineStart = lines
+    .slice(0, lineNumber)
+    .reduce((offset, line) => offset + line.length + 1, 0);
+  const lineEnd = lineStart + lines[lineNumber].length;
+
+  const search = (token: CST.Token | undefined, path: YamlPath): YamlPath | undefined => {
+    if (token?.type === "block-map") {
+      for (const item of token.items) {
+        const key = keyOf(item);
+        if (key === undefined) {
+          continue;
+        }
+        if (item.key && item.key.offset >= lineStart && item.key.offset <= lineEnd) {
+          return [...path, key];
+        }
+        const result = search(item.value ?? undefined, [...path, key]);
+        if (result) {
+          return result;
+        }
+      }
+    } else if (token?.type === "block-seq") {
+      for (const [i, item] of sequenceItems(token).entries()) {
+        const result = search(item.value ?? undefined, [...path, i]);
+        if (result) {
+          return result;
+        }
+      }
+    }
+    return undefined;
+  };
+  return search(parseCst(content), []);
+}
@@ -15,6 +15,7 @@
  */
 
 import * as vscode from "vscode";
+import { showMessage } from "../utils/code";
 
 /**
  * Registered viewType (id) values for known webivew panels.
@@ -22,6 +23,10 @@ import * as vscode from "vscode";
 export enum REGISTERED_PANELS {
   METRIC_RESULTS = "dynatrace-extensions.MetricResults",
   WMI_RESULTS = "dynatrace-extensions.WmiResults",
+  ALERT_BACKTEST = "dynatrace-extensions.AlertBacktest",
+  CONFIGURATION_FORM = "dynatrace-extensions.ConfigurationForm",
+  CONFIGURATION_STATUS = "dynatrace-extensions.ConfigurationStatus",
+  EXTENSION_LOGS = "dynatrace-extensions.ExtensionLogs",
 }
 
 /**
@@ -57,6 +62,16 @@ interface PanelData {
   data: unknown;
 }
 
+/**
+ * Message exchanged between the extension and a webview panel.
+ */
+export interface PanelMessage {
+  messageType: string;
+  data: unknown;
+}
+
+type PanelMessageHandler = (message: PanelMessage) => void | Promise<void>;
+
 /**
  * This class manages the state and behavior of webview panels rendered as a React app.
  * There will be a single global instance of this class managing all panels.
@@ -65,6 +80,7 @@ interface PanelData {
 export class WebviewPanelManager implements vscode.WebviewPanelSerializer {
   private currentPanels: Map<REGISTERED_PANELS, vscode.WebviewPanel>;
   private disposables: Map<REGISTERED_PANELS, vscode.Disposable[]>;
+  private messageHandlers: Map<REGISTERED_PANELS, PanelMessageHandler>;
 
   private readonly extensionUri: vscode.Uri;
 
@@ -74,6 +90,7 @@ export class WebviewPanelManager implements vscode.WebviewPanelSerializer {
   constructor(extensionUri: vscode.Uri) {
     this.currentPanels = new Map<REGISTERED_PANELS, vscode.WebviewPanel>();
     this.disposables = new Map<REGISTERED_PANELS, vscode.Disposable[]>();
+    this.messageHandlers = new Map<REGISTERED_PANELS, PanelMessageHandler>();
     this.extensionUri = extensionUri;
   }
 
@@ -130,6 +147,7 @@ export class WebviewPanelManager implements vscode.WebviewPanelSerializer {
     // Clear references
     this.currentPanels.delete(viewType);
     this.disposables.delete(viewType);
+    this.messageHandlers.delete(viewType);
 
     if (panel) {
       // Dispose of the current panel
@@ -152,13 +170,36 @@ export class WebviewPanelManager implements vscode.WebviewPanelSerializer {
    * @param data panel data
    */
   private setupPanel(viewType: REGISTERED_PANELS, panel: vscode.WebviewPanel, data: PanelData) {
+    const disposables: vscode.Disposable[] = [];
+    this.disposables.set(viewType, disposables);
+
     // Event listener for disposing the panel
     panel.onDidDispose(
       () => {
         this.dispose(viewType);
       },
       null,
-      this.disposables.get(viewType),
+      disposables,
+    );
+
+    // Event listener for messages sent by the React app
+    panel.webview.onDidReceiveMessage(
+      async (message: PanelMessage) => {
+        const handler = this.messageHandlers.get(viewType);
+        if (handler) {
+          // Errors would otherwise go unnoticed, leaving the panel without any feedback
+          try {
+            await handler(message);
+          } catch (err) {
+            showMessage(
+              "error",
+              `Could not process ${message.messageType}: ${(err as Error).message}`,
+            );
+          }
+        }
+      },
+      null,
+      disposables,
     );
 
     // Set the HTML content for the panel
@@ -174,8 +215,19 @@ export class WebviewPanelManager implements vscode.WebviewPanelSerializer {
    * @param viewType string representing the view type (id) of the panel
    * @param title title of the panel
    * @param data data to be sent to the webview
+   * @param onMessage handler for messages sent back by the webview
    */
-  public render(viewType: REGISTERED_PANELS, title: string, data: PanelData) {
+  public render(
+    viewType: REGISTERED_PANELS,
+    title: string,
+    data: PanelData,
+    onMessage?: PanelMessageHandler,
+  ) {
+    if (onMessage) {
+      this.messageHandlers.set(viewType, onMessage);
+    } else {
+      this.messageHandlers.delete(viewType);
+    }
     if (this.currentPanels.has(viewType)) {
       // If a webview panel of this view type exists, send it the new data
       const existingPanel = this.currentPanels.get(viewType);
@@ -202,6 +254,40 @@ export class WebviewPanelManager implements vscode.WebviewPanelSerializer {
     }
   }
 
+  /**
+   * Sends a message to the webview panel of the given view type, if it is open.
+   * @param viewType string representing the view type (id) of the panel
+   * @param message message to send
+   */
+  public postMessage(viewType: REGISTERED_PANELS, message: PanelMessage) {
+    this.currentPanels
+      .get(viewType)
+      ?.webview.postMessage(message)
+      .then(
+        () => {},
+        err => {
+          console.log(`Could not post message to webview. ${(err as Error).message}`);
+        },
+      );
+  }
+
+  /**
+   * Checks whether the webview panel of the given view type is open.
+   * @param viewType string representing the view type (id) of the panel
+   * @returns true if the panel is open
+   */
+  public isOpen(viewType: REGISTERED_PANELS) {
+    return this.currentPanels.has(viewType);
+  }
+
+  /**
+   * Closes the webview panel of the given view type, if it is open.
+   * @param viewType string representing the view type (id) of the panel
+   */
+  public close(viewType: REGISTERED_PANELS) {
+    this.dispose(viewType);
+  }
+
   /**
    * Restores the contents of a webview from its persisted state.
    * @param panel webview panel being restored
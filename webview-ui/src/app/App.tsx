@@ -1,8 +1,16 @@
 import { Page } from "@dynatrace/strato-components-preview";
 import React, { useEffect, useState } from "react";
 import { EmptyState } from "./components/EmptyState";
+import { AlertBacktestPanel } from "./components/panels/AlertBacktestPanel";
+import { ConfigurationFormPanel } from "./components/panels/ConfigurationFormPanel";
+import { ConfigurationStatusPanel } from "./components/panels/ConfigurationStatusPanel";
+import { ExtensionLogsPanel } from "./components/panels/ExtensionLogsPanel";
 import { MetricResultsPanel } from "./components/panels/MetricResultsPanel";
 import { WmiResultPanel } from "./components/panels/WmiResultPanel";
+import { BacktestResult } from "./interfaces/alertBacktestPanel";
+import { ConfigurationFormData } from "./interfaces/configurationFormPanel";
+import { ConfigurationStatusHistory } from "./interfaces/configurationStatusPanel";
+import { ExtensionLogsData } from "./interfaces/extensionLogsPanel";
 import { PanelData } from "./interfaces/general";
 import { MetricSeriesCollection } from "./interfaces/metricResultsPanel";
 import { WebviewApi } from "./interfaces/vscode";
@@ -51,6 +59,24 @@ export const App = ({ vscode, dataType, data }: AppProps) => {
           <MetricResultsPanel data={panelData.data as MetricSeriesCollection[]} />
         )}
         {dataType === "WMI_RESULT" && <WmiResultPanel data={panelData.data as WmiQueryResult} />}
+        {dataType === "ALERT_BACKTEST" && (
+          <AlertBacktestPanel data={panelData.data as BacktestResult} />
+        )}
+        {dataType === "CONFIGURATION_FORM" && (
+          <ConfigurationFormPanel vscode={vscode} data={panelData.data as ConfigurationFormData} />
+        )}
+        {dataType === "CONFIGURATION_STATUS" && (
+          <ConfigurationStatusPanel data={panelData.data as ConfigurationStatusHistory[]} />
+        )}
+        {dataType === "EXTENSION_LOGS" && (
+          <ExtensionLogsPanel
+            // Start over when switching to the logs of another extension or configuration
+            key={`${(panelData.data as ExtensionLogsData).extensionName}/${
+              (panelData.data as ExtensionLogsData).configurationId ?? ""
+            }`}
+            data={panelData.data as ExtensionLogsData}
+          />
+        )}
       </Page.Main>
     </Page>
   );
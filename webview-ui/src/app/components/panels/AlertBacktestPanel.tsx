@@ -0,0 +1,102 @@
+import {
+  CodeSnippet,
+  DataTable,
+  Flex,
+  Heading,
+  InformationOverlay,
+  TableColumn,
+  Text,
+  Timeseries,
+  TimeseriesChart,
+  TimeseriesChartConfig,
+} from "@dynatrace/strato-components-preview";
+import React from "react";
+import { BacktestResult, BacktestSeries } from "src/app/interfaces/alertBacktestPanel";
+
+interface AlertBacktestPanelProps {
+  data: BacktestResult;
+}
+
+const eventColumns: TableColumn[] = [
+  { header: "Series", accessor: "series", autoWidth: true, ratioWidth: 2 },
+  { header: "Opened", accessor: "start", autoWidth: true, ratioWidth: 1 },
+  { header: "Closed", accessor: "end", autoWidth: true, ratioWidth: 1 },
+];
+
+const toDatapoints = (timestamps: number[], values: (number | null)[]) =>
+  timestamps.flatMap((ts, i) => {
+    const value = values[i];
+    if (value === null) {
+      return [];
+    }
+    return [{ start: new Date(i > 0 ? timestamps[i - 1] : ts), end: new Date(ts), value }];
+  });
+
+const toTimeseriesData = ({ name, timestamps, values, lower, upper }: BacktestSeries) => {
+  const timeseries: Timeseries[] = [{ name, datapoints: toDatapoints(timestamps, values) }];
+  if (upper.some(v => v !== null)) {
+    timeseries.push({ name: "Upper bound", datapoints: toDatapoints(timestamps, upper) });
+  }
+  if (lower.some(v => v !== null)) {
+    timeseries.push({ name: "Lower bound", datapoints: toDatapoints(timestamps, lower) });
+  }
+  return timeseries;
+};
+
+export const AlertBacktestPanel = ({ data }: AlertBacktestPanelProps) => {
+  const { alertName, metricSelector, strategy, eventCount, series } = data;
+  const events = series.flatMap(s =>
+    s.events.map(e => ({
+      series: s.name,
+      start: new Date(e.start).toLocaleString(),
+      end: e.end ? new Date(e.end).toLocaleString() : "Still open",
+    })),
+  );
+
+  return (
+    <Flex flexDirection='column' gap={16}>
+      <Heading level={1}>Alert backtest: {alertName}</Heading>
+      <Flex flexDirection='column' paddingTop={20}>
+        <Text textStyle='base-emphasized'>Metric selector:</Text>
+        <CodeSnippet showLineNumbers={false} language='sql'>
+          {metricSelector}
+        </CodeSnippet>
+        <Flex gap={6}>
+          <Text textStyle='base-emphasized'>Monitoring strategy:</Text>
+          <Text>{strategy}</Text>
+        </Flex>
+        <Flex gap={6}>
+          <Text textStyle='base-emphasized'>Events raised:</Text>
+          <Text>{eventCount}</Text>
+        </Flex>
+      </Flex>
+      <Flex justifyContent='space-between' paddingTop={8}>
+        <Text>Timeseries data and bounds of normal behavior:</Text>
+        {series.length > 5 && (
+          <InformationOverlay>
+            <InformationOverlay.Trigger />
+            <InformationOverlay.Content>
+              The metric included more series, however, for readability we are only displaying the
+              first 5. All events are listed below.
+            </InformationOverlay.Content>
+          </InformationOverlay>
+        )}
+      </Flex>
+      {series.slice(0, 5).map(s => (
+        <Flex key={s.name} flexDirection='column'>
+          <Text textStyle='base-emphasized'>
+            {s.name} ({s.events.length} events)
+          </Text>
+          <TimeseriesChartConfig value={{ legend: { position: "bottom", resizable: false } }}>
+            <TimeseriesChart data={toTimeseriesData(s)} />
+          </TimeseriesChartConfig>
+        </Flex>
+      ))}
+      {events.length > 0 && (
+        <DataTable columns={eventColumns} data={events}>
+          <DataTable.Pagination defaultPageSize={10} />
+        </DataTable>
+      )}
+    </Flex>
+  );
+};
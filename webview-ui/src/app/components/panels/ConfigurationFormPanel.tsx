@@ -0,0 +1,314 @@
+import {
+  Button,
+  Checkbox,
+  Flex,
+  FormField as StratoFormField,
+  Heading,
+  NumberInput,
+  PasswordInput,
+  Select,
+  SelectOption,
+  Text,
+  TextInput,
+} from "@dynatrace/strato-components-preview";
+import React, { useEffect, useState } from "react";
+import {
+  ConfigurationFormData,
+  FormField,
+  FormPrecondition,
+} from "src/app/interfaces/configurationFormPanel";
+import { PanelData } from "src/app/interfaces/general";
+import { WebviewApi } from "src/app/interfaces/vscode";
+
+interface ConfigurationFormPanelProps {
+  vscode: WebviewApi<PanelData>;
+  data: ConfigurationFormData;
+}
+
+interface FieldProps {
+  field: FormField;
+  value: unknown;
+  siblings: Record<string, unknown>;
+  path: string;
+  errors: Record<string, string>;
+  onChange: (path: string, value: unknown) => void;
+}
+
+interface ValidationErrorsEvent {
+  messageType: string;
+  data: Record<string, string>;
+}
+
+const meetsPrecondition = (
+  precondition: FormPrecondition,
+  value: Record<string, unknown>,
+): boolean => {
+  const propertyValue = precondition.property ? value[precondition.property] : undefined;
+  switch (precondition.type) {
+    case "EQUALS":
+      return propertyValue === precondition.expectedValue;
+    case "IN":
+      return (precondition.expectedValues ?? []).includes(propertyValue);
+    case "NULL":
+      return propertyValue === undefined || propertyValue === null;
+    case "NOT":
+      return !precondition.precondition || !meetsPrecondition(precondition.precondition, value);
+    case "AND":
+      return (precondition.preconditions ?? []).every(p => meetsPrecondition(p, value));
+    case "OR":
+      return (precondition.preconditions ?? []).some(p => meetsPrecondition(p, value));
+    default:
+      return true;
+  }
+};
+
+const emptyValue = (field: FormField): unknown => {
+  if (field.defaultValue !== undefined) {
+    return field.defaultValue;
+  }
+  switch (field.type) {
+    case "boolean":
+      return false;
+    case "integer":
+    case "float":
+      return 0;
+    case "enum":
+      return field.options?.[0]?.value ?? "";
+    case "object":
+      return Object.fromEntries((field.fields ?? []).map(f => [f.key, emptyValue(f)]));
+    case "list":
+      return [];
+    default:
+      return "";
+  }
+};
+
+const setIn = (target: unknown, keys: string[], value: unknown): unknown => {
+  if (keys.length === 0) {
+    return value;
+  }
+  const [key, ...rest] = keys;
+  if (Array.isArray(target)) {
+    return target.map((item, idx) => (String(idx) === key ? setIn(item, rest, value) : item));
+  }
+  const obj = (target ?? {}) as Record<string, unknown>;
+  return { ...obj, [key]: setIn(obj[key], rest, value) };
+};
+
+const FieldInput = ({ field, value, siblings, path, errors, onChange }: FieldProps) => {
+  if (field.precondition && !meetsPrecondition(field.precondition, siblings)) {
+    return null;
+  }
+
+  const label = `${field.displayName}${field.required ? " *" : ""}`;
+  const error = errors[path];
+
+  if (field.type === "object") {
+    const objectValue = (value ?? {}) as Record<string, unknown>;
+    return (
+      <Flex flexDirection='column' gap={8} paddingLeft={16}>
+        <Text textStyle='base-emphasized'>{label}</Text>
+        {field.description && <Text textStyle='small'>{field.description}</Text>}
+        {(field.fields ?? []).map(subField => (
+          <FieldInput
+            key={subField.key}
+            field={subField}
+            value={objectValue[subField.key]}
+            siblings={objectValue}
+            path={`${path}.${subField.key}`}
+            errors={errors}
+            onChange={onChange}
+          />
+        ))}
+      </Flex>
+    );
+  }
+
+  if (field.type === "list" && field.items) {
+    const items = Array.isArray(value) ? (value as unknown[]) : [];
+    const itemField = field.items;
+    return (
+      <Flex flexDirection='column' gap={8}>
+        <Text textStyle='base-emphasized'>{label}</Text>
+        {field.description && <Text textStyle='small'>{field.description}</Text>}
+        {items.map((item, idx) => (
+          <Flex key={idx} alignItems='flex-end' gap={8}>
+            <FieldInput
+              field={{
+                ...itemField,
+                key: String(idx),
+                displayName: `${field.displayName} ${idx + 1}`,
+              }}
+              value={item}
+              siblings={{}}
+              path={`${path}.${idx}`}
+              errors={errors}
+              onChange={onChange}
+            />
+            <Button
+              onClick={() =>
+                onChange(
+                  path,
+                  items.filter((_, i) => i !== idx),
+                )
+              }
+            >
+              Remove
+            </Button>
+          </Flex>
+        ))}
+        <Button onClick={() => onChange(path, [...items, emptyValue(itemField)])}>Add</Button>
+        {error && <Text color='critical'>{error}</Text>}
+      </Flex>
+    );
+  }
+
+  let input: JSX.Element;
+  switch (field.type) {
+    case "secret":
+      input = (
+        <PasswordInput value={String(value ?? "")} onChange={(v: string) => onChange(path, v)} />
+      );
+      break;
+    case "boolean":
+      input = (
+        <Checkbox value={Boolean(value)} onChange={(v: boolean) => onChange(path, v)}>
+          {field.displayName}
+        </Checkbox>
+      );
+      break;
+    case "integer":
+    case "float":
+      input = (
+        <NumberInput
+          value={typeof value === "number" ? value : null}
+          step={field.type === "integer" ? 1 : 0.1}
+          onChange={(v: number | null) => onChange(path, v)}
+        />
+      );
+      break;
+    case "enum":
+      input = (
+        <Select
+          value={value === undefined ? [] : [String(value)]}
+          onChange={(v: string[]) => onChange(path, v[0])}
+        >
+          {(field.options ?? []).map(option => (
+            <SelectOption key={option.value} value={option.value}>
+              {option.displayName}
+            </SelectOption>
+          ))}
+        </Select>
+      );
+      break;
+    default:
+      input = <TextInput value={String(value ?? "")} onChange={(v: string) => onChange(path, v)} />;
+  }
+
+  return (
+    <StratoFormField label={label}>
+      {input}
+      {field.description && <Text textStyle='small'>{field.description}</Text>}
+      {error && <Text color='critical'>{error}</Text>}
+    </StratoFormField>
+  );
+};
+
+export const ConfigurationFormPanel = ({ vscode, data }: ConfigurationFormPanelProps) => {
+  const { extensionName, extensionVersion, fields, scopes } = data;
+  const [value, setValue] = useState<Record<string, unknown>>(data.value);
+  const [scope, setScope] = useState<string>(data.scope);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+
+  // The extension validates submitted configurations and sends back any errors
+  const handleValidationErrors = (event: MessageEvent<ValidationErrorsEvent>) => {
+    if (event.data.messageType === "validationErrors") {
+      setErrors(event.data.data);
+    }
+  };
+
+  useEffect(() => {
+    window.addEventListener("message", handleValidationErrors);
+    return () => {
+      window.removeEventListener("message", handleValidationErrors);
+    };
+  }, []);
+
+  const handleChange = (path: string, newValue: unknown) => {
+    setValue(current => setIn(current, path.split("."), newValue) as Record<string, unknown>);
+    setErrors(current =>
+      Object.fromEntries(Object.entries(current).filter(([errorPath]) => errorPath !== path)),
+    );
+  };
+
+  // Only offer scopes that match where the configuration runs
+  const activationContext = value.activationContext;
+  const scopeOptions = scopes.filter(
+    s => activationContext === undefined || s.activationContext === activationContext,
+  );
+
+  const submit = () => {
+    const missing: Record<string, string> = {};
+    fields.forEach(field => {
+      const fieldValue = value[field.key];
+      const visible = !field.precondition || meetsPrecondition(field.precondition, value);
+      if (
+        visible &&
+        field.required &&
+        (fieldValue === undefined || fieldValue === null || fieldValue === "")
+      ) {
+        missing[field.key] = `${field.displayName} is required`;
+      }
+    });
+    if (scope === "") {
+      missing.scope = "Scope is required";
+    }
+    if (Object.keys(missing).length > 0) {
+      setErrors(missing);
+      return;
+    }
+    vscode.postMessage({ messageType: "submitConfiguration", data: { scope, value } });
+  };
+
+  return (
+    <Flex flexDirection='column' gap={16}>
+      <Heading level={1}>Monitoring configuration</Heading>
+      <Text>
+        {extensionName} version {extensionVersion}
+      </Text>
+      <StratoFormField label='Scope *'>
+        {scopeOptions.length > 0 ? (
+          <Select value={scope ? [scope] : []} onChange={(v: string[]) => setScope(v[0] ?? "")}>
+            {scopeOptions.map(option => (
+              <SelectOption key={option.id} value={option.id}>
+                {option.displayName}
+              </SelectOption>
+            ))}
+          </Select>
+        ) : (
+          <TextInput value={scope} onChange={(v: string) => setScope(v)} />
+        )}
+        {errors.scope && <Text color='critical'>{errors.scope}</Text>}
+      </StratoFormField>
+      {fields.map(field => (
+        <FieldInput
+          key={field.key}
+          field={field}
+          value={value[field.key]}
+          siblings={value}
+          path={field.key}
+          errors={errors}
+          onChange={handleChange}
+        />
+      ))}
+      <Flex gap={8}>
+        <Button variant='emphasized' onClick={submit}>
+          Save configuration
+        </Button>
+        <Button onClick={() => vscode.postMessage({ messageType: "cancel", data: undefined })}>
+          Cancel
+        </Button>
+      </Flex>
+    </Flex>
+  );
+};
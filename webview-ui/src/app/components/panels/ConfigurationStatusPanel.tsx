@@ -0,0 +1,76 @@
+import { DataTable, Flex, Heading, TableColumn, Text } from "@dynatrace/strato-components-preview";
+import React from "react";
+import { ConfigurationStatusHistory } from "src/app/interfaces/configurationStatusPanel";
+
+interface ConfigurationStatusPanelProps {
+  data: ConfigurationStatusHistory[];
+}
+
+const changeColumns: TableColumn[] = [
+  { header: "Time", accessor: "time", autoWidth: true, ratioWidth: 2 },
+  { header: "Status", accessor: "status", autoWidth: true, ratioWidth: 1 },
+  { header: "Version", accessor: "version", autoWidth: true, ratioWidth: 1 },
+];
+
+const statusColor = (status: string) => {
+  switch (status) {
+    case "ERROR":
+      return "critical";
+    case "OK":
+      return "success";
+    default:
+      return "neutral";
+  }
+};
+
+export const ConfigurationStatusPanel = ({ data }: ConfigurationStatusPanelProps) => {
+  // Configurations currently in ERROR come first, then the most recently changed
+  const histories = [...data].sort((a, b) => {
+    const latestA = a.changes[a.changes.length - 1];
+    const latestB = b.changes[b.changes.length - 1];
+    if ((latestA.status === "ERROR") !== (latestB.status === "ERROR")) {
+      return latestA.status === "ERROR" ? -1 : 1;
+    }
+    return latestB.timestamp - latestA.timestamp;
+  });
+
+  return (
+    <Flex flexDirection='column' gap={16}>
+      <Heading level={1}>Configuration status history</Heading>
+      {histories.length === 0 && (
+        <Text>
+          No status changes recorded yet. Statuses are checked in the background for the
+          configurations of this workspace&apos;s extension in all registered environments.
+        </Text>
+      )}
+      {histories.map(history => {
+        const latest = history.changes[history.changes.length - 1];
+        const changes = [...history.changes].reverse().map(change => ({
+          time: new Date(change.timestamp).toLocaleString(),
+          status: change.status,
+          version: change.version,
+        }));
+        return (
+          <Flex
+            key={`${history.environmentId}/${history.configurationId}`}
+            flexDirection='column'
+            paddingTop={20}
+          >
+            <Heading level={3}>{history.description}</Heading>
+            <Flex gap={6}>
+              <Text textStyle='base-emphasized'>Environment:</Text>
+              <Text>{history.environmentName}</Text>
+            </Flex>
+            <Flex gap={6}>
+              <Text textStyle='base-emphasized'>Current status:</Text>
+              <Text color={statusColor(latest.status)}>{latest.status}</Text>
+            </Flex>
+            <DataTable columns={changeColumns} data={changes}>
+              <DataTable.Pagination defaultPageSize={5} />
+            </DataTable>
+          </Flex>
+        );
+      })}
+    </Flex>
+  );
+};
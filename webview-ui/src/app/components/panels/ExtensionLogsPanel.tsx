@@ -0,0 +1,110 @@
+import {
+  DataTable,
+  Flex,
+  FormField,
+  Heading,
+  Select,
+  SelectOption,
+  TableColumn,
+  Text,
+} from "@dynatrace/strato-components-preview";
+import React, { useEffect, useState } from "react";
+import { ExtensionLogEntry, ExtensionLogsData } from "src/app/interfaces/extensionLogsPanel";
+
+interface ExtensionLogsPanelProps {
+  data: ExtensionLogsData;
+}
+
+interface AppendLogsEvent {
+  messageType: string;
+  data: ExtensionLogEntry[];
+}
+
+const LEVELS = ["ERROR", "WARN", "INFO", "NONE"];
+// Keeps the table responsive while tailing for a long time
+const MAX_ENTRIES = 5000;
+
+const logColumns: TableColumn[] = [
+  { header: "Time", accessor: "time", autoWidth: true, ratioWidth: 1 },
+  { header: "Level", accessor: "level", autoWidth: true, ratioWidth: 1 },
+  { header: "ActiveGate / host", accessor: "source", autoWidth: true, ratioWidth: 1 },
+  { header: "Content", accessor: "content", autoWidth: true, ratioWidth: 5 },
+];
+
+export const ExtensionLogsPanel = ({ data }: ExtensionLogsPanelProps) => {
+  const { extensionName, configurationId, title } = data;
+  const [entries, setEntries] = useState<ExtensionLogEntry[]>(data.entries);
+  const [levels, setLevels] = useState<string[]>(LEVELS);
+  const [sources, setSources] = useState<string[]>([]);
+
+  // New log records are sent by the extension while the panel is open
+  const handleAppendLogs = (event: MessageEvent<AppendLogsEvent>) => {
+    if (event.data.messageType === "appendLogs") {
+      setEntries(current => [...current, ...event.data.data].slice(-MAX_ENTRIES));
+    }
+  };
+
+  useEffect(() => {
+    window.addEventListener("message", handleAppendLogs);
+    return () => {
+      window.removeEventListener("message", handleAppendLogs);
+    };
+  }, []);
+
+  const allSources = [...new Set(entries.map(entry => entry.source))].sort();
+  // Newest records first
+  const rows = entries
+    .filter(
+      entry =>
+        levels.includes(entry.level) && (sources.length === 0 || sources.includes(entry.source)),
+    )
+    .reverse()
+    .map(entry => ({ ...entry, time: new Date(entry.timestamp).toLocaleString() }));
+
+  return (
+    <Flex flexDirection='column' gap={16}>
+      <Heading level={1}>Extension logs: {title}</Heading>
+      <Flex flexDirection='column' paddingTop={20}>
+        <Flex gap={6}>
+          <Text textStyle='base-emphasized'>Extension:</Text>
+          <Text>{extensionName}</Text>
+        </Flex>
+        {configurationId && (
+          <Flex gap={6}>
+            <Text textStyle='base-emphasized'>Configuration:</Text>
+            <Text>{configurationId}</Text>
+          </Flex>
+        )}
+        <Flex gap={6}>
+          <Text textStyle='base-emphasized'>Records:</Text>
+          <Text>
+            {rows.length} of {entries.length} (new records are added as they arrive)
+          </Text>
+        </Flex>
+      </Flex>
+      <Flex gap={16}>
+        <FormField label='Level'>
+          <Select multiple value={levels} onChange={(v: string[]) => setLevels(v)}>
+            {LEVELS.map(level => (
+              <SelectOption key={level} value={level}>
+                {level}
+              </SelectOption>
+            ))}
+          </Select>
+        </FormField>
+        <FormField label='ActiveGate / host'>
+          <Select multiple value={sources} onChange={(v: string[]) => setSources(v)}>
+            {allSources.map(source => (
+              <SelectOption key={source} value={source}>
+                {source}
+              </SelectOption>
+            ))}
+          </Select>
+        </FormField>
+      </Flex>
+      <DataTable columns={logColumns} data={rows}>
+        <DataTable.Pagination defaultPageSize={25} />
+      </DataTable>
+    </Flex>
+  );
+};
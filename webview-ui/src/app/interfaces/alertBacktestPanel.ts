@@ -0,0 +1,21 @@
+export interface BacktestEvent {
+  start: number;
+  end?: number;
+}
+
+export interface BacktestSeries {
+  name: string;
+  timestamps: number[];
+  values: (number | null)[];
+  lower: (number | null)[];
+  upper: (number | null)[];
+  events: BacktestEvent[];
+}
+
+export interface BacktestResult {
+  alertName: string;
+  metricSelector: string;
+  strategy: string;
+  eventCount: number;
+  series: BacktestSeries[];
+}
@@ -0,0 +1,52 @@
+export type FormFieldType =
+  | "text"
+  | "secret"
+  | "boolean"
+  | "integer"
+  | "float"
+  | "time"
+  | "enum"
+  | "object"
+  | "list";
+
+export interface FormPrecondition {
+  type: "EQUALS" | "IN" | "NULL" | "NOT" | "AND" | "OR";
+  property?: string;
+  expectedValue?: unknown;
+  expectedValues?: unknown[];
+  precondition?: FormPrecondition;
+  preconditions?: FormPrecondition[];
+}
+
+export interface FormOption {
+  value: string;
+  displayName: string;
+}
+
+export interface FormField {
+  key: string;
+  displayName: string;
+  description?: string;
+  type: FormFieldType;
+  required: boolean;
+  defaultValue?: unknown;
+  options?: FormOption[];
+  fields?: FormField[];
+  items?: FormField;
+  precondition?: FormPrecondition;
+}
+
+export interface ScopeOption {
+  id: string;
+  displayName: string;
+  activationContext: "LOCAL" | "REMOTE";
+}
+
+export interface ConfigurationFormData {
+  extensionName: string;
+  extensionVersion: string;
+  fields: FormField[];
+  value: Record<string, unknown>;
+  scope: string;
+  scopes: ScopeOption[];
+}
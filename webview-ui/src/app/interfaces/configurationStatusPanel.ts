@@ -0,0 +1,14 @@
+export interface StatusChange {
+  status: string;
+  version: string;
+  timestamp: number;
+}
+
+export interface ConfigurationStatusHistory {
+  environmentId: string;
+  environmentName: string;
+  extensionName: string;
+  configurationId: string;
+  description: string;
+  changes: StatusChange[];
+}
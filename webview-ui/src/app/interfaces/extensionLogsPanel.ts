@@ -0,0 +1,13 @@
+export interface ExtensionLogEntry {
+  timestamp: number;
+  level: string;
+  content: string;
+  source: string;
+}
+
+export interface ExtensionLogsData {
+  extensionName: string;
+  configurationId?: string;
+  title: string;
+  entries: ExtensionLogEntry[];
+}